@@ -32,6 +32,7 @@ import EmployeeAdvanceRequests from "./pages/employee/AdvanceRequests";
 import AdminDashboard from "./pages/admin/Dashboard";
 import AdminEmployees from "./pages/admin/Employees";
 import AdminSites from "./pages/admin/Sites";
+import AdminSiteKiosk from "./pages/admin/SiteKiosk";
 import AdminLeaves from "./pages/admin/Leaves";
 import AdminLedger from "./pages/admin/Ledger";
 import AdminNotifications from "./pages/admin/Notifications";
@@ -40,6 +41,19 @@ import AdminComplaints from "./pages/admin/Complaints";
 import AdminHolidays from "./pages/admin/Holidays";
 import AdminAdvanceRequests from "./pages/admin/AdvanceRequests";
 import AdminAttendanceHistory from "./pages/admin/AttendanceHistory"; // ✅
+import AdminAttendancePolicies from "./pages/admin/AttendancePolicies";
+import AdminRegularizations from "./pages/admin/Regularizations";
+import AdminLiveAttendance from "./pages/admin/LiveAttendance";
+import AdminPermissions from "./pages/admin/Permissions";
+import AdminLeaveTypes from "./pages/admin/LeaveTypes";
+import AdminLeaveCalendar from "./pages/admin/LeaveCalendar";
+import AdminPayroll from "./pages/admin/Payroll";
+
+// ================= SUPERVISOR =================
+import SupervisorDashboard from "./pages/supervisor/Dashboard";
+import SupervisorCrew from "./pages/supervisor/Crew";
+import SupervisorLeaves from "./pages/supervisor/Leaves";
+import SupervisorBulkAttendance from "./pages/supervisor/BulkAttendance";
 
 const queryClient = new QueryClient();
 
@@ -79,47 +93,48 @@ const App = () => (
             {/* ========== PUBLIC ========== */}
             <Route path="/" element={<Splash />} />
             <Route path="/auth" element={<Auth />} />
+            <Route path="/kiosk/:kioskToken" element={<AdminSiteKiosk />} />
 
             {/* ========== EMPLOYEE ========== */}
             <Route
               path="/employee/dashboard"
-              element={<ProtectedRoute allowedRoles={["employee"]}><EmployeeDashboard /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["employee", "supervisor"]}><EmployeeDashboard /></ProtectedRoute>}
             />
             <Route
               path="/employee/attendance"
-              element={<ProtectedRoute allowedRoles={["employee"]}><EmployeeAttendance /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["employee", "supervisor"]}><EmployeeAttendance /></ProtectedRoute>}
             />
             <Route
               path="/employee/attendance/scan"
-              element={<ProtectedRoute allowedRoles={["employee"]}><EmployeeAttendanceScan /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["employee", "supervisor"]}><EmployeeAttendanceScan /></ProtectedRoute>}
             />
             <Route
               path="/employee/attendance-history"
-              element={<ProtectedRoute allowedRoles={["employee"]}><EmployeeAttendanceHistory /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["employee", "supervisor"]}><EmployeeAttendanceHistory /></ProtectedRoute>}
             />
             <Route
               path="/employee/leaves"
-              element={<ProtectedRoute allowedRoles={["employee"]}><EmployeeLeaves /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["employee", "supervisor"]}><EmployeeLeaves /></ProtectedRoute>}
             />
             <Route
               path="/employee/ledger"
-              element={<ProtectedRoute allowedRoles={["employee"]}><EmployeeLedger /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["employee", "supervisor"]}><EmployeeLedger /></ProtectedRoute>}
             />
             <Route
               path="/employee/advance-requests"
-              element={<ProtectedRoute allowedRoles={["employee"]}><EmployeeAdvanceRequests /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["employee", "supervisor"]}><EmployeeAdvanceRequests /></ProtectedRoute>}
             />
             <Route
               path="/employee/complaints"
-              element={<ProtectedRoute allowedRoles={["employee"]}><EmployeeComplaints /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["employee", "supervisor"]}><EmployeeComplaints /></ProtectedRoute>}
             />
             <Route
               path="/employee/notifications"
-              element={<ProtectedRoute allowedRoles={["employee"]}><EmployeeNotifications /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["employee", "supervisor"]}><EmployeeNotifications /></ProtectedRoute>}
             />
             <Route
               path="/employee/profile"
-              element={<ProtectedRoute allowedRoles={["employee"]}><EmployeeProfile /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["employee", "supervisor"]}><EmployeeProfile /></ProtectedRoute>}
             />
 
             {/* ========== ADMIN ========== */}
@@ -138,34 +153,96 @@ const App = () => (
               element={<ProtectedRoute allowedRoles={["admin"]}><AdminAttendanceHistory /></ProtectedRoute>}
             />
 
+            <Route
+              path="/admin/attendance-policies"
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="attendance.manage"><AdminAttendancePolicies /></ProtectedRoute>}
+            />
+
+            <Route
+              path="/admin/live-attendance"
+              element={<ProtectedRoute allowedRoles={["admin"]}><AdminLiveAttendance /></ProtectedRoute>}
+            />
+
+            <Route
+              path="/admin/regularizations"
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="attendance.manage"><AdminRegularizations /></ProtectedRoute>}
+            />
+
             <Route
               path="/admin/sites"
-              element={<ProtectedRoute allowedRoles={["admin"]}><AdminSites /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="sites.manage"><AdminSites /></ProtectedRoute>}
+            />
+            <Route
+              path="/admin/sites/:siteId/kiosk"
+              element={<ProtectedRoute allowedRoles={["admin"]}><AdminSiteKiosk /></ProtectedRoute>}
             />
             <Route
               path="/admin/leaves"
-              element={<ProtectedRoute allowedRoles={["admin"]}><AdminLeaves /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="leaves.manage"><AdminLeaves /></ProtectedRoute>}
+            />
+            <Route
+              path="/admin/leave-types"
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="leaves.manage"><AdminLeaveTypes /></ProtectedRoute>}
+            />
+            <Route
+              path="/admin/leave-calendar"
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="leaves.manage"><AdminLeaveCalendar /></ProtectedRoute>}
             />
             <Route
               path="/admin/holidays"
-              element={<ProtectedRoute allowedRoles={["admin"]}><AdminHolidays /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="holidays.manage"><AdminHolidays /></ProtectedRoute>}
             />
             <Route
               path="/admin/ledger"
-              element={<ProtectedRoute allowedRoles={["admin"]}><AdminLedger /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="ledger.manage"><AdminLedger /></ProtectedRoute>}
+            />
+            <Route
+              path="/admin/payroll"
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="ledger.manage"><AdminPayroll /></ProtectedRoute>}
             />
             <Route
               path="/admin/advance-requests"
-              element={<ProtectedRoute allowedRoles={["admin"]}><AdminAdvanceRequests /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="advances.manage"><AdminAdvanceRequests /></ProtectedRoute>}
             />
             <Route
               path="/admin/notifications"
               element={<ProtectedRoute allowedRoles={["admin"]}><AdminNotifications /></ProtectedRoute>}
             />
+            <Route
+              path="/admin/permissions"
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="permissions.manage"><AdminPermissions /></ProtectedRoute>}
+            />
             <Route
               path="/admin/complaints"
-              element={<ProtectedRoute allowedRoles={["admin"]}><AdminComplaints /></ProtectedRoute>}
+              element={<ProtectedRoute allowedRoles={["admin"]} permission="complaints.manage"><AdminComplaints /></ProtectedRoute>}
             />
+
+            {/* ========== SUPERVISOR ========== */}
+            <Route
+              path="/supervisor/dashboard"
+              element={<ProtectedRoute allowedRoles={["supervisor"]}><SupervisorDashboard /></ProtectedRoute>}
+            />
+            <Route
+              path="/supervisor/crew"
+              element={<ProtectedRoute allowedRoles={["supervisor"]}><SupervisorCrew /></ProtectedRoute>}
+            />
+            <Route
+              path="/supervisor/leaves"
+              element={<ProtectedRoute allowedRoles={["supervisor"]}><SupervisorLeaves /></ProtectedRoute>}
+            />
+            <Route
+              path="/supervisor/regularizations"
+              element={<ProtectedRoute allowedRoles={["supervisor"]}><AdminRegularizations /></ProtectedRoute>}
+            />
+            <Route
+              path="/supervisor/attendance-history/:employeeId"
+              element={<ProtectedRoute allowedRoles={["supervisor"]}><AdminAttendanceHistory /></ProtectedRoute>}
+            />
+            <Route
+              path="/supervisor/bulk-attendance"
+              element={<ProtectedRoute allowedRoles={["supervisor", "admin"]} permission="attendance.manage"><SupervisorBulkAttendance /></ProtectedRoute>}
+            />
+
             {/* ========== FALLBACK ========== */}
             <Route path="*" element={<NotFound />} />
           </Routes>
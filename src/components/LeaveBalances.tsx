@@ -0,0 +1,40 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CalendarCheck } from 'lucide-react';
+import type { LeaveBalance } from '@/hooks/use-leave-balances';
+import { formatLeaveDays } from '@/lib/leaves';
+
+interface LeaveBalancesProps {
+  balances: LeaveBalance[];
+}
+
+// Available days per leave type, with what is used and awaiting approval
+const LeaveBalances = ({ balances }: LeaveBalancesProps) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardTitle className="flex items-center gap-2 text-base">
+        <CalendarCheck className="h-5 w-5" />
+        Leave Balance
+      </CardTitle>
+    </CardHeader>
+
+    <CardContent className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      {balances.map((b) => (
+        <div key={b.leave_type} className="p-3 bg-muted/50 rounded-lg">
+          <p className="text-xs text-muted-foreground">{b.name}</p>
+          {b.is_paid ? (
+            <p className="text-xl font-semibold">{Number(b.available)}</p>
+          ) : (
+            <Badge variant="outline" className="mt-1">Unpaid</Badge>
+          )}
+          <p className="text-xs text-muted-foreground mt-1">
+            Used {formatLeaveDays(b.used)}
+            {Number(b.pending) > 0 && ` · ${formatLeaveDays(b.pending)} pending`}
+          </p>
+        </div>
+      ))}
+    </CardContent>
+  </Card>
+);
+
+export default LeaveBalances;
@@ -0,0 +1,50 @@
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import { formatLeaveDays, sumLeaveCost, type LeaveCostDay } from '@/lib/leaves';
+
+interface LeaveCostBreakdownProps {
+  days: LeaveCostDay[];
+}
+
+// Day-by-day result of preview_leave_cost with the totals underneath
+const LeaveCostBreakdown = ({ days }: LeaveCostBreakdownProps) => {
+  const { workingDays, unpaidDays, deduction } = sumLeaveCost(days);
+
+  return (
+    <div className="text-sm space-y-2">
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {days.map((d) => (
+          <div key={d.day} className="flex items-center justify-between gap-2">
+            <span>{format(new Date(`${d.day}T00:00:00`), 'EEE, d MMM')}</span>
+            {d.non_working_reason ? (
+              <Badge variant="outline">{d.non_working_reason}</Badge>
+            ) : d.is_paid ? (
+              <Badge className="bg-green-500">
+                Paid{Number(d.units) < 1 && ' · half'}
+              </Badge>
+            ) : (
+              <Badge variant="destructive">
+                Unpaid{Number(d.units) < 1 && ' · half'} · ₹
+                {Number(d.amount).toLocaleString('en-IN')}
+              </Badge>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t pt-2 space-y-1">
+        <p>
+          Leave: <strong>{formatLeaveDays(workingDays)}</strong>
+        </p>
+        {unpaidDays > 0 && (
+          <p className="text-destructive">
+            Unpaid: <strong>{formatLeaveDays(unpaidDays)}</strong> · ₹
+            {deduction.toLocaleString('en-IN')} deducted
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LeaveCostBreakdown;
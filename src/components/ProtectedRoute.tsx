@@ -1,13 +1,16 @@
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import type { PermissionKey } from '@/hooks/use-permission';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   allowedRoles?: string[];
+  // Required of admins only; supervisors sharing a route are unaffected
+  permission?: PermissionKey;
 }
 
-const ProtectedRoute = ({ children, allowedRoles }: ProtectedRouteProps) => {
-  const { user, role, loading } = useAuth();
+const ProtectedRoute = ({ children, allowedRoles, permission }: ProtectedRouteProps) => {
+  const { user, role, permissions, loading } = useAuth();
 
   // ⏳ Wait for auth once
   if (loading) {
@@ -28,6 +31,21 @@ const ProtectedRoute = ({ children, allowedRoles }: ProtectedRouteProps) => {
     return <Navigate to="/" replace />;
   }
 
+  // 🔑 Admin permission
+  if (permission && role === 'admin') {
+    if (!permissions) {
+      return (
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+        </div>
+      );
+    }
+
+    if (!permissions.includes(permission)) {
+      return <Navigate to="/admin/dashboard" replace />;
+    }
+  }
+
   // ✅ Allowed
   return <>{children}</>;
 };
@@ -9,12 +9,14 @@ import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 
-type Role = 'admin' | 'employee';
+type Role = 'admin' | 'supervisor' | 'employee';
 
 type AuthContextType = {
   user: User | null;
   session: Session | null;
   role: Role;
+  // Admin permission keys; null until loaded
+  permissions: string[] | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
@@ -26,6 +28,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [role, setRole] = useState<Role>('employee'); // ✅ DEFAULT
+  const [permissions, setPermissions] = useState<string[] | null>(null);
   const [loading, setLoading] = useState(true);
 
   /* ================= INIT ================= */
@@ -57,6 +60,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         setSession(session ?? null);
         setUser(user);
         setRole('employee'); // reset safely
+        setPermissions(null);
 
         if (user) fetchRoleAsync(user.id);
       }
@@ -78,11 +82,19 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         .eq('auth_uid', uid)
         .maybeSingle();
 
+      if (data?.role === 'admin' || data?.role === 'supervisor') {
+        setRole(data.role);
+      }
+
       if (data?.role === 'admin') {
-        setRole('admin');
+        const { data: keys } = await supabase.rpc('my_permissions');
+        setPermissions(keys ?? []);
+      } else {
+        setPermissions([]);
       }
     } catch (err) {
       console.warn('Role fetch failed → employee fallback');
+      setPermissions([]);
     }
   };
 
@@ -98,11 +110,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     setUser(null);
     setSession(null);
     setRole('employee');
+    setPermissions(null);
   };
 
   return (
     <AuthContext.Provider
-      value={{ user, session, role, loading, signIn, signOut }}
+      value={{ user, session, role, permissions, loading, signIn, signOut }}
     >
       {children}
     </AuthContext.Provider>
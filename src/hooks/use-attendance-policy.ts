@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_POLICY_RULES,
+  fetchAttendancePolicy,
+  type AttendancePolicyRules,
+} from "@/lib/attendancePolicy";
+
+// Effective attendance policy for an employee. Starts from the defaults so
+// callers can render immediately.
+export function useAttendancePolicy(empUserId: string | null | undefined) {
+  const [policy, setPolicy] =
+    useState<AttendancePolicyRules>(DEFAULT_POLICY_RULES);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!empUserId) return;
+
+    let cancelled = false;
+
+    fetchAttendancePolicy(empUserId)
+      .then((next) => {
+        if (cancelled) return;
+        setPolicy(next);
+        setLoaded(true);
+      })
+      .catch(() => {
+        if (!cancelled) setLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [empUserId]);
+
+  return { policy, loaded };
+}
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type LeaveBalance =
+  Database["public"]["Functions"]["get_leave_balances"]["Returns"][number];
+
+// This year's balance per active leave type. `refresh` is for callers that
+// change leaves themselves.
+export function useLeaveBalances(empUserId: string | null | undefined) {
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!empUserId) return;
+
+    const { data } = await supabase.rpc("get_leave_balances", {
+      p_emp_user_id: empUserId,
+    });
+
+    setBalances(data ?? []);
+    setLoaded(true);
+  }, [empUserId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { balances, loaded, refresh };
+}
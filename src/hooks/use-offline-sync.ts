@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import { describeAttendanceError } from "@/lib/attendance";
+import {
+  QUEUE_CHANGED_EVENT,
+  listQueuedScans,
+  refreshScanNonces,
+  syncQueuedScans,
+  type QueuedScan,
+} from "@/lib/offlineQueue";
+
+// Offline scans waiting for this employee. Syncs on mount and whenever the
+// browser comes back online, then tops up the nonces later offline scans need.
+export function useOfflineSync(userId: string | null | undefined) {
+  const [queued, setQueued] = useState<QueuedScan[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setQueued(await listQueuedScans(userId));
+    } catch {
+      // IndexedDB unavailable (private mode); nothing can be queued anyway
+    }
+  }, [userId]);
+
+  const syncNow = useCallback(async () => {
+    if (!userId || syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    try {
+      const { synced, failed } = await syncQueuedScans(userId);
+
+      if (synced > 0) {
+        toast({
+          title: "Offline Scans Synced",
+          description: `${synced} scan${synced > 1 ? "s" : ""} recorded`,
+        });
+      }
+
+      failed.forEach(({ scan, code }) =>
+        toast({
+          title:
+            scan.kind === "checkin"
+              ? "Offline Check-In Rejected"
+              : "Offline Check-Out Rejected",
+          description: describeAttendanceError(code),
+          variant: "destructive",
+        })
+      );
+
+      await refreshScanNonces(userId);
+    } catch {
+      // stays queued for the next attempt
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+    syncNow();
+
+    window.addEventListener("online", syncNow);
+    window.addEventListener(QUEUE_CHANGED_EVENT, refresh);
+
+    return () => {
+      window.removeEventListener("online", syncNow);
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refresh);
+    };
+  }, [refresh, syncNow]);
+
+  return { queued, syncing, syncNow };
+}
@@ -0,0 +1,32 @@
+import { useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+
+// Keys from the `permissions` table. The server checks the same keys, so
+// hiding a screen or action here is only a convenience.
+export type PermissionKey =
+  | "employees.manage"
+  | "employees.pay"
+  | "employees.delete"
+  | "sites.manage"
+  | "attendance.manage"
+  | "leaves.manage"
+  | "holidays.manage"
+  | "advances.manage"
+  | "ledger.manage"
+  | "complaints.manage"
+  | "announcements.manage"
+  | "permissions.manage";
+
+// Checker for several keys at once, e.g. to filter a menu
+export function usePermissions() {
+  const { role, permissions } = useAuth();
+
+  return useCallback(
+    (key: PermissionKey) => role === "admin" && !!permissions?.includes(key),
+    [role, permissions]
+  );
+}
+
+export function usePermission(key: PermissionKey) {
+  return usePermissions()(key);
+}
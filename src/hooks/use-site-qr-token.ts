@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import {
+  fetchKioskQrToken,
+  fetchSiteQrToken,
+  type KioskQrToken,
+  type SiteQrToken,
+} from "@/lib/siteQr";
+
+// Keeps a live signed QR, refetching as each window expires.
+function useRotatingQr<T extends SiteQrToken>(
+  key: string | null | undefined,
+  fetchToken: (key: string) => Promise<T>
+) {
+  const [token, setToken] = useState<T | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setToken(null);
+    if (!key) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      try {
+        const next = await fetchToken(key);
+        if (cancelled) return;
+        setToken(next);
+        setError(null);
+        timer = setTimeout(
+          load,
+          Math.max(1000, next.expiresAt.getTime() - Date.now())
+        );
+      } catch (err) {
+        if (cancelled) return;
+        setError((err as Error).message);
+        timer = setTimeout(load, 5000);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [key, fetchToken]);
+
+  useEffect(() => {
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, []);
+
+  const secondsLeft = token
+    ? Math.max(0, Math.ceil((token.expiresAt.getTime() - now) / 1000))
+    : 0;
+
+  return { token, error, secondsLeft };
+}
+
+// For a signed-in site manager.
+export function useSiteQrToken(siteId: string | null | undefined) {
+  return useRotatingQr(siteId, fetchSiteQrToken);
+}
+
+// For a kiosk tablet holding only its kiosk link.
+export function useKioskQrToken(kioskToken: string | null | undefined) {
+  return useRotatingQr<KioskQrToken>(kioskToken, fetchKioskQrToken);
+}
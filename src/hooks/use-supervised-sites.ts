@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+
+export interface SupervisedSite {
+  id: string;
+  name: string;
+}
+
+// Sites the signed-in user can manage a crew for: every active site for
+// admins, the assigned ones for supervisors.
+export function useSupervisedSites() {
+  const { user, role } = useAuth();
+  const [sites, setSites] = useState<SupervisedSite[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+
+    const fetchSites = async () => {
+      let next: SupervisedSite[];
+
+      if (role === "admin") {
+        const { data } = await supabase
+          .from("sites")
+          .select("id, name")
+          .eq("is_active", true)
+          .order("name");
+        next = data ?? [];
+      } else {
+        const { data } = await supabase
+          .from("site_supervisors")
+          .select("site_id, sites(name)")
+          .eq("user_id", user.id);
+        next = (data ?? []).map((s) => ({
+          id: s.site_id,
+          name: s.sites?.name ?? "—",
+        }));
+      }
+
+      if (cancelled) return;
+      setSites(next);
+      setLoaded(true);
+    };
+
+    fetchSites();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, role]);
+
+  return { sites, loaded };
+}
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react";
+import { addYears, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+// Working days from today to a year ahead, for marking leave pickers.
+// Days outside that window are treated as working.
+export function useWorkingDays() {
+  const [workingDays, setWorkingDays] = useState<Set<string> | null>(null);
+  const [windowEnd] = useState(() => format(addYears(new Date(), 1), "yyyy-MM-dd"));
+
+  useEffect(() => {
+    supabase
+      .rpc("get_working_days_between", {
+        p_start_date: format(new Date(), "yyyy-MM-dd"),
+        p_end_date: windowEnd,
+      })
+      .then(({ data }) => setWorkingDays(new Set(data ?? [])));
+  }, [windowEnd]);
+
+  const isNonWorkingDay = useCallback(
+    (date: Date) => {
+      const day = format(date, "yyyy-MM-dd");
+      if (!workingDays || day < format(new Date(), "yyyy-MM-dd") || day > windowEnd) {
+        return false;
+      }
+      return !workingDays.has(day);
+    },
+    [workingDays, windowEnd]
+  );
+
+  return { isNonWorkingDay, loaded: workingDays !== null };
+}
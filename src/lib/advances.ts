@@ -0,0 +1,41 @@
+import { format } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+
+/* ===================== TYPES ===================== */
+
+// An approved advance with what has been recovered so far
+export type AdvanceBalance =
+  Database["public"]["Functions"]["get_advance_balances"]["Returns"][number];
+
+// Where an employee stands against advance_policy
+export type AdvanceEligibility =
+  Database["public"]["Functions"]["get_advance_eligibility"]["Returns"][number];
+
+export type RepaymentMode = "instalments" | "monthly";
+
+/* ===================== HELPERS ===================== */
+
+export const formatRupees = (n: number) =>
+  `₹${Number(n).toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+export const formatRecoveryPlan = (
+  monthlyAmount: number | null,
+  instalments: number | null,
+  recoveryStart: string | null
+) => {
+  if (!monthlyAmount) return "";
+
+  const from = recoveryStart
+    ? ` from ${format(new Date(`${recoveryStart}T00:00:00`), "MMM yyyy")}`
+    : "";
+
+  return `${formatRupees(monthlyAmount)}/month × ${instalments ?? 1}${from}`;
+};
+
+// Months of recovery a plan takes, for the approval preview
+export const countInstalments = (amount: number, monthlyAmount: number) =>
+  monthlyAmount > 0 ? Math.ceil(amount / monthlyAmount) : 0;
+
+// Rounded up to the paisa, as approve_advance does
+export const instalmentAmount = (amount: number, instalments: number) =>
+  instalments > 0 ? Math.ceil((amount * 100) / instalments) / 100 : 0;
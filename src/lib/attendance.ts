@@ -0,0 +1,113 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { DeviceLocation } from "@/lib/geo";
+import type { SiteQrPayload } from "@/lib/siteQr";
+
+/* ===================== TYPES ===================== */
+
+export type AttendanceRow = Tables<"attendance">;
+
+// Shape returned by the perform_* and *_with_site_qr attendance RPCs.
+export type AttendanceResult =
+  | { ok: true; attendance: AttendanceRow }
+  | { ok: false; code: string };
+
+/* ===================== RPC ===================== */
+
+// supabase-js reports a failed fetch as an error rather than throwing
+export const isNetworkFailure = (message: string) =>
+  !navigator.onLine || /failed to fetch|networkerror|load failed/i.test(message);
+
+const toResult = (data: unknown, error: { message: string } | null) => {
+  if (error) {
+    const code = isNetworkFailure(error.message) ? "NETWORK_ERROR" : error.message;
+    return { ok: false, code } as AttendanceResult;
+  }
+  return data as AttendanceResult;
+};
+
+export const checkInManually = async (
+  siteId: string,
+  location: DeviceLocation | null
+) => {
+  const { data, error } = await supabase.rpc("perform_checkin", {
+    p_site_id: siteId,
+    p_lat: location?.lat,
+    p_lng: location?.lng,
+    p_accuracy: location?.accuracy,
+  });
+  return toResult(data, error);
+};
+
+export const checkInWithQr = async (
+  payload: SiteQrPayload,
+  location: DeviceLocation | null
+) => {
+  const { data, error } = await supabase.rpc("check_in_with_site_qr", {
+    p_site_id: payload.site_id,
+    p_window: payload.w,
+    p_signature: payload.sig,
+    p_lat: location?.lat,
+    p_lng: location?.lng,
+    p_accuracy: location?.accuracy,
+  });
+  return toResult(data, error);
+};
+
+export const checkOutWithQr = async (
+  payload: SiteQrPayload,
+  remarks: string
+) => {
+  const { data, error } = await supabase.rpc("check_out_with_site_qr", {
+    p_site_id: payload.site_id,
+    p_window: payload.w,
+    p_signature: payload.sig,
+    p_remarks: remarks,
+  });
+  return toResult(data, error);
+};
+
+export const checkOut = async (remarks: string) => {
+  const { data, error } = await supabase.rpc("perform_checkout", {
+    p_remarks: remarks,
+  });
+  return toResult(data, error);
+};
+
+const ATTENDANCE_TYPE_LABELS: Record<string, string> = {
+  full: "Full Day",
+  half: "Half Day",
+  absent: "Below Half Day",
+};
+
+export const describeAttendanceType = (type: string | null) =>
+  (type && ATTENDANCE_TYPE_LABELS[type]) ?? "—";
+
+/* ===================== ERRORS ===================== */
+
+const ATTENDANCE_ERROR_MESSAGES: Record<string, string> = {
+  NOT_AUTHENTICATED: "Please sign in again",
+  NOT_EMPLOYEE: "Your employee record is inactive. Contact the admin",
+  SITE_INACTIVE: "This site is no longer active",
+  AFTER_CUTOFF: "Check-in is closed for today. You are marked absent",
+  ALREADY_CHECKED_IN: "You have already checked in today",
+  QR_REQUIRED: "Scan the site QR code to check in or out",
+  NOT_CHECKED_IN: "You have not checked in today",
+  ALREADY_CHECKED_OUT: "You have already checked out today",
+  SITE_MISMATCH: "Scan the QR code of the site you checked in at",
+  QR_INVALID: "This QR code is not a valid site code",
+  QR_EXPIRED: "This QR code has expired. Scan the live code at the site",
+  LOCATION_REQUIRED: "Allow location access to check in at this site",
+  OUTSIDE_GEOFENCE: "You are too far from the site to check in",
+  OFFLINE_EXPIRED: "This offline scan is too old to sync. Request a correction instead",
+  OFFLINE_UNVERIFIED: "This offline scan was not saved on this device. Request a correction instead",
+  OFFLINE_CLOCK: "Your phone's clock was wrong when you scanned. Request a correction instead",
+  NETWORK_ERROR: "No connection. Try again when you are back online",
+  NOT_IN_CREW: "Not an active employee of this site",
+  CHECKIN_REQUIRED: "Enter a check-in time",
+  IN_FUTURE: "Times cannot be in the future",
+  INVALID_TIMES: "Check-out must be after check-in",
+};
+
+export const describeAttendanceError = (code: string) =>
+  ATTENDANCE_ERROR_MESSAGES[code] ?? code;
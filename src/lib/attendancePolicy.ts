@@ -0,0 +1,131 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/* ===================== TYPES ===================== */
+
+export type AttendancePolicy = Tables<"attendance_policies">;
+
+export type AttendancePolicyRules = Pick<
+  AttendancePolicy,
+  | "checkin_cutoff"
+  | "late_grace_minutes"
+  | "full_day_min_hours"
+  | "half_day_min_hours"
+  | "paid_leaves_per_month"
+  | "timezone"
+  | "shift_start"
+  | "shift_end"
+  | "late_marks_per_penalty"
+  | "late_penalty_days"
+  | "standard_shift_hours"
+  | "overtime_multiplier"
+>;
+
+// Mirrors the column defaults of the seeded default row. Used only until the
+// real policy has loaded; the server always decides with its own copy.
+export const DEFAULT_POLICY_RULES: AttendancePolicyRules = {
+  checkin_cutoff: "14:00:00",
+  late_grace_minutes: 0,
+  full_day_min_hours: 8,
+  half_day_min_hours: 4,
+  paid_leaves_per_month: 2,
+  timezone: "Asia/Kolkata",
+  shift_start: null,
+  shift_end: null,
+  late_marks_per_penalty: null,
+  late_penalty_days: 0.5,
+  standard_shift_hours: 8,
+  overtime_multiplier: 1.5,
+};
+
+/* ===================== FETCH ===================== */
+
+// Employee > site > default, resolved server-side.
+export const fetchAttendancePolicy = async (
+  empUserId: string,
+  siteId?: string
+): Promise<AttendancePolicyRules> => {
+  const { data, error } = await supabase.rpc("effective_attendance_policy", {
+    p_emp_user_id: empUserId,
+    p_site_id: siteId,
+  });
+
+  if (error) throw error;
+  return data ?? DEFAULT_POLICY_RULES;
+};
+
+/* ===================== TIME ===================== */
+
+// Calendar day in the policy's timezone, as YYYY-MM-DD.
+export const getPolicyDay = (policy: AttendancePolicyRules, at = new Date()) =>
+  at.toLocaleDateString("en-CA", { timeZone: policy.timezone });
+
+// Wall-clock seconds since midnight in the policy's timezone.
+const secondsInZone = (timeZone: string, at: Date) => {
+  const [h, m, sec] = at
+    .toLocaleTimeString("en-GB", { timeZone, hour12: false })
+    .split(":")
+    .map(Number);
+  return (h % 24) * 3600 + m * 60 + sec;
+};
+
+// "10:30" or "10:30:15" -> seconds since midnight
+const timeToSeconds = (time: string) => {
+  const [h, m, sec = 0] = time.split(":").map(Number);
+  return h * 3600 + m * 60 + sec;
+};
+
+// Compared to the second, as the server compares its time values, so the
+// button does not stay open for a minute after check-in is refused.
+export const isAfterCutoff = (policy: AttendancePolicyRules, at = new Date()) =>
+  secondsInZone(policy.timezone, at) > timeToSeconds(policy.checkin_cutoff);
+
+// "14:00:00" -> "2:00 PM"
+export const formatPolicyTime = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  const suffix = h >= 12 ? "PM" : "AM";
+  return `${h % 12 || 12}:${String(m).padStart(2, "0")} ${suffix}`;
+};
+
+// 75 -> "1h 15m"
+export const formatMinutes = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h ? `${h}h ${m}m` : `${m}m`;
+};
+
+// Wall-clock day + time in the policy's timezone -> ISO instant.
+// "2026-10-18", "09:30" in Asia/Kolkata -> "2026-10-18T04:00:00.000Z"
+export const zonedTimeToIso = (day: string, time: string, timeZone: string) => {
+  const [y, mo, d] = day.split("-").map(Number);
+  const [h, mi] = time.split(":").map(Number);
+  const asUtc = Date.UTC(y, mo - 1, d, h, mi);
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+      .formatToParts(new Date(asUtc))
+      .map((p) => [p.type, Number(p.value)])
+  );
+  const zoneWall = Date.UTC(
+    parts.year, parts.month - 1, parts.day, parts.hour, parts.minute
+  );
+
+  return new Date(asUtc - (zoneWall - asUtc)).toISOString();
+};
+
+// ISO instant -> wall-clock "HH:mm" in the policy's timezone, for time inputs.
+export const isoToZonedTime = (iso: string, timeZone: string) =>
+  new Date(iso).toLocaleTimeString("en-GB", {
+    timeZone,
+    hourCycle: "h23",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
@@ -0,0 +1,28 @@
+export interface DeviceLocation {
+  lat: number;
+  lng: number;
+  accuracy: number;
+}
+
+// Resolves to null instead of throwing when the browser has no GPS or the
+// user denies permission; the server decides whether that is acceptable.
+export const getDeviceLocation = (
+  timeoutMs = 10000
+): Promise<DeviceLocation | null> =>
+  new Promise((resolve) => {
+    if (!("geolocation" in navigator)) {
+      resolve(null);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (pos) =>
+        resolve({
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          accuracy: pos.coords.accuracy,
+        }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 0 }
+    );
+  });
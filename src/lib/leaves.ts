@@ -0,0 +1,102 @@
+import { eachDayOfInterval, format } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+
+/* ===================== TYPES ===================== */
+
+export type HalfDay = "first" | "second";
+
+// A day of preview_leave_cost: non-working days carry their reason and
+// cost nothing.
+export type LeaveCostDay =
+  Database["public"]["Functions"]["preview_leave_cost"]["Returns"][number];
+
+export const HALF_DAY_LABELS: Record<HalfDay, string> = {
+  first: "First half",
+  second: "Second half",
+};
+
+/* ===================== HELPERS ===================== */
+
+export const formatLeaveDays = (days: number) =>
+  `${Number(days)} day${Number(days) === 1 ? "" : "s"}`;
+
+export const sumLeaveCost = (rows: LeaveCostDay[]) => ({
+  workingDays: rows.reduce((sum, r) => sum + Number(r.units), 0),
+  unpaidDays: rows
+    .filter((r) => !r.is_paid)
+    .reduce((sum, r) => sum + Number(r.units), 0),
+  deduction: rows.reduce((sum, r) => sum + Number(r.amount), 0),
+});
+
+/* ===================== SITE COVERAGE ===================== */
+
+export interface CoverageLeave {
+  id: string;
+  emp_user_id: string;
+  start_date: string;
+  end_date: string;
+  half_day: string | null;
+  status: string | null;
+}
+
+export interface CoverageShortfall {
+  day: string;
+  available: number;
+}
+
+// How much of a working day an employee is away on approved leave
+export const approvedLeaveOnDay = (
+  leaves: CoverageLeave[],
+  empUserId: string,
+  day: string
+) =>
+  Math.max(
+    0,
+    ...leaves
+      .filter(
+        (l) =>
+          l.status === "approved" &&
+          l.emp_user_id === empUserId &&
+          day >= l.start_date &&
+          day <= l.end_date
+      )
+      .map((l) => (l.half_day ? 0.5 : 1))
+  );
+
+// Working days of `leave` on which approving it would leave fewer than
+// `minHeadcount` of the site's members at work. `workingDays` are the days
+// of the leave from get_working_days_between; holidays and weekly offs are
+// skipped.
+export const coverageShortfalls = (
+  leave: CoverageLeave,
+  memberIds: string[],
+  leaves: CoverageLeave[],
+  workingDays: string[],
+  minHeadcount: number
+): CoverageShortfall[] => {
+  const others = leaves.filter((l) => l.id !== leave.id);
+  const out: CoverageShortfall[] = [];
+
+  const days = eachDayOfInterval({
+    start: new Date(`${leave.start_date}T00:00:00`),
+    end: new Date(`${leave.end_date}T00:00:00`),
+  }).map((d) => format(d, "yyyy-MM-dd"));
+
+  for (const day of days) {
+    if (!workingDays.includes(day)) continue;
+
+    const away = memberIds.reduce(
+      (sum, id) =>
+        sum +
+        (id === leave.emp_user_id
+          ? Math.max(approvedLeaveOnDay(others, id, day), leave.half_day ? 0.5 : 1)
+          : approvedLeaveOnDay(others, id, day)),
+      0
+    );
+    const available = memberIds.length - away;
+
+    if (available < minHeadcount) out.push({ day, available });
+  }
+
+  return out;
+};
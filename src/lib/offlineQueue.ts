@@ -0,0 +1,189 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { DeviceLocation } from "@/lib/geo";
+import type { SiteQrPayload } from "@/lib/siteQr";
+import { isNetworkFailure, type AttendanceResult } from "@/lib/attendance";
+
+/* ===================== TYPES ===================== */
+
+export type QueuedScanKind = "checkin" | "checkout";
+
+// A site scan made without signal. The signed QR payload proves the site and
+// the time window, the nonce that this device holds it for this user;
+// `scannedAt` is only the device's claim.
+export interface QueuedScan {
+  id: string;
+  userId: string;
+  deviceId: string;
+  nonce: string;
+  kind: QueuedScanKind;
+  payload: SiteQrPayload;
+  scannedAt: string;
+  location: DeviceLocation | null;
+  remarks: string | null;
+}
+
+export interface SyncOutcome {
+  synced: number;
+  failed: { scan: QueuedScan; code: string }[];
+}
+
+// Must match c_max_age in sync_offline_scan
+export const OFFLINE_SCAN_MAX_AGE_MINUTES = 30;
+
+/* ===================== NONCES ===================== */
+
+const DEVICE_KEY = "kms-device-id";
+const NONCES_KEY = "kms-scan-nonces";
+
+// Top up once fewer than this many are left
+const NONCES_LOW = 3;
+
+interface ScanNonce {
+  nonce: string;
+  expires_at: string;
+}
+
+const getDeviceId = () => {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+};
+
+const readNonces = (userId: string): ScanNonce[] => {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(`${NONCES_KEY}:${userId}`) ?? "[]"
+    ) as ScanNonce[];
+    return stored.filter((n) => new Date(n.expires_at) > new Date());
+  } catch {
+    return [];
+  }
+};
+
+const writeNonces = (userId: string, nonces: ScanNonce[]) =>
+  localStorage.setItem(`${NONCES_KEY}:${userId}`, JSON.stringify(nonces));
+
+// Fetches single-use nonces while online so scans can be queued later without
+// signal. Nonces already attached to queued scans are not handed out again.
+export const refreshScanNonces = async (userId: string) => {
+  if (!navigator.onLine || readNonces(userId).length >= NONCES_LOW) return;
+
+  const { data, error } = await supabase.rpc("issue_offline_scan_nonces", {
+    p_device_id: getDeviceId(),
+  });
+  if (error) return;
+
+  const queued = new Set((await listQueuedScans(userId)).map((s) => s.nonce));
+  writeNonces(
+    userId,
+    (data ?? []).filter((n) => !queued.has(n.nonce))
+  );
+};
+
+const takeScanNonce = (userId: string) => {
+  const [next, ...rest] = readNonces(userId);
+  writeNonces(userId, rest);
+  return next?.nonce ?? null;
+};
+
+/* ===================== STORE ===================== */
+
+const DB_NAME = "kms-offline";
+const STORE = "scans";
+
+// Fired on window whenever the queue changes, so badges can refresh.
+export const QUEUE_CHANGED_EVENT = "offline-queue-changed";
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = run(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const notifyChanged = () => window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+
+// Returns false when the device holds no nonce, i.e. it has not been online
+// since its last offline scans; such a scan could never be verified.
+export const enqueueScan = async (
+  scan: Omit<QueuedScan, "id" | "deviceId" | "nonce">
+) => {
+  const nonce = takeScanNonce(scan.userId);
+  if (!nonce) return false;
+
+  await withStore("readwrite", (s) =>
+    s.put({ ...scan, id: crypto.randomUUID(), deviceId: getDeviceId(), nonce })
+  );
+  notifyChanged();
+  return true;
+};
+
+export const listQueuedScans = async (userId: string) => {
+  const all = await withStore<QueuedScan[]>("readonly", (s) => s.getAll());
+  return all
+    .filter((scan) => scan.userId === userId)
+    .sort((a, b) => a.scannedAt.localeCompare(b.scannedAt));
+};
+
+const removeQueuedScan = async (id: string) => {
+  await withStore("readwrite", (s) => s.delete(id));
+  notifyChanged();
+};
+
+/* ===================== SYNC ===================== */
+
+// Replays queued scans oldest first. A scan leaves the queue once the server
+// has given a verdict on it, accepted, refused or failed; only a network
+// failure stops the run and leaves the rest for next time.
+export const syncQueuedScans = async (userId: string): Promise<SyncOutcome> => {
+  const outcome: SyncOutcome = { synced: 0, failed: [] };
+
+  for (const scan of await listQueuedScans(userId)) {
+    const { data, error } = await supabase.rpc("sync_offline_scan", {
+      p_kind: scan.kind,
+      p_site_id: scan.payload.site_id,
+      p_window: scan.payload.w,
+      p_signature: scan.payload.sig,
+      p_scanned_at: scan.scannedAt,
+      p_device_id: scan.deviceId,
+      p_nonce: scan.nonce,
+      p_lat: scan.location?.lat,
+      p_lng: scan.location?.lng,
+      p_accuracy: scan.location?.accuracy,
+      p_remarks: scan.remarks ?? undefined,
+    });
+
+    if (error && isNetworkFailure(error.message)) break;
+
+    const result = data as AttendanceResult;
+    if (error) outcome.failed.push({ scan, code: error.message });
+    else if (result.ok === false) outcome.failed.push({ scan, code: result.code });
+    else outcome.synced++;
+
+    await removeQueuedScan(scan.id);
+  }
+
+  return outcome;
+};
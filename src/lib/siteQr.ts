@@ -0,0 +1,104 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/* ===================== TYPES ===================== */
+
+// What a site QR encodes. `w` is the time window the code was issued for
+// and `sig` the server-side HMAC over "<site_id>:<w>".
+export interface SiteQrPayload {
+  site_id: string;
+  w: number;
+  sig: string;
+}
+
+export interface SiteQrToken {
+  payload: SiteQrPayload;
+  expiresAt: Date;
+}
+
+// A kiosk link has no session to look the site up with, so its token
+// carries what the display shows.
+export interface KioskQrToken extends SiteQrToken {
+  siteName: string;
+  rotationSeconds: number;
+}
+
+/* ===================== KIOSK ===================== */
+
+export const fetchSiteQrToken = async (
+  siteId: string
+): Promise<SiteQrToken> => {
+  const { data, error } = await supabase.rpc("get_site_qr_token", {
+    p_site_id: siteId,
+  });
+
+  if (error) throw error;
+
+  const row = data?.[0];
+  if (!row) throw new Error("Site not found");
+
+  return {
+    payload: {
+      site_id: row.site_id,
+      w: row.window_index,
+      sig: row.signature,
+    },
+    expiresAt: new Date(row.expires_at),
+  };
+};
+
+export const fetchKioskQrToken = async (
+  kioskToken: string
+): Promise<KioskQrToken> => {
+  const { data, error } = await supabase.rpc("get_kiosk_qr_token", {
+    p_token: kioskToken,
+  });
+
+  if (error) throw error;
+
+  const row = data?.[0];
+  if (!row) throw new Error("Site not found");
+
+  return {
+    payload: {
+      site_id: row.site_id,
+      w: row.window_index,
+      sig: row.signature,
+    },
+    expiresAt: new Date(row.expires_at),
+    siteName: row.site_name,
+    rotationSeconds: row.rotation_seconds,
+  };
+};
+
+export const issueKioskLink = async (siteId: string) => {
+  const { data, error } = await supabase.rpc("issue_site_kiosk_token", {
+    p_site_id: siteId,
+  });
+
+  if (error) throw error;
+
+  return `${window.location.origin}/kiosk/${data}`;
+};
+
+export const encodeSiteQr = (payload: SiteQrPayload) =>
+  JSON.stringify(payload);
+
+/* ===================== SCANNER ===================== */
+
+// Returns null for anything that is not a signed site code, including the
+// old static `{ site_id }` posters.
+export const parseSiteQr = (text: string): SiteQrPayload | null => {
+  try {
+    const parsed = JSON.parse(text);
+    if (
+      typeof parsed?.site_id !== "string" ||
+      typeof parsed?.w !== "number" ||
+      typeof parsed?.sig !== "string"
+    ) {
+      return null;
+    }
+    return { site_id: parsed.site_id, w: parsed.w, sig: parsed.sig };
+  } catch {
+    return null;
+  }
+};
@@ -21,6 +21,8 @@ const Splash = () => {
 
     if (role === 'admin') {
       navigate('/admin/dashboard', { replace: true });
+    } else if (role === 'supervisor') {
+      navigate('/supervisor/dashboard', { replace: true });
     } else {
       navigate('/employee/dashboard', { replace: true });
     }
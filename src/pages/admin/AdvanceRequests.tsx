@@ -9,6 +9,18 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
 import { toast } from "@/hooks/use-toast";
 import {
   IndianRupee,
@@ -16,21 +28,49 @@ import {
   XCircle,
   Clock,
   User,
+  ShieldCheck,
 } from "lucide-react";
-import { format } from "date-fns";
 import { Database } from "@/integrations/supabase/types";
+import {
+  countInstalments,
+  formatRecoveryPlan,
+  formatRupees,
+  instalmentAmount,
+  type AdvanceEligibility,
+  type RepaymentMode,
+} from "@/lib/advances";
 
 /* ===================== TYPES ===================== */
 
 type AdvanceStatus =
   Database["public"]["Tables"]["advance_requests"]["Row"]["status"];
 
+type AdvancePolicy = Database["public"]["Tables"]["advance_policy"]["Row"];
+
+// Limits as typed; an empty field switches the rule off
+interface PolicyForm {
+  max_balance_percent: string;
+  single_open_advance: boolean;
+  min_tenure_days: string;
+  max_requests_per_month: string;
+}
+
+const toForm = (p: AdvancePolicy): PolicyForm => ({
+  max_balance_percent: p.max_balance_percent?.toString() ?? "",
+  single_open_advance: p.single_open_advance,
+  min_tenure_days: p.min_tenure_days?.toString() ?? "",
+  max_requests_per_month: p.max_requests_per_month?.toString() ?? "",
+});
+
+const toLimit = (v: string) => (v.trim() === "" ? null : Number(v));
+
 type AdvanceRequest =
   Database["public"]["Tables"]["advance_requests"]["Row"] & {
     employee?: {
       full_name: string | null;
       email: string | null;
     } | null;
+    recovered: number;
   };
 
 /* ===================== COMPONENT ===================== */
@@ -39,8 +79,20 @@ const AdminAdvanceRequests = () => {
   const [requests, setRequests] = useState<AdvanceRequest[]>([]);
   const [isUpdating, setIsUpdating] = useState<string | null>(null);
 
+  // Approval plan
+  const [approving, setApproving] = useState<AdvanceRequest | null>(null);
+  const [mode, setMode] = useState<RepaymentMode>("instalments");
+  const [planValue, setPlanValue] = useState("1");
+
+  // Eligibility
+  const [eligibility, setEligibility] = useState<Record<string, AdvanceEligibility>>({});
+  const [policy, setPolicy] = useState<AdvancePolicy | null>(null);
+  const [policyForm, setPolicyForm] = useState<PolicyForm | null>(null);
+  const [isSavingPolicy, setIsSavingPolicy] = useState(false);
+
   useEffect(() => {
     fetchRequests();
+    fetchPolicy();
 
     /* ===================== 🔴 REALTIME ===================== */
 
@@ -57,6 +109,17 @@ const AdminAdvanceRequests = () => {
           fetchRequests();
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "money_ledger",
+        },
+        () => {
+          fetchRequests();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -84,50 +147,195 @@ const AdminAdvanceRequests = () => {
       .select("auth_uid, full_name, email")
       .in("auth_uid", userIds);
 
+    const { data: recoveries } = await supabase
+      .from("money_ledger")
+      .select("reference_id, amount")
+      .like("reason", "Advance recovery%")
+      .in(
+        "reference_id",
+        rows.filter((r) => r.status === "approved").map((r) => r.id)
+      );
+
     const enriched: AdvanceRequest[] = rows.map((req) => ({
       ...req,
       employee:
         profiles?.find(
           (p) => p.auth_uid === req.user_id
         ) || null,
+      recovered: (recoveries ?? [])
+        .filter((r) => r.reference_id === req.id)
+        .reduce((sum, r) => sum + Number(r.amount), 0),
     }));
 
     setRequests(enriched);
+
+    // Balance and outstanding advances of everyone waiting on a decision
+    const pendingUsers = [
+      ...new Set(
+        rows
+          .filter((r) => r.status === "pending" && r.user_id)
+          .map((r) => r.user_id as string)
+      ),
+    ];
+
+    const results = await Promise.all(
+      pendingUsers.map((id) =>
+        supabase.rpc("get_advance_eligibility", { p_emp_user_id: id })
+      )
+    );
+
+    setEligibility(
+      Object.fromEntries(
+        pendingUsers
+          .map((id, i) => [id, results[i].data?.[0]] as const)
+          .filter(([, e]) => !!e)
+      )
+    );
   };
 
-  /* ===================== APPROVE ===================== */
+  const fetchPolicy = async () => {
+    const { data } = await supabase
+      .from("advance_policy")
+      .select("*")
+      .maybeSingle();
 
-  const approveRequest = async (req: AdvanceRequest) => {
-    setIsUpdating(req.id);
+    setPolicy(data);
+    setPolicyForm(data ? toForm(data) : null);
+  };
+
+  /* ===================== POLICY ===================== */
+
+  const savePolicy = async () => {
+    if (!policy || !policyForm) return;
+
+    const percent = toLimit(policyForm.max_balance_percent);
+    const tenure = toLimit(policyForm.min_tenure_days);
+    const perMonth = toLimit(policyForm.max_requests_per_month);
+
+    if (percent !== null && (isNaN(percent) || percent <= 0 || percent > 100)) {
+      toast({ title: "Balance limit must be between 1 and 100%", variant: "destructive" });
+      return;
+    }
+
+    if (tenure !== null && (isNaN(tenure) || tenure < 0)) {
+      toast({ title: "Minimum tenure cannot be negative", variant: "destructive" });
+      return;
+    }
+
+    if (perMonth !== null && (isNaN(perMonth) || perMonth < 1)) {
+      toast({ title: "Allow at least one request a month", variant: "destructive" });
+      return;
+    }
+
+    setIsSavingPolicy(true);
 
     try {
-      await supabase
-        .from("advance_requests")
+      const { error } = await supabase
+        .from("advance_policy")
         .update({
-          status: "approved" as AdvanceStatus,
+          max_balance_percent: percent,
+          single_open_advance: policyForm.single_open_advance,
+          min_tenure_days: tenure === null ? null : Math.floor(tenure),
+          max_requests_per_month: perMonth === null ? null : Math.floor(perMonth),
+          updated_at: new Date().toISOString(),
         })
-        .eq("id", req.id);
-
-      await supabase.from("money_ledger").insert({
-        emp_user_id: req.user_id,
-        amount: req.amount,
-        type: "debit",
-        reason: "Advance Approved",
-        month_year: format(new Date(), "yyyy-MM-01"),
+        .eq("id", policy.id);
+
+      if (error) throw error;
+
+      toast({ title: "Advance rules saved" });
+      fetchPolicy();
+      fetchRequests();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingPolicy(false);
+    }
+  };
+
+  /* ===================== APPROVE ===================== */
+
+  const openApproval = (req: AdvanceRequest) => {
+    setApproving(req);
+    setMode("instalments");
+    setPlanValue("1");
+  };
+
+  const planValueNumber = Number(planValue);
+
+  const planMonthly = approving
+    ? mode === "instalments"
+      ? instalmentAmount(approving.amount, Math.floor(planValueNumber))
+      : Math.min(planValueNumber, approving.amount)
+    : 0;
+
+  const approveRequest = async () => {
+    if (!approving) return;
+
+    if (!planValueNumber || planValueNumber <= 0) {
+      toast({
+        title: mode === "instalments" ? "Enter the number of instalments" : "Enter the monthly amount",
+        variant: "destructive",
       });
+      return;
+    }
 
-      await supabase.from("notifications").insert({
-        user_id: req.user_id,
-        title: "Advance Approved",
-        body: `₹${req.amount} advance has been approved and debited.`,
-        read: false,
+    setIsUpdating(approving.id);
+
+    try {
+      const { error } = await supabase.rpc("approve_advance", {
+        p_advance_id: approving.id,
+        ...(mode === "instalments"
+          ? { p_instalments: Math.floor(planValueNumber) }
+          : { p_monthly_amount: planValueNumber }),
       });
 
-      toast({ title: "Advance Approved & Debited" });
-    } catch (e: any) {
+      if (error) throw error;
+
+      toast({ title: "Advance Approved" });
+      setApproving(null);
+      fetchRequests();
+    } catch (err) {
       toast({
         title: "Error",
-        description: e.message,
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
+  /* ===================== EARLY CLOSURE ===================== */
+
+  const closeEarly = async (req: AdvanceRequest) => {
+    const outstanding = req.amount - req.recovered;
+    if (
+      !confirm(
+        `Close this advance early? The remaining ${formatRupees(outstanding)} will be recovered this month.`
+      )
+    )
+      return;
+
+    setIsUpdating(req.id);
+
+    try {
+      const { error } = await supabase.rpc("close_advance_early", {
+        p_advance_id: req.id,
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Advance closed" });
+      fetchRequests();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message,
         variant: "destructive",
       });
     } finally {
@@ -141,25 +349,18 @@ const AdminAdvanceRequests = () => {
     setIsUpdating(req.id);
 
     try {
-      await supabase
-        .from("advance_requests")
-        .update({
-          status: "rejected" as AdvanceStatus,
-        })
-        .eq("id", req.id);
-
-      await supabase.from("notifications").insert({
-        user_id: req.user_id,
-        title: "Advance Rejected",
-        body: "Your advance request has been rejected.",
-        read: false,
+      const { error } = await supabase.rpc("reject_advance", {
+        p_advance_id: req.id,
       });
 
+      if (error) throw error;
+
       toast({ title: "Advance Rejected" });
-    } catch (e: any) {
+      fetchRequests();
+    } catch (err) {
       toast({
         title: "Error",
-        description: e.message,
+        description: (err as Error).message,
         variant: "destructive",
       });
     } finally {
@@ -202,6 +403,80 @@ const AdminAdvanceRequests = () => {
       <Header title="Advance Requests" backTo="/admin/dashboard" />
 
       <main className="p-4 max-w-4xl mx-auto space-y-4">
+        {policyForm && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Eligibility Rules
+              </CardTitle>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label>Max % of month's balance</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    placeholder="No limit"
+                    value={policyForm.max_balance_percent}
+                    onChange={(e) =>
+                      setPolicyForm({ ...policyForm, max_balance_percent: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Minimum tenure (days)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="No limit"
+                    value={policyForm.min_tenure_days}
+                    onChange={(e) =>
+                      setPolicyForm({ ...policyForm, min_tenure_days: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Requests per month</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    value={policyForm.max_requests_per_month}
+                    onChange={(e) =>
+                      setPolicyForm({ ...policyForm, max_requests_per_month: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="single-open-advance">
+                  One open advance at a time
+                </Label>
+                <Switch
+                  id="single-open-advance"
+                  checked={policyForm.single_open_advance}
+                  onCheckedChange={(v) =>
+                    setPolicyForm({ ...policyForm, single_open_advance: v })
+                  }
+                />
+              </div>
+
+              <Button
+                className="w-full"
+                disabled={isSavingPolicy}
+                onClick={savePolicy}
+              >
+                Save Rules
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -229,20 +504,67 @@ const AdminAdvanceRequests = () => {
                       Amount: <strong>₹{req.amount}</strong>
                     </p>
 
+                    {req.status === "pending" && req.user_id && eligibility[req.user_id] && (
+                      <p className="text-sm text-muted-foreground">
+                        Balance {formatRupees(eligibility[req.user_id].balance)} ·
+                        Outstanding advances{" "}
+                        {formatRupees(eligibility[req.user_id].outstanding)}
+                      </p>
+                    )}
+
                     {req.reason && (
                       <p className="text-sm text-muted-foreground">
                         Reason: {req.reason}
                       </p>
                     )}
+
+                    {req.status === "approved" && req.monthly_amount && (
+                      <p className="text-sm text-muted-foreground">
+                        Plan:{" "}
+                        {formatRecoveryPlan(
+                          req.monthly_amount,
+                          req.instalments,
+                          req.recovery_start
+                        )}
+                      </p>
+                    )}
+
+                    {req.status === "approved" && (
+                      <p className="text-sm">
+                        {req.closed_at ? (
+                          <span className="text-muted-foreground">Closed</span>
+                        ) : (
+                          <>
+                            Outstanding:{" "}
+                            <strong>{formatRupees(req.amount - req.recovered)}</strong>
+                            <span className="text-muted-foreground">
+                              {" "}
+                              · {formatRupees(req.recovered)} recovered
+                            </span>
+                          </>
+                        )}
+                      </p>
+                    )}
                   </div>
 
+                  {req.status === "approved" && !req.closed_at && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isUpdating === req.id}
+                      onClick={() => closeEarly(req)}
+                    >
+                      Close Early
+                    </Button>
+                  )}
+
                   {req.status === "pending" && (
                     <div className="flex gap-2">
                       <Button
                         size="sm"
                         className="bg-green-500"
                         disabled={isUpdating === req.id}
-                        onClick={() => approveRequest(req)}
+                        onClick={() => openApproval(req)}
                       >
                         Approve
                       </Button>
@@ -262,6 +584,69 @@ const AdminAdvanceRequests = () => {
           </CardContent>
         </Card>
       </main>
+
+      {/* APPROVAL PLAN */}
+      <Dialog open={!!approving} onOpenChange={(open) => !open && setApproving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approve Advance</DialogTitle>
+            <DialogDescription>
+              {approving &&
+                `${formatRupees(approving.amount)} for ${
+                  approving.employee?.full_name || approving.employee?.email
+                }, recovered from payroll starting this month.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <RadioGroup
+              value={mode}
+              onValueChange={(v) => {
+                setMode(v as RepaymentMode);
+                setPlanValue(v === "instalments" ? "1" : "");
+              }}
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="instalments" id="plan-instalments" />
+                <Label htmlFor="plan-instalments">Monthly instalments</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="monthly" id="plan-monthly" />
+                <Label htmlFor="plan-monthly">Fixed amount per month</Label>
+              </div>
+            </RadioGroup>
+
+            <Input
+              type="number"
+              min={mode === "instalments" ? 1 : 0}
+              max={mode === "instalments" ? 24 : undefined}
+              placeholder={mode === "instalments" ? "Number of months" : "Amount per month ₹"}
+              value={planValue}
+              onChange={(e) => setPlanValue(e.target.value)}
+            />
+
+            {approving && planMonthly > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {formatRupees(planMonthly)} a month for{" "}
+                {countInstalments(approving.amount, planMonthly)} month(s)
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApproving(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-green-500"
+              disabled={!!approving && isUpdating === approving.id}
+              onClick={approveRequest}
+            >
+              Approve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/use-permission';
 import Header from '@/components/Header';
 
 import {
@@ -10,12 +12,18 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
 
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
+  DialogFooter,
 } from '@/components/ui/dialog';
 
 import {
@@ -27,6 +35,11 @@ import {
   XCircle,
   Clock,
   Plane,
+  MapPinOff,
+  CloudOff,
+  Pencil,
+  Trash2,
+  History,
 } from 'lucide-react';
 
 import {
@@ -38,21 +51,46 @@ import {
   addMonths,
   subMonths,
 } from 'date-fns';
+import {
+  formatMinutes,
+  isoToZonedTime,
+  zonedTimeToIso,
+} from '@/lib/attendancePolicy';
+import { useAttendancePolicy } from '@/hooks/use-attendance-policy';
 
 /* ===================== TYPES ===================== */
 
 interface AttendanceRecord {
+  id: string;
   day: string;
   attendance_type: string | null;
   checkin_at: string | null;
   checkout_at: string | null;
   remarks: string | null;
+  checkin_distance_m: number | null;
+  geofence_flagged: boolean;
+  checkin_source: string | null;
+  checkout_source: string | null;
+  late_minutes: number;
+  early_leave_minutes: number;
+  overtime_minutes: number;
+  overtime_status: string | null;
 }
 
 interface LeaveRecord {
   start_date: string;
   end_date: string;
+  half_day: string | null;
+}
+interface AuditEntry {
+  id: string;
+  day: string;
+  action: string;
+  reason: string;
+  ledger_adjustment: number;
+  created_at: string;
 }
+
 interface holidayRecord {
   holiday_date: string;
   description?: string | null;
@@ -64,12 +102,27 @@ interface holidayRecord {
 
 const AdminAttendanceHistory = () => {
   const { employeeId } = useParams<{ employeeId: string }>();
+  // Read-only for supervisors and admins without attendance.manage
+  const { role } = useAuth();
+  const isAdmin = role === 'admin';
+  const canEdit = usePermission('attendance.manage');
   const [holidays, setHolidays] = useState<holidayRecord[]>([]);
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
   const [leaves, setLeaves] = useState<LeaveRecord[]>([]);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [reviewingOvertime, setReviewingOvertime] = useState(false);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+
+  // Admin correction of the selected day
+  const [editMode, setEditMode] = useState<'edit' | 'delete' | null>(null);
+  const [checkinTime, setCheckinTime] = useState('');
+  const [checkoutTime, setCheckoutTime] = useState('');
+  const [editReason, setEditReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { policy } = useAttendancePolicy(employeeId);
 
   const [summary, setSummary] = useState({
     present: 0,
@@ -89,14 +142,14 @@ const AdminAttendanceHistory = () => {
 
     const { data: attData } = await supabase
       .from('attendance')
-      .select('day, attendance_type, checkin_at, checkout_at, remarks')
+      .select('id, day, attendance_type, checkin_at, checkout_at, remarks, checkin_distance_m, geofence_flagged, checkin_source, checkout_source, late_minutes, early_leave_minutes, overtime_minutes, overtime_status')
       .eq('emp_user_id', employeeId)
       .gte('day', start)
       .lte('day', end);
 
     const { data: leaveData } = await supabase
       .from('leaves')
-      .select('start_date, end_date')
+      .select('start_date, end_date, half_day')
       .eq('emp_user_id', employeeId)
       .eq('status', 'approved');
 
@@ -125,6 +178,16 @@ const AdminAttendanceHistory = () => {
 
     setHolidays(holidayData ?? []);
 
+    const { data: auditData } = await supabase
+      .from('attendance_audit')
+      .select('id, day, action, reason, ledger_adjustment, created_at')
+      .eq('emp_user_id', employeeId)
+      .gte('day', start)
+      .lte('day', end)
+      .order('created_at', { ascending: false });
+
+    setAudit(auditData ?? []);
+
     allDays.forEach(day => {
       const d = format(day, 'yyyy-MM-dd');
 
@@ -159,6 +222,122 @@ const AdminAttendanceHistory = () => {
     fetchData();
   }, [employeeId, currentMonth]);
 
+  /* ===================== OVERTIME ===================== */
+
+  const reviewOvertime = async (attendanceId: string, approve: boolean) => {
+    setReviewingOvertime(true);
+
+    try {
+      const { error } = await supabase.rpc(
+        approve ? 'approve_overtime' : 'reject_overtime',
+        { p_attendance_id: attendanceId }
+      );
+      if (error) throw error;
+
+      toast({ title: approve ? 'Overtime approved and credited' : 'Overtime rejected' });
+      await fetchData();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setReviewingOvertime(false);
+    }
+  };
+
+  /* ===================== ADMIN CORRECTION ===================== */
+
+  const openDay = (day: string) => {
+    setSelectedDate(day);
+    setEditMode(null);
+  };
+
+  const startEdit = () => {
+    const record = attendance.find(a => a.day === selectedDate);
+    setCheckinTime(
+      record?.checkin_at
+        ? isoToZonedTime(record.checkin_at, policy.timezone)
+        : policy.shift_start?.slice(0, 5) ?? '09:00'
+    );
+    setCheckoutTime(
+      record?.checkout_at
+        ? isoToZonedTime(record.checkout_at, policy.timezone)
+        : policy.shift_end?.slice(0, 5) ?? ''
+    );
+    setEditReason('');
+    setEditMode('edit');
+  };
+
+  const startDelete = () => {
+    setEditReason('');
+    setEditMode('delete');
+  };
+
+  const saveCorrection = async () => {
+    if (!employeeId || !selectedDate) return;
+
+    if (!editReason.trim()) {
+      toast({
+        title: 'Reason required',
+        description: 'Explain why this day is being changed',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (editMode === 'edit' && checkoutTime && checkoutTime <= checkinTime) {
+      toast({
+        title: 'Invalid times',
+        description: 'Check-out must be after check-in',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      if (editMode === 'delete') {
+        const record = attendance.find(a => a.day === selectedDate);
+        if (!record) return;
+
+        const { error } = await supabase.rpc('admin_delete_attendance', {
+          p_attendance_id: record.id,
+          p_reason: editReason.trim(),
+        });
+        if (error) throw error;
+
+        toast({ title: 'Attendance deleted' });
+      } else {
+        const { error } = await supabase.rpc('admin_save_attendance', {
+          p_emp_user_id: employeeId,
+          p_day: selectedDate,
+          p_checkin: zonedTimeToIso(selectedDate, checkinTime, policy.timezone),
+          p_checkout: checkoutTime
+            ? zonedTimeToIso(selectedDate, checkoutTime, policy.timezone)
+            : undefined,
+          p_reason: editReason.trim(),
+        });
+        if (error) throw error;
+
+        toast({ title: 'Attendance saved' });
+      }
+
+      setEditMode(null);
+      await fetchData();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   /* ===================== HELPERS ===================== */
 
   const getDayStatus = (date: Date) => {
@@ -170,11 +349,17 @@ const AdminAttendanceHistory = () => {
 
     if (holidays.some(h => h.holiday_date === d)) return 'leave';
 
-    // Approved leave
-    if (leaves.some(l => d >= l.start_date && d <= l.end_date)) return 'leave';
-
+    const leave = leaves.find(l => d >= l.start_date && d <= l.end_date);
     const r = attendance.find(a => a.day === d);
 
+    // Approved leave. A half-day leave with any attendance makes a full day.
+    if (leave && !leave.half_day) return 'leave';
+    if (leave?.half_day) {
+      return r?.attendance_type === 'full' || r?.attendance_type === 'half'
+        ? 'present'
+        : 'half';
+    }
+
     // Today but no attendance yet
     if (!r && d === todayStr) return 'pending';
 
@@ -198,6 +383,13 @@ const AdminAttendanceHistory = () => {
       : 'bg-red-400';
 
   const selectedAttendance = attendance.find(a => a.day === selectedDate);
+  const selectedAudit = audit.filter(a => a.day === selectedDate);
+  // Today is settled when it ends, so only past days can be edited
+  const selectedIsPast =
+    !!selectedDate && selectedDate < format(new Date(), 'yyyy-MM-dd');
+  const lateMarks = attendance.filter(a => a.late_minutes > 0).length;
+  const earlyLeaves = attendance.filter(a => a.early_leave_minutes > 0).length;
+  const pendingOvertime = attendance.filter(a => a.overtime_status === 'pending').length;
 
   /* ===================== UI ===================== */
 
@@ -211,7 +403,10 @@ const AdminAttendanceHistory = () => {
 
   return (
     <div className="min-h-screen bg-background">
-      <Header title="Employee Attendance" backTo="/admin/employees" />
+      <Header
+        title="Employee Attendance"
+        backTo={isAdmin ? '/admin/employees' : '/supervisor/crew'}
+      />
 
       <main className="p-4 max-w-lg mx-auto space-y-4">
 
@@ -243,6 +438,18 @@ const AdminAttendanceHistory = () => {
           <Summary icon={<XCircle className="text-red-400" />} label="Absent" value={summary.absent} />
         </div>
 
+        {(lateMarks > 0 || earlyLeaves > 0) && (
+          <p className="text-sm text-amber-600 text-center">
+            {lateMarks} late arrival{lateMarks === 1 ? '' : 's'} · {earlyLeaves} early departure{earlyLeaves === 1 ? '' : 's'} this month
+          </p>
+        )}
+
+        {pendingOvertime > 0 && (
+          <p className="text-sm text-sky-600 text-center">
+            {pendingOvertime} day{pendingOvertime === 1 ? '' : 's'} with overtime awaiting approval
+          </p>
+        )}
+
         {/* CALENDAR */}
         <Card>
           <CardHeader>
@@ -257,14 +464,19 @@ const AdminAttendanceHistory = () => {
             }).map(d => {
               const ds = format(d, 'yyyy-MM-dd');
               const st = getDayStatus(d);
+              const flagged = attendance.some(a => a.day === ds && a.geofence_flagged);
+              const offShift = attendance.some(
+                a => a.day === ds && (a.late_minutes > 0 || a.early_leave_minutes > 0)
+              );
               return (
                 <button
                   key={ds}
-                  onClick={() => setSelectedDate(ds)}
-                  className="aspect-square flex flex-col items-center justify-center rounded hover:bg-muted"
+                  onClick={() => openDay(ds)}
+                  className={`aspect-square flex flex-col items-center justify-center rounded hover:bg-muted ${flagged ? 'ring-2 ring-orange-500' : ''}`}
                 >
                   <span className="text-xs">{format(d, 'd')}</span>
                   <div className={`w-3 h-3 rounded-full ${getColor(st)}`} />
+                  {offShift && <Clock className="h-2.5 w-2.5 text-amber-600" />}
                 </button>
               );
             })}
@@ -283,11 +495,172 @@ const AdminAttendanceHistory = () => {
             <div className="space-y-2 text-sm">
               <p><strong>Check In:</strong> {selectedAttendance?.checkin_at ? format(new Date(selectedAttendance.checkin_at), 'hh:mm a') : '-'}</p>
               <p><strong>Check Out:</strong> {selectedAttendance?.checkout_at ? format(new Date(selectedAttendance.checkout_at), 'hh:mm a') : '-'}</p>
+              {!!selectedAttendance?.late_minutes && (
+                <p className="text-amber-600"><strong>Late by:</strong> {formatMinutes(selectedAttendance.late_minutes)}</p>
+              )}
+              {!!selectedAttendance?.early_leave_minutes && (
+                <p className="text-amber-600"><strong>Left early by:</strong> {formatMinutes(selectedAttendance.early_leave_minutes)}</p>
+              )}
+              {!!selectedAttendance?.overtime_minutes && (
+                <div className="flex items-center justify-between gap-2 p-2 border rounded">
+                  <div className="flex items-center gap-2">
+                    <strong>Overtime:</strong> {formatMinutes(selectedAttendance.overtime_minutes)}
+                    <Badge
+                      variant={selectedAttendance.overtime_status === 'rejected' ? 'destructive' : 'secondary'}
+                      className={selectedAttendance.overtime_status === 'approved' ? 'bg-green-500 text-white' : ''}
+                    >
+                      {selectedAttendance.overtime_status}
+                    </Badge>
+                  </div>
+                  {canEdit && (
+                  <div className="flex gap-2">
+                    {selectedAttendance.overtime_status !== 'approved' && (
+                      <Button
+                        size="sm"
+                        className="bg-green-500 hover:bg-green-600"
+                        disabled={reviewingOvertime}
+                        onClick={() => reviewOvertime(selectedAttendance.id, true)}
+                      >
+                        Approve
+                      </Button>
+                    )}
+                    {selectedAttendance.overtime_status !== 'rejected' && (
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={reviewingOvertime}
+                        onClick={() => reviewOvertime(selectedAttendance.id, false)}
+                      >
+                        Reject
+                      </Button>
+                    )}
+                  </div>
+                  )}
+                </div>
+              )}
+              <p><strong>Distance from site:</strong> {selectedAttendance?.checkin_distance_m != null ? `${selectedAttendance.checkin_distance_m} m` : '-'}</p>
+              {selectedAttendance?.geofence_flagged && (
+                <p className="flex items-center gap-1 text-orange-600">
+                  <MapPinOff className="h-4 w-4" />
+                  Checked in outside the site geofence or without location
+                </p>
+              )}
+              {(selectedAttendance?.checkin_source === 'offline' ||
+                selectedAttendance?.checkout_source === 'offline') && (
+                <p className="flex items-center gap-1 text-orange-600">
+                  <CloudOff className="h-4 w-4" />
+                  {selectedAttendance.checkin_source === 'offline' &&
+                  selectedAttendance.checkout_source === 'offline'
+                    ? 'Checked in and out offline'
+                    : selectedAttendance.checkin_source === 'offline'
+                      ? 'Checked in offline'
+                      : 'Checked out offline'}
+                  ; times are from the phone
+                </p>
+              )}
               <p><strong>Remarks:</strong></p>
               <div className="p-2 bg-muted rounded">
                 {selectedAttendance?.remarks || '—'}
               </div>
             </div>
+
+            {selectedAudit.length > 0 && (
+              <div className="space-y-1 text-sm">
+                <p className="flex items-center gap-1 font-medium">
+                  <History className="h-4 w-4" /> Changes
+                </p>
+                {selectedAudit.map(a => (
+                  <div key={a.id} className="p-2 border rounded space-y-0.5">
+                    <div className="flex justify-between gap-2">
+                      <span className="capitalize">{a.action}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(a.created_at), 'PPp')}
+                      </span>
+                    </div>
+                    <p className="text-muted-foreground">{a.reason}</p>
+                    {Number(a.ledger_adjustment) !== 0 && (
+                      <p className={Number(a.ledger_adjustment) > 0 ? 'text-green-600' : 'text-red-600'}>
+                        {Number(a.ledger_adjustment) > 0 ? '+' : '−'}₹
+                        {Math.abs(Number(a.ledger_adjustment)).toLocaleString('en-IN')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {editMode === 'edit' && (
+              <div className="space-y-3 p-3 border rounded">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label>Check-in</Label>
+                    <Input
+                      type="time"
+                      value={checkinTime}
+                      onChange={(e) => setCheckinTime(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label>Check-out (optional)</Label>
+                    <Input
+                      type="time"
+                      value={checkoutTime}
+                      onChange={(e) => setCheckoutTime(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <Textarea
+                  placeholder="Reason for the change (required)"
+                  value={editReason}
+                  onChange={(e) => setEditReason(e.target.value)}
+                />
+              </div>
+            )}
+
+            {editMode === 'delete' && (
+              <div className="space-y-3 p-3 border border-destructive/50 rounded">
+                <p className="text-sm text-destructive">
+                  The day will count as absent and its pay will be reversed.
+                </p>
+                <Textarea
+                  placeholder="Reason for deleting (required)"
+                  value={editReason}
+                  onChange={(e) => setEditReason(e.target.value)}
+                />
+              </div>
+            )}
+
+            {canEdit && selectedIsPast && (
+              <DialogFooter className="gap-2">
+                {editMode ? (
+                  <>
+                    <Button variant="outline" onClick={() => setEditMode(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      variant={editMode === 'delete' ? 'destructive' : 'default'}
+                      disabled={isSaving}
+                      onClick={saveCorrection}
+                    >
+                      {isSaving ? 'Saving…' : editMode === 'delete' ? 'Delete Day' : 'Save'}
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    {selectedAttendance && (
+                      <Button variant="outline" onClick={startDelete}>
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    )}
+                    <Button onClick={startEdit}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      {selectedAttendance ? 'Edit Times' : 'Add Attendance'}
+                    </Button>
+                  </>
+                )}
+              </DialogFooter>
+            )}
           </DialogContent>
         </Dialog>
 
@@ -0,0 +1,594 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import Header from "@/components/Header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { Settings, Plus, Pencil, Trash2 } from "lucide-react";
+import {
+  DEFAULT_POLICY_RULES,
+  formatPolicyTime,
+  type AttendancePolicy,
+  type AttendancePolicyRules,
+} from "@/lib/attendancePolicy";
+
+/* ===================== TYPES ===================== */
+
+type PolicyScope = "default" | "site" | "employee";
+
+interface Site {
+  id: string;
+  name: string;
+}
+
+interface Employee {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+}
+
+interface PolicyForm {
+  id: string | null;
+  scope: PolicyScope;
+  target: string;
+  checkin_cutoff: string;
+  late_grace_minutes: string;
+  full_day_min_hours: string;
+  half_day_min_hours: string;
+  paid_leaves_per_month: string;
+  timezone: string;
+  shift_start: string;
+  shift_end: string;
+  late_marks_per_penalty: string;
+  late_penalty_days: string;
+  standard_shift_hours: string;
+  overtime_multiplier: string;
+}
+
+/* ===================== HELPERS ===================== */
+
+const scopeOf = (p: AttendancePolicy): PolicyScope =>
+  p.emp_user_id ? "employee" : p.site_id ? "site" : "default";
+
+const toForm = (
+  rules: AttendancePolicyRules,
+  scope: PolicyScope,
+  target = "",
+  id: string | null = null
+): PolicyForm => ({
+  id,
+  scope,
+  target,
+  checkin_cutoff: rules.checkin_cutoff.slice(0, 5),
+  late_grace_minutes: String(rules.late_grace_minutes),
+  full_day_min_hours: String(rules.full_day_min_hours),
+  half_day_min_hours: String(rules.half_day_min_hours),
+  paid_leaves_per_month: String(rules.paid_leaves_per_month),
+  timezone: rules.timezone,
+  shift_start: rules.shift_start?.slice(0, 5) ?? "",
+  shift_end: rules.shift_end?.slice(0, 5) ?? "",
+  late_marks_per_penalty: rules.late_marks_per_penalty
+    ? String(rules.late_marks_per_penalty)
+    : "",
+  late_penalty_days: String(rules.late_penalty_days),
+  standard_shift_hours: String(rules.standard_shift_hours),
+  overtime_multiplier: String(rules.overtime_multiplier),
+});
+
+const validateForm = (form: PolicyForm) => {
+  if (form.scope !== "default" && !form.target)
+    return `Select a ${form.scope}`;
+  if (!/^\d{2}:\d{2}$/.test(form.checkin_cutoff))
+    return "Enter a valid cutoff time";
+
+  const grace = Number(form.late_grace_minutes);
+  const full = Number(form.full_day_min_hours);
+  const half = Number(form.half_day_min_hours);
+
+  if (!Number.isInteger(grace) || grace < 0)
+    return "Grace period must be whole minutes";
+  if (!(full > 0 && full <= 24)) return "Full day hours must be between 0 and 24";
+  if (!(half >= 0 && half <= full))
+    return "Half day hours must not exceed full day hours";
+
+  const shift = Number(form.standard_shift_hours);
+  if (!(shift > 0 && shift <= 24))
+    return "Standard shift must be between 0 and 24 hours";
+  if (!(Number(form.overtime_multiplier) > 0))
+    return "Overtime multiplier must be more than zero";
+  if (!form.timezone.trim()) return "Enter a timezone";
+
+  if (form.late_marks_per_penalty) {
+    const marks = Number(form.late_marks_per_penalty);
+    if (!Number.isInteger(marks) || marks < 1)
+      return "Late marks per penalty must be a whole number";
+    if (!(Number(form.late_penalty_days) > 0))
+      return "Penalty must be more than zero days";
+    if (!form.shift_start) return "Set a shift start to track late marks";
+  }
+
+  return null;
+};
+
+/* ===================== COMPONENT ===================== */
+
+const AdminAttendancePolicies = () => {
+  const [policies, setPolicies] = useState<AttendancePolicy[]>([]);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  /* ===================== FETCH ===================== */
+
+  const fetchAll = async () => {
+    const { data: policyData } = await supabase
+      .from("attendance_policies")
+      .select("*")
+      .order("created_at");
+
+    if (policyData) setPolicies(policyData);
+
+    const { data: siteData } = await supabase
+      .from("sites")
+      .select("id, name")
+      .eq("is_active", true)
+      .order("name");
+
+    if (siteData) setSites(siteData);
+
+    const { data: employeeData } = await supabase
+      .from("employee_directory")
+      .select("user_id, full_name, email")
+      .in("role", ["employee", "supervisor"]);
+
+    setEmployees(
+      (employeeData || []).filter((e): e is Employee => !!e.user_id)
+    );
+  };
+
+  /* ===================== SAVE ===================== */
+
+  const savePolicy = async () => {
+    if (!form) return;
+
+    const problem = validateForm(form);
+    if (problem) {
+      toast({ title: problem, variant: "destructive" });
+      return;
+    }
+
+    const values = {
+      site_id: form.scope === "site" ? form.target : null,
+      emp_user_id: form.scope === "employee" ? form.target : null,
+      checkin_cutoff: form.checkin_cutoff,
+      late_grace_minutes: Number(form.late_grace_minutes),
+      full_day_min_hours: Number(form.full_day_min_hours),
+      half_day_min_hours: Number(form.half_day_min_hours),
+      paid_leaves_per_month: Number(form.paid_leaves_per_month),
+      timezone: form.timezone.trim(),
+      shift_start: form.shift_start || null,
+      shift_end: form.shift_end || null,
+      late_marks_per_penalty: form.late_marks_per_penalty
+        ? Number(form.late_marks_per_penalty)
+        : null,
+      late_penalty_days: Number(form.late_penalty_days) || 0.5,
+      standard_shift_hours: Number(form.standard_shift_hours),
+      overtime_multiplier: Number(form.overtime_multiplier),
+    };
+
+    setSaving(true);
+
+    try {
+      const { error } = form.id
+        ? await supabase
+            .from("attendance_policies")
+            .update(values)
+            .eq("id", form.id)
+        : await supabase.from("attendance_policies").insert(values);
+
+      if (error) {
+        if (error.code === "23505")
+          throw new Error(`This ${form.scope} already has a policy`);
+        if (error.message.includes("INVALID_TIMEZONE"))
+          throw new Error("Unknown timezone");
+        throw error;
+      }
+
+      toast({ title: "Attendance policy saved" });
+      setForm(null);
+      await fetchAll();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /* ===================== DELETE ===================== */
+
+  const deletePolicy = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from("attendance_policies")
+        .delete()
+        .eq("id", id);
+      if (error) throw error;
+      toast({ title: "Override removed" });
+      await fetchAll();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /* ===================== DERIVED ===================== */
+
+  const defaultPolicy = policies.find((p) => scopeOf(p) === "default");
+  const overrides = policies.filter((p) => scopeOf(p) !== "default");
+
+  const targetName = (p: AttendancePolicy) => {
+    if (p.site_id)
+      return sites.find((s) => s.id === p.site_id)?.name ?? "Inactive site";
+    const emp = employees.find((e) => e.user_id === p.emp_user_id);
+    return emp?.full_name || emp?.email || "Unknown employee";
+  };
+
+  const renderRules = (p: AttendancePolicyRules) => (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-muted-foreground">
+      <span>Check-in cutoff: {formatPolicyTime(p.checkin_cutoff)}</span>
+      <span>Late grace: {p.late_grace_minutes} min</span>
+      <span>Full day: {p.full_day_min_hours} h</span>
+      <span>Half day: {p.half_day_min_hours} h</span>
+      <span>Timezone: {p.timezone}</span>
+      <span>
+        Shift:{" "}
+        {p.shift_start ? formatPolicyTime(p.shift_start) : "—"} –{" "}
+        {p.shift_end ? formatPolicyTime(p.shift_end) : "—"}
+      </span>
+      <span>
+        Late penalty:{" "}
+        {p.late_marks_per_penalty
+          ? `${p.late_penalty_days} day per ${p.late_marks_per_penalty} late marks`
+          : "Off"}
+      </span>
+      <span>
+        Overtime: after {p.standard_shift_hours} h at x{p.overtime_multiplier}
+      </span>
+    </div>
+  );
+
+  const updateForm = (patch: Partial<PolicyForm>) =>
+    setForm((f) => (f ? { ...f, ...patch } : f));
+
+  /* ===================== UI ===================== */
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Attendance Policies" backTo="/admin/dashboard" />
+
+      <main className="p-4 max-w-3xl mx-auto space-y-4">
+        {/* DEFAULT POLICY */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                Default Policy
+              </span>
+              {defaultPolicy && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    setForm(toForm(defaultPolicy, "default", "", defaultPolicy.id))
+                  }
+                >
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm mb-3">
+              Applies to every employee without a site or employee override.
+            </p>
+            {renderRules(defaultPolicy ?? DEFAULT_POLICY_RULES)}
+          </CardContent>
+        </Card>
+
+        {/* OVERRIDES */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              Overrides
+              <Button
+                size="sm"
+                onClick={() =>
+                  setForm(toForm(defaultPolicy ?? DEFAULT_POLICY_RULES, "site"))
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Override
+              </Button>
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-3">
+            {overrides.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center">
+                No overrides. Everyone follows the default policy.
+              </p>
+            )}
+
+            {overrides.map((p) => (
+              <div
+                key={p.id}
+                className="flex justify-between items-start gap-3 p-3 bg-muted/50 rounded-lg"
+              >
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">
+                      {scopeOf(p) === "site" ? "Site" : "Employee"}
+                    </Badge>
+                    <span className="font-medium">{targetName(p)}</span>
+                  </div>
+                  {renderRules(p)}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setForm(
+                        toForm(p, scopeOf(p), p.site_id ?? p.emp_user_id ?? "", p.id)
+                      )
+                    }
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => deletePolicy(p.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* EDIT DIALOG */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {form?.scope === "default"
+                ? "Default Policy"
+                : form?.id
+                ? "Edit Override"
+                : "New Override"}
+            </DialogTitle>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              {form.scope !== "default" && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label>Applies to</Label>
+                    <Select
+                      value={form.scope}
+                      disabled={!!form.id}
+                      onValueChange={(v) =>
+                        updateForm({ scope: v as PolicyScope, target: "" })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="site">Site</SelectItem>
+                        <SelectItem value="employee">Employee</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label>{form.scope === "site" ? "Site" : "Employee"}</Label>
+                    <Select
+                      value={form.target}
+                      disabled={!!form.id}
+                      onValueChange={(v) => updateForm({ target: v })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select…" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {form.scope === "site"
+                          ? sites.map((s) => (
+                              <SelectItem key={s.id} value={s.id}>
+                                {s.name}
+                              </SelectItem>
+                            ))
+                          : employees.map((e) => (
+                              <SelectItem key={e.user_id} value={e.user_id}>
+                                {e.full_name || e.email}
+                              </SelectItem>
+                            ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Check-in cutoff</Label>
+                  <Input
+                    type="time"
+                    value={form.checkin_cutoff}
+                    onChange={(e) => updateForm({ checkin_cutoff: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Late grace (minutes)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={form.late_grace_minutes}
+                    onChange={(e) =>
+                      updateForm({ late_grace_minutes: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <Label>Full day (min hours)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={form.full_day_min_hours}
+                    onChange={(e) =>
+                      updateForm({ full_day_min_hours: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <Label>Half day (min hours)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={form.half_day_min_hours}
+                    onChange={(e) =>
+                      updateForm({ half_day_min_hours: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <Label>Timezone</Label>
+                  <Input
+                    placeholder="Asia/Kolkata"
+                    value={form.timezone}
+                    onChange={(e) => updateForm({ timezone: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Shift start</Label>
+                  <Input
+                    type="time"
+                    value={form.shift_start}
+                    onChange={(e) => updateForm({ shift_start: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Shift end</Label>
+                  <Input
+                    type="time"
+                    value={form.shift_end}
+                    onChange={(e) => updateForm({ shift_end: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Late marks per penalty</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Off"
+                    value={form.late_marks_per_penalty}
+                    onChange={(e) =>
+                      updateForm({ late_marks_per_penalty: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <Label>Penalty (days of wage)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    disabled={!form.late_marks_per_penalty}
+                    value={form.late_penalty_days}
+                    onChange={(e) =>
+                      updateForm({ late_penalty_days: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <Label>Standard shift (hours)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={form.standard_shift_hours}
+                    onChange={(e) =>
+                      updateForm({ standard_shift_hours: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <Label>Overtime multiplier</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.25"
+                    value={form.overtime_multiplier}
+                    onChange={(e) =>
+                      updateForm({ overtime_multiplier: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button onClick={savePolicy} disabled={saving}>
+              {saving ? "Saving..." : "Save Policy"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminAttendancePolicies;
@@ -12,6 +12,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from '@/hooks/use-toast';
+import { usePermissions, type PermissionKey } from '@/hooks/use-permission';
 import {
   Users,
   MapPin,
@@ -28,6 +29,12 @@ import {
   CalendarDays,
   IndianRupee,
   Trash2,
+  ClipboardCheck,
+  Activity,
+  UserCheck,
+  KeyRound,
+  CalendarRange,
+  Receipt,
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
@@ -38,10 +45,21 @@ interface DashboardStats {
   totalEmployees: number;
   totalSites: number;
   pendingLeaves: number;
+  pendingCorrections: number;
   openComplaints: number;
   todayAttendance: number;
 }
 
+interface MenuItem {
+  icon: typeof Users;
+  label: string;
+  href: string;
+  description: string;
+  color: string;
+  // Hidden from admins without this key
+  permission?: PermissionKey;
+}
+
 interface LatestAnnouncement {
   id: string;
   body: string | null;
@@ -52,11 +70,13 @@ interface LatestAnnouncement {
 
 const AdminDashboard = () => {
   const { user } = useAuth();
+  const can = usePermissions();
 
   const [stats, setStats] = useState<DashboardStats>({
     totalEmployees: 0,
     totalSites: 0,
     pendingLeaves: 0,
+    pendingCorrections: 0,
     openComplaints: 0,
     todayAttendance: 0,
   });
@@ -72,7 +92,7 @@ const AdminDashboard = () => {
     const { count: employeeCount } = await supabase
       .from('employee_directory')
       .select('*', { count: 'exact', head: true })
-      .eq('role', 'employee');
+      .in('role', ['employee', 'supervisor']);
 
     const { count: siteCount } = await supabase
       .from('sites')
@@ -84,6 +104,11 @@ const AdminDashboard = () => {
       .select('*', { count: 'exact', head: true })
       .eq('status', 'pending');
 
+    const { count: pendingCorrectionsCount } = await supabase
+      .from('attendance_regularizations')
+      .select('*', { count: 'exact', head: true })
+      .eq('status', 'pending');
+
     const { count: complaintsCount } = await supabase
       .from('complaints')
       .select('*', { count: 'exact', head: true })
@@ -99,6 +124,7 @@ const AdminDashboard = () => {
       totalEmployees: employeeCount ?? 0,
       totalSites: siteCount ?? 0,
       pendingLeaves: pendingLeavesCount ?? 0,
+      pendingCorrections: pendingCorrectionsCount ?? 0,
       openComplaints: complaintsCount ?? 0,
       todayAttendance: attendanceCount ?? 0,
     });
@@ -152,6 +178,11 @@ const AdminDashboard = () => {
         { event: '*', schema: 'public', table: 'leaves' },
         refreshAll
       )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'attendance_regularizations' },
+        refreshAll
+      )
       .on(
         'postgres_changes',
         { event: '*', schema: 'public', table: 'complaints' },
@@ -186,7 +217,7 @@ const AdminDashboard = () => {
       const { data: employees } = await supabase
         .from('employee_directory')
         .select('user_id')
-        .eq('role', 'employee');
+        .in('role', ['employee', 'supervisor']);
 
       if (employees?.length) {
         await supabase.from('notifications').insert(
@@ -242,18 +273,29 @@ const AdminDashboard = () => {
     { icon: Calendar, label: 'Pending Leaves', value: stats.pendingLeaves, color: 'text-amber-500', bg: 'bg-amber-500/10' },
   ];
 
-  const menuItems = [
+  const allMenuItems: MenuItem[] = [
     { icon: Users, label: 'Employee Management', href: '/admin/employees', description: 'Add, edit, view employees', color: 'text-blue-500' },
-    { icon: MapPin, label: 'Site Management', href: '/admin/sites', description: 'Manage work sites', color: 'text-green-500' },
-
-    { icon: Calendar, label: 'Leave Approvals', href: '/admin/leaves', description: `${stats.pendingLeaves} pending requests`, color: 'text-amber-500' },
-    { icon: CalendarDays, label: 'Company Holidays', href: '/admin/holidays', description: 'Assign company-wide holidays', color: 'text-violet-500' },
-    { icon: IndianRupee, label: 'Advance Requests', href: '/admin/advance-requests', description: 'Approve salary advances', color: 'text-emerald-500' },
-    { icon: Wallet, label: 'Money Ledger', href: '/admin/ledger', description: 'Manage payments & advances', color: 'text-teal-500' },
+    { icon: MapPin, label: 'Site Management', href: '/admin/sites', description: 'Manage work sites', color: 'text-green-500', permission: 'sites.manage' },
+    { icon: Activity, label: 'Live Attendance', href: '/admin/live-attendance', description: `${stats.todayAttendance} checked in today`, color: 'text-purple-500' },
+    { icon: UserCheck, label: 'Bulk Attendance', href: '/supervisor/bulk-attendance', description: 'Mark a site crew at once', color: 'text-cyan-500', permission: 'attendance.manage' },
+    { icon: Clock, label: 'Attendance Policies', href: '/admin/attendance-policies', description: 'Cutoffs, day rules & overtime', color: 'text-sky-500', permission: 'attendance.manage' },
+
+    { icon: Calendar, label: 'Leave Approvals', href: '/admin/leaves', description: `${stats.pendingLeaves} pending requests`, color: 'text-amber-500', permission: 'leaves.manage' },
+    { icon: CalendarRange, label: 'Leave Types', href: '/admin/leave-types', description: 'Balances, accrual & carry-forward', color: 'text-yellow-600', permission: 'leaves.manage' },
+    { icon: ClipboardCheck, label: 'Attendance Corrections', href: '/admin/regularizations', description: `${stats.pendingCorrections} pending requests`, color: 'text-orange-500', permission: 'attendance.manage' },
+    { icon: CalendarDays, label: 'Company Holidays', href: '/admin/holidays', description: 'Assign company-wide holidays', color: 'text-violet-500', permission: 'holidays.manage' },
+    { icon: IndianRupee, label: 'Advance Requests', href: '/admin/advance-requests', description: 'Approve salary advances', color: 'text-emerald-500', permission: 'advances.manage' },
+    { icon: Wallet, label: 'Money Ledger', href: '/admin/ledger', description: 'Manage payments & advances', color: 'text-teal-500', permission: 'ledger.manage' },
+    { icon: Receipt, label: 'Payroll', href: '/admin/payroll', description: 'Monthly payslips & lock', color: 'text-lime-600', permission: 'ledger.manage' },
     { icon: Bell, label: 'Notifications', href: '/admin/notifications', description: 'View announcements', color: 'text-indigo-500' },
-    { icon: AlertCircle, label: 'Complaints', href: '/admin/complaints', description: `${stats.openComplaints} open complaints`, color: 'text-destructive' },
+    { icon: AlertCircle, label: 'Complaints', href: '/admin/complaints', description: `${stats.openComplaints} open complaints`, color: 'text-destructive', permission: 'complaints.manage' },
+    { icon: KeyRound, label: 'Roles & Permissions', href: '/admin/permissions', description: 'Limit what each admin can do', color: 'text-slate-500', permission: 'permissions.manage' },
   ];
 
+  const menuItems = allMenuItems.filter(
+    item => !item.permission || can(item.permission)
+  );
+
   return (
     <div className="min-h-screen bg-background">
       <Header title="Admin Dashboard" />
@@ -275,6 +317,7 @@ const AdminDashboard = () => {
           ))}
         </div>
 
+        {can('announcements.manage') && (
         <Card>
           <CardHeader>
             <div className="flex items-center gap-2">
@@ -316,6 +359,7 @@ const AdminDashboard = () => {
             )}
           </CardContent>
         </Card>
+        )}
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
           {menuItems.map(item => (
@@ -26,8 +26,12 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { toast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
 
 import { Users, Edit, MapPin, IndianRupee } from "lucide-react";
 
@@ -42,6 +46,8 @@ interface Employee {
   designation: string | null;
   daily_wage: number | null;
   site_id: string | null;
+  force_manual: boolean | null;
+  role: string | null;
 }
 
 interface Site {
@@ -53,10 +59,15 @@ interface Site {
 
 const AdminEmployees = () => {
   const navigate = useNavigate();
+  const canManage = usePermission("employees.manage");
+  const canDelete = usePermission("employees.delete");
+  const canSetPay = usePermission("employees.pay");
 
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [sites, setSites] = useState<Site[]>([]);
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
+  // user_id -> site ids they supervise
+  const [supervision, setSupervision] = useState<Record<string, string[]>>({});
 
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -65,6 +76,8 @@ const AdminEmployees = () => {
     designation: "",
     daily_wage: "",
     site_id: "",
+    force_manual: false,
+    supervised_site_ids: [] as string[],
   });
   const [isCreateOpen, setIsCreateOpen] = useState(false); 
   const [createForm, setCreateForm] = useState({
@@ -89,9 +102,11 @@ const AdminEmployees = () => {
         avatar_url,
         designation,
         daily_wage,
-        site_id
+        site_id,
+        force_manual,
+        role
       `)
-      .eq("role", "employee")
+      .in("role", ["employee", "supervisor"])
       .order("full_name");
 
     if (error) {
@@ -100,6 +115,16 @@ const AdminEmployees = () => {
     }
 
     setEmployees(data as Employee[]);
+
+    const { data: assignments } = await supabase
+      .from("site_supervisors")
+      .select("user_id, site_id");
+
+    const next: Record<string, string[]> = {};
+    assignments?.forEach((a) => {
+      (next[a.user_id] ??= []).push(a.site_id);
+    });
+    setSupervision(next);
   };
 
   const fetchSites = async () => {
@@ -135,6 +160,8 @@ const AdminEmployees = () => {
       designation: emp.designation ?? "",
       daily_wage: emp.daily_wage?.toString() ?? "",
       site_id: emp.site_id ?? "",
+      force_manual: !!emp.force_manual,
+      supervised_site_ids: supervision[emp.user_id] ?? [],
     });
     setIsEditOpen(true);
   };
@@ -148,17 +175,33 @@ const AdminEmployees = () => {
       .from("employees")
       .update({
         designation: editForm.designation || null,
-        daily_wage: editForm.daily_wage
-          ? Number(editForm.daily_wage)
-          : null,
+        ...(canSetPay && {
+          daily_wage: editForm.daily_wage
+            ? Number(editForm.daily_wage)
+            : null,
+        }),
         site_id: editForm.site_id || null,
+        force_manual: editForm.force_manual,
       })
       .eq("id", selectedEmployee.id); // ✅ CRITICAL FIX
 
-    if (error) {
+    const current = supervision[selectedEmployee.user_id] ?? [];
+    const next = editForm.supervised_site_ids;
+    const supervisionChanged =
+      current.length !== next.length || current.some((id) => !next.includes(id));
+
+    const { error: supervisorError } =
+      !error && supervisionChanged
+        ? await supabase.rpc("set_site_supervisor", {
+            p_user_id: selectedEmployee.user_id,
+            p_site_ids: next,
+          })
+        : { error: null };
+
+    if (error || supervisorError) {
       toast({
         title: "Update failed",
-        description: error.message,
+        description: (error ?? supervisorError)?.message,
         variant: "destructive",
       });
     } else {
@@ -186,7 +229,7 @@ const AdminEmployees = () => {
             full_name: createForm.full_name,
             site_id: createForm.site_id,
             designation: createForm.designation,
-            daily_wage: Number(createForm.daily_wage),
+            daily_wage: canSetPay ? Number(createForm.daily_wage) : null,
             avatar: createForm.avatar,
           },
         }
@@ -236,9 +279,11 @@ const AdminEmployees = () => {
               <Users className="h-5 w-5" />
               All Employees ({employees.length})
             </CardTitle>
+            {canManage && (
             <Button onClick={()=> setIsCreateOpen(true)}>
           + Add Employee
           </Button>
+            )}
           </CardHeader>
           
 
@@ -260,7 +305,12 @@ const AdminEmployees = () => {
                   </Avatar>
 
                   <div className="flex-1">
-                    <p className="font-medium">{emp.full_name}</p>
+                    <p className="font-medium flex items-center gap-2">
+                      {emp.full_name}
+                      {emp.role === "supervisor" && (
+                        <Badge variant="secondary">Supervisor</Badge>
+                      )}
+                    </p>
                     <p className="text-sm text-muted-foreground">{emp.email}</p>
                     <p className="text-sm flex gap-1">
                       <MapPin className="h-3 w-3" />
@@ -273,6 +323,7 @@ const AdminEmployees = () => {
                   </div>
 
                   <div className="flex gap-2">
+                    {canManage && (
                     <Button
                       size="sm"
                       variant="outline"
@@ -283,7 +334,9 @@ const AdminEmployees = () => {
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
+                    )}
 
+                    {canDelete && (
                     <Button
                       size="sm"
                       variant="destructive"
@@ -317,6 +370,7 @@ const AdminEmployees = () => {
                     >
                       Delete
                     </Button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -343,16 +397,18 @@ const AdminEmployees = () => {
                 />
               </div>
 
-              <div>
-                <Label>Daily Wage</Label>
-                <Input
-                  type="number"
-                  value={editForm.daily_wage}
-                  onChange={(e) =>
-                    setEditForm({ ...editForm, daily_wage: e.target.value })
-                  }
-                />
-              </div>
+              {canSetPay && (
+                <div>
+                  <Label>Daily Wage</Label>
+                  <Input
+                    type="number"
+                    value={editForm.daily_wage}
+                    onChange={(e) =>
+                      setEditForm({ ...editForm, daily_wage: e.target.value })
+                    }
+                  />
+                </div>
+              )}
 
               <div>
                 <Label>Site</Label>
@@ -374,6 +430,46 @@ const AdminEmployees = () => {
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Manual check-in</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Allow checking in without scanning the site QR
+                  </p>
+                </div>
+                <Switch
+                  checked={editForm.force_manual}
+                  onCheckedChange={(v) =>
+                    setEditForm({ ...editForm, force_manual: v })
+                  }
+                />
+              </div>
+
+              <div>
+                <Label>Supervises sites</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Supervisors can mark attendance for the crew of these sites
+                </p>
+                <div className="space-y-2">
+                  {sites.map((s) => (
+                    <label key={s.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={editForm.supervised_site_ids.includes(s.id)}
+                        onCheckedChange={(checked) =>
+                          setEditForm({
+                            ...editForm,
+                            supervised_site_ids: checked
+                              ? [...editForm.supervised_site_ids, s.id]
+                              : editForm.supervised_site_ids.filter((id) => id !== s.id),
+                          })
+                        }
+                      />
+                      {s.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
             </div>
 
         <DialogFooter>
@@ -437,16 +533,18 @@ const AdminEmployees = () => {
                 />
               </div>
 
-              <div>
-                <Label>Daily Wage</Label>
-                <Input
-                  type="number"
-                  value={createForm.daily_wage}
-                  onChange={(e) =>
-                    setCreateForm({ ...createForm, daily_wage: e.target.value })
-                  }
-                />
-              </div>
+              {canSetPay && (
+                <div>
+                  <Label>Daily Wage</Label>
+                  <Input
+                    type="number"
+                    value={createForm.daily_wage}
+                    onChange={(e) =>
+                      setCreateForm({ ...createForm, daily_wage: e.target.value })
+                    }
+                  />
+                </div>
+              )}
 
               <div>
                 <Label>Site</Label>
@@ -8,7 +8,7 @@ import { Label } from "@/components/ui/label";
 import { toast } from "@/hooks/use-toast";
 import { Calendar as CalendarIcon, Trash2, Plus } from "lucide-react";
 import { Calendar } from "@/components/ui/calendar";
-import { format, eachDayOfInterval } from "date-fns";
+import { format } from "date-fns";
 import type { DateRange } from "react-day-picker";
 
 /* ===================== TYPES ===================== */
@@ -53,24 +53,21 @@ const AdminHolidays = () => {
       return;
     }
 
-    const days = eachDayOfInterval({
-      start: range.from,
-      end: range.to,
-    });
-
     setLoading(true);
 
     try {
-      for (const d of days){
-        const { error } = await supabase.from("holidays").insert({
-          holiday_date: format(d, "yyyy-MM-dd"),
-          description: description || null,
-        });
-      
-        if (error) throw error;
-      }
-
-      toast({ title: "Company holidays added" });
+      // The whole range is added in one go; days already listed are skipped
+      const { data: added, error } = await supabase.rpc("add_holidays", {
+        p_start_date: format(range.from, "yyyy-MM-dd"),
+        p_end_date: format(range.to, "yyyy-MM-dd"),
+        ...(description ? { p_description: description } : {}),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: added ? "Company holidays added" : "Those days are already holidays",
+      });
       setRange(undefined);
       setDescription("");
       await fetchHolidays();
@@ -0,0 +1,329 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import Header from "@/components/Header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import { Building, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  format,
+  startOfMonth,
+  subMonths,
+} from "date-fns";
+import { cn } from "@/lib/utils";
+import { approvedLeaveOnDay, type CoverageLeave } from "@/lib/leaves";
+
+/* ===================== TYPES ===================== */
+
+interface Member {
+  userId: string;
+  name: string;
+}
+
+interface SiteGroup {
+  siteId: string | null;
+  siteName: string;
+  minHeadcount: number | null;
+  members: Member[];
+}
+
+/* ===================== COMPONENT ===================== */
+
+// Who is off when, site by site, so approvals can be weighed against
+// the rest of the crew.
+const AdminLeaveCalendar = () => {
+  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [groups, setGroups] = useState<SiteGroup[]>([]);
+  const [leaves, setLeaves] = useState<CoverageLeave[]>([]);
+  const [holidays, setHolidays] = useState<string[]>([]);
+  const [minInputs, setMinInputs] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  /* ===================== FETCH ===================== */
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true);
+
+    const start = format(startOfMonth(currentMonth), "yyyy-MM-dd");
+    const end = format(endOfMonth(currentMonth), "yyyy-MM-dd");
+
+    const { data: sites } = await supabase
+      .from("sites")
+      .select("id, name, min_headcount")
+      .eq("is_active", true)
+      .order("name");
+
+    const { data: employees } = await supabase
+      .from("employee_directory")
+      .select("user_id, full_name, email, site_id, active")
+      .in("role", ["employee", "supervisor"])
+      .order("full_name");
+
+    const { data: leaveData } = await supabase
+      .from("leaves")
+      .select("id, emp_user_id, start_date, end_date, half_day, status")
+      .in("status", ["approved", "pending"])
+      .lte("start_date", end)
+      .gte("end_date", start);
+
+    const { data: holidayData } = await supabase
+      .from("holidays")
+      .select("holiday_date")
+      .gte("holiday_date", start)
+      .lte("holiday_date", end);
+
+    const rows = (employees ?? []).filter((e) => e.user_id && e.active !== false);
+    const toMember = (e: (typeof rows)[number]): Member => ({
+      userId: e.user_id!,
+      name: e.full_name || e.email || "Unknown",
+    });
+
+    const siteGroups: SiteGroup[] = (sites ?? []).map((s) => ({
+      siteId: s.id,
+      siteName: s.name,
+      minHeadcount: s.min_headcount,
+      members: rows.filter((e) => e.site_id === s.id).map(toMember),
+    }));
+
+    const unassigned = rows.filter(
+      (e) => !e.site_id || !sites?.some((s) => s.id === e.site_id)
+    );
+    if (unassigned.length > 0) {
+      siteGroups.push({
+        siteId: null,
+        siteName: "Unassigned",
+        minHeadcount: null,
+        members: unassigned.map(toMember),
+      });
+    }
+
+    setGroups(siteGroups.filter((g) => g.members.length > 0));
+    setLeaves(leaveData ?? []);
+    setHolidays((holidayData ?? []).map((h) => h.holiday_date));
+    setMinInputs(
+      Object.fromEntries(
+        (sites ?? []).map((s) => [s.id, s.min_headcount?.toString() ?? ""])
+      )
+    );
+    setIsLoading(false);
+  }, [currentMonth]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  /* ===================== MIN HEADCOUNT ===================== */
+
+  const saveMinHeadcount = async (siteId: string) => {
+    const raw = minInputs[siteId]?.trim() ?? "";
+    const value = raw === "" ? null : Number(raw);
+
+    if (value !== null && !(Number.isInteger(value) && value >= 0)) {
+      toast({
+        title: "Error",
+        description: "Minimum headcount must be a whole number",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc("set_site_min_headcount", {
+        p_site_id: siteId,
+        ...(value === null ? {} : { p_min_headcount: value }),
+      });
+      if (error) throw error;
+
+      toast({ title: "Minimum headcount saved" });
+      fetchData();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /* ===================== HELPERS ===================== */
+
+  const days = eachDayOfInterval({
+    start: startOfMonth(currentMonth),
+    end: endOfMonth(currentMonth),
+  }).map((d) => format(d, "yyyy-MM-dd"));
+
+  const getCell = (userId: string, day: string) => {
+    const leave = leaves.find(
+      (l) => l.emp_user_id === userId && day >= l.start_date && day <= l.end_date
+    );
+    if (!leave) return null;
+    return { status: leave.status, half: !!leave.half_day };
+  };
+
+  const getCellClass = (userId: string, day: string) => {
+    if (holidays.includes(day)) return "bg-violet-200";
+
+    const cell = getCell(userId, day);
+    if (!cell) return "bg-muted/40";
+    if (cell.status === "approved") return cell.half ? "bg-blue-300" : "bg-blue-500";
+    return cell.half ? "bg-amber-200" : "bg-amber-400";
+  };
+
+  const availableOn = (group: SiteGroup, day: string) =>
+    group.members.length -
+    group.members.reduce(
+      (sum, m) => sum + approvedLeaveOnDay(leaves, m.userId, day),
+      0
+    );
+
+  /* ===================== UI ===================== */
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Team Leave Calendar" backTo="/admin/leaves" />
+
+      <main className="p-4 max-w-6xl mx-auto space-y-4">
+        {/* MONTH NAV */}
+        <Card>
+          <CardContent className="flex items-center justify-between p-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setCurrentMonth(subMonths(currentMonth, 1))}
+            >
+              <ChevronLeft />
+            </Button>
+
+            <h2 className="font-semibold">{format(currentMonth, "MMMM yyyy")}</h2>
+
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setCurrentMonth(addMonths(currentMonth, 1))}
+            >
+              <ChevronRight />
+            </Button>
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm bg-blue-500" /> Approved
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm bg-amber-400" /> Pending
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm bg-blue-300" /> Half day
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm bg-violet-200" /> Holiday
+          </span>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          groups.map((group) => (
+            <Card key={group.siteId ?? "unassigned"}>
+              <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Building className="h-5 w-5" />
+                  {group.siteName}
+                  <span className="text-sm font-normal text-muted-foreground">
+                    ({group.members.length})
+                  </span>
+                </CardTitle>
+
+                {group.siteId && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">Min at work</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-20 h-8"
+                      placeholder="—"
+                      value={minInputs[group.siteId] ?? ""}
+                      onChange={(e) =>
+                        setMinInputs((m) => ({ ...m, [group.siteId!]: e.target.value }))
+                      }
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => saveMinHeadcount(group.siteId!)}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                )}
+              </CardHeader>
+
+              <CardContent className="overflow-x-auto">
+                <table className="text-xs border-separate border-spacing-0.5">
+                  <thead>
+                    <tr>
+                      <th className="text-left font-medium pr-2 sticky left-0 bg-card" />
+                      {days.map((day) => (
+                        <th key={day} className="w-6 font-normal text-muted-foreground">
+                          {format(new Date(`${day}T00:00:00`), "d")}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+
+                  <tbody>
+                    {group.members.map((m) => (
+                      <tr key={m.userId}>
+                        <td className="pr-2 whitespace-nowrap sticky left-0 bg-card">
+                          {m.name}
+                        </td>
+                        {days.map((day) => (
+                          <td
+                            key={day}
+                            className={cn("h-5 w-6 rounded-sm", getCellClass(m.userId, day))}
+                          />
+                        ))}
+                      </tr>
+                    ))}
+
+                    <tr>
+                      <td className="pr-2 font-medium sticky left-0 bg-card">At work</td>
+                      {days.map((day) => {
+                        if (holidays.includes(day)) return <td key={day} />;
+
+                        const available = availableOn(group, day);
+                        const short =
+                          group.minHeadcount != null && available < group.minHeadcount;
+
+                        return (
+                          <td
+                            key={day}
+                            className={cn(
+                              "text-center font-medium",
+                              short ? "text-destructive" : "text-muted-foreground"
+                            )}
+                          >
+                            {available}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminLeaveCalendar;
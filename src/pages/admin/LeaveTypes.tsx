@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import Header from "@/components/Header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { CalendarRange, Pencil, Plus } from "lucide-react";
+
+/* ===================== TYPES ===================== */
+
+type LeaveType = Tables<"leave_types">;
+
+interface LeaveTypeForm {
+  code: string;
+  name: string;
+  is_paid: boolean;
+  accrual: string;
+  accrual_days: string;
+  carry_forward_cap: string;
+  requires_document: boolean;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: LeaveTypeForm = {
+  code: "",
+  name: "",
+  is_paid: true,
+  accrual: "monthly",
+  accrual_days: "1",
+  carry_forward_cap: "0",
+  requires_document: false,
+  is_active: true,
+};
+
+const ACCRUAL_LABELS: Record<string, string> = {
+  monthly: "per month",
+  yearly: "per year",
+  none: "no accrual",
+};
+
+const toForm = (t: LeaveType): LeaveTypeForm => ({
+  code: t.code,
+  name: t.name,
+  is_paid: t.is_paid,
+  accrual: t.accrual,
+  accrual_days: String(t.accrual_days),
+  carry_forward_cap: String(t.carry_forward_cap),
+  requires_document: t.requires_document,
+  is_active: t.is_active,
+});
+
+const validateForm = (form: LeaveTypeForm) => {
+  if (!/^[a-z][a-z0-9_]*$/.test(form.code))
+    return "Code must be lowercase letters, digits or underscores";
+  if (!form.name.trim()) return "Enter a name";
+  if (!(Number(form.accrual_days) >= 0)) return "Accrual cannot be negative";
+  if (!(Number(form.carry_forward_cap) >= 0))
+    return "Carry-forward cap cannot be negative";
+  return null;
+};
+
+/* ===================== COMPONENT ===================== */
+
+const AdminLeaveTypes = () => {
+  const [types, setTypes] = useState<LeaveType[]>([]);
+  const [form, setForm] = useState<LeaveTypeForm>(EMPTY_FORM);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchTypes();
+  }, []);
+
+  /* ===================== FETCH ===================== */
+
+  const fetchTypes = async () => {
+    const { data } = await supabase
+      .from("leave_types")
+      .select("*")
+      .order("sort_order")
+      .order("name");
+
+    setTypes(data ?? []);
+  };
+
+  /* ===================== FORM ===================== */
+
+  const updateForm = (patch: Partial<LeaveTypeForm>) =>
+    setForm((f) => ({ ...f, ...patch }));
+
+  const startEdit = (t: LeaveType) => {
+    setEditingCode(t.code);
+    setForm(toForm(t));
+  };
+
+  const resetForm = () => {
+    setEditingCode(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const saveType = async () => {
+    const problem = validateForm(form);
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const row = {
+      name: form.name.trim(),
+      is_paid: form.is_paid,
+      accrual: form.is_paid ? form.accrual : "none",
+      accrual_days: form.is_paid ? Number(form.accrual_days) : 0,
+      carry_forward_cap: form.is_paid ? Number(form.carry_forward_cap) : 0,
+      requires_document: form.requires_document,
+      is_active: form.is_active,
+    };
+
+    const { error } = editingCode
+      ? await supabase.from("leave_types").update(row).eq("code", editingCode)
+      : await supabase.from("leave_types").insert({
+          ...row,
+          code: form.code,
+          sort_order: types.length + 1,
+        });
+
+    setIsSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description:
+          error.code === "23505" ? "A leave type with this code exists" : error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: editingCode ? "Leave type updated" : "Leave type created" });
+    resetForm();
+    fetchTypes();
+  };
+
+  /* ===================== UI ===================== */
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Leave Types" backTo="/admin/dashboard" />
+
+      <main className="p-4 max-w-3xl mx-auto space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarRange className="h-5 w-5" />
+              Leave Types
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-3">
+            {types.map((t) => (
+              <div
+                key={t.code}
+                className="p-3 bg-muted/50 rounded-lg flex items-center gap-3"
+              >
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium">{t.name}</p>
+                    <Badge variant="outline">{t.code}</Badge>
+                    {!t.is_paid && <Badge variant="secondary">Unpaid</Badge>}
+                    {t.requires_document && <Badge variant="secondary">Document</Badge>}
+                    {!t.is_active && <Badge variant="destructive">Inactive</Badge>}
+                  </div>
+                  {t.is_paid && (
+                    <p className="text-xs text-muted-foreground">
+                      {t.accrual === "none"
+                        ? ACCRUAL_LABELS.none
+                        : `${Number(t.accrual_days)} day(s) ${ACCRUAL_LABELS[t.accrual]}`}
+                      {" · "}carry forward up to {Number(t.carry_forward_cap)}
+                    </p>
+                  )}
+                </div>
+
+                <Button size="icon" variant="outline" onClick={() => startEdit(t)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {editingCode ? <Pencil className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+              {editingCode ? `Edit ${form.name || editingCode}` : "New Leave Type"}
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Code</Label>
+                <Input
+                  value={form.code}
+                  disabled={!!editingCode}
+                  placeholder="e.g. maternity"
+                  onChange={(e) => updateForm({ code: e.target.value.toLowerCase() })}
+                />
+              </div>
+              <div>
+                <Label>Name</Label>
+                <Input
+                  value={form.name}
+                  placeholder="e.g. Maternity Leave"
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label>Paid</Label>
+              <Switch
+                checked={form.is_paid}
+                onCheckedChange={(v) => updateForm({ is_paid: v })}
+              />
+            </div>
+
+            {form.is_paid && (
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label>Accrual</Label>
+                  <Select
+                    value={form.accrual}
+                    onValueChange={(v) => updateForm({ accrual: v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                      <SelectItem value="yearly">Yearly</SelectItem>
+                      <SelectItem value="none">None</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Days per accrual</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={form.accrual_days}
+                    disabled={form.accrual === "none"}
+                    onChange={(e) => updateForm({ accrual_days: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Carry-forward cap</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={form.carry_forward_cap}
+                    onChange={(e) => updateForm({ carry_forward_cap: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label>Requires supporting document</Label>
+              <Switch
+                checked={form.requires_document}
+                onCheckedChange={(v) => updateForm({ requires_document: v })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label>Active</Label>
+              <Switch
+                checked={form.is_active}
+                onCheckedChange={(v) => updateForm({ is_active: v })}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={saveType} disabled={isSaving}>
+                {isSaving ? "Saving..." : editingCode ? "Save Changes" : "Create Leave Type"}
+              </Button>
+              {editingCode && (
+                <Button variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default AdminLeaveTypes;
@@ -19,10 +19,24 @@ import {
   XCircle,
   Clock,
   User,
+  FileText,
+  Ban,
+  RefreshCw,
+  CalendarRange,
 } from "lucide-react";
+import { Link } from "react-router-dom";
 import { format } from "date-fns";
 import { Database } from "@/integrations/supabase/types";
-import {eachMonthOfInterval,startOfMonth,endOfMonth} from 'date-fns';
+import {
+  HALF_DAY_LABELS,
+  coverageShortfalls,
+  formatLeaveDays,
+  sumLeaveCost,
+  type CoverageShortfall,
+  type HalfDay,
+  type LeaveCostDay,
+} from "@/lib/leaves";
+import LeaveCostBreakdown from "@/components/LeaveCostBreakdown";
 
 /* ===================== TYPES ===================== */
 
@@ -37,19 +51,89 @@ interface LeaveRequest {
   status: LeaveStatus | null;
   created_at: string | null;
   emp_user_id: string;
+  leave_type: string | null;
+  half_day: string | null;
+  change_type: string | null;
+  requested_start_date: string | null;
+  requested_end_date: string | null;
+  document_path: string | null;
+  deduction_amount: number | null;
   employee?: { full_name: string | null; email: string | null } | null;
-  daily_wage?: number;
 }
 
+interface PendingApproval extends LeaveRequest {
+  cost: LeaveCostDay[];
+  siteName: string | null;
+  minHeadcount: number | null;
+  shortfalls: CoverageShortfall[];
+}
+
+/* ===================== COVERAGE ===================== */
+
+// Days the leave would take the employee's site below its minimum headcount
+const checkSiteCoverage = async (leave: LeaveRequest) => {
+  const none = { siteName: null, minHeadcount: null, shortfalls: [] };
+
+  const { data: employee } = await supabase
+    .from("employees")
+    .select("site_id")
+    .eq("user_id", leave.emp_user_id)
+    .maybeSingle();
+
+  if (!employee?.site_id) return none;
+
+  const { data: site } = await supabase
+    .from("sites")
+    .select("name, min_headcount")
+    .eq("id", employee.site_id)
+    .maybeSingle();
+
+  if (!site || site.min_headcount == null) return none;
+
+  const { data: members } = await supabase
+    .from("employees")
+    .select("user_id, active")
+    .eq("site_id", employee.site_id);
+
+  const memberIds = (members ?? [])
+    .filter((m) => m.active !== false)
+    .map((m) => m.user_id);
+
+  const { data: siteLeaves } = await supabase
+    .from("leaves")
+    .select("id, emp_user_id, start_date, end_date, half_day, status")
+    .in("emp_user_id", memberIds)
+    .eq("status", "approved")
+    .lte("start_date", leave.end_date)
+    .gte("end_date", leave.start_date);
+
+  const { data: workingDays } = await supabase.rpc("get_working_days_between", {
+    p_start_date: leave.start_date,
+    p_end_date: leave.end_date,
+  });
+
+  return {
+    siteName: site.name,
+    minHeadcount: site.min_headcount,
+    shortfalls: coverageShortfalls(
+      leave,
+      memberIds,
+      siteLeaves ?? [],
+      workingDays ?? [],
+      site.min_headcount
+    ),
+  };
+};
+
 /* ===================== COMPONENT ===================== */
 
 const AdminLeaves = () => {
   const [leaves, setLeaves] = useState<LeaveRequest[]>([]);
-  const [monthlyApproved, setMonthlyApproved] = useState<Record<string, Record<string, number>>>({});
+  const [typeNames, setTypeNames] = useState<Record<string, string>>({});
   const [isUpdating, setIsUpdating] = useState<string | null>(null);
 
   const [showWarning, setShowWarning] = useState(false);
-  const [pendingLeave, setPendingLeave] = useState<LeaveRequest | null>(null);
+  const [pendingLeave, setPendingLeave] = useState<PendingApproval | null>(null);
 
   useEffect(() => {
     fetchLeaves();
@@ -72,80 +156,19 @@ const AdminLeaves = () => {
       .select("auth_uid, full_name, email")
       .in("auth_uid", userIds);
 
-    const { data: wages } = await supabase
-      .from("employees")
-      .select("user_id, daily_wage")
-      .in("user_id", userIds);
+    const { data: types } = await supabase
+      .from("leave_types")
+      .select("code, name");
+
+    setTypeNames(Object.fromEntries((types ?? []).map((t) => [t.code, t.name])));
 
     const enriched: LeaveRequest[] = data.map((leave) => ({
       ...leave,
       employee:
         profiles?.find((p) => p.auth_uid === leave.emp_user_id) || null,
-      daily_wage:
-        wages?.find((w) => w.user_id === leave.emp_user_id)?.daily_wage || 0,
     }));
 
     setLeaves(enriched);
-    setMonthlyApproved(buildMonthlyApprovedMap(enriched));
-  };
-
-  /* ===================== LEAVE COUNT PER MONTH ===================== */
-
-  const buildMonthlyApprovedMap = (leaves: LeaveRequest[]) => 
-  {
-    const map: Record<string, Record<string, number>> = {};
-
-    for (const leave of leaves) {
-      if (leave.status !== "approved") continue;
-
-      const empId = leave.emp_user_id;
-      const start = new Date(leave.start_date);
-      const end = new Date(leave.end_date);
-
-      const months = eachMonthOfInterval({ start, end });
-
-      for (const monthDate of months) {
-        const monthStart = startOfMonth(monthDate);
-        const monthEnd = endOfMonth(monthDate);
-
-        const overlapStart = start > monthStart ? start : monthStart;
-        const overlapEnd = end < monthEnd ? end : monthEnd;
-
-        const days =
-          overlapStart <= overlapEnd
-            ? Math.floor(
-                (overlapEnd.getTime() - overlapStart.getTime()) /
-                  (1000 * 60 * 60 * 24)
-              ) + 1
-            : 0;
-
-        const monthKey = monthStart.toISOString().slice(0, 7);
-
-        if (!map[empId]) map[empId] = {};
-        if (!map[empId][monthKey]) map[empId][monthKey] = 0;
-
-        map[empId][monthKey] += days;
-      }
-    }
-
-    return map;
-  };
-
-
-  /* ===================== SAFE NOTIFICATION ===================== */
-
-  const sendLeaveNotification = async (
-    empUserId: string,
-    title: string,
-    body: string
-  ) => {
-    try {
-      await supabase.from("notifications").insert({
-        user_id: empUserId,
-        title,
-        body,
-      });
-    } catch {}
   };
 
   /* ===================== APPROVE LEAVE ===================== */
@@ -154,26 +177,13 @@ const AdminLeaves = () => {
     setIsUpdating(leaveId);
 
     try {
-      const { error } = await supabase.rpc("approve_leave_with_deduction",{
-        p_leave_id: leaveId
+      // Debits, status and the employee's notification in one call
+      const { error } = await supabase.rpc("approve_leave", {
+        p_leave_id: leaveId,
       });
-   
 
       if (error) throw error;
 
-      const leave = pendingLeave || leaves.find((l) => l.id === leaveId);
-
-      if (leave) {
-        await sendLeaveNotification(
-          leave.emp_user_id,
-          "Leave Approved",
-          `Your leave from ${format(
-            new Date(leave.start_date),
-            "PPP"
-          )} to ${format(new Date(leave.end_date), "PPP")} has been approved.`
-        );
-      }
-
       toast({ title: "Leave Approved" });
       fetchLeaves();
     } catch (error: any) {
@@ -189,45 +199,31 @@ const AdminLeaves = () => {
     }
   };
 
-  const handleApproveClick = async (leave: LeaveRequest) => 
-  {
-    const start = new Date(leave.start_date);
-    const end = new Date(leave.end_date);
-
-    const months = eachMonthOfInterval({ start, end });
-
-    let totalUnpaidDays = 0;
-
-    for (const monthDate of months) {
-      const monthStart = startOfMonth(monthDate);
-      const monthEnd = endOfMonth(monthDate);
-
-      const overlapStart = start > monthStart ? start : monthStart;
-      const overlapEnd = end < monthEnd ? end : monthEnd;
-
-      const overlapDays =
-        overlapStart <= overlapEnd
-          ? Math.floor(
-              (overlapEnd.getTime() - overlapStart.getTime()) /
-                (1000 * 60 * 60 * 24)
-            ) + 1
-          : 0;
-
-      const monthKey = monthStart.toISOString().slice(0, 7);
-
-      const approvedSoFar =
-        monthlyApproved[leave.emp_user_id]?.[monthKey] ?? 0;
-
-      const paidLeft = Math.max(0, 2 - approvedSoFar);
-
-      totalUnpaidDays += Math.max(0, overlapDays - paidLeft);
+  // Warn before approving days that would be deducted from pay, or days
+  // the employee's site would be short-staffed
+  const handleApproveClick = async (leave: LeaveRequest) => {
+    const { data: cost, error } = await supabase.rpc("preview_leave_cost", {
+      p_emp_user_id: leave.emp_user_id,
+      p_start_date: leave.start_date,
+      p_end_date: leave.end_date,
+      p_leave_type: leave.leave_type ?? "casual",
+      ...(leave.half_day ? { p_half_day: leave.half_day } : {}),
+    });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
     }
 
-    if (totalUnpaidDays > 0) {
+    const { unpaidDays } = sumLeaveCost(cost ?? []);
+    const coverage = await checkSiteCoverage(leave);
+
+    if (unpaidDays > 0 || coverage.shortfalls.length > 0) {
       setPendingLeave({
         ...leave,
-        unpaidDays: totalUnpaidDays,
-      } as LeaveRequest & { unpaidDays: number });
+        cost: cost ?? [],
+        ...coverage,
+      });
 
       setShowWarning(true);
       return;
@@ -235,28 +231,38 @@ const AdminLeaves = () => {
 
     approveLeave(leave.id);
   };
+
+  /* ===================== DOCUMENT ===================== */
+
+  const openDocument = async (path: string) => {
+    const { data, error } = await supabase.storage
+      .from("leave-documents")
+      .createSignedUrl(path, 60);
+
+    if (error || !data) {
+      toast({
+        title: "Error",
+        description: error?.message ?? "Could not open document",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    window.open(data.signedUrl, "_blank");
+  };
+
   /* ===================== REJECT ===================== */
 
   const handleReject = async (id: string) => {
     setIsUpdating(id);
 
     try {
-      const { error } = await supabase
-        .from("leaves")
-        .update({ status: "rejected" })
-        .eq("id", id);
+      const { error } = await supabase.rpc("reject_leave", {
+        p_leave_id: id,
+      });
 
       if (error) throw error;
 
-      const leave = leaves.find((l) => l.id === id);
-      if (leave) {
-        await sendLeaveNotification(
-          leave.emp_user_id,
-          "Leave Rejected",
-          "Your leave request has been rejected by admin."
-        );
-      }
-
       toast({ title: "Leave Rejected" });
       fetchLeaves();
     } catch (error: any) {
@@ -270,6 +276,34 @@ const AdminLeaves = () => {
     }
   };
 
+  /* ===================== CANCELLATION / CHANGE ===================== */
+
+  // Approving reverses any deduction the leave posted; a re-dated leave is
+  // priced again for its new dates.
+  const decideChange = async (leave: LeaveRequest, approve: boolean) => {
+    setIsUpdating(leave.id);
+
+    try {
+      const { error } = await supabase.rpc("decide_leave_change", {
+        p_leave_id: leave.id,
+        p_approve: approve,
+      });
+
+      if (error) throw error;
+
+      toast({ title: approve ? "Change Approved" : "Change Rejected" });
+      fetchLeaves();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
   /* ===================== UI HELPERS ===================== */
 
   const getStatusBadge = (status: LeaveStatus | null) => {
@@ -288,6 +322,13 @@ const AdminLeaves = () => {
             Rejected
           </Badge>
         );
+      case "cancelled":
+        return (
+          <Badge variant="outline">
+            <Ban className="h-3 w-3 mr-1" />
+            Cancelled
+          </Badge>
+        );
       default:
         return (
           <Badge variant="secondary">
@@ -299,20 +340,30 @@ const AdminLeaves = () => {
   };
 
   const pendingCount = leaves.filter(
-    (l) => l.status === "pending"
+    (l) => l.status === "pending" || l.change_type
   ).length;
-  /* ===================== SALARY DEDUCTION CALC ===================== */
-
-  const unpaidDays = (pendingLeave as (LeaveRequest & { unpaidDays: number }) | null)?.unpaidDays ?? 0;
-
-  const deductionAmount = unpaidDays * (pendingLeave?.daily_wage ?? 0);
+  /* ===================== SALARY DEDUCTION ===================== */
 
+  const { unpaidDays, deduction: deductionAmount } = sumLeaveCost(
+    pendingLeave?.cost ?? []
+  );
 
   /* ===================== UI ===================== */
 
   return (
     <div className="min-h-screen bg-background">
-      <Header title="Leave Management" backTo="/admin/dashboard" />
+      <Header
+        title="Leave Management"
+        backTo="/admin/dashboard"
+        rightAction={
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/admin/leave-calendar">
+              <CalendarRange className="h-4 w-4 mr-2" />
+              Team Calendar
+            </Link>
+          </Button>
+        }
+      />
 
       <main className="p-4 max-w-4xl mx-auto space-y-4">
         {pendingCount > 0 && (
@@ -321,6 +372,7 @@ const AdminLeaves = () => {
               <Clock className="h-5 w-5 text-amber-500" />
               <p className="font-medium">
                 {pendingCount} leave request
+                {pendingCount > 1 ? "s" : ""} or change
                 {pendingCount > 1 ? "s" : ""} pending approval
               </p>
             </CardContent>
@@ -351,25 +403,29 @@ const AdminLeaves = () => {
 
                       {getStatusBadge(leave.status)}
 
-                      {leave.status === "approved" && 
-                        eachMonthOfInterval({
-                          start: new Date(leave.start_date),
-                          end: new Date(leave.end_date)
-                        }).map((monthDate) => {
-                          const monthKey = startOfMonth(monthDate).toISOString().slice(0, 7);
-                          const usedDays = monthlyApproved[leave.emp_user_id]?.[monthKey] ?? 0;
-                          return (
-                            <Badge key={monthKey} variant={usedDays > 2 ? "destructive" : "secondary"}>
-                              {usedDays} /2 in {monthKey}
-                            </Badge>
-                          );
-                        })}
+                      {leave.leave_type && (
+                        <Badge variant="outline">
+                          {typeNames[leave.leave_type] ?? leave.leave_type}
+                        </Badge>
+                      )}
+
+                      {leave.status === "approved" &&
+                        Number(leave.deduction_amount) > 0 && (
+                          <Badge variant="destructive">
+                            ₹{Number(leave.deduction_amount).toLocaleString("en-IN")} deducted
+                          </Badge>
+                        )}
                     </div>
 
                     <p className="text-sm">
-                      {format(new Date(leave.start_date), "PPP")} →{" "}
-                      {format(new Date(leave.end_date), "PPP")} (
-                      {leave.days} day{leave.days > 1 ? "s" : ""})
+                      {leave.half_day
+                        ? `${format(new Date(leave.start_date), "PPP")} (${
+                            HALF_DAY_LABELS[leave.half_day as HalfDay]
+                          })`
+                        : `${format(new Date(leave.start_date), "PPP")} → ${format(
+                            new Date(leave.end_date),
+                            "PPP"
+                          )} (${formatLeaveDays(leave.days)})`}
                     </p>
 
                     {leave.reason && (
@@ -377,6 +433,33 @@ const AdminLeaves = () => {
                         Reason: {leave.reason}
                       </p>
                     )}
+
+                    {leave.change_type === "cancel" && (
+                      <p className="text-sm text-amber-600 mt-1">
+                        Employee asked to cancel this leave
+                      </p>
+                    )}
+
+                    {leave.change_type === "modify" && leave.requested_start_date && (
+                      <p className="text-sm text-amber-600 mt-1">
+                        Employee asked to move it to{" "}
+                        {format(new Date(leave.requested_start_date), "PPP")}
+                        {leave.requested_end_date !== leave.requested_start_date &&
+                          ` → ${format(new Date(leave.requested_end_date!), "PPP")}`}
+                      </p>
+                    )}
+
+                    {leave.document_path && (
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="px-0 h-auto"
+                        onClick={() => openDocument(leave.document_path!)}
+                      >
+                        <FileText className="h-4 w-4 mr-1" />
+                        View document
+                      </Button>
+                    )}
                   </div>
 
                   {leave.status === "pending" && (
@@ -402,6 +485,30 @@ const AdminLeaves = () => {
                       </Button>
                     </div>
                   )}
+
+                  {leave.change_type && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="bg-green-500 hover:bg-green-600"
+                        disabled={isUpdating === leave.id}
+                        onClick={() => decideChange(leave, true)}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                        {leave.change_type === "cancel" ? "Approve Cancellation" : "Approve Change"}
+                      </Button>
+
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={isUpdating === leave.id}
+                        onClick={() => decideChange(leave, false)}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -409,21 +516,44 @@ const AdminLeaves = () => {
         </Card>
       </main>
 
-      {/* ⚠️ Salary Warning */}
+      {/* ⚠️ Approval Warning */}
       <Dialog open={showWarning} onOpenChange={setShowWarning}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle className="text-destructive">
-              Salary Deduction Warning
+              {unpaidDays > 0 ? "Salary Deduction Warning" : "Site Coverage Warning"}
             </DialogTitle>
-            <DialogDescription>
-              This leave exceeds the <strong>2 free leave days</strong> for this month Approving this leave will result in a salary deduction:
-            </DialogDescription>
+            {unpaidDays > 0 && (
+              <DialogDescription>
+                The employee's {typeNames[pendingLeave?.leave_type ?? ""] ?? "leave"} balance
+                does not cover <strong>{formatLeaveDays(unpaidDays)}</strong> of this leave.
+                Approving it will result in a salary deduction:
+              </DialogDescription>
+            )}
           </DialogHeader>
 
-          <div className="p-3 bg-muted rounded-lg text-center font-semibold text-red-600">
-            ₹{deductionAmount} will be deducted from the employee's salary.
-          </div>
+          {unpaidDays > 0 && (
+            <>
+              <div className="p-3 bg-muted rounded-lg text-center font-semibold text-red-600">
+                ₹{deductionAmount.toLocaleString("en-IN")} will be deducted from the employee's salary.
+              </div>
+              <LeaveCostBreakdown days={pendingLeave?.cost ?? []} />
+            </>
+          )}
+
+          {!!pendingLeave?.shortfalls.length && (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/50 rounded-lg text-sm space-y-1">
+              <p className="font-medium">
+                {pendingLeave.siteName} needs at least {pendingLeave.minHeadcount} at work.
+                Approving leaves it with:
+              </p>
+              {pendingLeave.shortfalls.map((f) => (
+                <p key={f.day}>
+                  {format(new Date(f.day), "EEE, PPP")}: <strong>{f.available}</strong>
+                </p>
+              ))}
+            </div>
+          )}
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowWarning(false)}>
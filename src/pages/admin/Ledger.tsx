@@ -21,6 +21,7 @@ import {
   TrendingDown,
   IndianRupee,
   Calendar,
+  Lock,
 } from 'lucide-react';
 import { format, startOfMonth, subMonths } from 'date-fns';
 
@@ -53,6 +54,7 @@ const AdminLedger = () => {
 
   const [entries, setEntries] = useState<LedgerEntry[]>([]);
   const [balance, setBalance] = useState(0);
+  const [isLocked, setIsLocked] = useState(false);
 
   const [entryType, setEntryType] = useState<'credit' | 'debit'>('credit');
   const [amount, setAmount] = useState('');
@@ -73,7 +75,7 @@ const AdminLedger = () => {
     const { data } = await supabase
       .from('employee_directory')
       .select('user_id, full_name, email')
-      .eq('role', 'employee');
+      .in('role', ['employee', 'supervisor']);
 
     setEmployees(data || []);
   };
@@ -97,43 +99,38 @@ const AdminLedger = () => {
 
     setBalance(Number(balanceData?.[0]?.balance ?? 0));
 
+    const { data: locked } = await supabase.rpc('is_payroll_locked', {
+      p_month_year: monthStart,
+    });
+
+    setIsLocked(!!locked);
+
   };
   /* ===================== MANUAL TRANSACTION ===================== */
 
   const handleAddTransaction = async () => {
     if (!amount || !selectedEmployee) return;
 
-    await supabase.from('money_ledger').insert({
+    const { error } = await supabase.from('money_ledger').insert({
       emp_user_id: selectedEmployee,
       amount: Number(amount),
       type: entryType,
       reason: note || (entryType === 'credit' ? 'Manual Credit' : 'Manual Debit'),
+      category: 'manual',
       month_year: format(selectedMonth, 'yyyy-MM-01'),
     });
 
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
     setAmount('');
     setNote('');
     fetchLedger();
     toast({ title: 'Transaction added successfully' });
   };
 
-  /* ===================== SALARY SETTLEMENT ===================== */
-
-  const handleSettleSalary = async () => {
-    if (balance <= 0) return;
-
-    await supabase.from('money_ledger').insert({
-      emp_user_id: selectedEmployee,
-      amount: balance,
-      type: 'debit',
-      reason: 'Salary Paid - Full Settlement',
-      month_year: format(selectedMonth, 'yyyy-MM-01'),
-    });
-
-    fetchLedger();
-    toast({ title: 'Salary settled successfully' });
-  };
-
   /* ===================== TOTALS ===================== */
 
   const totalCredits = entries
@@ -276,6 +273,17 @@ const AdminLedger = () => {
             </div>
 
             {/* ADD TRANSACTION */}
+            {isLocked ? (
+              <Card className="border-amber-500/50 bg-amber-500/10">
+                <CardContent className="p-4 flex items-center gap-3">
+                  <Lock className="h-5 w-5 text-amber-500" />
+                  <p className="text-sm">
+                    Payroll for {format(selectedMonth, 'MMMM yyyy')} is locked. Its entries
+                    can no longer be changed; corrections are posted to the next open month.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
             <Card>
               <CardHeader>
                 <CardTitle>Add Transaction</CardTitle>
@@ -299,6 +307,7 @@ const AdminLedger = () => {
                 </Button>
               </CardContent>
             </Card>
+            )}
 
             {/* PDF */}
             <div className="flex justify-end gap-2">
@@ -0,0 +1,413 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import Header from '@/components/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Building,
+  CheckCircle,
+  Clock,
+  LogOut,
+  Maximize,
+  Minimize,
+  Plane,
+  XCircle,
+} from 'lucide-react';
+import {
+  DEFAULT_POLICY_RULES,
+  formatMinutes,
+  getPolicyDay,
+  isAfterCutoff,
+  type AttendancePolicy,
+  type AttendancePolicyRules,
+} from '@/lib/attendancePolicy';
+
+/* ===================== TYPES ===================== */
+
+type LiveStatus = 'checked_in' | 'checked_out' | 'on_leave' | 'absent' | 'not_in';
+
+interface BoardEmployee {
+  userId: string;
+  name: string;
+  status: LiveStatus;
+  checkinAt: string | null;
+  checkoutAt: string | null;
+  lateMinutes: number;
+}
+
+interface SiteBoard {
+  siteId: string | null;
+  siteName: string;
+  employees: BoardEmployee[];
+}
+
+const STATUS_ORDER: LiveStatus[] = [
+  'checked_in',
+  'checked_out',
+  'not_in',
+  'absent',
+  'on_leave',
+];
+
+const STATUS_LABELS: Record<LiveStatus, string> = {
+  checked_in: 'Checked In',
+  checked_out: 'Checked Out',
+  on_leave: 'On Leave',
+  absent: 'Absent',
+  not_in: 'Not In Yet',
+};
+
+// Employee override > site override > default, same order as the server.
+const resolvePolicy = (
+  policies: AttendancePolicy[],
+  empUserId: string,
+  siteId: string | null
+): AttendancePolicyRules =>
+  policies.find((p) => p.emp_user_id === empUserId) ??
+  policies.find((p) => siteId && p.site_id === siteId) ??
+  policies.find((p) => !p.site_id && !p.emp_user_id) ??
+  DEFAULT_POLICY_RULES;
+
+const formatTime = (iso: string | null) =>
+  iso
+    ? new Date(iso).toLocaleTimeString('en-IN', {
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : '—';
+
+/* ===================== COMPONENT ===================== */
+
+const AdminLiveAttendance = () => {
+  const navigate = useNavigate();
+
+  const [boards, setBoards] = useState<SiteBoard[]>([]);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  /* ===================== FETCH ===================== */
+
+  const fetchBoard = async () => {
+    const { data: policies } = await supabase
+      .from('attendance_policies')
+      .select('*');
+
+    const defaultPolicy = resolvePolicy(policies ?? [], '', null);
+    const today = getPolicyDay(defaultPolicy);
+
+    const { data: employees } = await supabase
+      .from('employee_directory')
+      .select('user_id, full_name, email, site_id, active')
+      .in('role', ['employee', 'supervisor']);
+
+    const { data: sites } = await supabase
+      .from('sites')
+      .select('id, name')
+      .eq('is_active', true)
+      .order('name');
+
+    const { data: attendance } = await supabase
+      .from('attendance')
+      .select('emp_user_id, site_id, checkin_at, checkout_at, late_minutes')
+      .eq('day', today);
+
+    const { data: leaves } = await supabase
+      .from('leaves')
+      .select('emp_user_id')
+      .eq('status', 'approved')
+      .lte('start_date', today)
+      .gte('end_date', today);
+
+    const onLeave = new Set(leaves?.map((l) => l.emp_user_id));
+
+    const rows = (employees ?? []).filter(
+      (e) => e.user_id && e.active !== false
+    );
+
+    const toEntry = (e: (typeof rows)[number]): BoardEmployee => {
+      const userId = e.user_id!;
+      const record = attendance?.find((a) => a.emp_user_id === userId);
+      const policy = resolvePolicy(policies ?? [], userId, e.site_id);
+
+      let status: LiveStatus;
+      if (record?.checkout_at) status = 'checked_out';
+      else if (record) status = 'checked_in';
+      else if (onLeave.has(userId)) status = 'on_leave';
+      else if (isAfterCutoff(policy)) status = 'absent';
+      else status = 'not_in';
+
+      return {
+        userId,
+        name: e.full_name || e.email || 'Unknown',
+        status,
+        checkinAt: record?.checkin_at ?? null,
+        checkoutAt: record?.checkout_at ?? null,
+        lateMinutes: record?.late_minutes ?? 0,
+      };
+    };
+
+    // Employees are shown under the site they are assigned to
+    const next: SiteBoard[] = (sites ?? []).map((s) => ({
+      siteId: s.id,
+      siteName: s.name,
+      employees: rows.filter((e) => e.site_id === s.id).map(toEntry),
+    }));
+
+    const unassigned = rows.filter(
+      (e) => !e.site_id || !sites?.some((s) => s.id === e.site_id)
+    );
+    if (unassigned.length) {
+      next.push({
+        siteId: null,
+        siteName: 'Unassigned',
+        employees: unassigned.map(toEntry),
+      });
+    }
+
+    next.forEach((b) =>
+      b.employees.sort(
+        (a, c) =>
+          STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(c.status) ||
+          a.name.localeCompare(c.name)
+      )
+    );
+
+    setBoards(next);
+    setLastUpdated(new Date());
+  };
+
+  /* ===================== REALTIME ===================== */
+
+  useEffect(() => {
+    fetchBoard();
+
+    const channel = supabase
+      .channel('admin-live-attendance')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'attendance' },
+        fetchBoard
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'employees' },
+        fetchBoard
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'leaves' },
+        fetchBoard
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'sites' },
+        fetchBoard
+      )
+      .subscribe();
+
+    // "Not in yet" turns into "absent" at the cutoff without any row changing
+    const timer = setInterval(fetchBoard, 60_000);
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(timer);
+    };
+  }, []);
+
+  /* ===================== TV MODE ===================== */
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
+    if (document.fullscreenElement) {
+      await document.exitFullscreen();
+    } else {
+      await document.documentElement.requestFullscreen();
+    }
+  };
+
+  /* ===================== UI HELPERS ===================== */
+
+  const countOf = (employees: BoardEmployee[], status: LiveStatus) =>
+    employees.filter((e) => e.status === status).length;
+
+  const getStatusBadge = (status: LiveStatus) => {
+    switch (status) {
+      case 'checked_in':
+        return (
+          <Badge className="bg-blue-500">
+            <Clock className="h-3 w-3 mr-1" />
+            {STATUS_LABELS[status]}
+          </Badge>
+        );
+      case 'checked_out':
+        return (
+          <Badge className="bg-green-500">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            {STATUS_LABELS[status]}
+          </Badge>
+        );
+      case 'on_leave':
+        return (
+          <Badge variant="outline">
+            <Plane className="h-3 w-3 mr-1" />
+            {STATUS_LABELS[status]}
+          </Badge>
+        );
+      case 'absent':
+        return (
+          <Badge variant="destructive">
+            <XCircle className="h-3 w-3 mr-1" />
+            {STATUS_LABELS[status]}
+          </Badge>
+        );
+      default:
+        return <Badge variant="secondary">{STATUS_LABELS[status]}</Badge>;
+    }
+  };
+
+  const allEmployees = boards.flatMap((b) => b.employees);
+
+  const totals = [
+    { label: 'Checked In', value: countOf(allEmployees, 'checked_in'), color: 'text-blue-500' },
+    { label: 'Checked Out', value: countOf(allEmployees, 'checked_out'), color: 'text-green-500' },
+    { label: 'Late', value: allEmployees.filter((e) => e.lateMinutes > 0).length, color: 'text-amber-500' },
+    { label: 'Absent', value: countOf(allEmployees, 'absent'), color: 'text-destructive' },
+  ];
+
+  /* ===================== UI ===================== */
+
+  return (
+    <div className="min-h-screen bg-background">
+      {!isFullscreen && (
+        <Header
+          title="Live Attendance"
+          backTo="/admin/dashboard"
+          rightAction={
+            <Button variant="outline" size="sm" onClick={toggleFullscreen}>
+              <Maximize className="h-4 w-4 mr-2" />
+              TV Mode
+            </Button>
+          }
+        />
+      )}
+
+      <main
+        className={
+          isFullscreen
+            ? 'p-6 space-y-6 text-lg'
+            : 'p-4 max-w-6xl mx-auto space-y-4'
+        }
+      >
+        {isFullscreen && (
+          <div className="flex items-center justify-between">
+            <h1 className="text-3xl font-bold">Live Attendance</h1>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-muted-foreground"
+              onClick={toggleFullscreen}
+            >
+              <Minimize className="h-5 w-5" />
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          {totals.map((t) => (
+            <Card key={t.label}>
+              <CardContent className="p-4">
+                <p className={`font-bold ${isFullscreen ? 'text-4xl' : 'text-2xl'} ${t.color}`}>
+                  {t.value}
+                </p>
+                <p className="text-xs text-muted-foreground">{t.label}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {lastUpdated && (
+          <p className="text-xs text-muted-foreground">
+            Updated {lastUpdated.toLocaleTimeString('en-IN')}
+          </p>
+        )}
+
+        <div
+          className={
+            isFullscreen
+              ? 'grid grid-cols-2 xl:grid-cols-3 gap-4'
+              : 'grid grid-cols-1 md:grid-cols-2 gap-4'
+          }
+        >
+          {boards.map((board) => (
+            <Card key={board.siteId ?? 'unassigned'}>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Building className="h-4 w-4" />
+                  {board.siteName}
+                </CardTitle>
+                <p className="text-xs text-muted-foreground">
+                  {countOf(board.employees, 'checked_in')} in ·{' '}
+                  {countOf(board.employees, 'checked_out')} out ·{' '}
+                  {countOf(board.employees, 'absent')} absent ·{' '}
+                  {board.employees.filter((e) => e.lateMinutes > 0).length} late
+                </p>
+              </CardHeader>
+
+              <CardContent className="space-y-2">
+                {board.employees.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    No employees assigned
+                  </p>
+                )}
+
+                {board.employees.map((e) => (
+                  <button
+                    key={e.userId}
+                    type="button"
+                    className="w-full text-left p-2 rounded-lg bg-muted/50 hover:bg-accent/50 transition flex items-center justify-between gap-2"
+                    onClick={() =>
+                      navigate(`/admin/attendance-history/${e.userId}`)
+                    }
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{e.name}</p>
+                      {(e.checkinAt || e.checkoutAt) && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          {formatTime(e.checkinAt)}
+                          {e.checkoutAt && (
+                            <>
+                              <LogOut className="h-3 w-3" />
+                              {formatTime(e.checkoutAt)}
+                            </>
+                          )}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex items-center gap-1 shrink-0">
+                      {e.lateMinutes > 0 && (
+                        <Badge variant="outline" className="border-amber-500 text-amber-600">
+                          Late {formatMinutes(e.lateMinutes)}
+                        </Badge>
+                      )}
+                      {getStatusBadge(e.status)}
+                    </div>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default AdminLiveAttendance;
@@ -0,0 +1,299 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import Header from '@/components/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { Calculator, CheckCircle, Lock, Receipt } from 'lucide-react';
+import { format, startOfMonth, subMonths } from 'date-fns';
+
+/* ===================== TYPES ===================== */
+
+type PayrollRun = Tables<'payroll_runs'>;
+
+interface PayslipRow extends Tables<'payslips'> {
+  name: string;
+}
+
+const formatRupees = (n: number) =>
+  `₹${Number(n).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/* ===================== COMPONENT ===================== */
+
+const AdminPayroll = () => {
+  const [selectedMonth, setSelectedMonth] = useState<Date>(
+    startOfMonth(subMonths(new Date(), 1))
+  );
+  const [run, setRun] = useState<PayrollRun | null>(null);
+  const [payslips, setPayslips] = useState<PayslipRow[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  /* ===================== FETCH ===================== */
+
+  const fetchRun = useCallback(async () => {
+    const { data: runData } = await supabase
+      .from('payroll_runs')
+      .select('*')
+      .eq('month_year', format(selectedMonth, 'yyyy-MM-01'))
+      .maybeSingle();
+
+    setRun(runData);
+
+    if (!runData) {
+      setPayslips([]);
+      return;
+    }
+
+    const { data: slips } = await supabase
+      .from('payslips')
+      .select('*')
+      .eq('run_id', runData.id);
+
+    const { data: employees } = await supabase
+      .from('employee_directory')
+      .select('user_id, full_name, email')
+      .in('user_id', (slips ?? []).map((s) => s.emp_user_id));
+
+    setPayslips(
+      (slips ?? [])
+        .map((s) => {
+          const emp = employees?.find((e) => e.user_id === s.emp_user_id);
+          return { ...s, name: emp?.full_name || emp?.email || 'Unknown' };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }, [selectedMonth]);
+
+  useEffect(() => {
+    fetchRun();
+  }, [fetchRun]);
+
+  /* ===================== ACTIONS ===================== */
+
+  const runAction = async (action: () => Promise<{ error: Error | null }>, done: string) => {
+    setIsWorking(true);
+
+    try {
+      const { error } = await action();
+      if (error) throw error;
+
+      toast({ title: done });
+      fetchRun();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const computeRun = () =>
+    runAction(
+      async () =>
+        supabase.rpc('compute_payroll_run', {
+          p_month_year: format(selectedMonth, 'yyyy-MM-01'),
+        }),
+      run ? 'Payroll recomputed' : 'Payroll computed'
+    );
+
+  const lockRun = () => {
+    if (!run) return;
+    if (
+      !confirm(
+        `Lock payroll for ${format(selectedMonth, 'MMMM yyyy')}? The month's ledger can no longer be changed.`
+      )
+    )
+      return;
+
+    runAction(
+      async () => supabase.rpc('lock_payroll_run', { p_run_id: run.id }),
+      'Payroll locked'
+    );
+  };
+
+  const markPaid = (slip: PayslipRow) =>
+    runAction(
+      async () => supabase.rpc('mark_payslip_paid', { p_payslip_id: slip.id }),
+      `${slip.name} marked paid`
+    );
+
+  /* ===================== TOTALS ===================== */
+
+  const total = (key: 'gross' | 'deductions' | 'advances_recovered' | 'net') =>
+    payslips.reduce((s, p) => s + Number(p[key]), 0);
+
+  const isLocked = run?.status === 'locked';
+  // The server refuses to lock a month that is still running
+  const monthEnded = selectedMonth < startOfMonth(new Date());
+
+  /* ===================== UI ===================== */
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Payroll" backTo="/admin/dashboard" />
+
+      <main className="p-4 max-w-5xl mx-auto space-y-4">
+        <Card>
+          <CardContent className="flex flex-wrap items-center justify-between gap-3 p-4">
+            <Select
+              value={format(selectedMonth, 'yyyy-MM')}
+              onValueChange={(v) => setSelectedMonth(new Date(v + '-01'))}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map((i) => {
+                  const d = subMonths(new Date(), i);
+                  return (
+                    <SelectItem key={i} value={format(d, 'yyyy-MM')}>
+                      {format(d, 'MMMM yyyy')}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center gap-2">
+              {run && (
+                <Badge variant={isLocked ? 'default' : 'secondary'}>
+                  {isLocked ? (
+                    <>
+                      <Lock className="h-3 w-3 mr-1" />
+                      Locked {run.locked_at && format(new Date(run.locked_at), 'PP')}
+                    </>
+                  ) : (
+                    'Draft'
+                  )}
+                </Badge>
+              )}
+
+              {!isLocked && (
+                <Button variant="outline" disabled={isWorking} onClick={computeRun}>
+                  <Calculator className="h-4 w-4 mr-2" />
+                  {run ? 'Recompute' : 'Run Payroll'}
+                </Button>
+              )}
+
+              {run && !isLocked && (
+                <Button
+                  disabled={isWorking || !monthEnded}
+                  title={monthEnded ? undefined : 'Can be locked once the month ends'}
+                  onClick={lockRun}
+                >
+                  <Lock className="h-4 w-4 mr-2" />
+                  Lock
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5" />
+              Payslips – {format(selectedMonth, 'MMMM yyyy')}
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent>
+            {!run ? (
+              <p className="text-center text-muted-foreground py-6">
+                Payroll has not been run for this month
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead className="text-right">Gross</TableHead>
+                    <TableHead className="text-right">Deductions</TableHead>
+                    <TableHead className="text-right">Advances</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                    {isLocked && <TableHead />}
+                  </TableRow>
+                </TableHeader>
+
+                <TableBody>
+                  {payslips.map((p) => (
+                    <TableRow key={p.id}>
+                      <TableCell className="font-medium">{p.name}</TableCell>
+                      <TableCell className="text-right">{formatRupees(p.gross)}</TableCell>
+                      <TableCell className="text-right text-red-600">
+                        {formatRupees(p.deductions)}
+                      </TableCell>
+                      <TableCell className="text-right text-red-600">
+                        {formatRupees(p.advances_recovered)}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {formatRupees(p.net)}
+                      </TableCell>
+                      {isLocked && (
+                        <TableCell className="text-right">
+                          {p.paid_at ? (
+                            <Badge className="bg-green-500">
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                              Paid
+                            </Badge>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={isWorking}
+                              onClick={() => markPaid(p)}
+                            >
+                              Mark Paid
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total ({payslips.length})</TableCell>
+                    <TableCell className="text-right">{formatRupees(total('gross'))}</TableCell>
+                    <TableCell className="text-right">
+                      {formatRupees(total('deductions'))}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatRupees(total('advances_recovered'))}
+                    </TableCell>
+                    <TableCell className="text-right">{formatRupees(total('net'))}</TableCell>
+                    {isLocked && <TableCell />}
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default AdminPayroll;
@@ -0,0 +1,315 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import Header from "@/components/Header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { KeyRound, Plus, Trash2, UserCog } from "lucide-react";
+
+/* ===================== TYPES ===================== */
+
+interface Permission {
+  key: string;
+  label: string;
+  description: string | null;
+}
+
+interface RoleTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  keys: string[];
+}
+
+interface AdminAccount {
+  auth_uid: string;
+  full_name: string | null;
+  email: string | null;
+  role_template_id: string | null;
+}
+
+// Select value for admins without a template
+const FULL_ACCESS = "full";
+
+/* ===================== COMPONENT ===================== */
+
+const AdminPermissions = () => {
+  const { user } = useAuth();
+
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [templates, setTemplates] = useState<RoleTemplate[]>([]);
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+
+  const [newName, setNewName] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  /* ===================== FETCH ===================== */
+
+  const fetchData = async () => {
+    const { data: permissionData } = await supabase
+      .from("permissions")
+      .select("key, label, description")
+      .order("key");
+
+    const { data: templateData } = await supabase
+      .from("role_templates")
+      .select("id, name, description")
+      .order("name");
+
+    const { data: grantData } = await supabase
+      .from("role_template_permissions")
+      .select("template_id, permission_key");
+
+    const { data: adminData } = await supabase
+      .from("profiles")
+      .select("auth_uid, full_name, email, role_template_id")
+      .eq("role", "admin")
+      .order("full_name");
+
+    setPermissions(permissionData ?? []);
+    setTemplates(
+      (templateData ?? []).map((t) => ({
+        ...t,
+        keys: (grantData ?? [])
+          .filter((g) => g.template_id === t.id)
+          .map((g) => g.permission_key),
+      }))
+    );
+    setAdmins(adminData ?? []);
+  };
+
+  /* ===================== TEMPLATES ===================== */
+
+  const createTemplate = async () => {
+    if (!newName.trim()) return;
+    setIsSaving(true);
+
+    const { error } = await supabase.from("role_templates").insert({
+      name: newName.trim(),
+      description: newDescription.trim() || null,
+    });
+
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setNewName("");
+    setNewDescription("");
+    toast({ title: "Template created" });
+    fetchData();
+  };
+
+  const togglePermission = async (template: RoleTemplate, key: string) => {
+    const { error } = template.keys.includes(key)
+      ? await supabase
+          .from("role_template_permissions")
+          .delete()
+          .eq("template_id", template.id)
+          .eq("permission_key", key)
+      : await supabase
+          .from("role_template_permissions")
+          .insert({ template_id: template.id, permission_key: key });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    fetchData();
+  };
+
+  const deleteTemplate = async (template: RoleTemplate) => {
+    if (!confirm(`Delete the ${template.name} template?`)) return;
+
+    const { error } = await supabase
+      .from("role_templates")
+      .delete()
+      .eq("id", template.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        // Templates still assigned to an admin are protected by a foreign key
+        description:
+          error.code === "23503"
+            ? "Reassign the admins using this template first"
+            : error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Template deleted" });
+    fetchData();
+  };
+
+  /* ===================== ADMIN ACCESS ===================== */
+
+  const assignTemplate = async (admin: AdminAccount, value: string) => {
+    try {
+      const { error } = await supabase.rpc("set_admin_role_template", {
+        p_user_id: admin.auth_uid,
+        ...(value === FULL_ACCESS ? {} : { p_template_id: value }),
+      });
+      if (error) throw error;
+
+      toast({ title: "Access updated" });
+      fetchData();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /* ===================== UI ===================== */
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Roles & Permissions" backTo="/admin/dashboard" />
+
+      <main className="p-4 max-w-4xl mx-auto space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCog className="h-5 w-5" />
+              Admin Access
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-3">
+            {admins.map((admin) => (
+              <div
+                key={admin.auth_uid}
+                className="p-3 bg-muted/50 rounded-lg flex items-center gap-3"
+              >
+                <div className="flex-1">
+                  <p className="font-medium">{admin.full_name || "Unknown"}</p>
+                  <p className="text-xs text-muted-foreground">{admin.email}</p>
+                </div>
+
+                <Select
+                  value={admin.role_template_id ?? FULL_ACCESS}
+                  disabled={admin.auth_uid === user?.id}
+                  onValueChange={(v) => assignTemplate(admin, v)}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={FULL_ACCESS}>Full access</SelectItem>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              You cannot change your own access.
+            </p>
+          </CardContent>
+        </Card>
+
+        {templates.map((template) => (
+          <Card key={template.id}>
+            <CardHeader className="flex flex-row items-start justify-between gap-2">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <KeyRound className="h-5 w-5" />
+                  {template.name}
+                </CardTitle>
+                {template.description && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {template.description}
+                  </p>
+                )}
+              </div>
+              <Button
+                size="icon"
+                variant="destructive"
+                onClick={() => deleteTemplate(template)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </CardHeader>
+
+            <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {permissions.map((p) => (
+                <label key={p.key} className="flex items-start gap-2 cursor-pointer">
+                  <Checkbox
+                    checked={template.keys.includes(p.key)}
+                    onCheckedChange={() => togglePermission(template, p.key)}
+                  />
+                  <div>
+                    <p className="text-sm font-medium leading-none">{p.label}</p>
+                    {p.description && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {p.description}
+                      </p>
+                    )}
+                  </div>
+                </label>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              New Template
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-3">
+            <div>
+              <Label>Name</Label>
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g. Site Coordinator"
+              />
+            </div>
+            <div>
+              <Label>Description</Label>
+              <Input
+                value={newDescription}
+                onChange={(e) => setNewDescription(e.target.value)}
+              />
+            </div>
+            <Button onClick={createTemplate} disabled={isSaving || !newName.trim()}>
+              {isSaving ? "Saving..." : "Create Template"}
+            </Button>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default AdminPermissions;
@@ -0,0 +1,340 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import Header from "@/components/Header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import {
+  ClipboardCheck,
+  CheckCircle,
+  XCircle,
+  Clock,
+  User,
+} from "lucide-react";
+import { format } from "date-fns";
+
+/* ===================== TYPES ===================== */
+
+interface RegularizationRequest {
+  id: string;
+  emp_user_id: string;
+  day: string;
+  proposed_checkin: string;
+  proposed_checkout: string | null;
+  reason: string;
+  status: string;
+  admin_note: string | null;
+  created_at: string | null;
+  employee?: { full_name: string | null; email: string | null } | null;
+  current?: { checkin_at: string | null; checkout_at: string | null } | null;
+}
+
+// With the date, so a time proposed on another day stands out
+const formatDateTime = (iso: string | null | undefined) =>
+  iso ? format(new Date(iso), "d MMM yyyy, hh:mm a") : "—";
+
+/* ===================== COMPONENT ===================== */
+
+// Shared with supervisors, for whom RLS narrows the list to their crew
+const AdminRegularizations = () => {
+  const { user, role } = useAuth();
+  const [requests, setRequests] = useState<RegularizationRequest[]>([]);
+  const [isUpdating, setIsUpdating] = useState<string | null>(null);
+
+  const [rejecting, setRejecting] = useState<RegularizationRequest | null>(null);
+  const [rejectNote, setRejectNote] = useState("");
+
+  /* ===================== FETCH ===================== */
+
+  const fetchRequests = useCallback(async () => {
+    let query = supabase
+      .from("attendance_regularizations")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    // A supervisor's own requests are decided by an admin
+    if (role !== "admin" && user) query = query.neq("emp_user_id", user.id);
+
+    const { data } = await query;
+
+    if (!data) return;
+
+    const userIds = [...new Set(data.map((r) => r.emp_user_id))];
+    const days = [...new Set(data.map((r) => r.day))];
+
+    const { data: profiles } = await supabase
+      .from("profiles")
+      .select("auth_uid, full_name, email")
+      .in("auth_uid", userIds);
+
+    // What is on record today, to compare against the proposal
+    const { data: attendance } = await supabase
+      .from("attendance")
+      .select("emp_user_id, day, checkin_at, checkout_at")
+      .in("emp_user_id", userIds)
+      .in("day", days);
+
+    setRequests(
+      data.map((r) => ({
+        ...r,
+        employee: profiles?.find((p) => p.auth_uid === r.emp_user_id) || null,
+        current:
+          attendance?.find(
+            (a) => a.emp_user_id === r.emp_user_id && a.day === r.day
+          ) || null,
+      }))
+    );
+  }, [user, role]);
+
+  useEffect(() => {
+    fetchRequests();
+
+    const channel = supabase
+      .channel("admin-regularizations")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "attendance_regularizations" },
+        () => fetchRequests()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchRequests]);
+
+  /* ===================== APPROVE ===================== */
+
+  const handleApprove = async (request: RegularizationRequest) => {
+    setIsUpdating(request.id);
+
+    try {
+      const { error } = await supabase.rpc("approve_regularization", {
+        p_request_id: request.id,
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Attendance Corrected" });
+      fetchRequests();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
+  /* ===================== REJECT ===================== */
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    setIsUpdating(rejecting.id);
+
+    try {
+      const { error } = await supabase.rpc("reject_regularization", {
+        p_request_id: rejecting.id,
+        p_note: rejectNote,
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Request Rejected" });
+      setRejecting(null);
+      setRejectNote("");
+      fetchRequests();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
+  /* ===================== UI HELPERS ===================== */
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "approved":
+        return (
+          <Badge className="bg-green-500">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            Approved
+          </Badge>
+        );
+      case "rejected":
+        return (
+          <Badge variant="destructive">
+            <XCircle className="h-3 w-3 mr-1" />
+            Rejected
+          </Badge>
+        );
+      default:
+        return (
+          <Badge variant="secondary">
+            <Clock className="h-3 w-3 mr-1" />
+            Pending
+          </Badge>
+        );
+    }
+  };
+
+  const pendingCount = requests.filter((r) => r.status === "pending").length;
+
+  /* ===================== UI ===================== */
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        title="Attendance Corrections"
+        backTo={role === "admin" ? "/admin/dashboard" : "/supervisor/dashboard"}
+      />
+
+      <main className="p-4 max-w-4xl mx-auto space-y-4">
+        {pendingCount > 0 && (
+          <Card className="border-amber-500/50 bg-amber-500/10">
+            <CardContent className="p-4 flex items-center gap-3">
+              <Clock className="h-5 w-5 text-amber-500" />
+              <p className="font-medium">
+                {pendingCount} correction request
+                {pendingCount > 1 ? "s" : ""} pending approval
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Regularization Requests
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-3">
+            {requests.length === 0 && (
+              <p className="text-center text-muted-foreground py-4">
+                No correction requests
+              </p>
+            )}
+
+            {requests.map((r) => (
+              <div key={r.id} className="p-4 bg-muted/50 rounded-lg">
+                <div className="flex flex-col md:flex-row md:justify-between gap-3">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-1 flex-wrap">
+                      <User className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">
+                        {r.employee?.full_name || r.employee?.email || "Unknown"}
+                      </span>
+                      {getStatusBadge(r.status)}
+                    </div>
+
+                    <p className="text-sm font-medium">
+                      {format(new Date(r.day), "PPP")}
+                    </p>
+
+                    <p className="text-sm">
+                      Proposed: {formatDateTime(r.proposed_checkin)} →{" "}
+                      {formatDateTime(r.proposed_checkout)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      On record:{" "}
+                      {r.current
+                        ? `${formatDateTime(r.current.checkin_at)} → ${formatDateTime(r.current.checkout_at)}`
+                        : "No attendance (absent)"}
+                    </p>
+
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Reason: {r.reason}
+                    </p>
+                    {r.admin_note && (
+                      <p className="text-sm text-muted-foreground">
+                        Note: {r.admin_note}
+                      </p>
+                    )}
+                  </div>
+
+                  {r.status === "pending" && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="bg-green-500 hover:bg-green-600"
+                        disabled={isUpdating === r.id}
+                        onClick={() => handleApprove(r)}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={isUpdating === r.id}
+                        onClick={() => setRejecting(r)}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* REJECT NOTE */}
+      <Dialog open={!!rejecting} onOpenChange={() => setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Correction</DialogTitle>
+            <DialogDescription>
+              The day keeps its current attendance. Add a note for the employee
+              if needed.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Textarea
+            placeholder="Note (optional)"
+            value={rejectNote}
+            onChange={(e) => setRejectNote(e.target.value)}
+          />
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!!rejecting && isUpdating === rejecting.id}
+              onClick={handleReject}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminRegularizations;
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { QRCodeSVG } from 'qrcode.react';
+import { ArrowLeft, Loader2, Maximize, Minimize } from 'lucide-react';
+import { useKioskQrToken, useSiteQrToken } from '@/hooks/use-site-qr-token';
+import { encodeSiteQr } from '@/lib/siteQr';
+import logo from '@/assets/logo.jpg';
+
+/* ===================== COMPONENT ===================== */
+
+// Full-screen rotating check-in code, meant to run on a tablet at the site.
+// Opened through a kiosk link it needs no sign-in and only shows that site.
+const AdminSiteKiosk = () => {
+  const { siteId, kioskToken } = useParams<{
+    siteId: string;
+    kioskToken: string;
+  }>();
+  const navigate = useNavigate();
+
+  const [siteName, setSiteName] = useState('');
+  const [rotationSeconds, setRotationSeconds] = useState(30);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const siteQr = useSiteQrToken(kioskToken ? null : siteId);
+  const kioskQr = useKioskQrToken(kioskToken);
+  const { token, error, secondsLeft } = kioskToken ? kioskQr : siteQr;
+
+  /* ===================== FETCH ===================== */
+
+  useEffect(() => {
+    if (!siteId || kioskToken) return;
+
+    const fetchSite = async () => {
+      const { data: site } = await supabase
+        .from('sites')
+        .select('name')
+        .eq('id', siteId)
+        .maybeSingle();
+
+      if (site) setSiteName(site.name);
+
+      const { data: key } = await supabase
+        .from('site_qr_keys')
+        .select('rotation_seconds')
+        .eq('site_id', siteId)
+        .maybeSingle();
+
+      if (key) setRotationSeconds(key.rotation_seconds);
+    };
+
+    fetchSite();
+  }, [siteId, kioskToken]);
+
+  useEffect(() => {
+    if (!kioskQr.token) return;
+    setSiteName(kioskQr.token.siteName);
+    setRotationSeconds(kioskQr.token.rotationSeconds);
+  }, [kioskQr.token]);
+
+  /* ===================== FULLSCREEN ===================== */
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
+    if (document.fullscreenElement) {
+      await document.exitFullscreen();
+    } else {
+      await document.documentElement.requestFullscreen();
+    }
+  };
+
+  /* ===================== UI ===================== */
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col items-center justify-center p-6 relative">
+      {!isFullscreen && (
+        <div className="absolute top-4 left-4 right-4 flex justify-between">
+          {kioskToken ? (
+            <span />
+          ) : (
+            <Button variant="ghost" onClick={() => navigate('/admin/sites')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Sites
+            </Button>
+          )}
+          <Button variant="outline" onClick={toggleFullscreen}>
+            <Maximize className="h-4 w-4 mr-2" />
+            Full Screen
+          </Button>
+        </div>
+      )}
+
+      {isFullscreen && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute top-4 right-4 text-muted-foreground"
+          onClick={toggleFullscreen}
+        >
+          <Minimize className="h-5 w-5" />
+        </Button>
+      )}
+
+      <img
+        src={logo}
+        alt="KMS Logo"
+        style={{ width: 208, height: 66 }}
+        className="object-contain mb-4"
+      />
+
+      <h1 className="text-3xl font-bold text-center">{siteName}</h1>
+      <p className="text-muted-foreground mb-6">
+        Scan to check in / check out
+      </p>
+
+      {token ? (
+        <>
+          <div className="p-4 bg-white rounded-xl border">
+            <QRCodeSVG value={encodeSiteQr(token.payload)} size={360} />
+          </div>
+
+          <div className="w-full max-w-sm mt-6 space-y-2">
+            <Progress value={(secondsLeft / rotationSeconds) * 100} />
+            <p className="text-center text-sm text-muted-foreground">
+              New code in {secondsLeft}s
+            </p>
+          </div>
+        </>
+      ) : (
+        <Loader2 className="h-10 w-10 animate-spin" />
+      )}
+
+      {error && (
+        <p className="mt-4 text-sm text-destructive text-center">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default AdminSiteKiosk;
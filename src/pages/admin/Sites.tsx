@@ -1,4 +1,5 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import Header from '@/components/Header';
 import {
@@ -18,39 +19,99 @@ import {
   DialogTitle,
   DialogDescription,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
 import {
+  Crosshair,
   MapPin,
   Plus,
   Copy,
   Building,
+  Link,
   QrCode,
-  Download,
+  Monitor,
+  RefreshCw,
   Trash2,
 } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
+import { useSiteQrToken } from '@/hooks/use-site-qr-token';
+import { encodeSiteQr, issueKioskLink } from '@/lib/siteQr';
+import { getDeviceLocation } from '@/lib/geo';
 
 /* ===================== TYPES ===================== */
 
+type GeofenceMode = 'off' | 'flag' | 'reject';
+
 interface Site {
   id: string;
   name: string;
   address: string | null;
   created_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  geofence_radius_m: number;
+  geofence_mode: string;
+}
+
+interface GeofenceForm {
+  latitude: string;
+  longitude: string;
+  radius: string;
+  mode: GeofenceMode;
 }
 
+const EMPTY_GEOFENCE: GeofenceForm = {
+  latitude: '',
+  longitude: '',
+  radius: '200',
+  mode: 'flag',
+};
+
+const toGeofenceColumns = (form: GeofenceForm) => ({
+  latitude: form.latitude ? Number(form.latitude) : null,
+  longitude: form.longitude ? Number(form.longitude) : null,
+  geofence_radius_m: Number(form.radius) || 200,
+  geofence_mode: form.mode,
+});
+
+const isValidGeofence = (form: GeofenceForm) => {
+  if (!form.latitude && !form.longitude) return true;
+  const lat = Number(form.latitude);
+  const lng = Number(form.longitude);
+  return (
+    form.latitude !== '' &&
+    form.longitude !== '' &&
+    lat >= -90 && lat <= 90 &&
+    lng >= -180 && lng <= 180
+  );
+};
+
 /* ===================== COMPONENT ===================== */
 
 const AdminSites = () => {
+  const navigate = useNavigate();
   const [sites, setSites] = useState<Site[]>([]);
   const [siteName, setSiteName] = useState('');
   const [address, setAddress] = useState('');
+  const [geofence, setGeofence] = useState<GeofenceForm>(EMPTY_GEOFENCE);
   const [isCreating, setIsCreating] = useState(false);
 
+  const [geofenceSite, setGeofenceSite] = useState<Site | null>(null);
+  const [geofenceEdit, setGeofenceEdit] = useState<GeofenceForm>(EMPTY_GEOFENCE);
+  const [isSavingGeofence, setIsSavingGeofence] = useState(false);
+
   const [selectedSite, setSelectedSite] = useState<Site | null>(null);
   const [showQRDialog, setShowQRDialog] = useState(false);
 
-  const qrRef = useRef<HTMLDivElement>(null);
+  const { token, secondsLeft } = useSiteQrToken(
+    showQRDialog ? selectedSite?.id : null
+  );
 
   /* ===================== FETCH ===================== */
 
@@ -111,12 +172,22 @@ const AdminSites = () => {
       return;
     }
 
+    if (!isValidGeofence(geofence)) {
+      toast({
+        title: 'Error',
+        description: 'Enter a valid latitude and longitude',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setIsCreating(true);
     try {
       const { error } = await supabase.from('sites').insert({
         name: siteName.trim(),
         address: address.trim() || null,
         is_active: true,
+        ...toGeofenceColumns(geofence),
       });
 
       if (error) throw error;
@@ -124,6 +195,7 @@ const AdminSites = () => {
       toast({ title: 'Success', description: 'Site created successfully' });
       setSiteName('');
       setAddress('');
+      setGeofence(EMPTY_GEOFENCE);
     } catch (e: any) {
       toast({
         title: 'Error',
@@ -160,6 +232,50 @@ const AdminSites = () => {
     toast({ title: 'Deleted', description: 'Site removed successfully' });
   };
 
+  /* ===================== GEOFENCE ===================== */
+
+  const openGeofenceDialog = (site: Site) => {
+    setGeofenceSite(site);
+    setGeofenceEdit({
+      latitude: site.latitude?.toString() ?? '',
+      longitude: site.longitude?.toString() ?? '',
+      radius: site.geofence_radius_m.toString(),
+      mode: site.geofence_mode as GeofenceMode,
+    });
+  };
+
+  const handleSaveGeofence = async () => {
+    if (!geofenceSite) return;
+
+    if (!isValidGeofence(geofenceEdit)) {
+      toast({
+        title: 'Error',
+        description: 'Enter a valid latitude and longitude',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSavingGeofence(true);
+    const { error } = await supabase
+      .from('sites')
+      .update(toGeofenceColumns(geofenceEdit))
+      .eq('id', geofenceSite.id);
+    setIsSavingGeofence(false);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Geofence updated' });
+    setGeofenceSite(null);
+  };
+
   /* ===================== QR ===================== */
 
   const openQRDialog = (site: Site) => {
@@ -167,45 +283,50 @@ const AdminSites = () => {
     setShowQRDialog(true);
   };
 
-  const getQRPayload = (siteId: string) =>
-    JSON.stringify({ site_id: siteId });
-
-  const downloadQR = () => {
-    if (!selectedSite || !qrRef.current) return;
-
-    const svg = qrRef.current.querySelector('svg');
-    if (!svg) return;
+  // Invalidates every code shown so far, e.g. if a kiosk tablet is lost.
+  const handleRotateSecret = async () => {
+    if (!selectedSite) return;
 
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const svgData = new XMLSerializer().serializeToString(svg);
-    const img = new Image();
-
-    const size = 300;
-    canvas.width = size + 80;
-    canvas.height = size + 140;
+    const ok = window.confirm(
+      `Regenerate the QR secret for "${selectedSite.name}"? Codes on screen right now and this site's kiosk links will stop working.`
+    );
+    if (!ok) return;
 
-    img.onload = () => {
-      if (!ctx) return;
+    const { error } = await supabase.rpc('rotate_site_qr_secret', {
+      p_site_id: selectedSite.id,
+    });
 
-      ctx.fillStyle = '#fff';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(img, 40, 40, size, size);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
 
-      ctx.fillStyle = '#000';
-      ctx.font = 'bold 16px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText(selectedSite.name, canvas.width / 2, size + 100);
+    toast({ title: 'QR secret regenerated' });
+  };
 
-      const link = document.createElement('a');
-      link.download = `QR-${selectedSite.name}.png`;
-      link.href = canvas.toDataURL('image/png');
-      link.click();
-    };
+  // A link for the site tablet that shows only this site's code, so the
+  // tablet does not need an admin sign-in.
+  const handleCopyKioskLink = async () => {
+    if (!selectedSite) return;
 
-    img.src =
-      'data:image/svg+xml;base64,' +
-      btoa(unescape(encodeURIComponent(svgData)));
+    try {
+      const link = await issueKioskLink(selectedSite.id);
+      await navigator.clipboard.writeText(link);
+      toast({
+        title: 'Kiosk link copied',
+        description: 'Open it on the site tablet. New Secret revokes it.',
+      });
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    }
   };
 
   /* ===================== UI ===================== */
@@ -239,6 +360,8 @@ const AdminSites = () => {
               onChange={(e) => setAddress(e.target.value)}
             />
 
+            <GeofenceFields value={geofence} onChange={setGeofence} />
+
             <Button onClick={handleCreate} disabled={isCreating}>
               {isCreating ? 'Creating...' : 'Create Site'}
             </Button>
@@ -273,9 +396,23 @@ const AdminSites = () => {
                           {site.address}
                         </p>
                       )}
+                      <p className="text-xs text-muted-foreground flex gap-1">
+                        <Crosshair className="h-3 w-3" />
+                        {site.latitude != null && site.longitude != null
+                          ? `${site.latitude.toFixed(5)}, ${site.longitude.toFixed(5)} · ${site.geofence_radius_m} m · ${site.geofence_mode}`
+                          : 'No geofence set'}
+                      </p>
                     </div>
 
                     <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openGeofenceDialog(site)}
+                      >
+                        <Crosshair className="h-4 w-4" />
+                      </Button>
+
                       <Button size="sm" onClick={() => openQRDialog(site)}>
                         <QrCode className="h-4 w-4 mr-1" />
                         QR
@@ -315,28 +452,177 @@ const AdminSites = () => {
           <DialogHeader>
             <DialogTitle>Site QR Code</DialogTitle>
             <DialogDescription>
-              Print and place this QR at the site
+              This code changes every few seconds. Run the kiosk display on
+              a tablet at the site instead of printing it.
             </DialogDescription>
           </DialogHeader>
 
           {selectedSite && (
             <div className="space-y-4">
-              <div
-                ref={qrRef}
-                className="flex flex-col items-center p-4 bg-white rounded"
-              >
-                <QRCodeSVG value={getQRPayload(selectedSite.id)} size={200} />
+              <div className="flex flex-col items-center p-4 bg-white rounded">
+                {token ? (
+                  <QRCodeSVG value={encodeSiteQr(token.payload)} size={200} />
+                ) : (
+                  <div className="h-[200px] w-[200px] bg-muted animate-pulse rounded" />
+                )}
                 <p className="mt-2 font-semibold">{selectedSite.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  Refreshes in {secondsLeft}s
+                </p>
               </div>
 
-              <Button onClick={downloadQR}>
-                <Download className="h-4 w-4 mr-2" />
-                Download PNG
+              <div className="flex gap-2">
+                <Button
+                  className="flex-1"
+                  onClick={() =>
+                    navigate(`/admin/sites/${selectedSite.id}/kiosk`)
+                  }
+                >
+                  <Monitor className="h-4 w-4 mr-2" />
+                  Open Kiosk Display
+                </Button>
+
+                <Button variant="outline" onClick={handleRotateSecret}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  New Secret
+                </Button>
+              </div>
+
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleCopyKioskLink}
+              >
+                <Link className="h-4 w-4 mr-2" />
+                Copy Kiosk Link
               </Button>
             </div>
           )}
         </DialogContent>
       </Dialog>
+
+      {/* GEOFENCE DIALOG */}
+      <Dialog
+        open={!!geofenceSite}
+        onOpenChange={(open) => !open && setGeofenceSite(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Site Geofence</DialogTitle>
+            <DialogDescription>
+              Check-ins for {geofenceSite?.name} are measured against this
+              point
+            </DialogDescription>
+          </DialogHeader>
+
+          <GeofenceFields value={geofenceEdit} onChange={setGeofenceEdit} />
+
+          <Button onClick={handleSaveGeofence} disabled={isSavingGeofence}>
+            {isSavingGeofence ? 'Saving...' : 'Save Geofence'}
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+/* ===================== GEOFENCE FIELDS ===================== */
+
+// Map-free picker: type the coordinates, or stand at the site and use the
+// device's own GPS fix.
+const GeofenceFields = ({
+  value,
+  onChange,
+}: {
+  value: GeofenceForm;
+  onChange: (next: GeofenceForm) => void;
+}) => {
+  const [isLocating, setIsLocating] = useState(false);
+
+  const useCurrentLocation = async () => {
+    setIsLocating(true);
+    const location = await getDeviceLocation();
+    setIsLocating(false);
+
+    if (!location) {
+      toast({
+        title: 'Location unavailable',
+        description: 'Allow location access or enter coordinates manually',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    onChange({
+      ...value,
+      latitude: location.lat.toFixed(6),
+      longitude: location.lng.toFixed(6),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label>Latitude</Label>
+          <Input
+            type="number"
+            step="any"
+            placeholder="11.016844"
+            value={value.latitude}
+            onChange={(e) => onChange({ ...value, latitude: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label>Longitude</Label>
+          <Input
+            type="number"
+            step="any"
+            placeholder="76.955832"
+            value={value.longitude}
+            onChange={(e) => onChange({ ...value, longitude: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={useCurrentLocation}
+        disabled={isLocating}
+      >
+        <Crosshair className="h-4 w-4 mr-2" />
+        {isLocating ? 'Locating...' : 'Use My Current Location'}
+      </Button>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label>Radius (metres)</Label>
+          <Input
+            type="number"
+            min={10}
+            value={value.radius}
+            onChange={(e) => onChange({ ...value, radius: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label>Outside the fence</Label>
+          <Select
+            value={value.mode}
+            onValueChange={(v) => onChange({ ...value, mode: v as GeofenceMode })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="flag">Flag for review</SelectItem>
+              <SelectItem value="reject">Reject check-in</SelectItem>
+              <SelectItem value="off">Don't check</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
     </div>
   );
 };
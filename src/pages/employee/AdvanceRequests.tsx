@@ -14,8 +14,14 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "@/hooks/use-toast";
-import { CheckCircle, XCircle, Clock } from "lucide-react";
+import { CheckCircle, XCircle, Clock, AlertCircle } from "lucide-react";
 import { Database } from "@/integrations/supabase/types";
+import {
+  formatRecoveryPlan,
+  formatRupees,
+  type AdvanceBalance,
+  type AdvanceEligibility,
+} from "@/lib/advances";
 
 /* ===================== TYPES ===================== */
 
@@ -32,6 +38,8 @@ const EmployeeAdvanceRequests = () => {
   const [amount, setAmount] = useState("");
   const [reason, setReason] = useState("");
   const [records, setRecords] = useState<AdvanceRecord[]>([]);
+  const [advanceBalances, setAdvanceBalances] = useState<AdvanceBalance[]>([]);
+  const [eligibility, setEligibility] = useState<AdvanceEligibility | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
@@ -55,6 +63,18 @@ const EmployeeAdvanceRequests = () => {
           fetchData();
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "money_ledger",
+          filter: `emp_user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchData();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -77,8 +97,25 @@ const EmployeeAdvanceRequests = () => {
     }
 
     setRecords(data ?? []);
+
+    const { data: balances } = await supabase.rpc("get_advance_balances", {
+      p_emp_user_id: user!.id,
+    });
+
+    setAdvanceBalances(balances ?? []);
+
+    const { data: limits } = await supabase.rpc("get_advance_eligibility", {
+      p_emp_user_id: user!.id,
+    });
+
+    setEligibility(limits?.[0] ?? null);
   };
 
+  const totalOutstanding = advanceBalances.reduce(
+    (sum, b) => sum + Number(b.outstanding),
+    0
+  );
+
   /* ===================== SUBMIT ===================== */
 
   const handleSubmit = async () => {
@@ -87,6 +124,16 @@ const EmployeeAdvanceRequests = () => {
       return;
     }
 
+    // Checked again by the server when the request is inserted
+    if (eligibility?.max_amount != null && Number(amount) > eligibility.max_amount) {
+      toast({
+        title: "Amount too high",
+        description: `You can request up to ${formatRupees(eligibility.max_amount)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSubmitting(true);
 
     const { error } = await supabase.from("advance_requests").insert({
@@ -148,6 +195,18 @@ const EmployeeAdvanceRequests = () => {
       <Header title="Advance Requests" backTo="/employee/dashboard" />
 
       <main className="p-4 max-w-2xl mx-auto space-y-4">
+        {totalOutstanding > 0 && (
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-sm text-muted-foreground">Outstanding Advance</p>
+              <p className="text-3xl font-bold">{formatRupees(totalOutstanding)}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Recovered from your monthly payroll
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle>Request Advance</CardTitle>
@@ -157,6 +216,22 @@ const EmployeeAdvanceRequests = () => {
           </CardHeader>
 
           <CardContent className="space-y-3">
+            {eligibility?.blocked_reason ? (
+              <p className="text-sm text-destructive flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {eligibility.blocked_reason}
+              </p>
+            ) : (
+              eligibility?.max_amount != null && (
+                <p className="text-sm text-muted-foreground">
+                  You can request up to{" "}
+                  <strong>{formatRupees(eligibility.max_amount)}</strong> against
+                  this month's balance of {formatRupees(eligibility.balance)}
+                  {eligibility.outstanding > 0 &&
+                    `, less ${formatRupees(eligibility.outstanding)} still owed`}
+                </p>
+              )
+            )}
             <Input
               placeholder="Amount ₹"
               value={amount}
@@ -169,7 +244,7 @@ const EmployeeAdvanceRequests = () => {
             />
             <Button
               onClick={handleSubmit}
-              disabled={isSubmitting}
+              disabled={isSubmitting || !!eligibility?.blocked_reason}
               className="w-full"
             >
               Submit Request
@@ -188,22 +263,39 @@ const EmployeeAdvanceRequests = () => {
                 No advance requests yet
               </p>
             ) : (
-              records.map((r) => (
-                <div
-                  key={r.id}
-                  className="p-3 bg-muted/50 rounded-lg flex justify-between"
-                >
-                  <div>
-                    <p className="font-medium">₹{r.amount}</p>
-                    {r.reason && (
-                      <p className="text-sm text-muted-foreground">
-                        {r.reason}
-                      </p>
-                    )}
+              records.map((r) => {
+                const plan = advanceBalances.find((b) => b.advance_id === r.id);
+
+                return (
+                  <div
+                    key={r.id}
+                    className="p-3 bg-muted/50 rounded-lg flex justify-between"
+                  >
+                    <div>
+                      <p className="font-medium">₹{r.amount}</p>
+                      {r.reason && (
+                        <p className="text-sm text-muted-foreground">
+                          {r.reason}
+                        </p>
+                      )}
+                      {plan && (
+                        <p className="text-sm text-muted-foreground">
+                          {formatRecoveryPlan(
+                            plan.monthly_amount,
+                            plan.instalments,
+                            plan.recovery_start
+                          )}
+                          {" · "}
+                          {Number(plan.outstanding) > 0
+                            ? `${formatRupees(plan.outstanding)} left`
+                            : "Repaid"}
+                        </p>
+                      )}
+                    </div>
+                    {badge(r.status)}
                   </div>
-                  {badge(r.status)}
-                </div>
-              ))
+                );
+              })
             )}
           </CardContent>
         </Card>
@@ -22,6 +22,14 @@ import {
   QrCode,
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { getDeviceLocation } from '@/lib/geo';
+import {
+  checkInManually,
+  checkOut,
+  describeAttendanceError,
+} from '@/lib/attendance';
+import { getPolicyDay, isAfterCutoff } from '@/lib/attendancePolicy';
+import { useAttendancePolicy } from '@/hooks/use-attendance-policy';
 
 
 interface Site {
@@ -37,14 +45,6 @@ interface AttendanceRecord {
   checkout_at: string | null;
   site_id: string;
 }
-const isAfterCutoffIST = () => {
-  const now = new Date(
-    new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' })
-  );
-  const cutoff = new Date(now);
-  cutoff.setHours(14, 0, 0, 0); // 2:00 PM IST
-  return now > cutoff;
-};
 const EmployeeAttendance = () => {
   const { user } = useAuth();
   const [sites, setSites] = useState<Site[]>([]);
@@ -55,9 +55,11 @@ const EmployeeAttendance = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [history, setHistory] = useState<AttendanceRecord[]>([]);
   const [showHistory, setShowHistory] = useState(false);
+  const [forceManual, setForceManual] = useState(false);
 
-  const today = new Date().toISOString().split('T')[0];
-  const afterCutoff=isAfterCutoffIST(); // Helper function to determine if current time is after cutoff
+  const { policy } = useAttendancePolicy(user?.id);
+  const today = getPolicyDay(policy);
+  const afterCutoff = isAfterCutoff(policy);
   
 
   /* ===================== FETCH ===================== */
@@ -72,6 +74,14 @@ const EmployeeAttendance = () => {
 
     if (sitesData) setSites(sitesData);
 
+    const { data: employee } = await supabase
+      .from('employees')
+      .select('force_manual')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    setForceManual(!!employee?.force_manual);
+
     const { data: todayData } = await supabase
       .from('attendance')
       .select('*')
@@ -117,7 +127,7 @@ const EmployeeAttendance = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user]);
+  }, [user, today]);
 
   /* ===================== ACTIONS ===================== */
 
@@ -133,20 +143,16 @@ const EmployeeAttendance = () => {
 
     setIsLoading(true);
     try {
-      const { error } = await supabase.from('attendance').insert({
-        emp_user_id: user!.id,
-        site_id: selectedSite,
-        day: today,
-        checkin_at: new Date().toISOString(),
-      });
+      const location = await getDeviceLocation();
 
-      if (error) throw error;
+      const result = await checkInManually(selectedSite, location);
+      if (result.ok === false) throw new Error(result.code);
 
       toast({ title: 'Success', description: 'Checked in successfully!' });
     } catch (error: any) {
       toast({
         title: 'Error',
-        description: error.message,
+        description: describeAttendanceError(error.message),
         variant: 'destructive',
       });
     } finally {
@@ -159,22 +165,15 @@ const EmployeeAttendance = () => {
 
     setIsLoading(true);
     try {
-      const { error } = await supabase
-        .from('attendance')
-        .update({ checkout_at: new Date().toISOString(),
-          remarks: summary.trim() || null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', todayAttendance.id);
-
-      if (error) throw error;
+      const result = await checkOut(summary);
+      if (result.ok === false) throw new Error(result.code);
 
       toast({ title: 'Success', description: 'Checked out successfully!' });
       setSummary('');
     } catch (error: any) {
       toast({
         title: 'Error',
-        description: error.message,
+        description: describeAttendanceError(error.message),
         variant: 'destructive',
       });
     } finally {
@@ -233,34 +232,42 @@ const EmployeeAttendance = () => {
                   </p>
                 </div>
 
-                <Select
-                  value={selectedSite}
-                  onValueChange={setSelectedSite}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select work site" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {sites.map((site) => (
-                      <SelectItem key={site.id} value={site.id}>
-                        <div className="flex items-center gap-2">
-                          <MapPin className="h-4 w-4" />
-                          {site.name}
-                        </div>
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-
-                <Button
-                  onClick={handleCheckIn}
-                  disabled={isLoading || afterCutoff}
-                  className="w-full"
-                  size="lg"
-                >
-                  <LogIn className="h-5 w-5 mr-2" />
-                  Check In
-                </Button>
+                {forceManual ? (
+                  <>
+                    <Select
+                      value={selectedSite}
+                      onValueChange={setSelectedSite}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select work site" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sites.map((site) => (
+                          <SelectItem key={site.id} value={site.id}>
+                            <div className="flex items-center gap-2">
+                              <MapPin className="h-4 w-4" />
+                              {site.name}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <Button
+                      onClick={handleCheckIn}
+                      disabled={isLoading || afterCutoff}
+                      className="w-full"
+                      size="lg"
+                    >
+                      <LogIn className="h-5 w-5 mr-2" />
+                      Check In
+                    </Button>
+                  </>
+                ) : (
+                  <p className="text-sm text-center text-muted-foreground">
+                    Scan the QR code at your site to check in.
+                  </p>
+                )}
               </>
             ) : !todayAttendance.checkout_at ? (
               <>
@@ -292,23 +299,31 @@ const EmployeeAttendance = () => {
                   </div>
                 </div>
 
-                <Textarea
-                  placeholder="Work summary (optional)"
-                  value={summary}
-                  onChange={(e) => setSummary(e.target.value)}
-                  rows={3}
-                />
-
-                <Button
-                  onClick={handleCheckOut}
-                  disabled={isLoading}
-                  variant="destructive"
-                  className="w-full"
-                  size="lg"
-                >
-                  <LogOut className="h-5 w-5 mr-2" />
-                  Check Out
-                </Button>
+                {forceManual ? (
+                  <>
+                    <Textarea
+                      placeholder="Work summary (optional)"
+                      value={summary}
+                      onChange={(e) => setSummary(e.target.value)}
+                      rows={3}
+                    />
+
+                    <Button
+                      onClick={handleCheckOut}
+                      disabled={isLoading}
+                      variant="destructive"
+                      className="w-full"
+                      size="lg"
+                    >
+                      <LogOut className="h-5 w-5 mr-2" />
+                      Check Out
+                    </Button>
+                  </>
+                ) : (
+                  <p className="text-sm text-center text-muted-foreground">
+                    Scan the QR code at your site to check out.
+                  </p>
+                )}
               </>
             ) : (
               <div className="p-4 bg-muted rounded-lg">
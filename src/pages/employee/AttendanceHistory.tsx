@@ -4,6 +4,19 @@ import { supabase } from '@/integrations/supabase/client';
 import Header from '@/components/Header';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
 import {
   Loader2,
   Calendar,
@@ -23,17 +36,30 @@ import {
   addMonths,
   subMonths,
 } from 'date-fns';
+import { formatMinutes, zonedTimeToIso } from '@/lib/attendancePolicy';
+import { useAttendancePolicy } from '@/hooks/use-attendance-policy';
 
 /* ===================== TYPES ===================== */
 
 interface AttendanceRecord {
   day: string;
   attendance_type: string | null;
+  late_minutes: number;
+  early_leave_minutes: number;
+}
+
+interface RegularizationRecord {
+  id: string;
+  day: string;
+  status: string;
+  reason: string;
+  admin_note: string | null;
 }
 
 interface LeaveRecord {
   start_date: string;
   end_date: string;
+  half_day: string | null;
 }
 
 interface holidayRecord {
@@ -52,6 +78,15 @@ const AttendanceHistory = () => {
   const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
   const [leaves, setLeaves] = useState<LeaveRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [requests, setRequests] = useState<RegularizationRecord[]>([]);
+  const { policy } = useAttendancePolicy(user?.id);
+
+  // Regularize dialog
+  const [regularizeDay, setRegularizeDay] = useState<string | null>(null);
+  const [checkinTime, setCheckinTime] = useState('');
+  const [checkoutTime, setCheckoutTime] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   const [summary, setSummary] = useState({
     present: 0,
@@ -71,22 +106,31 @@ const AttendanceHistory = () => {
 
     const { data: attData } = await supabase
       .from('attendance')
-      .select('day, attendance_type')
+      .select('day, attendance_type, late_minutes, early_leave_minutes')
       .eq('emp_user_id', user.id)
       .gte('day', start)
       .lte('day', end);
 
     const { data: leaveData } = await supabase
       .from('leaves')
-      .select('start_date, end_date')
+      .select('start_date, end_date, half_day')
       .eq('emp_user_id', user.id)
       .eq('status', 'approved');
 
+    const { data: requestData } = await supabase
+      .from('attendance_regularizations')
+      .select('id, day, status, reason, admin_note')
+      .eq('emp_user_id', user.id)
+      .gte('day', start)
+      .lte('day', end)
+      .order('created_at', { ascending: false });
+
     const attendanceRows = attData || [];
     const leaveRows = leaveData || [];
 
     setAttendance(attendanceRows);
     setLeaves(leaveRows);
+    setRequests(requestData || []);
 
     /* ===================== SUMMARY ===================== */
 
@@ -119,13 +163,19 @@ const AttendanceHistory = () => {
         return;
       }
 
-      // Approved leave
-      if (leaveRows.some(l => dateStr >= l.start_date && dateStr <= l.end_date)) {
+      const leaveRow = leaveRows.find(l => dateStr >= l.start_date && dateStr <= l.end_date);
+      const record = attendanceRows.find(a => a.day === dateStr);
+
+      // Approved leave; a half-day leave counts with the attendance that day
+      if (leaveRow && !leaveRow.half_day) {
         leave++;
         return;
       }
-
-      const record = attendanceRows.find(a => a.day === dateStr);
+      if (leaveRow?.half_day) {
+        if (record?.attendance_type === 'full' || record?.attendance_type === 'half') present++;
+        else half++;
+        return;
+      }
 
       // Today without check-in → pending (not absent)
       if (dateStr === todayStr && !record) return;
@@ -143,6 +193,72 @@ const AttendanceHistory = () => {
     fetchData();
   }, [user, currentMonth]);
 
+  /* ===================== REGULARIZE ===================== */
+
+  const openRegularize = (day: string) => {
+    setRegularizeDay(day);
+    setCheckinTime(policy.shift_start?.slice(0, 5) ?? '09:00');
+    setCheckoutTime(policy.shift_end?.slice(0, 5) ?? '');
+    setReason('');
+  };
+
+  const submitRegularization = async () => {
+    if (!user || !regularizeDay) return;
+
+    if (!checkinTime || !reason.trim()) {
+      toast({
+        title: 'Missing details',
+        description: 'Enter the check-in time and a reason',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (checkoutTime && checkoutTime <= checkinTime) {
+      toast({
+        title: 'Invalid times',
+        description: 'Check-out must be after check-in',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const { error } = await supabase.from('attendance_regularizations').insert({
+        emp_user_id: user.id,
+        day: regularizeDay,
+        proposed_checkin: zonedTimeToIso(regularizeDay, checkinTime, policy.timezone),
+        proposed_checkout: checkoutTime
+          ? zonedTimeToIso(regularizeDay, checkoutTime, policy.timezone)
+          : null,
+        reason: reason.trim(),
+      });
+
+      if (error) {
+        if (error.code === '23505')
+          throw new Error('You already have a pending request for this day');
+        throw error;
+      }
+
+      toast({
+        title: 'Request Sent',
+        description: 'Your regularization request has been sent to the admin',
+      });
+      setRegularizeDay(null);
+      fetchData();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   /* ===================== HELPERS ===================== */
 
   const getDayStatus = (date: Date) => {
@@ -154,12 +270,17 @@ const AttendanceHistory = () => {
 
     if (holidays.some(h => h.holiday_date === dateStr)) return 'leave';
 
-    // Approved leave
-    if (leaves.some(l => dateStr >= l.start_date && dateStr <= l.end_date))
-      return 'leave';
-
+    const leave = leaves.find(l => dateStr >= l.start_date && dateStr <= l.end_date);
     const record = attendance.find(a => a.day === dateStr);
 
+    // Approved leave. A half-day leave with any attendance makes a full day.
+    if (leave && !leave.half_day) return 'leave';
+    if (leave?.half_day) {
+      return record?.attendance_type === 'full' || record?.attendance_type === 'half'
+        ? 'present'
+        : 'half';
+    }
+
     // Today but not checked in yet
     if (!record && dateStr === todayStr) return 'pending';
 
@@ -187,6 +308,19 @@ const AttendanceHistory = () => {
     end: endOfMonth(currentMonth),
   });
 
+  // "Late 12m · Left early 30m" for the calendar tooltip
+  const describeShift = (record?: AttendanceRecord) =>
+    [
+      record?.late_minutes ? `Late ${formatMinutes(record.late_minutes)}` : null,
+      record?.early_leave_minutes
+        ? `Left early ${formatMinutes(record.early_leave_minutes)}`
+        : null,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+  const lateMarks = attendance.filter(a => a.late_minutes > 0).length;
+
   const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
   const offset = startOfMonth(currentMonth).getDay();
 
@@ -232,6 +366,12 @@ const AttendanceHistory = () => {
           <Summary icon={<XCircle className="text-red-400" />} label="Absent" value={summary.absent} />
         </div>
 
+        {lateMarks > 0 && (
+          <p className="text-sm text-amber-600 text-center">
+            {lateMarks} late arrival{lateMarks === 1 ? '' : 's'} this month
+          </p>
+        )}
+
         {/* CALENDAR */}
         <Card>
           <CardHeader>
@@ -249,18 +389,109 @@ const AttendanceHistory = () => {
             <div className="grid grid-cols-7 gap-1">
               {Array.from({ length: offset }).map((_, i) => <div key={i} />)}
               {daysInMonth.map(d => {
+                const ds = format(d, 'yyyy-MM-dd');
                 const status = getDayStatus(d);
+                const shiftNote = describeShift(attendance.find(a => a.day === ds));
+                const canRegularize =
+                  ds < format(new Date(), 'yyyy-MM-dd') &&
+                  ['present', 'half', 'absent'].includes(status);
+                const hasPending = requests.some(r => r.day === ds && r.status === 'pending');
                 return (
-                  <div key={d.toISOString()} className="aspect-square flex flex-col items-center justify-center">
+                  <button
+                    key={d.toISOString()}
+                    type="button"
+                    title={shiftNote || undefined}
+                    disabled={!canRegularize}
+                    onClick={() => openRegularize(ds)}
+                    className={`aspect-square flex flex-col items-center justify-center rounded ${canRegularize ? 'hover:bg-muted' : 'cursor-default'} ${hasPending ? 'ring-2 ring-violet-400' : ''}`}
+                  >
                     <span className="text-xs">{format(d, 'd')}</span>
                     <div className={`w-3 h-3 rounded-full ${getStatusColor(status)}`} />
-                  </div>
+                    {shiftNote && <Clock className="h-2.5 w-2.5 text-amber-600" />}
+                  </button>
                 );
               })}
             </div>
+            <p className="text-xs text-muted-foreground text-center mt-3">
+              Missed a scan? Tap a past day to request a correction.
+            </p>
           </CardContent>
         </Card>
       </main>
+
+      {/* REGULARIZE */}
+      <Dialog open={!!regularizeDay} onOpenChange={() => setRegularizeDay(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Regularize {regularizeDay && format(new Date(regularizeDay), 'PPP')}
+            </DialogTitle>
+            <DialogDescription>
+              Tell the admin when you actually worked and why the scan is missing or wrong
+            </DialogDescription>
+          </DialogHeader>
+
+          {requests
+            .filter(r => r.day === regularizeDay)
+            .map(r => (
+              <div key={r.id} className="p-2 bg-muted rounded text-sm space-y-1">
+                <div className="flex items-center justify-between">
+                  <span>{r.reason}</span>
+                  <Badge
+                    variant={r.status === 'rejected' ? 'destructive' : 'secondary'}
+                    className={r.status === 'approved' ? 'bg-green-500 text-white' : ''}
+                  >
+                    {r.status}
+                  </Badge>
+                </div>
+                {r.admin_note && (
+                  <p className="text-xs text-muted-foreground">Admin: {r.admin_note}</p>
+                )}
+              </div>
+            ))}
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Check-in</Label>
+                <Input
+                  type="time"
+                  value={checkinTime}
+                  onChange={(e) => setCheckinTime(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label>Check-out (optional)</Label>
+                <Input
+                  type="time"
+                  value={checkoutTime}
+                  onChange={(e) => setCheckoutTime(e.target.value)}
+                />
+              </div>
+            </div>
+            <Textarea
+              placeholder="Reason (e.g. phone battery died)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRegularizeDay(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={submitRegularization}
+              disabled={
+                isSubmitting ||
+                requests.some(r => r.day === regularizeDay && r.status === 'pending')
+              }
+            >
+              {isSubmitting ? 'Sending…' : 'Send Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
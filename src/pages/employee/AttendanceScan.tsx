@@ -1,11 +1,41 @@
-import { useEffect, useState, useRef, useMemo } from 'react';
+import { useEffect, useState, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import Header from '@/components/Header';
 import { Card, CardContent } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
 import { toast } from '@/hooks/use-toast';
+import { CheckCircle, CloudOff } from 'lucide-react';
 import { Html5Qrcode, Html5QrcodeScannerState } from 'html5-qrcode';
 import { validate as isUuid} from 'uuid';
+import { parseSiteQr, type SiteQrPayload } from '@/lib/siteQr';
+import { getDeviceLocation, type DeviceLocation } from '@/lib/geo';
+import {
+  checkInWithQr,
+  checkOutWithQr,
+  describeAttendanceError,
+  describeAttendanceType,
+  type AttendanceRow,
+} from '@/lib/attendance';
+import {
+  formatPolicyTime,
+  getPolicyDay,
+  isAfterCutoff,
+} from '@/lib/attendancePolicy';
+import { useAttendancePolicy } from '@/hooks/use-attendance-policy';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import {
+  OFFLINE_SCAN_MAX_AGE_MINUTES,
+  enqueueScan,
+  type QueuedScanKind,
+} from '@/lib/offlineQueue';
 
 
 
@@ -48,14 +78,6 @@ const useRealtimeAttendance = (
     };
   }, [userId]);
 };
-const isAfterCutoffIST = () => {
-  const now = new Date(
-    new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' })
-  );
-  const cutoff = new Date(now);
-  cutoff.setHours(14, 0, 0, 0); // 2:00 PM IST
-  return now > cutoff;
-};
 
 /* ===================== COMPONENT ===================== */
 
@@ -63,13 +85,29 @@ const AttendanceScan = () => {
   const { user } = useAuth();
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const isProcessingRef = useRef(false);
+  // The scanner outlives renders; it calls the latest handler through this
+  const processAttendanceRef =
+    useRef<(payload: SiteQrPayload) => Promise<void>>();
 
   const [todayAttendance, setTodayAttendance] =
     useState<AttendanceRecord | null>(null);
+  const [summary, setSummary] = useState('');
+  const summaryRef = useRef('');
+  const [completed, setCompleted] = useState<AttendanceRow | null>(null);
+
+  // Scans saved while offline count until they sync
+  const { queued } = useOfflineSync(user?.id);
+  const queuedCheckin = queued.some((s) => s.kind === 'checkin');
+  const queuedCheckout = queued.some((s) => s.kind === 'checkout');
 
-  const today = new Date().toISOString().split('T')[0];
-  const monthYear = today.slice(0, 7) + '-01';
-  const afterCutoff = useMemo(isAfterCutoffIST, []); // Helper function to determine if current time is after cutoff
+  // Second scan of the day ends the shift
+  const isCheckoutMode =
+    !queuedCheckout &&
+    ((!!todayAttendance && !todayAttendance.checkout_at) || queuedCheckin);
+
+  const { policy, loaded: policyLoaded } = useAttendancePolicy(user?.id);
+  const today = getPolicyDay(policy);
+  const afterCutoff = policyLoaded && isAfterCutoff(policy);
 
   /* ===================== FETCH ===================== */
 
@@ -93,6 +131,7 @@ const AttendanceScan = () => {
       day: data.day,
       checkin_at: data.checkin_at,
       checkout_at: data.checkout_at,
+      remarks: data.remarks,
       attendance_type:
         data.attendance_type === 'full' || data.attendance_type === 'half'
           ? data.attendance_type
@@ -121,21 +160,21 @@ const AttendanceScan = () => {
 
   useEffect(() => {
     if (user) fetchTodayAttendance();
-  }, [user]);
+  }, [user, today]);
 
   useRealtimeAttendance(user?.id ?? null, fetchTodayAttendance);
   useEffect(() => {
     if (!user) return;
-    if(afterCutoff && !todayAttendance) {
+    if(afterCutoff && !todayAttendance && !queuedCheckin) {
       toast({
         title: "Attendance Cutoff",
-        description: "check-in after 2:00 PM  is not allowed.You are marked absent for today.",
+        description: `Check-in after ${formatPolicyTime(policy.checkin_cutoff)} is not allowed. You are marked absent for today.`,
         variant: "destructive",
       });
       safeStopScanner();
       return;
     }
-    if(todayAttendance) {
+    if(todayAttendance?.checkout_at || queuedCheckout) {
       return;
     }
 
@@ -150,19 +189,17 @@ const AttendanceScan = () => {
           qrbox: { width: 250, height: 250 },
         },
         async (decodedText) => {await safeStopScanner();
-          // decodedText = site_id from QR
-          let siteid:string;
-          try{
-            siteid = JSON.parse(decodedText).site_id;
-          } catch  {
+          // decodedText = signed { site_id, w, sig } from the site kiosk
+          const payload = parseSiteQr(decodedText);
+          if (!payload) {
             toast({
               title: "Invalid QR Code",
-              description: "The scanned QR code is not valid",
+              description: "Scan the live code shown on the site kiosk",
               variant: "destructive",
             });
             return;
           }
-          await processAttendance(siteid);
+          await processAttendanceRef.current?.(payload);
         },
         () => {}
       )
@@ -178,16 +215,67 @@ const AttendanceScan = () => {
     return () => {
       safeStopScanner();
     };
-  }, [user,todayAttendance,afterCutoff]);
+  }, [user,todayAttendance,afterCutoff,queuedCheckin,queuedCheckout,policy.checkin_cutoff]);
+
+  /* ===================== OFFLINE ===================== */
+
+  // No signal at the site: keep the signed scan and let the server judge it
+  // once the device is back online.
+  const saveOffline = async (
+    kind: QueuedScanKind,
+    payload: SiteQrPayload,
+    location: DeviceLocation | null,
+    remarks: string | null
+  ) => {
+    if (!user) return;
+
+    let saved: boolean;
+    try {
+      saved = await enqueueScan({
+        userId: user.id,
+        kind,
+        payload,
+        scannedAt: new Date().toISOString(),
+        location,
+        remarks,
+      });
+    } catch {
+      toast({
+        title: 'Could Not Save Offline',
+        description: 'Try again when you are back online',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!saved) {
+      toast({
+        title: 'Could Not Save Offline',
+        description: 'This phone has no offline scans left. Go online once to get more',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (kind === 'checkout') {
+      setSummary('');
+      summaryRef.current = '';
+    }
+
+    toast({
+      title: kind === 'checkin' ? 'Check-In Saved Offline' : 'Check-Out Saved Offline',
+      description: `It will sync when you are back online. Reconnect within ${OFFLINE_SCAN_MAX_AGE_MINUTES} minutes or it expires`,
+    });
+  };
 
   /* ===================== CORE ===================== */
 
-  const processAttendance = async (siteId: string) => {
+  const processAttendance = async (payload: SiteQrPayload) => {
     if (!user) return;
     if (isProcessingRef.current) return;
     isProcessingRef.current = true;
     try{
-      if (!isUuid(siteId)) {
+      if (!isUuid(payload.site_id)) {
         toast({
           title: 'Invalid QR Code',
           description: 'The scanned QR code is not valid',
@@ -195,31 +283,58 @@ const AttendanceScan = () => {
         });
         return;
       }
-    if(todayAttendance) {
+    if(todayAttendance?.checkout_at || queuedCheckout) {
       toast({
         title: 'Attendance Already Completed',
-        description: 'You have already checked in today',
+        description: 'You have already checked in and out today',
         variant: 'destructive',
       });
       return;
     } 
-    const nowIST = new Date(
-      new Date().toLocaleString('en-US', {
-        timeZone: 'Asia/Kolkata',
-      })
-    );
-
-    const {error} = await supabase
-      .from('attendance').insert({
-        emp_user_id: user.id,
-        site_id: siteId,
-        day: today,
-        checkin_at: nowIST.toISOString(),
-      });
-    if (error) {
+
+    if (isCheckoutMode) {
+      if (!navigator.onLine) {
+        await saveOffline('checkout', payload, null, summaryRef.current);
+        return;
+      }
+
+      const result = await checkOutWithQr(payload, summaryRef.current);
+      if (result.ok === false && result.code === 'NETWORK_ERROR') {
+        await saveOffline('checkout', payload, null, summaryRef.current);
+        return;
+      }
+      if (result.ok === false) {
+        toast({
+          title: 'Check-Out Failed',
+          description: describeAttendanceError(result.code),
+          variant: 'destructive',
+        });
+        return;
+      }
+      setSummary('');
+      summaryRef.current = '';
+      setCompleted(result.attendance);
+      await fetchTodayAttendance();
+      return;
+    }
+
+    const location = await getDeviceLocation();
+
+    if (!navigator.onLine) {
+      await saveOffline('checkin', payload, location, null);
+      return;
+    }
+
+    // Server verifies the signature, window and geofence, then stamps its own time
+    const result = await checkInWithQr(payload, location);
+    if (result.ok === false && result.code === 'NETWORK_ERROR') {
+      await saveOffline('checkin', payload, location, null);
+      return;
+    }
+    if (result.ok === false) {
       toast({
         title: 'Check-In Failed',
-        description: error.message,
+        description: describeAttendanceError(result.code),
         variant: 'destructive',
       });
       return;
@@ -232,6 +347,7 @@ const AttendanceScan = () => {
       }, 3000); // 3 seconds lock to prevent rapid scans
     }
   };
+  processAttendanceRef.current = processAttendance;
 
 
   /* ===================== SALARY CREDIT (SAFE) ===================== */
@@ -245,16 +361,88 @@ const AttendanceScan = () => {
       <main className="p-4 max-w-2xl mx-auto space-y-4">
         <Card>
           <CardContent className="pt-6 text-center">
-            Attendance system ready
+            {queuedCheckout
+              ? 'Check-out saved offline. It will sync when you are back online'
+              : todayAttendance?.checkout_at
+              ? `Attendance completed for today (${describeAttendanceType(todayAttendance.attendance_type ?? null)})`
+              : isCheckoutMode
+              ? 'Add your work summary, then scan the site QR to check out'
+              : 'Scan the site QR to check in'}
           </CardContent>
         </Card>
 
+        {queued.length > 0 && (
+          <Card className="border-amber-500/50 bg-amber-500/10">
+            <CardContent className="p-4 flex items-center gap-3">
+              <CloudOff className="h-5 w-5 text-amber-500" />
+              <p className="text-sm font-medium">
+                {queued.length} scan{queued.length > 1 ? 's' : ''} waiting to sync
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {isCheckoutMode && (
+          <Card>
+            <CardContent className="pt-6">
+              <Textarea
+                placeholder="Work summary (optional)"
+                value={summary}
+                onChange={(e) => {
+                  setSummary(e.target.value);
+                  summaryRef.current = e.target.value;
+                }}
+                rows={3}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardContent className="pt-6">
             <div id="qr-reader" className="w-full max-w-sm mx-auto" />
           </CardContent>
         </Card>
       </main>
+
+      {/* CHECK-OUT RESULT */}
+      <Dialog open={!!completed} onOpenChange={() => setCompleted(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CheckCircle className="h-5 w-5 text-green-500" />
+              Checked Out
+            </DialogTitle>
+            <DialogDescription>
+              Your shift for today has been recorded
+            </DialogDescription>
+          </DialogHeader>
+
+          {completed && (
+            <div className="space-y-2 text-sm">
+              <p>
+                <strong>Check In:</strong>{' '}
+                {completed.checkin_at &&
+                  new Date(completed.checkin_at).toLocaleTimeString('en-IN', {
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+              </p>
+              <p>
+                <strong>Check Out:</strong>{' '}
+                {completed.checkout_at &&
+                  new Date(completed.checkout_at).toLocaleTimeString('en-IN', {
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+              </p>
+              <div className="p-3 bg-muted rounded-lg text-center text-lg font-semibold">
+                {describeAttendanceType(completed.attendance_type)}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -16,23 +16,33 @@ import {
   Bell,
   XCircle,
   User,
-  IndianRupee
+  IndianRupee,
+  CloudOff,
+  UserCheck
 } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
-import { startOfMonth, endOfMonth } from 'date-fns';
 import { format } from 'date-fns';
-
-const PAID_LEAVE_LIMIT = 2;
+import { getPolicyDay } from '@/lib/attendancePolicy';
+import { useAttendancePolicy } from '@/hooks/use-attendance-policy';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import { useLeaveBalances } from '@/hooks/use-leave-balances';
+import LeaveBalances from '@/components/LeaveBalances';
+import { formatRupees } from '@/lib/advances';
 
 const EmployeeDashboard = () => {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
   const navigate = useNavigate();
 
   const [employeeName, setEmployeeName] = useState('');
   const [todayStatus, setTodayStatus] =
     useState<'not_checked' | 'checked_in' | 'checked_out'>('not_checked');
-  const [approvedLeavesThisMonth, setApprovedLeavesThisMonth] = useState(0);
   const [balance, setBalance] = useState(0);
+  const [advanceOutstanding, setAdvanceOutstanding] = useState(0);
+  const [advanceMonthly, setAdvanceMonthly] = useState(0);
+  const { policy } = useAttendancePolicy(user?.id);
+  const { balances, refresh: refreshBalances } = useLeaveBalances(user?.id);
+  const today = getPolicyDay(policy);
+  const { queued, syncing, syncNow } = useOfflineSync(user?.id);
 
   /* ===================== FETCH ===================== */
 
@@ -49,7 +59,6 @@ const EmployeeDashboard = () => {
     if (profile?.full_name) setEmployeeName(profile.full_name);
 
     // Attendance
-    const today = new Date().toISOString().split('T')[0];
     const { data: todayAtt } = await supabase
       .from('attendance')
       .select('checkin_at, checkout_at')
@@ -61,46 +70,6 @@ const EmployeeDashboard = () => {
     else if (todayAtt?.checkin_at) setTodayStatus('checked_in');
     else setTodayStatus('not_checked');
 
-    // Leaves (approved this month)
-    const now = new Date();
-    const monthStart = startOfMonth(now).toISOString().split('T')[0];
-    const monthEnd = endOfMonth(now).toISOString().split('T')[0];
-
-    const { data: approvedLeaves } = await supabase
-      .from('leaves')
-      .select('start_date,end_date')
-      .eq('emp_user_id', user.id)
-      .eq('status', 'approved');
-
-    let totalDays = 0;
-
-    approvedLeaves?.forEach((leave) => {
-      const leaveStart = new Date(leave.start_date);
-      const leaveEnd = new Date(leave.end_date);
-
-      const overlapStart =
-        leaveStart > new Date(monthStart)
-          ? leaveStart
-          : new Date(monthStart);
-
-      const overlapEnd =
-        leaveEnd < new Date(monthEnd)
-          ? leaveEnd
-          : new Date(monthEnd);
-
-      if (overlapStart <= overlapEnd) {
-        totalDays +=
-          Math.floor(
-            (overlapEnd.getTime() - overlapStart.getTime()) /
-              (1000 * 60 * 60 * 24)
-          ) + 1;
-      }
-    });
-
-    setApprovedLeavesThisMonth(totalDays);
-
-
-
     // Ledger balance
     const monthStartFormatted = format(new Date(), 'yyyy-MM-01');
     const { data: balanceData, error } = await supabase.rpc('get_employee_ledger_balance', {
@@ -109,6 +78,17 @@ const EmployeeDashboard = () => {
     });
 
     setBalance(Number(balanceData?.[0]?.balance ?? 0));
+
+    // Advances still being recovered
+    const { data: advances } = await supabase.rpc('get_advance_balances', {
+      p_emp_user_id: user.id,
+    });
+
+    const open = (advances ?? []).filter(a => Number(a.outstanding) > 0);
+    setAdvanceOutstanding(open.reduce((s, a) => s + Number(a.outstanding), 0));
+    setAdvanceMonthly(
+      open.reduce((s, a) => s + Math.min(Number(a.monthly_amount), Number(a.outstanding)), 0)
+    );
   };
 
   /* ===================== REALTIME ===================== */
@@ -128,7 +108,10 @@ const EmployeeDashboard = () => {
       .on(
         'postgres_changes',
         { event: '*', schema: 'public', table: 'leaves', filter: `emp_user_id=eq.${user.id}` },
-        fetchData
+        () => {
+          fetchData();
+          refreshBalances();
+        }
       )
       .on(
         'postgres_changes',
@@ -140,7 +123,7 @@ const EmployeeDashboard = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user]);
+  }, [user, today, refreshBalances]);
 
   /* ===================== HELPERS ===================== */
 
@@ -151,7 +134,6 @@ const EmployeeDashboard = () => {
     return 'Good Evening';
   };
 
-  const paidLeavesUsed = Math.min(approvedLeavesThisMonth, PAID_LEAVE_LIMIT);
 
   const menuItems = [
     { icon: Clock, label: 'Attendance', description: 'View & mark attendance', href: '/employee/attendance', color: 'text-blue-500' },
@@ -161,6 +143,9 @@ const EmployeeDashboard = () => {
     { icon: Wallet, label: 'Money Ledger', description: 'View transactions', href: '/employee/ledger', color: 'text-purple-500' },
     { icon: AlertCircle, label: 'Complaints', description: 'Raise a complaint', href: '/employee/complaints', color: 'text-destructive' },
     { icon: Bell, label: 'Notifications', description: 'View announcements', href: '/employee/notifications', color: 'text-teal-500' },
+    ...(role === 'supervisor'
+      ? [{ icon: UserCheck, label: 'Supervisor Dashboard', description: 'Crew attendance, leaves and corrections', href: '/supervisor/dashboard', color: 'text-cyan-500' }]
+      : []),
   ];
 
   /* ===================== UI ===================== */
@@ -190,7 +175,21 @@ const EmployeeDashboard = () => {
           <p className="text-muted-foreground">Here's your overview for today</p>
         </div>
 
-        <div className="grid grid-cols-3 gap-3">
+        {queued.length > 0 && (
+          <Card className="border-amber-500/50 bg-amber-500/10">
+            <CardContent className="p-4 flex items-center gap-3">
+              <CloudOff className="h-5 w-5 text-amber-500" />
+              <p className="flex-1 text-sm font-medium">
+                {queued.length} offline scan{queued.length > 1 ? 's' : ''} pending sync
+              </p>
+              <Button size="sm" variant="outline" disabled={syncing} onClick={syncNow}>
+                {syncing ? 'Syncing...' : 'Sync Now'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
           <Card>
             <CardContent className="p-4 flex gap-3">
               {todayStatus === 'checked_out'
@@ -207,21 +206,6 @@ const EmployeeDashboard = () => {
             </CardContent>
           </Card>
 
-          <Card>
-            <CardContent className="p-4 flex gap-3">
-              <Calendar className="text-red-500" />
-              <div>
-                <p className="text-xs text-muted-foreground">Paid Leaves Used</p>
-                <p className="font-semibold text-xl">
-                  {paidLeavesUsed} / {PAID_LEAVE_LIMIT}
-                </p>
-                <p className="text-xs text-muted-foreground">
-                  Extra leaves are unpaid
-                </p>
-              </div>
-            </CardContent>
-          </Card>
-
           <Card>
             <CardContent className="p-4 flex gap-3">
               <Wallet className="text-purple-500" />
@@ -235,6 +219,27 @@ const EmployeeDashboard = () => {
           </Card>
         </div>
 
+        {advanceOutstanding > 0 && (
+          <Link to="/employee/advance-requests">
+            <Card>
+              <CardContent className="p-4 flex gap-3">
+                <IndianRupee className="text-emerald-500" />
+                <div>
+                  <p className="text-xs text-muted-foreground">Advance outstanding</p>
+                  <p className="font-semibold">
+                    {formatRupees(advanceOutstanding)}
+                    <span className="text-xs font-normal text-muted-foreground">
+                      {' '}· {formatRupees(advanceMonthly)} recovered each month
+                    </span>
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          </Link>
+        )}
+
+        <LeaveBalances balances={balances} />
+
         <div className="grid gap-2">
           {menuItems.map(item => (
             <Link key={item.label} to={item.href}>
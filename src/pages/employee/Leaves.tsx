@@ -11,6 +11,15 @@ import {
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Calendar } from '@/components/ui/calendar';
 import {
   Popover,
@@ -18,24 +27,38 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { toast } from '@/hooks/use-toast';
 import {
   CalendarIcon,
-  AlertTriangle,
   CheckCircle,
   XCircle,
   Clock,
+  Ban,
+  Pencil,
 } from 'lucide-react';
-import {
-  format,
-  eachDayOfInterval,
-  eachMonthOfInterval,
-  startOfMonth,
-  endOfMonth,
-} from 'date-fns';
-import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
 import type { DateRange } from 'react-day-picker';
-import { useMemo } from 'react';
+import LeaveBalances from '@/components/LeaveBalances';
+import LeaveCostBreakdown from '@/components/LeaveCostBreakdown';
+import { useLeaveBalances } from '@/hooks/use-leave-balances';
+import { useWorkingDays } from '@/hooks/use-working-days';
+import { useAttendancePolicy } from '@/hooks/use-attendance-policy';
+import { getPolicyDay } from '@/lib/attendancePolicy';
+import {
+  HALF_DAY_LABELS,
+  formatLeaveDays,
+  sumLeaveCost,
+  type HalfDay,
+  type LeaveCostDay,
+} from '@/lib/leaves';
 
 /* ===================== TYPES ===================== */
 
@@ -46,6 +69,11 @@ interface LeaveRecord {
   days: number;
   reason: string | null;
   status: string;
+  leave_type: string | null;
+  half_day: string | null;
+  change_type: string | null;
+  requested_start_date: string | null;
+  requested_end_date: string | null;
   created_at: string | null;
 }
 
@@ -56,10 +84,20 @@ const EmployeeLeaves = () => {
 
   const [range, setRange] = useState<DateRange | undefined>();
   const [reason, setReason] = useState('');
+  const [leaveType, setLeaveType] = useState('casual');
+  const [dayPart, setDayPart] = useState<'full' | HalfDay>('full');
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const [approvedThisMonth, setApprovedThisMonth] = useState(0);
   const [leaves, setLeaves] = useState<LeaveRecord[]>([]);
+  const [costPreview, setCostPreview] = useState<LeaveCostDay[]>([]);
+  const [changingLeave, setChangingLeave] = useState<LeaveRecord | null>(null);
+  const [changeRange, setChangeRange] = useState<DateRange | undefined>();
+  const [isChanging, setIsChanging] = useState<string | null>(null);
+  const { balances, refresh: refreshBalances } = useLeaveBalances(user?.id);
+  const selectedType = balances.find((b) => b.leave_type === leaveType);
+  const { isNonWorkingDay } = useWorkingDays();
+  const { policy } = useAttendancePolicy(user?.id);
 
   /* ===================== FETCH ===================== */
 
@@ -70,28 +108,6 @@ const EmployeeLeaves = () => {
 
   const fetchData = async () => {
     if (!user) return;
-    const now = new Date();
-    const monthStart = startOfMonth(now);
-    const monthEnd = endOfMonth(now);
-
-    const { data } = await supabase
-      .from('leaves')
-      .select('start_date,end_date')
-      .eq('emp_user_id', user!.id)
-      .eq('status', 'approved')
-
-    let totalDays=0;
-    data?.forEach((leave) => {
-      const leaveStart = new Date(leave.start_date);
-      const leaveEnd = new Date(leave.end_date);
-      const overlapStart = leaveStart > monthStart ? leaveStart : monthStart;
-      const overlapEnd = leaveEnd < monthEnd ? leaveEnd : monthEnd;
-
-      if (overlapStart <= overlapEnd) {
-        totalDays += eachDayOfInterval({ start: overlapStart, end: overlapEnd }).length;
-      }
-    });
-    setApprovedThisMonth(totalDays);
     const { data: leaveHistory } = await supabase
       .from('leaves')
       .select('*')
@@ -103,72 +119,40 @@ const EmployeeLeaves = () => {
 
   /* ===================== HELPERS ===================== */
 
-  const selectedDays =
-    range?.from && range?.to
-      ? eachDayOfInterval({ start: range.from, end: range.to })
-      : [];
-
-  const calculateUnpaidDays = () => 
-  {
-    if (!range?.from || !range?.to) return 0;
-
-    const start = range.from;
-    const end = range.to;
-
-    const months = eachMonthOfInterval({ start, end });
-
-    let totalUnpaid = 0;
+  const isHalfDay = dayPart !== 'full';
 
-    for (const monthDate of months) {
-      const monthStart = startOfMonth(monthDate);
-      const monthEnd = endOfMonth(monthDate);
-
-      const overlapStart = start > monthStart ? start : monthStart;
-      const overlapEnd = end < monthEnd ? end : monthEnd;
-
-      const overlapDays =
-        overlapStart <= overlapEnd
-          ? Math.floor(
-              (overlapEnd.getTime() - overlapStart.getTime()) /
-                (1000 * 60 * 60 * 24)
-            ) + 1
-          : 0;
-
-      // Calculate approved leaves for that month
-      let approvedInMonth = 0;
-
-      leaves
-        .filter((l) => l.status === 'approved')
-        .forEach((leave) => {
-          const leaveStart = new Date(leave.start_date);
-          const leaveEnd = new Date(leave.end_date);
-
-          const overlapStart2 =
-            leaveStart > monthStart ? leaveStart : monthStart;
-          const overlapEnd2 =
-            leaveEnd < monthEnd ? leaveEnd : monthEnd;
-
-          if (overlapStart2 <= overlapEnd2) {
-            approvedInMonth +=
-              Math.floor(
-                (overlapEnd2.getTime() - overlapStart2.getTime()) /
-                  (1000 * 60 * 60 * 24)
-              ) + 1;
-          }
-        });
-
-      const paidLeft = Math.max(0, 2 - approvedInMonth);
+  // Holidays and weekly offs are shown struck through and never counted
+  const nonWorkingModifiers = {
+    modifiers: { nonWorking: isNonWorkingDay },
+    modifiersClassNames: { nonWorking: 'line-through text-muted-foreground' },
+  };
 
-      totalUnpaid += Math.max(0, overlapDays - paidLeft);
+  // What the server will charge for these dates, day by day
+  useEffect(() => {
+    if (!user || !range?.from || !range?.to) {
+      setCostPreview([]);
+      return;
     }
 
-    return totalUnpaid;
+    supabase
+      .rpc('preview_leave_cost', {
+        p_emp_user_id: user.id,
+        p_start_date: format(range.from, 'yyyy-MM-dd'),
+        p_end_date: format(range.to, 'yyyy-MM-dd'),
+        p_leave_type: leaveType,
+        ...(isHalfDay ? { p_half_day: dayPart } : {}),
+      })
+      .then(({ data }) => setCostPreview(data ?? []));
+  }, [user, range, leaveType, isHalfDay, dayPart, balances]);
+
+  // A half-day leave covers a single day
+  const changeDayPart = (value: string) => {
+    setDayPart(value as 'full' | HalfDay);
+    if (value !== 'full' && range?.from) {
+      setRange({ from: range.from, to: range.from });
+    }
   };
 
-  const unpaidDays = useMemo(()=> {
-    return calculateUnpaidDays();
-  }, [range, leaves]);
-
   /* ===================== SUBMIT ===================== */
 
   const handleSubmit = async () => {
@@ -181,25 +165,42 @@ const EmployeeLeaves = () => {
       return;
     }
 
+    const { workingDays } = sumLeaveCost(costPreview);
+
+    if (workingDays === 0) {
+      toast({
+        title: 'Error',
+        description: 'The selected dates have no working days',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (selectedType?.requires_document && !documentFile) {
+      toast({
+        title: 'Error',
+        description: `${selectedType.name} needs a supporting document`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
       const start = format(range.from, 'yyyy-MM-dd');
       const end = format(range.to, 'yyyy-MM-dd');
-      const days = selectedDays.length;
-
-      /* 🔥 Validate paid leave status via SQL */
-      for (const d of selectedDays) {
-        const { data, error } = await supabase.rpc(
-          'get_paid_leave_status',
-          {
-            p_emp_user_id: user!.id,
-            p_day: format(d, 'yyyy-MM-dd'),
-          }
-        );
-
-        if (error) throw error;
-        // data = true (paid) / false (unpaid) → backend handles salary logic
+      const days = workingDays;
+
+      let documentPath: string | null = null;
+
+      if (documentFile && selectedType?.requires_document) {
+        documentPath = `${user!.id}/${Date.now()}-${documentFile.name}`;
+        const { error: uploadError } = await supabase.storage
+          .from('leave-documents')
+          .upload(documentPath, documentFile);
+
+        if (uploadError) throw uploadError;
       }
 
       const { error } = await supabase.from('leaves').insert({
@@ -207,6 +208,9 @@ const EmployeeLeaves = () => {
         start_date: start,
         end_date: end,
         days,
+        half_day: isHalfDay ? dayPart : null,
+        leave_type: leaveType,
+        document_path: documentPath,
         reason: reason.trim() || null,
         status: 'pending',
       });
@@ -219,8 +223,11 @@ const EmployeeLeaves = () => {
       });
 
       setRange(undefined);
+      setDayPart('full');
       setReason('');
+      setDocumentFile(null);
       fetchData();
+      refreshBalances();
     } catch (err: any) {
       toast({
         title: 'Error',
@@ -232,6 +239,94 @@ const EmployeeLeaves = () => {
     }
   };
 
+  /* ===================== CANCEL / CHANGE ===================== */
+
+  // The same day cancel_leave and modify_leave compare against
+  const todayStr = getPolicyDay(policy);
+
+  // Pending leaves change at once; upcoming approved ones need an admin
+  const canChange = (l: LeaveRecord) =>
+    l.status === 'pending' ||
+    (l.status === 'approved' && l.start_date > todayStr && !l.change_type);
+
+  const handleCancel = async (l: LeaveRecord) => {
+    const prompt =
+      l.status === 'pending'
+        ? 'Cancel this leave request?'
+        : 'Ask an admin to cancel this approved leave?';
+    if (!confirm(prompt)) return;
+
+    setIsChanging(l.id);
+
+    try {
+      const { error } = await supabase.rpc('cancel_leave', { p_leave_id: l.id });
+      if (error) throw error;
+
+      toast({
+        title: l.status === 'pending' ? 'Leave Cancelled' : 'Cancellation Requested',
+        description:
+          l.status === 'pending'
+            ? 'Your leave request has been cancelled'
+            : 'An admin will review your cancellation',
+      });
+      fetchData();
+      refreshBalances();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsChanging(null);
+    }
+  };
+
+  const openChange = (l: LeaveRecord) => {
+    setChangingLeave(l);
+    setChangeRange({
+      from: new Date(l.start_date),
+      to: new Date(l.end_date),
+    });
+  };
+
+  const handleChange = async () => {
+    if (!changingLeave || !changeRange?.from) return;
+
+    const l = changingLeave;
+    const to = l.half_day ? changeRange.from : changeRange.to ?? changeRange.from;
+
+    setIsChanging(l.id);
+
+    try {
+      const { error } = await supabase.rpc('modify_leave', {
+        p_leave_id: l.id,
+        p_start_date: format(changeRange.from, 'yyyy-MM-dd'),
+        p_end_date: format(to, 'yyyy-MM-dd'),
+      });
+      if (error) throw error;
+
+      toast({
+        title: l.status === 'pending' ? 'Leave Updated' : 'Change Requested',
+        description:
+          l.status === 'pending'
+            ? 'Your leave dates have been changed'
+            : 'An admin will review the new dates',
+      });
+      setChangingLeave(null);
+      fetchData();
+      refreshBalances();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsChanging(null);
+    }
+  };
+
   /* ===================== STATUS BADGE ===================== */
 
   const getStatusBadge = (status: string) => {
@@ -249,6 +344,13 @@ const EmployeeLeaves = () => {
           Rejected
         </Badge>
       );
+    if (status === 'cancelled')
+      return (
+        <Badge variant="outline">
+          <Ban className="h-3 w-3 mr-1" />
+          Cancelled
+        </Badge>
+      );
     return (
       <Badge variant="secondary">
         <Clock className="h-3 w-3 mr-1" />
@@ -265,39 +367,7 @@ const EmployeeLeaves = () => {
 
       <main className="p-4 max-w-2xl mx-auto space-y-4">
 
-        {/* MONTHLY SUMMARY */}
-        <Card
-          className={cn(
-            approvedThisMonth >= 2
-              ? 'border-warning bg-warning/5'
-              : 'border-green-500/30 bg-green-500/5'
-          )}
-        >
-          <CardContent className="p-4 flex justify-between">
-            <div>
-              <p className="text-sm text-muted-foreground">
-                Paid leaves used this month
-              </p>
-              <p className="text-2xl font-bold">{approvedThisMonth} / 2</p>
-            </div>
-            {approvedThisMonth >= 2 && (
-              <AlertTriangle className="h-6 w-6 text-warning" />
-            )}
-          </CardContent>
-        </Card>
-
-        {/* COMPANY RULE */}
-        {approvedThisMonth >= 2 && (
-          <Card className="border-warning/50 bg-warning/10">
-            <CardContent className="p-4 flex gap-3">
-              <AlertTriangle className="h-5 w-5 text-warning mt-0.5" />
-              <p className="text-sm">
-                From the <strong>3rd leave day</strong> onwards, salary will be
-                deducted as per company norms.
-              </p>
-            </CardContent>
-          </Card>
-        )}
+        <LeaveBalances balances={balances} />
 
         {/* APPLY LEAVE */}
         <Card>
@@ -309,6 +379,31 @@ const EmployeeLeaves = () => {
           </CardHeader>
 
           <CardContent className="space-y-4">
+            <Select value={leaveType} onValueChange={setLeaveType}>
+              <SelectTrigger>
+                <SelectValue placeholder="Leave type" />
+              </SelectTrigger>
+              <SelectContent>
+                {balances.map((b) => (
+                  <SelectItem key={b.leave_type} value={b.leave_type}>
+                    {b.name}
+                    {b.is_paid ? ` (${Number(b.available)} left)` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={dayPart} onValueChange={changeDayPart}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="full">Full day(s)</SelectItem>
+                <SelectItem value="first">{HALF_DAY_LABELS.first}</SelectItem>
+                <SelectItem value="second">{HALF_DAY_LABELS.second}</SelectItem>
+              </SelectContent>
+            </Select>
+
             <Popover>
               <PopoverTrigger asChild>
                 <Button
@@ -317,33 +412,51 @@ const EmployeeLeaves = () => {
                 >
                   <CalendarIcon className="mr-2 h-4 w-4" />
                   {range?.from
-                    ? `${format(range.from, 'PPP')} → ${
-                        range.to ? format(range.to, 'PPP') : ''
-                      }`
+                    ? isHalfDay
+                      ? format(range.from, 'PPP')
+                      : `${format(range.from, 'PPP')} → ${
+                          range.to ? format(range.to, 'PPP') : ''
+                        }`
+                    : isHalfDay
+                    ? 'Select leave date'
                     : 'Select leave dates'}
                 </Button>
               </PopoverTrigger>
               <PopoverContent className="p-0">
-                <Calendar
-                  mode="range"
-                  selected={range}
-                  onSelect={setRange}
-                  disabled={(d) => d < new Date()}
-                  numberOfMonths={1}
-                />
+                {isHalfDay ? (
+                  <Calendar
+                    mode="single"
+                    selected={range?.from}
+                    onSelect={(d) => setRange(d ? { from: d, to: d } : undefined)}
+                    disabled={(d) => d < new Date() || isNonWorkingDay(d)}
+                    numberOfMonths={1}
+                  />
+                ) : (
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setRange}
+                    disabled={(d) => d < new Date()}
+                    numberOfMonths={1}
+                    {...nonWorkingModifiers}
+                  />
+                )}
+                <p className="text-xs text-muted-foreground px-3 pb-3">
+                  Holidays and weekly offs are not counted as leave.
+                </p>
               </PopoverContent>
             </Popover>
 
-            {selectedDays.length > 0 && (
-              <div className="text-sm space-y-1">
-                <p>
-                  Selected days: <strong>{selectedDays.length}</strong>
-                </p>
-                {unpaidDays > 0 && (
-                  <p className="text-destructive">
-                    Unpaid days: <strong>{unpaidDays}</strong>
-                  </p>
-                )}
+            {costPreview.length > 0 && <LeaveCostBreakdown days={costPreview} />}
+
+            {selectedType?.requires_document && (
+              <div className="space-y-1">
+                <Label>Supporting document</Label>
+                <Input
+                  type="file"
+                  accept="image/*,application/pdf"
+                  onChange={(e) => setDocumentFile(e.target.files?.[0] ?? null)}
+                />
               </div>
             )}
 
@@ -379,23 +492,124 @@ const EmployeeLeaves = () => {
                   <div className="flex justify-between">
                     <div>
                       <p className="font-medium">
-                        {format(new Date(l.start_date), 'PPP')} →{' '}
-                        {format(new Date(l.end_date), 'PPP')}
+                        {l.half_day
+                          ? format(new Date(l.start_date), 'PPP')
+                          : `${format(new Date(l.start_date), 'PPP')} → ${format(
+                              new Date(l.end_date),
+                              'PPP'
+                            )}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {balances.find((b) => b.leave_type === l.leave_type)?.name ??
+                          l.leave_type}
+                        {' · '}
+                        {l.half_day
+                          ? HALF_DAY_LABELS[l.half_day as HalfDay]
+                          : formatLeaveDays(l.days)}
                       </p>
                       {l.reason && (
                         <p className="text-sm text-muted-foreground">
                           {l.reason}
                         </p>
                       )}
+                      {l.change_type === 'cancel' && (
+                        <p className="text-xs text-amber-600 mt-1">
+                          Cancellation awaiting approval
+                        </p>
+                      )}
+                      {l.change_type === 'modify' && l.requested_start_date && (
+                        <p className="text-xs text-amber-600 mt-1">
+                          Change to {format(new Date(l.requested_start_date), 'PPP')}
+                          {l.requested_end_date !== l.requested_start_date &&
+                            ` → ${format(new Date(l.requested_end_date!), 'PPP')}`}{' '}
+                          awaiting approval
+                        </p>
+                      )}
                     </div>
                     {getStatusBadge(l.status)}
                   </div>
+
+                  {canChange(l) && (
+                    <div className="flex gap-2 mt-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isChanging === l.id}
+                        onClick={() => openChange(l)}
+                      >
+                        <Pencil className="h-3 w-3 mr-1" />
+                        {l.status === 'pending' ? 'Change Dates' : 'Request Change'}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-destructive"
+                        disabled={isChanging === l.id}
+                        onClick={() => handleCancel(l)}
+                      >
+                        <Ban className="h-3 w-3 mr-1" />
+                        {l.status === 'pending' ? 'Cancel' : 'Request Cancellation'}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               ))
             )}
           </CardContent>
         </Card>
       </main>
+
+      {/* CHANGE DATES */}
+      <Dialog
+        open={!!changingLeave}
+        onOpenChange={(open) => !open && setChangingLeave(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {changingLeave?.status === 'pending' ? 'Change Leave Dates' : 'Request Date Change'}
+            </DialogTitle>
+            <DialogDescription>
+              {changingLeave?.status === 'pending'
+                ? 'Shorten or extend your leave request.'
+                : 'Your leave stays as approved until an admin accepts the new dates.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex justify-center">
+            {changingLeave?.half_day ? (
+              <Calendar
+                mode="single"
+                selected={changeRange?.from}
+                onSelect={(d) => setChangeRange(d ? { from: d, to: d } : undefined)}
+                disabled={(d) => d < new Date() || isNonWorkingDay(d)}
+                numberOfMonths={1}
+              />
+            ) : (
+              <Calendar
+                mode="range"
+                selected={changeRange}
+                onSelect={setChangeRange}
+                disabled={(d) => d < new Date()}
+                numberOfMonths={1}
+                {...nonWorkingModifiers}
+              />
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setChangingLeave(null)}>
+              Close
+            </Button>
+            <Button
+              disabled={!changeRange?.from || isChanging === changingLeave?.id}
+              onClick={handleChange}
+            >
+              {changingLeave?.status === 'pending' ? 'Save Dates' : 'Send Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,9 +1,16 @@
 import { useState, useEffect } from 'react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import Header from '@/components/Header';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Wallet, TrendingUp, TrendingDown, IndianRupee } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { formatLeaveDays } from '@/lib/leaves';
+import { Wallet, TrendingUp, TrendingDown, IndianRupee, Download, Receipt } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface LedgerEntry {
@@ -11,13 +18,40 @@ interface LedgerEntry {
   amount: number;
   type: 'credit' | 'debit';
   reason: string | null;
+  category: string;
   created_at: string | null;
 }
 
+// Counted in their own payslip columns rather than earnings or deductions
+const isPayslipOwnColumn = (r: LedgerEntry) =>
+  r.category === 'advance' || r.category === 'salary_payment';
+
+type Payslip = Tables<'payslips'>;
+
+// jspdf-autotable records where the last table ended on the document
+type AutoTableDoc = jsPDF & { lastAutoTable: { finalY: number } };
+
+const LOGO =
+  'https://mxybuexkbiprxxkyrllg.supabase.co/storage/v1/object/public/Avatars/logo.jpg';
+
+// Sums amounts by reason, dropping per-entry detail such as "(3 late marks)"
+const groupByReason = (rows: LedgerEntry[]) => {
+  const totals = new Map<string, number>();
+
+  rows.forEach((r) => {
+    const label = (r.reason || 'Other').replace(/\s*\(.*\)\s*$/, '');
+    totals.set(label, (totals.get(label) ?? 0) + Number(r.amount));
+  });
+
+  return [...totals.entries()];
+};
+
 const EmployeeLedger = () => {
   const { user } = useAuth();
   const [balance, setBalance] = useState(0);
   const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [payslips, setPayslips] = useState<Payslip[]>([]);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
 
   const fetchData = async () => {
     if (!user) return;
@@ -37,6 +71,131 @@ const EmployeeLedger = () => {
       .order('created_at', { ascending: false });
 
     setEntries(data || []);
+
+    // Only payslips of locked runs are visible to employees
+    const { data: slips } = await supabase
+      .from('payslips')
+      .select('*')
+      .eq('emp_user_id', user.id)
+      .order('month_year', { ascending: false });
+
+    setPayslips(slips || []);
+  };
+
+  /* ===================== PAYSLIP PDF ===================== */
+
+  const downloadPayslip = async (slip: Payslip) => {
+    if (!user) return;
+    setDownloadingId(slip.id);
+
+    try {
+      const [{ data: days, error }, { data: profile }, { data: rows }] = await Promise.all([
+        supabase.rpc('get_payslip_attendance', { p_payslip_id: slip.id }),
+        supabase.from('profiles').select('full_name').eq('auth_uid', user.id).maybeSingle(),
+        supabase
+          .from('money_ledger')
+          .select('*')
+          .eq('emp_user_id', user.id)
+          .eq('month_year', slip.month_year)
+          .order('created_at'),
+      ]);
+
+      if (error) throw error;
+
+      const attendance = days?.[0];
+      const month = new Date(`${slip.month_year}T00:00:00`);
+      const monthLabel = format(month, 'MMMM yyyy');
+      const ledger = (rows || []) as LedgerEntry[];
+
+      const earnings = groupByReason(
+        ledger.filter((r) => r.type === 'credit' && !isPayslipOwnColumn(r))
+      );
+      const deductions = groupByReason(
+        ledger.filter((r) => r.type === 'debit' && !isPayslipOwnColumn(r))
+      );
+      if (Number(slip.advances_recovered) > 0) {
+        deductions.push(['Advances recovered', Number(slip.advances_recovered)]);
+      }
+
+      const doc = new jsPDF();
+      const title = `Payslip – ${monthLabel}`;
+
+      const build = (logo?: HTMLImageElement) => {
+        if (logo) doc.addImage(logo, 'PNG', 14, 10, 30, 18);
+
+        doc.setFontSize(16);
+        doc.text('KMS & Co', 50, 18);
+        doc.setFontSize(10);
+        doc.text('Coimbatore, Tamil Nadu, India', 50, 26);
+
+        doc.setFontSize(14);
+        doc.text(title, 105, 42, { align: 'center' });
+
+        doc.setFontSize(10);
+        doc.text(`Employee: ${profile?.full_name || user.email}`, 14, 52);
+        doc.text(`Daily wage: ₹${Number(slip.daily_wage).toFixed(2)}`, 14, 58);
+        doc.text(
+          `Paid: ${slip.paid_at ? format(new Date(slip.paid_at), 'dd MMM yyyy') : 'Pending'}`,
+          140,
+          52
+        );
+        doc.text(`Generated: ${format(new Date(), 'dd MMM yyyy')}`, 140, 58);
+
+        autoTable(doc, {
+          startY: 66,
+          head: [['Days worked', '', 'Days lost', '']],
+          body: [
+            ['Days present', String(attendance?.present_days ?? 0), 'Unpaid leaves', formatLeaveDays(Number(attendance?.unpaid_leave_days ?? 0))],
+            ['Half days', String(attendance?.half_days ?? 0), 'Absences', String(attendance?.absent_days ?? 0)],
+            ['Paid leaves', formatLeaveDays(Number(attendance?.paid_leave_days ?? 0)), '', ''],
+            ['Holidays', String(attendance?.holidays ?? 0), '', ''],
+          ],
+        });
+
+        const lines = Math.max(earnings.length, deductions.length, 1);
+
+        autoTable(doc, {
+          startY: (doc as AutoTableDoc).lastAutoTable.finalY + 8,
+          head: [['Earnings', 'Amount (₹)', 'Deductions', 'Amount (₹)']],
+          body: Array.from({ length: lines }, (_, i) => [
+            earnings[i]?.[0] ?? '',
+            earnings[i] ? earnings[i][1].toFixed(2) : '',
+            deductions[i]?.[0] ?? '',
+            deductions[i] ? deductions[i][1].toFixed(2) : '',
+          ]),
+          foot: [[
+            'Gross',
+            Number(slip.gross).toFixed(2),
+            'Total deductions',
+            (Number(slip.deductions) + Number(slip.advances_recovered)).toFixed(2),
+          ]],
+        });
+
+        const y = (doc as AutoTableDoc).lastAutoTable.finalY + 12;
+
+        doc.setFontSize(12);
+        doc.text(`Net pay : ₹${Number(slip.net).toFixed(2)}`, 14, y);
+
+        doc.setFontSize(8);
+        doc.text('This is a computer-generated payslip.', 105, 285, { align: 'center' });
+
+        doc.save(`${title}.pdf`);
+      };
+
+      const img = new Image();
+      img.crossOrigin = 'anonymous';
+      img.src = LOGO;
+      img.onload = () => build(img);
+      img.onerror = () => build();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloadingId(null);
+    }
   };
 
   useEffect(() => {
@@ -93,6 +252,49 @@ const EmployeeLedger = () => {
           <Summary icon={<TrendingDown />} label="Debits" value={totalDebits} />
         </div>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5" />
+              Payslips
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {payslips.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Payslips appear here once a month's payroll is closed
+              </p>
+            )}
+            {payslips.map(p => (
+              <div
+                key={p.id}
+                className="flex items-center justify-between gap-2 p-3 bg-muted rounded"
+              >
+                <div>
+                  <p className="font-medium">
+                    {format(new Date(`${p.month_year}T00:00:00`), 'MMMM yyyy')}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Net ₹{Number(p.net).toFixed(2)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {p.paid_at && <Badge className="bg-green-500">Paid</Badge>}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={downloadingId === p.id}
+                    onClick={() => downloadPayslip(p)}
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    Payslip
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Transaction History</CardTitle>
@@ -0,0 +1,343 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import Header from '@/components/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { QrCode, Users } from 'lucide-react';
+import { subDays } from 'date-fns';
+import { describeAttendanceError } from '@/lib/attendance';
+import {
+  formatPolicyTime,
+  getPolicyDay,
+  isoToZonedTime,
+} from '@/lib/attendancePolicy';
+import { useAttendancePolicy } from '@/hooks/use-attendance-policy';
+import { useSupervisedSites } from '@/hooks/use-supervised-sites';
+
+/* ===================== TYPES ===================== */
+
+type CrewStatus = 'present' | 'half' | 'absent';
+
+interface CrewMember {
+  emp_user_id: string;
+  full_name: string | null;
+  designation: string | null;
+  // Scanned in themselves (or corrected by an admin); not editable here
+  locked: boolean;
+  status: CrewStatus;
+  checkin: string;
+  checkout: string;
+  error: string | null;
+}
+
+interface BulkResult {
+  emp_user_id: string;
+  ok: boolean;
+  code: string | null;
+}
+
+// Crew wording for codes whose default message speaks to the employee
+const CREW_ERROR_MESSAGES: Record<string, string> = {
+  ALREADY_CHECKED_IN: 'Already checked in by scan',
+  AFTER_CUTOFF: 'Check-in is after the cutoff',
+};
+
+const describeCrewError = (code: string) =>
+  CREW_ERROR_MESSAGES[code] ?? describeAttendanceError(code);
+
+/* ===================== COMPONENT ===================== */
+
+const BulkAttendance = () => {
+  const { user, role } = useAuth();
+  const { policy } = useAttendancePolicy(user?.id);
+
+  const { sites } = useSupervisedSites();
+  const [siteId, setSiteId] = useState('');
+  const [day, setDay] = useState(getPolicyDay(policy));
+  const [crew, setCrew] = useState<CrewMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const today = getPolicyDay(policy);
+  // Older days are corrected by an admin, as bulk_mark_attendance enforces
+  const earliest = getPolicyDay(policy, subDays(new Date(), 1));
+  const defaultCheckin = policy.shift_start?.slice(0, 5) ?? '09:00';
+  const defaultCheckout = policy.shift_end?.slice(0, 5) ?? '';
+
+  /* ===================== FETCH ===================== */
+
+  useEffect(() => {
+    if (sites.length === 1) setSiteId((prev) => prev || sites[0].id);
+  }, [sites]);
+
+  const fetchCrew = useCallback(async () => {
+    if (!siteId || !day) return;
+    setIsLoading(true);
+
+    const { data, error } = await supabase.rpc('get_site_crew', {
+      p_site_id: siteId,
+      p_day: day,
+    });
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      setIsLoading(false);
+      return;
+    }
+
+    setCrew(
+      (data ?? []).map((m) => ({
+        emp_user_id: m.emp_user_id,
+        full_name: m.full_name,
+        designation: m.designation,
+        locked: !!m.attendance_id && m.checkin_source !== 'bulk',
+        status: !m.attendance_id
+          ? 'present'
+          : m.attendance_type === 'half'
+          ? 'half'
+          : m.attendance_type === 'full'
+          ? 'present'
+          : 'absent',
+        checkin: m.checkin_at
+          ? isoToZonedTime(m.checkin_at, policy.timezone)
+          : defaultCheckin,
+        checkout: m.checkout_at
+          ? isoToZonedTime(m.checkout_at, policy.timezone)
+          : defaultCheckout,
+        error: null,
+      }))
+    );
+    setIsLoading(false);
+  }, [siteId, day, policy.timezone, defaultCheckin, defaultCheckout]);
+
+  useEffect(() => {
+    fetchCrew();
+  }, [fetchCrew]);
+
+  /* ===================== EDIT ===================== */
+
+  const updateMember = (empUserId: string, patch: Partial<CrewMember>) =>
+    setCrew((prev) =>
+      prev.map((m) =>
+        m.emp_user_id === empUserId ? { ...m, ...patch, error: null } : m
+      )
+    );
+
+  const markAll = (status: CrewStatus) =>
+    setCrew((prev) =>
+      prev.map((m) => (m.locked ? m : { ...m, status, error: null }))
+    );
+
+  /* ===================== SUBMIT ===================== */
+
+  const handleSubmit = async () => {
+    const entries = crew
+      .filter((m) => !m.locked)
+      .map((m) => ({
+        emp_user_id: m.emp_user_id,
+        status: m.status,
+        checkin: m.status === 'absent' ? null : m.checkin || null,
+        checkout: m.status === 'absent' ? null : m.checkout || null,
+      }));
+
+    if (!entries.length) return;
+    setIsSubmitting(true);
+
+    try {
+      const { data, error } = await supabase.rpc('bulk_mark_attendance', {
+        p_site_id: siteId,
+        p_day: day,
+        p_entries: entries,
+      });
+      if (error) throw error;
+
+      const results = (data as unknown as { results: BulkResult[] }).results;
+      const failed = results.filter((r) => !r.ok);
+
+      if (failed.length) {
+        toast({
+          title: 'Some entries were not saved',
+          description: `${results.length - failed.length} saved, ${failed.length} need attention`,
+          variant: 'destructive',
+        });
+        await fetchCrew();
+        setCrew((prev) =>
+          prev.map((m) => {
+            const r = failed.find((f) => f.emp_user_id === m.emp_user_id);
+            return r?.code ? { ...m, error: describeCrewError(r.code) } : m;
+          })
+        );
+      } else {
+        toast({ title: 'Attendance Saved', description: `${results.length} employees marked` });
+        await fetchCrew();
+      }
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /* ===================== UI ===================== */
+
+  const editable = crew.filter((m) => !m.locked).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        title="Mark Crew Attendance"
+        backTo={role === 'admin' ? '/admin/dashboard' : '/supervisor/dashboard'}
+      />
+
+      <main className="p-4 max-w-3xl mx-auto space-y-4">
+        <Card>
+          <CardContent className="p-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label>Site</Label>
+              <Select value={siteId} onValueChange={setSiteId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select site" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sites.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Day</Label>
+              <Input
+                type="date"
+                value={day}
+                min={earliest}
+                max={today}
+                onChange={(e) => setDay(e.target.value)}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground sm:col-span-2">
+              Today or yesterday only. Check-in times after{' '}
+              {formatPolicyTime(policy.checkin_cutoff)} are not accepted
+            </p>
+          </CardContent>
+        </Card>
+
+        {siteId && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2">
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Crew ({crew.length})
+              </CardTitle>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => markAll('present')}>
+                  All Present
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => markAll('absent')}>
+                  All Absent
+                </Button>
+              </div>
+            </CardHeader>
+
+            <CardContent className="space-y-3">
+              {isLoading && (
+                <p className="text-center text-muted-foreground py-4">Loading…</p>
+              )}
+
+              {!isLoading && crew.length === 0 && (
+                <p className="text-center text-muted-foreground py-4">
+                  No active employees at this site
+                </p>
+              )}
+
+              {!isLoading &&
+                crew.map((m) => (
+                  <div key={m.emp_user_id} className="p-3 bg-muted/50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between gap-2 flex-wrap">
+                      <div>
+                        <p className="font-medium">{m.full_name || 'Unknown'}</p>
+                        {m.designation && (
+                          <p className="text-xs text-muted-foreground">{m.designation}</p>
+                        )}
+                      </div>
+
+                      {m.locked ? (
+                        <Badge variant="secondary">
+                          <QrCode className="h-3 w-3 mr-1" />
+                          Checked in {m.checkin}
+                        </Badge>
+                      ) : (
+                        <ToggleGroup
+                          type="single"
+                          size="sm"
+                          variant="outline"
+                          value={m.status}
+                          onValueChange={(v) =>
+                            v && updateMember(m.emp_user_id, { status: v as CrewStatus })
+                          }
+                        >
+                          <ToggleGroupItem value="present">Present</ToggleGroupItem>
+                          <ToggleGroupItem value="half">Half</ToggleGroupItem>
+                          <ToggleGroupItem value="absent">Absent</ToggleGroupItem>
+                        </ToggleGroup>
+                      )}
+                    </div>
+
+                    {!m.locked && m.status !== 'absent' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          type="time"
+                          value={m.checkin}
+                          onChange={(e) =>
+                            updateMember(m.emp_user_id, { checkin: e.target.value })
+                          }
+                        />
+                        <Input
+                          type="time"
+                          value={m.checkout}
+                          onChange={(e) =>
+                            updateMember(m.emp_user_id, { checkout: e.target.value })
+                          }
+                        />
+                      </div>
+                    )}
+
+                    {m.error && <p className="text-sm text-destructive">{m.error}</p>}
+                  </div>
+                ))}
+
+              <Button
+                className="w-full"
+                disabled={isSubmitting || isLoading || editable === 0}
+                onClick={handleSubmit}
+              >
+                {isSubmitting ? 'Saving…' : `Save Attendance (${editable})`}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default BulkAttendance;
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import Header from '@/components/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Building, ChevronRight, CloudOff } from 'lucide-react';
+import { describeAttendanceType } from '@/lib/attendance';
+import { getPolicyDay, isoToZonedTime } from '@/lib/attendancePolicy';
+import { useAttendancePolicy } from '@/hooks/use-attendance-policy';
+import { useSupervisedSites } from '@/hooks/use-supervised-sites';
+
+/* ===================== TYPES ===================== */
+
+interface CrewRow {
+  emp_user_id: string;
+  full_name: string | null;
+  designation: string | null;
+  attendance_type: string | null;
+  checkin_at: string | null;
+  checkout_at: string | null;
+  checkin_source: string | null;
+  checkout_source: string | null;
+}
+
+interface SiteCrew {
+  siteId: string;
+  siteName: string;
+  crew: CrewRow[];
+}
+
+/* ===================== COMPONENT ===================== */
+
+const SupervisorCrew = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { policy } = useAttendancePolicy(user?.id);
+  const { sites } = useSupervisedSites();
+
+  const [crews, setCrews] = useState<SiteCrew[]>([]);
+  const today = getPolicyDay(policy);
+
+  /* ===================== FETCH ===================== */
+
+  const fetchCrews = useCallback(async () => {
+    const next = await Promise.all(
+      sites.map(async (s) => {
+        const { data } = await supabase.rpc('get_site_crew', {
+          p_site_id: s.id,
+          p_day: today,
+        });
+        return { siteId: s.id, siteName: s.name, crew: data ?? [] };
+      })
+    );
+    setCrews(next);
+  }, [sites, today]);
+
+  useEffect(() => {
+    fetchCrews();
+
+    const channel = supabase
+      .channel('supervisor-crew')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'attendance' },
+        fetchCrews
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchCrews]);
+
+  /* ===================== UI ===================== */
+
+  const getStatusBadge = (m: CrewRow) => {
+    if (!m.checkin_at) return <Badge variant="secondary">Not In</Badge>;
+    if (!m.checkout_at)
+      return (
+        <Badge className="bg-blue-500">
+          In since {isoToZonedTime(m.checkin_at, policy.timezone)}
+        </Badge>
+      );
+    return <Badge className="bg-green-500">{describeAttendanceType(m.attendance_type)}</Badge>;
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="My Crew" backTo="/supervisor/dashboard" />
+
+      <main className="p-4 max-w-3xl mx-auto space-y-4">
+        {crews.length === 0 && (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              You are not assigned to any site yet
+            </CardContent>
+          </Card>
+        )}
+
+        {crews.map((site) => (
+          <Card key={site.siteId}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Building className="h-5 w-5" />
+                {site.siteName} ({site.crew.length})
+              </CardTitle>
+            </CardHeader>
+
+            <CardContent className="space-y-2">
+              {site.crew.map((m) => (
+                <div
+                  key={m.emp_user_id}
+                  className="p-3 bg-muted/50 rounded-lg hover:bg-muted cursor-pointer flex items-center gap-3"
+                  onClick={() =>
+                    navigate(`/supervisor/attendance-history/${m.emp_user_id}`)
+                  }
+                >
+                  <div className="flex-1">
+                    <p className="font-medium">{m.full_name || 'Unknown'}</p>
+                    {m.designation && (
+                      <p className="text-xs text-muted-foreground">{m.designation}</p>
+                    )}
+                  </div>
+                  {(m.checkin_source === 'offline' || m.checkout_source === 'offline') && (
+                    <Badge variant="outline" className="gap-1">
+                      <CloudOff className="h-3 w-3" />
+                      Offline
+                    </Badge>
+                  )}
+                  {getStatusBadge(m)}
+                  <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+      </main>
+    </div>
+  );
+};
+
+export default SupervisorCrew;
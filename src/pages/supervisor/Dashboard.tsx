@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import Header from '@/components/Header';
+import AnnouncementBar from '@/components/AnnouncementBar';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Calendar,
+  CheckCircle,
+  ChevronRight,
+  ClipboardCheck,
+  Clock,
+  User,
+  UserCheck,
+  Users,
+} from 'lucide-react';
+import { getPolicyDay } from '@/lib/attendancePolicy';
+import { useAttendancePolicy } from '@/hooks/use-attendance-policy';
+import { useSupervisedSites } from '@/hooks/use-supervised-sites';
+
+/* ===================== COMPONENT ===================== */
+
+const SupervisorDashboard = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { policy } = useAttendancePolicy(user?.id);
+  const { sites } = useSupervisedSites();
+
+  const [name, setName] = useState('');
+  const [crewCount, setCrewCount] = useState(0);
+  const [presentToday, setPresentToday] = useState(0);
+  const [pendingLeaves, setPendingLeaves] = useState(0);
+  const [pendingCorrections, setPendingCorrections] = useState(0);
+
+  const today = getPolicyDay(policy);
+
+  /* ===================== FETCH ===================== */
+
+  const fetchData = useCallback(async () => {
+    if (!user) return;
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('full_name')
+      .eq('auth_uid', user.id)
+      .maybeSingle();
+
+    setName(profile?.full_name || '');
+
+    const crews = await Promise.all(
+      sites.map(async (s) => {
+        const { data } = await supabase.rpc('get_site_crew', {
+          p_site_id: s.id,
+          p_day: today,
+        });
+        return data ?? [];
+      })
+    );
+    const crew = crews.flat();
+
+    setCrewCount(crew.length);
+    setPresentToday(crew.filter((m) => m.checkin_at).length);
+
+    // RLS scopes both to the crew; the supervisor's own requests go to admin
+    const { count: leaveCount } = await supabase
+      .from('leaves')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending')
+      .neq('emp_user_id', user.id);
+
+    setPendingLeaves(leaveCount ?? 0);
+
+    const { count: correctionCount } = await supabase
+      .from('attendance_regularizations')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending')
+      .neq('emp_user_id', user.id);
+
+    setPendingCorrections(correctionCount ?? 0);
+  }, [user, sites, today]);
+
+  /* ===================== REALTIME ===================== */
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchData();
+
+    const channel = supabase
+      .channel(`supervisor-dashboard-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'attendance' },
+        fetchData
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'leaves' },
+        fetchData
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'attendance_regularizations' },
+        fetchData
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchData]);
+
+  /* ===================== HELPERS ===================== */
+
+  const getGreeting = () => {
+    const h = new Date().getHours();
+    if (h < 12) return 'Good Morning';
+    if (h < 17) return 'Good Afternoon';
+    return 'Good Evening';
+  };
+
+  const stats = [
+    { icon: Users, label: 'Crew', value: crewCount, color: 'text-blue-500' },
+    { icon: CheckCircle, label: 'Present Today', value: presentToday, color: 'text-green-500' },
+    { icon: Calendar, label: 'Pending Leaves', value: pendingLeaves, color: 'text-red-500' },
+    { icon: ClipboardCheck, label: 'Pending Corrections', value: pendingCorrections, color: 'text-orange-500' },
+  ];
+
+  const menuItems = [
+    { icon: Users, label: 'My Crew', description: "Today's status for your sites", href: '/supervisor/crew', color: 'text-blue-500' },
+    { icon: UserCheck, label: 'Bulk Attendance', description: 'Mark attendance for your site crew', href: '/supervisor/bulk-attendance', color: 'text-cyan-500' },
+    { icon: Calendar, label: 'Leave Approvals', description: 'Approve crew leave requests', href: '/supervisor/leaves', color: 'text-red-500' },
+    { icon: ClipboardCheck, label: 'Attendance Corrections', description: 'Review crew correction requests', href: '/supervisor/regularizations', color: 'text-orange-500' },
+    { icon: Clock, label: 'My Attendance', description: 'Your own attendance, leaves and pay', href: '/employee/dashboard', color: 'text-primary' },
+  ];
+
+  /* ===================== UI ===================== */
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        title="Supervisor Dashboard"
+        rightAction={
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/employee/profile')}
+          >
+            <User className="h-5 w-5" />
+          </Button>
+        }
+      />
+
+      <AnnouncementBar />
+
+      <main className="p-4 max-w-4xl mx-auto space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold">
+            {getGreeting()}, {name || 'Supervisor'}!
+          </h2>
+          <p className="text-muted-foreground">
+            {sites.length
+              ? sites.map((s) => s.name).join(', ')
+              : 'You are not assigned to any site yet'}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {stats.map((stat) => (
+            <Card key={stat.label}>
+              <CardContent className="p-4 flex gap-3">
+                <stat.icon className={stat.color} />
+                <div>
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p className="font-semibold text-xl">{stat.value}</p>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid gap-2">
+          {menuItems.map((item) => (
+            <Link key={item.label} to={item.href}>
+              <Card className="hover:bg-accent/50 transition">
+                <CardContent className="p-4 flex items-center gap-4">
+                  <div className={`p-2 rounded-lg ${item.color}`}>
+                    <item.icon />
+                  </div>
+                  <div className="flex-1">
+                    <p className="font-medium">{item.label}</p>
+                    <p className="text-xs text-muted-foreground">{item.description}</p>
+                  </div>
+                  <ChevronRight className="text-muted-foreground" />
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SupervisorDashboard;
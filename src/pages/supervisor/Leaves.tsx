@@ -0,0 +1,221 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import Header from '@/components/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { Calendar, CheckCircle, Clock, User, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { HALF_DAY_LABELS, formatLeaveDays, type HalfDay } from '@/lib/leaves';
+
+/* ===================== TYPES ===================== */
+
+type LeaveStatus = Database['public']['Enums']['leave_status'];
+
+interface CrewLeave {
+  id: string;
+  emp_user_id: string;
+  start_date: string;
+  end_date: string;
+  days: number;
+  half_day: string | null;
+  reason: string | null;
+  status: LeaveStatus | null;
+  employee?: { full_name: string | null; email: string | null } | null;
+}
+
+/* ===================== COMPONENT ===================== */
+
+// Leave requests from the supervisor's crew. Pay impact is decided by the
+// same server rules as for admins and is not shown here.
+const SupervisorLeaves = () => {
+  const { user } = useAuth();
+  const [leaves, setLeaves] = useState<CrewLeave[]>([]);
+  const [isUpdating, setIsUpdating] = useState<string | null>(null);
+
+  /* ===================== FETCH ===================== */
+
+  const fetchLeaves = useCallback(async () => {
+    if (!user) return;
+
+    // RLS limits this to the crew (plus the supervisor's own, excluded here)
+    const { data } = await supabase
+      .from('leaves')
+      .select('id, emp_user_id, start_date, end_date, days, half_day, reason, status')
+      .neq('emp_user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (!data) return;
+
+    const userIds = [...new Set(data.map((l) => l.emp_user_id))];
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('auth_uid, full_name, email')
+      .in('auth_uid', userIds);
+
+    setLeaves(
+      data.map((l) => ({
+        ...l,
+        employee: profiles?.find((p) => p.auth_uid === l.emp_user_id) || null,
+      }))
+    );
+  }, [user]);
+
+  useEffect(() => {
+    fetchLeaves();
+
+    const channel = supabase
+      .channel('supervisor-leaves')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'leaves' },
+        fetchLeaves
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchLeaves]);
+
+  /* ===================== DECIDE ===================== */
+
+  const decide = async (leave: CrewLeave, approve: boolean) => {
+    setIsUpdating(leave.id);
+
+    try {
+      const { error } = await supabase.rpc(
+        approve ? 'approve_crew_leave' : 'reject_crew_leave',
+        { p_leave_id: leave.id }
+      );
+      if (error) throw error;
+
+      toast({ title: approve ? 'Leave Approved' : 'Leave Rejected' });
+      fetchLeaves();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
+  /* ===================== UI HELPERS ===================== */
+
+  const getStatusBadge = (status: LeaveStatus | null) => {
+    switch (status) {
+      case 'approved':
+        return (
+          <Badge className="bg-green-500">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            Approved
+          </Badge>
+        );
+      case 'rejected':
+        return (
+          <Badge variant="destructive">
+            <XCircle className="h-3 w-3 mr-1" />
+            Rejected
+          </Badge>
+        );
+      case 'cancelled':
+        return <Badge variant="outline">Cancelled</Badge>;
+      default:
+        return (
+          <Badge variant="secondary">
+            <Clock className="h-3 w-3 mr-1" />
+            Pending
+          </Badge>
+        );
+    }
+  };
+
+  /* ===================== UI ===================== */
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Crew Leaves" backTo="/supervisor/dashboard" />
+
+      <main className="p-4 max-w-4xl mx-auto space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Leave Requests
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-3">
+            {leaves.length === 0 && (
+              <p className="text-center text-muted-foreground py-4">
+                No leave requests from your crew
+              </p>
+            )}
+
+            {leaves.map((leave) => (
+              <div key={leave.id} className="p-4 bg-muted/50 rounded-lg">
+                <div className="flex flex-col md:flex-row md:justify-between gap-3">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-1 flex-wrap">
+                      <User className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">
+                        {leave.employee?.full_name || leave.employee?.email || 'Unknown'}
+                      </span>
+                      {getStatusBadge(leave.status)}
+                    </div>
+                    <p className="text-sm">
+                      {leave.half_day
+                        ? `${format(new Date(leave.start_date), 'PPP')} (${
+                            HALF_DAY_LABELS[leave.half_day as HalfDay]
+                          })`
+                        : `${format(new Date(leave.start_date), 'PPP')} → ${format(
+                            new Date(leave.end_date),
+                            'PPP'
+                          )} (${formatLeaveDays(leave.days)})`}
+                    </p>
+                    {leave.reason && (
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Reason: {leave.reason}
+                      </p>
+                    )}
+                  </div>
+
+                  {leave.status === 'pending' && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="bg-green-500 hover:bg-green-600"
+                        disabled={isUpdating === leave.id}
+                        onClick={() => decide(leave, true)}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={isUpdating === leave.id}
+                        onClick={() => decide(leave, false)}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default SupervisorLeaves;
@@ -25,6 +25,38 @@ serve(async (req) => {
       avatar,
     } = await req.json()
 
+    // Checked as the caller, so role templates apply
+    const supabaseUser = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } }
+    )
+
+    const { data: allowed } = await supabaseUser.rpc("has_permission", {
+      p_key: "employees.manage",
+    })
+
+    if (!allowed) {
+      return new Response(
+        JSON.stringify({ error: "You do not have permission to do this" }),
+        { status: 403, headers: corsHeaders }
+      )
+    }
+
+    // The service-role insert below skips the pay trigger, so check it here
+    if (daily_wage != null) {
+      const { data: canSetPay } = await supabaseUser.rpc("has_permission", {
+        p_key: "employees.pay",
+      })
+
+      if (!canSetPay) {
+        return new Response(
+          JSON.stringify({ error: "You do not have permission to change pay" }),
+          { status: 403, headers: corsHeaders }
+        )
+      }
+    }
+
     const supabaseAdmin = createClient(
       Deno.env.get("SUPABASE_URL")!,
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
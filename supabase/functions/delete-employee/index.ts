@@ -23,6 +23,24 @@ serve(async (req) => {
       )
     }
 
+    // Checked as the caller, so role templates apply
+    const supabaseUser = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } }
+    )
+
+    const { data: allowed } = await supabaseUser.rpc("has_permission", {
+      p_key: "employees.delete",
+    })
+
+    if (!allowed) {
+      return new Response(
+        JSON.stringify({ error: "You do not have permission to do this" }),
+        { status: 403, headers: corsHeaders }
+      )
+    }
+
     const supabaseAdmin = createClient(
       Deno.env.get("SUPABASE_URL")!,
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
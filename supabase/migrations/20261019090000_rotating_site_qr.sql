@@ -0,0 +1,218 @@
+-- Rotating, signed site QR codes.
+--
+-- A site QR now encodes { site_id, w, sig } where `w` is the current time
+-- window (epoch / rotation_seconds) and `sig` is an HMAC-SHA256 of
+-- "<site_id>:<w>" keyed with a per-site secret. The secret never leaves the
+-- database: kiosks ask `get_site_qr_token` for the live code and employees
+-- check in through `check_in_with_site_qr`, which verifies the signature.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.site_qr_keys (
+  site_id uuid primary key references public.sites (id) on delete cascade,
+  secret text not null default encode(extensions.gen_random_bytes(32), 'hex'),
+  rotation_seconds integer not null default 30 check (rotation_seconds between 10 and 600),
+  created_at timestamptz default now(),
+  rotated_at timestamptz default now()
+);
+
+alter table public.site_qr_keys enable row level security;
+
+-- Only admins may see or rotate secrets. Employees never read this table.
+drop policy if exists "site_qr_keys_admin_all" on public.site_qr_keys;
+create policy "site_qr_keys_admin_all" on public.site_qr_keys
+  for all
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- Every site gets a key, including the ones created before this migration.
+insert into public.site_qr_keys (site_id)
+select id from public.sites
+on conflict (site_id) do nothing;
+
+create or replace function public.ensure_site_qr_key()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.site_qr_keys (site_id)
+  values (new.id)
+  on conflict (site_id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_sites_qr_key on public.sites;
+create trigger trg_sites_qr_key
+  after insert on public.sites
+  for each row execute function public.ensure_site_qr_key();
+
+/* ===================== SIGNING ===================== */
+
+create or replace function public.sign_site_qr(p_site_id uuid, p_window bigint)
+returns text
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select encode(
+    extensions.hmac(p_site_id::text || ':' || p_window::text, k.secret, 'sha256'),
+    'hex'
+  )
+  from public.site_qr_keys k
+  where k.site_id = p_site_id;
+$$;
+
+-- Not callable from the API; only used by the functions below.
+revoke all on function public.sign_site_qr(uuid, bigint) from public, anon, authenticated;
+
+/* ===================== KIOSK TOKEN ===================== */
+
+create or replace function public.get_site_qr_token(p_site_id uuid)
+returns table (
+  site_id uuid,
+  window_index bigint,
+  signature text,
+  expires_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rotation integer;
+  v_window bigint;
+begin
+  if not public.is_admin() then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  select k.rotation_seconds into v_rotation
+  from public.site_qr_keys k
+  join public.sites s on s.id = k.site_id
+  where k.site_id = p_site_id and coalesce(s.is_active, true);
+
+  if v_rotation is null then
+    raise exception 'SITE_NOT_FOUND';
+  end if;
+
+  v_window := floor(extract(epoch from now()) / v_rotation)::bigint;
+
+  return query
+  select
+    p_site_id,
+    v_window,
+    public.sign_site_qr(p_site_id, v_window),
+    to_timestamp((v_window + 1) * v_rotation);
+end;
+$$;
+
+-- Issues a new secret, instantly invalidating every code shown so far.
+create or replace function public.rotate_site_qr_secret(p_site_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  update public.site_qr_keys
+  set secret = encode(extensions.gen_random_bytes(32), 'hex'),
+      rotated_at = now()
+  where site_id = p_site_id;
+end;
+$$;
+
+/* ===================== VERIFY + CHECK-IN ===================== */
+
+-- A code is accepted for its own window and the one after it, so a scan
+-- made just before the kiosk flips still goes through.
+create or replace function public.verify_site_qr(
+  p_site_id uuid,
+  p_window bigint,
+  p_signature text
+)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_rotation integer;
+  v_current bigint;
+begin
+  select rotation_seconds into v_rotation
+  from public.site_qr_keys
+  where site_id = p_site_id;
+
+  if v_rotation is null then
+    return 'QR_INVALID';
+  end if;
+
+  if p_signature is null
+     or p_signature <> public.sign_site_qr(p_site_id, p_window) then
+    return 'QR_INVALID';
+  end if;
+
+  v_current := floor(extract(epoch from now()) / v_rotation)::bigint;
+
+  if p_window > v_current or p_window < v_current - 1 then
+    return 'QR_EXPIRED';
+  end if;
+
+  return null;
+end;
+$$;
+
+revoke all on function public.verify_site_qr(uuid, bigint, text) from public, anon;
+
+create or replace function public.check_in_with_site_qr(
+  p_site_id uuid,
+  p_window bigint,
+  p_signature text
+)
+returns public.attendance
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+  v_day date := (now() at time zone 'Asia/Kolkata')::date;
+  v_error text;
+  v_row public.attendance;
+begin
+  if v_uid is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = '42501';
+  end if;
+
+  v_error := public.verify_site_qr(p_site_id, p_window, p_signature);
+  if v_error is not null then
+    raise exception '%', v_error;
+  end if;
+
+  if exists (
+    select 1 from public.attendance
+    where emp_user_id = v_uid and day = v_day
+  ) then
+    raise exception 'ALREADY_CHECKED_IN';
+  end if;
+
+  insert into public.attendance (emp_user_id, site_id, day, checkin_at)
+  values (v_uid, p_site_id, v_day, now())
+  returning * into v_row;
+
+  return v_row;
+end;
+$$;
+
+grant execute on function public.get_site_qr_token(uuid) to authenticated;
+grant execute on function public.rotate_site_qr_secret(uuid) to authenticated;
+grant execute on function public.check_in_with_site_qr(uuid, bigint, text) to authenticated;
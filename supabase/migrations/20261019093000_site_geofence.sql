@@ -0,0 +1,153 @@
+-- GPS geofence per site.
+--
+-- Sites carry a centre point and radius. Every new attendance row stores the
+-- device location it was marked from; a trigger measures the distance to
+-- the site and either rejects the row or flags it for review, depending on
+-- the site's `geofence_mode`.
+
+alter table public.sites
+  add column if not exists latitude double precision,
+  add column if not exists longitude double precision,
+  add column if not exists geofence_radius_m integer not null default 200
+    check (geofence_radius_m > 0),
+  add column if not exists geofence_mode text not null default 'flag'
+    check (geofence_mode in ('off', 'flag', 'reject'));
+
+alter table public.attendance
+  add column if not exists checkin_lat double precision,
+  add column if not exists checkin_lng double precision,
+  add column if not exists checkin_accuracy_m double precision,
+  add column if not exists checkin_distance_m integer,
+  add column if not exists geofence_flagged boolean not null default false;
+
+/* ===================== DISTANCE ===================== */
+
+-- Great-circle distance in metres (haversine).
+create or replace function public.distance_m(
+  lat1 double precision,
+  lng1 double precision,
+  lat2 double precision,
+  lng2 double precision
+)
+returns double precision
+language sql
+immutable
+as $$
+  select 2 * 6371000 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) *
+    power(sin(radians(lng2 - lng1) / 2), 2)
+  ));
+$$;
+
+/* ===================== ENFORCEMENT ===================== */
+
+create or replace function public.enforce_attendance_geofence()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_site record;
+  v_distance double precision;
+  -- GPS accuracy is trusted up to this many metres of extra slack.
+  v_slack double precision := least(coalesce(new.checkin_accuracy_m, 0), 100);
+begin
+  select latitude, longitude, geofence_radius_m, geofence_mode
+  into v_site
+  from public.sites
+  where id = new.site_id;
+
+  if v_site.latitude is null
+     or v_site.longitude is null
+     or v_site.geofence_mode = 'off' then
+    return new;
+  end if;
+
+  if new.checkin_lat is null or new.checkin_lng is null then
+    if v_site.geofence_mode = 'reject' then
+      raise exception 'LOCATION_REQUIRED';
+    end if;
+    new.geofence_flagged := true;
+    return new;
+  end if;
+
+  v_distance := public.distance_m(
+    v_site.latitude, v_site.longitude,
+    new.checkin_lat, new.checkin_lng
+  );
+  new.checkin_distance_m := round(v_distance);
+
+  if v_distance > v_site.geofence_radius_m + v_slack then
+    if v_site.geofence_mode = 'reject' then
+      raise exception 'OUTSIDE_GEOFENCE';
+    end if;
+    new.geofence_flagged := true;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_attendance_geofence on public.attendance;
+create trigger trg_attendance_geofence
+  before insert on public.attendance
+  for each row execute function public.enforce_attendance_geofence();
+
+/* ===================== QR CHECK-IN WITH LOCATION ===================== */
+
+drop function if exists public.check_in_with_site_qr(uuid, bigint, text);
+
+create or replace function public.check_in_with_site_qr(
+  p_site_id uuid,
+  p_window bigint,
+  p_signature text,
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_accuracy double precision default null
+)
+returns public.attendance
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+  v_day date := (now() at time zone 'Asia/Kolkata')::date;
+  v_error text;
+  v_row public.attendance;
+begin
+  if v_uid is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = '42501';
+  end if;
+
+  v_error := public.verify_site_qr(p_site_id, p_window, p_signature);
+  if v_error is not null then
+    raise exception '%', v_error;
+  end if;
+
+  if exists (
+    select 1 from public.attendance
+    where emp_user_id = v_uid and day = v_day
+  ) then
+    raise exception 'ALREADY_CHECKED_IN';
+  end if;
+
+  insert into public.attendance (
+    emp_user_id, site_id, day, checkin_at,
+    checkin_lat, checkin_lng, checkin_accuracy_m
+  )
+  values (
+    v_uid, p_site_id, v_day, now(),
+    p_lat, p_lng, p_accuracy
+  )
+  returning * into v_row;
+
+  return v_row;
+end;
+$$;
+
+grant execute on function public.check_in_with_site_qr(
+  uuid, bigint, text, double precision, double precision, double precision
+) to authenticated;
@@ -0,0 +1,222 @@
+-- Server-side check-in / check-out.
+--
+-- All attendance writes from the app now go through these functions, which
+-- stamp server time and enforce the business rules that used to live only in
+-- React. Rule violations come back as `{ ok: false, code }` so the UI can map
+-- them to toasts; success returns `{ ok: true, attendance }`.
+--
+-- Codes: NOT_AUTHENTICATED, NOT_EMPLOYEE, SITE_INACTIVE, AFTER_CUTOFF,
+-- ALREADY_CHECKED_IN, QR_REQUIRED, NOT_CHECKED_IN, ALREADY_CHECKED_OUT,
+-- QR_INVALID, QR_EXPIRED, LOCATION_REQUIRED, OUTSIDE_GEOFENCE.
+
+alter table public.attendance
+  add column if not exists checkin_source text
+    check (checkin_source in ('qr', 'manual'));
+
+-- Clients may read their attendance but no longer write it directly.
+revoke insert, update, delete on public.attendance from anon, authenticated;
+
+/* ===================== HELPERS ===================== */
+
+create or replace function public.attendance_result(
+  p_code text,
+  p_row public.attendance default null
+)
+returns jsonb
+language sql
+immutable
+as $$
+  select case
+    when p_code is null then
+      jsonb_build_object('ok', true, 'attendance', to_jsonb(p_row))
+    else
+      jsonb_build_object('ok', false, 'code', p_code)
+  end;
+$$;
+
+/* ===================== CHECK-IN ===================== */
+
+create or replace function public.checkin_for(
+  p_emp_user_id uuid,
+  p_site_id uuid,
+  p_source text,
+  p_lat double precision,
+  p_lng double precision,
+  p_accuracy double precision
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now_ist timestamp := now() at time zone 'Asia/Kolkata';
+  v_day date := v_now_ist::date;
+  v_employee record;
+  v_row public.attendance;
+begin
+  select active, force_manual into v_employee
+  from public.employees
+  where user_id = p_emp_user_id;
+
+  if not found or v_employee.active is false then
+    return public.attendance_result('NOT_EMPLOYEE');
+  end if;
+
+  -- Self-service manual check-in (picking a site from a list) is only for
+  -- employees the admin has switched to manual mode; everyone else must
+  -- prove they are at the site by scanning its QR.
+  if p_source = 'manual' and coalesce(v_employee.force_manual, false) is false then
+    return public.attendance_result('QR_REQUIRED');
+  end if;
+
+  if not exists (
+    select 1 from public.sites
+    where id = p_site_id and coalesce(is_active, true)
+  ) then
+    return public.attendance_result('SITE_INACTIVE');
+  end if;
+
+  if v_now_ist::time > time '14:00' then
+    return public.attendance_result('AFTER_CUTOFF');
+  end if;
+
+  if exists (
+    select 1 from public.attendance
+    where emp_user_id = p_emp_user_id and day = v_day
+  ) then
+    return public.attendance_result('ALREADY_CHECKED_IN');
+  end if;
+
+  begin
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkin_source,
+      checkin_lat, checkin_lng, checkin_accuracy_m
+    )
+    values (
+      p_emp_user_id, p_site_id, v_day, now(), p_source,
+      p_lat, p_lng, p_accuracy
+    )
+    returning * into v_row;
+  exception
+    -- Geofence trigger rejections (LOCATION_REQUIRED / OUTSIDE_GEOFENCE)
+    when raise_exception then
+      return public.attendance_result(sqlerrm);
+    when unique_violation then
+      return public.attendance_result('ALREADY_CHECKED_IN');
+  end;
+
+  return public.attendance_result(null, v_row);
+end;
+$$;
+
+revoke all on function public.checkin_for(
+  uuid, uuid, text, double precision, double precision, double precision
+) from public, anon, authenticated;
+
+create or replace function public.perform_checkin(
+  p_site_id uuid,
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_accuracy double precision default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return public.attendance_result('NOT_AUTHENTICATED');
+  end if;
+
+  return public.checkin_for(
+    auth.uid(), p_site_id, 'manual', p_lat, p_lng, p_accuracy
+  );
+end;
+$$;
+
+drop function if exists public.check_in_with_site_qr(
+  uuid, bigint, text, double precision, double precision, double precision
+);
+
+create or replace function public.check_in_with_site_qr(
+  p_site_id uuid,
+  p_window bigint,
+  p_signature text,
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_accuracy double precision default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_error text;
+begin
+  if auth.uid() is null then
+    return public.attendance_result('NOT_AUTHENTICATED');
+  end if;
+
+  v_error := public.verify_site_qr(p_site_id, p_window, p_signature);
+  if v_error is not null then
+    return public.attendance_result(v_error);
+  end if;
+
+  return public.checkin_for(
+    auth.uid(), p_site_id, 'qr', p_lat, p_lng, p_accuracy
+  );
+end;
+$$;
+
+/* ===================== CHECK-OUT ===================== */
+
+create or replace function public.perform_checkout(p_remarks text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+  v_day date := (now() at time zone 'Asia/Kolkata')::date;
+  v_row public.attendance;
+begin
+  if v_uid is null then
+    return public.attendance_result('NOT_AUTHENTICATED');
+  end if;
+
+  select * into v_row
+  from public.attendance
+  where emp_user_id = v_uid and day = v_day
+  for update;
+
+  if not found then
+    return public.attendance_result('NOT_CHECKED_IN');
+  end if;
+
+  if v_row.checkout_at is not null then
+    return public.attendance_result('ALREADY_CHECKED_OUT');
+  end if;
+
+  update public.attendance
+  set checkout_at = now(),
+      remarks = nullif(trim(p_remarks), ''),
+      attendance_type = public.calculate_attendance_type(v_row.checkin_at, now()),
+      updated_at = now()
+  where id = v_row.id
+  returning * into v_row;
+
+  return public.attendance_result(null, v_row);
+end;
+$$;
+
+grant execute on function public.perform_checkin(
+  uuid, double precision, double precision, double precision
+) to authenticated;
+grant execute on function public.check_in_with_site_qr(
+  uuid, bigint, text, double precision, double precision, double precision
+) to authenticated;
+grant execute on function public.perform_checkout(text) to authenticated;
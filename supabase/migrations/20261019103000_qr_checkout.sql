@@ -0,0 +1,104 @@
+-- QR check-out.
+--
+-- A second scan of the live site code ends the shift, so both ends of the
+-- day are proven at the site. The scan must be at the site the employee
+-- checked in at. New code: SITE_MISMATCH.
+
+alter table public.attendance
+  add column if not exists checkout_source text
+    check (checkout_source in ('qr', 'manual'));
+
+/* ===================== CHECK-OUT ===================== */
+
+create or replace function public.checkout_for(
+  p_emp_user_id uuid,
+  p_site_id uuid,
+  p_source text,
+  p_remarks text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_day date := (now() at time zone 'Asia/Kolkata')::date;
+  v_row public.attendance;
+begin
+  select * into v_row
+  from public.attendance
+  where emp_user_id = p_emp_user_id and day = v_day
+  for update;
+
+  if not found then
+    return public.attendance_result('NOT_CHECKED_IN');
+  end if;
+
+  if v_row.checkout_at is not null then
+    return public.attendance_result('ALREADY_CHECKED_OUT');
+  end if;
+
+  if p_site_id is not null and v_row.site_id <> p_site_id then
+    return public.attendance_result('SITE_MISMATCH');
+  end if;
+
+  update public.attendance
+  set checkout_at = now(),
+      checkout_source = p_source,
+      remarks = nullif(trim(p_remarks), ''),
+      attendance_type = public.calculate_attendance_type(v_row.checkin_at, now()),
+      updated_at = now()
+  where id = v_row.id
+  returning * into v_row;
+
+  return public.attendance_result(null, v_row);
+end;
+$$;
+
+revoke all on function public.checkout_for(uuid, uuid, text, text)
+  from public, anon, authenticated;
+
+create or replace function public.perform_checkout(p_remarks text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return public.attendance_result('NOT_AUTHENTICATED');
+  end if;
+
+  return public.checkout_for(auth.uid(), null, 'manual', p_remarks);
+end;
+$$;
+
+create or replace function public.check_out_with_site_qr(
+  p_site_id uuid,
+  p_window bigint,
+  p_signature text,
+  p_remarks text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_error text;
+begin
+  if auth.uid() is null then
+    return public.attendance_result('NOT_AUTHENTICATED');
+  end if;
+
+  v_error := public.verify_site_qr(p_site_id, p_window, p_signature);
+  if v_error is not null then
+    return public.attendance_result(v_error);
+  end if;
+
+  return public.checkout_for(auth.uid(), p_site_id, 'qr', p_remarks);
+end;
+$$;
+
+grant execute on function public.check_out_with_site_qr(uuid, bigint, text, text)
+  to authenticated;
@@ -0,0 +1,389 @@
+-- Attendance policies.
+--
+-- Cutoff time, late grace, full/half-day thresholds, the paid-leave quota and
+-- the timezone used to decide "today" used to be hard-coded in React and in
+-- SQL. They now live in `attendance_policies`:
+--
+--   * one default row (no site, no employee) that applies to everyone,
+--   * optional per-site rows,
+--   * optional per-employee rows.
+--
+-- The most specific row wins: employee > site > default. Check-in/out, the
+-- attendance type calculation and leave pricing all read from here.
+
+create table if not exists public.attendance_policies (
+  id uuid primary key default gen_random_uuid(),
+  site_id uuid unique references public.sites(id) on delete cascade,
+  emp_user_id uuid unique references public.employees(user_id) on delete cascade,
+  checkin_cutoff time not null default time '14:00',
+  late_grace_minutes integer not null default 0
+    check (late_grace_minutes >= 0),
+  full_day_min_hours numeric(4, 2) not null default 8
+    check (full_day_min_hours > 0 and full_day_min_hours <= 24),
+  half_day_min_hours numeric(4, 2) not null default 4
+    check (half_day_min_hours >= 0),
+  paid_leaves_per_month numeric(4, 1) not null default 2
+    check (paid_leaves_per_month >= 0),
+  timezone text not null default 'Asia/Kolkata',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  check (site_id is null or emp_user_id is null),
+  check (half_day_min_hours <= full_day_min_hours)
+);
+
+-- Exactly one default row
+create unique index if not exists attendance_policies_default_idx
+  on public.attendance_policies ((true))
+  where site_id is null and emp_user_id is null;
+
+insert into public.attendance_policies (site_id, emp_user_id)
+select null, null
+where not exists (
+  select 1 from public.attendance_policies
+  where site_id is null and emp_user_id is null
+);
+
+alter table public.attendance_policies enable row level security;
+
+create policy "Authenticated can read attendance policies"
+  on public.attendance_policies for select
+  to authenticated
+  using (true);
+
+create policy "Admins manage attendance policies"
+  on public.attendance_policies for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+create or replace function public.validate_attendance_policy()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not exists (select 1 from pg_timezone_names where name = new.timezone) then
+    raise exception 'INVALID_TIMEZONE';
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists validate_attendance_policy on public.attendance_policies;
+create trigger validate_attendance_policy
+  before insert or update on public.attendance_policies
+  for each row execute function public.validate_attendance_policy();
+
+-- The default row is the fallback for everyone and cannot be removed.
+create or replace function public.protect_default_attendance_policy()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.site_id is null and old.emp_user_id is null then
+    raise exception 'DEFAULT_POLICY_REQUIRED';
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists protect_default_attendance_policy on public.attendance_policies;
+create trigger protect_default_attendance_policy
+  before delete on public.attendance_policies
+  for each row execute function public.protect_default_attendance_policy();
+
+/* ===================== RESOLUTION ===================== */
+
+-- Policy for an employee, optionally at a specific site (defaults to the
+-- employee's assigned site). Called with a null employee it returns the
+-- default row.
+create or replace function public.effective_attendance_policy(
+  p_emp_user_id uuid,
+  p_site_id uuid default null
+)
+returns public.attendance_policies
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.*
+  from public.attendance_policies p
+  where p.emp_user_id = p_emp_user_id
+     or p.site_id = coalesce(
+          p_site_id,
+          (select e.site_id from public.employees e where e.user_id = p_emp_user_id)
+        )
+     or (p.site_id is null and p.emp_user_id is null)
+  order by (p.emp_user_id is not null) desc, (p.site_id is not null) desc
+  limit 1;
+$$;
+
+grant execute on function public.effective_attendance_policy(uuid, uuid)
+  to authenticated;
+
+create or replace function public.policy_attendance_type(
+  p_policy public.attendance_policies,
+  p_checkin timestamptz,
+  p_checkout timestamptz
+)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when p_checkin is null or p_checkout is null then null
+    when extract(epoch from p_checkout - p_checkin) / 3600
+      >= p_policy.full_day_min_hours then 'full'
+    when extract(epoch from p_checkout - p_checkin) / 3600
+      >= p_policy.half_day_min_hours then 'half'
+    else 'absent'
+  end;
+$$;
+
+-- Legacy entry points, kept for callers that have no employee in hand.
+-- They follow the default policy.
+create or replace function public.calculate_attendance_type(
+  p_checkin timestamptz,
+  p_checkout timestamptz
+)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.policy_attendance_type(
+    public.effective_attendance_policy(null), p_checkin, p_checkout
+  );
+$$;
+
+create or replace function public.determine_attendance_type(
+  p_checkin timestamptz,
+  p_checkout timestamptz
+)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.calculate_attendance_type(p_checkin, p_checkout);
+$$;
+
+/* ===================== CHECK-IN ===================== */
+
+create or replace function public.checkin_for(
+  p_emp_user_id uuid,
+  p_site_id uuid,
+  p_source text,
+  p_lat double precision,
+  p_lng double precision,
+  p_accuracy double precision
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_policy public.attendance_policies :=
+    public.effective_attendance_policy(p_emp_user_id, p_site_id);
+  v_now_local timestamp := now() at time zone v_policy.timezone;
+  v_day date := v_now_local::date;
+  v_employee record;
+  v_row public.attendance;
+begin
+  select active, force_manual into v_employee
+  from public.employees
+  where user_id = p_emp_user_id;
+
+  if not found or v_employee.active is false then
+    return public.attendance_result('NOT_EMPLOYEE');
+  end if;
+
+  -- Self-service manual check-in (picking a site from a list) is only for
+  -- employees the admin has switched to manual mode; everyone else must
+  -- prove they are at the site by scanning its QR.
+  if p_source = 'manual' and coalesce(v_employee.force_manual, false) is false then
+    return public.attendance_result('QR_REQUIRED');
+  end if;
+
+  if not exists (
+    select 1 from public.sites
+    where id = p_site_id and coalesce(is_active, true)
+  ) then
+    return public.attendance_result('SITE_INACTIVE');
+  end if;
+
+  if v_now_local::time > v_policy.checkin_cutoff then
+    return public.attendance_result('AFTER_CUTOFF');
+  end if;
+
+  if exists (
+    select 1 from public.attendance
+    where emp_user_id = p_emp_user_id and day = v_day
+  ) then
+    return public.attendance_result('ALREADY_CHECKED_IN');
+  end if;
+
+  begin
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkin_source,
+      checkin_lat, checkin_lng, checkin_accuracy_m
+    )
+    values (
+      p_emp_user_id, p_site_id, v_day, now(), p_source,
+      p_lat, p_lng, p_accuracy
+    )
+    returning * into v_row;
+  exception
+    -- Geofence trigger rejections (LOCATION_REQUIRED / OUTSIDE_GEOFENCE)
+    when raise_exception then
+      return public.attendance_result(sqlerrm);
+    when unique_violation then
+      return public.attendance_result('ALREADY_CHECKED_IN');
+  end;
+
+  return public.attendance_result(null, v_row);
+end;
+$$;
+
+/* ===================== CHECK-OUT ===================== */
+
+create or replace function public.checkout_for(
+  p_emp_user_id uuid,
+  p_site_id uuid,
+  p_source text,
+  p_remarks text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_policy public.attendance_policies :=
+    public.effective_attendance_policy(p_emp_user_id, p_site_id);
+  v_day date := (now() at time zone v_policy.timezone)::date;
+  v_row public.attendance;
+begin
+  select * into v_row
+  from public.attendance
+  where emp_user_id = p_emp_user_id and day = v_day
+  for update;
+
+  if not found then
+    return public.attendance_result('NOT_CHECKED_IN');
+  end if;
+
+  if v_row.checkout_at is not null then
+    return public.attendance_result('ALREADY_CHECKED_OUT');
+  end if;
+
+  if p_site_id is not null and v_row.site_id <> p_site_id then
+    return public.attendance_result('SITE_MISMATCH');
+  end if;
+
+  -- Day type follows the policy of the site actually worked at
+  v_policy := public.effective_attendance_policy(p_emp_user_id, v_row.site_id);
+
+  update public.attendance
+  set checkout_at = now(),
+      checkout_source = p_source,
+      remarks = nullif(trim(p_remarks), ''),
+      attendance_type = public.policy_attendance_type(v_policy, v_row.checkin_at, now()),
+      updated_at = now()
+  where id = v_row.id
+  returning * into v_row;
+
+  return public.attendance_result(null, v_row);
+end;
+$$;
+
+/* ===================== LEAVE PRICING ===================== */
+
+-- Approved leave days an employee has in the month of p_day, before p_day.
+create or replace function public.approved_leave_days_before(
+  p_emp_user_id uuid,
+  p_day date,
+  p_exclude_leave_id uuid default null
+)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::numeric
+  from public.leaves l
+  cross join lateral generate_series(l.start_date, l.end_date, interval '1 day') as d(day)
+  where l.emp_user_id = p_emp_user_id
+    and l.status = 'approved'
+    and l.id is distinct from p_exclude_leave_id
+    and d.day >= date_trunc('month', p_day)
+    and d.day < p_day;
+$$;
+
+create or replace function public.get_paid_leave_status(
+  p_emp_user_id uuid,
+  p_day date
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.approved_leave_days_before(p_emp_user_id, p_day)
+    < (public.effective_attendance_policy(p_emp_user_id)).paid_leaves_per_month;
+$$;
+
+drop function if exists public.evaluate_leave_payment(uuid);
+
+-- Walks the leave day by day: each day is paid while the employee still has
+-- quota left in that month, otherwise it costs a day's wage.
+create function public.evaluate_leave_payment(p_leave_id uuid)
+returns table (is_paid boolean, deduction_amount numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+  v_quota numeric;
+  v_wage numeric;
+  v_day date;
+  v_used numeric;
+  v_unpaid integer := 0;
+begin
+  select * into v_leave from public.leaves where id = p_leave_id;
+  if not found then
+    return;
+  end if;
+
+  v_quota := (public.effective_attendance_policy(v_leave.emp_user_id)).paid_leaves_per_month;
+
+  select coalesce(daily_wage, 0) into v_wage
+  from public.employees
+  where user_id = v_leave.emp_user_id;
+
+  for v_day in
+    select generate_series(v_leave.start_date, v_leave.end_date, interval '1 day')::date
+  loop
+    v_used := public.approved_leave_days_before(v_leave.emp_user_id, v_day, v_leave.id)
+      + (v_day - greatest(v_leave.start_date, date_trunc('month', v_day)::date));
+
+    if v_used >= v_quota then
+      v_unpaid := v_unpaid + 1;
+    end if;
+  end loop;
+
+  return query select v_unpaid = 0, v_unpaid * coalesce(v_wage, 0);
+end;
+$$;
+
+grant execute on function public.evaluate_leave_payment(uuid) to authenticated;
+grant execute on function public.get_paid_leave_status(uuid, date) to authenticated;
@@ -0,0 +1,266 @@
+-- Late arrival / early departure.
+--
+-- Shift times live on the attendance policy, so they can be set per site or
+-- per employee like every other rule. Check-in stamps `late_minutes` (zero
+-- inside the grace period) and check-out stamps `early_leave_minutes`.
+--
+-- Optional penalty: with `late_marks_per_penalty` = 3 and
+-- `late_penalty_days` = 0.5, every third late mark in a month debits half a
+-- day's wage, referenced to the attendance row that triggered it.
+
+alter table public.attendance_policies
+  add column if not exists shift_start time,
+  add column if not exists shift_end time,
+  add column if not exists late_marks_per_penalty integer
+    check (late_marks_per_penalty > 0),
+  add column if not exists late_penalty_days numeric(3, 1) not null default 0.5
+    check (late_penalty_days > 0);
+
+alter table public.attendance
+  add column if not exists late_minutes integer not null default 0,
+  add column if not exists early_leave_minutes integer not null default 0;
+
+/* ===================== HELPERS ===================== */
+
+create or replace function public.policy_late_minutes(
+  p_policy public.attendance_policies,
+  p_checkin timestamptz
+)
+returns integer
+language sql
+stable
+as $$
+  select case
+    when p_policy.shift_start is null or p_checkin is null then 0
+    else greatest(0, floor(extract(epoch from
+      (p_checkin at time zone p_policy.timezone)::time - p_policy.shift_start
+    ) / 60))::integer
+  end;
+$$;
+
+create or replace function public.policy_early_leave_minutes(
+  p_policy public.attendance_policies,
+  p_checkout timestamptz
+)
+returns integer
+language sql
+stable
+as $$
+  select case
+    when p_policy.shift_end is null or p_checkout is null then 0
+    else greatest(0, floor(extract(epoch from
+      p_policy.shift_end - (p_checkout at time zone p_policy.timezone)::time
+    ) / 60))::integer
+  end;
+$$;
+
+/* ===================== PENALTY ===================== */
+
+-- Debits the late penalty when this check-in completes a block of late marks.
+-- Safe to call more than once for the same row.
+create or replace function public.apply_late_penalty_debit(
+  p_attendance_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.attendance;
+  v_policy public.attendance_policies;
+  v_marks integer;
+  v_wage numeric;
+begin
+  select * into v_row from public.attendance where id = p_attendance_id;
+  if not found or v_row.late_minutes = 0 then
+    return;
+  end if;
+
+  v_policy := public.effective_attendance_policy(v_row.emp_user_id, v_row.site_id);
+  if v_policy.late_marks_per_penalty is null then
+    return;
+  end if;
+
+  select count(*) into v_marks
+  from public.attendance
+  where emp_user_id = v_row.emp_user_id
+    and late_minutes > 0
+    and day >= date_trunc('month', v_row.day)
+    and day <= v_row.day;
+
+  if v_marks % v_policy.late_marks_per_penalty <> 0 then
+    return;
+  end if;
+
+  if exists (
+    select 1 from public.money_ledger
+    where reference_id = v_row.id and type = 'debit'
+  ) then
+    return;
+  end if;
+
+  select coalesce(daily_wage, 0) into v_wage
+  from public.employees
+  where user_id = v_row.emp_user_id;
+
+  if coalesce(v_wage, 0) = 0 then
+    return;
+  end if;
+
+  insert into public.money_ledger (
+    emp_user_id, amount, type, reason, month_year, entry_date, reference_id
+  )
+  values (
+    v_row.emp_user_id,
+    round(v_wage * v_policy.late_penalty_days, 2),
+    'debit',
+    format('Late penalty (%s late marks)', v_marks),
+    date_trunc('month', v_row.day)::date,
+    v_row.day,
+    v_row.id
+  );
+end;
+$$;
+
+revoke all on function public.apply_late_penalty_debit(uuid)
+  from public, anon, authenticated;
+
+/* ===================== CHECK-IN ===================== */
+
+create or replace function public.checkin_for(
+  p_emp_user_id uuid,
+  p_site_id uuid,
+  p_source text,
+  p_lat double precision,
+  p_lng double precision,
+  p_accuracy double precision
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_policy public.attendance_policies :=
+    public.effective_attendance_policy(p_emp_user_id, p_site_id);
+  v_now_local timestamp := now() at time zone v_policy.timezone;
+  v_day date := v_now_local::date;
+  v_late integer := public.policy_late_minutes(v_policy, now());
+  v_employee record;
+  v_row public.attendance;
+begin
+  select active, force_manual into v_employee
+  from public.employees
+  where user_id = p_emp_user_id;
+
+  if not found or v_employee.active is false then
+    return public.attendance_result('NOT_EMPLOYEE');
+  end if;
+
+  -- Self-service manual check-in (picking a site from a list) is only for
+  -- employees the admin has switched to manual mode; everyone else must
+  -- prove they are at the site by scanning its QR.
+  if p_source = 'manual' and coalesce(v_employee.force_manual, false) is false then
+    return public.attendance_result('QR_REQUIRED');
+  end if;
+
+  if not exists (
+    select 1 from public.sites
+    where id = p_site_id and coalesce(is_active, true)
+  ) then
+    return public.attendance_result('SITE_INACTIVE');
+  end if;
+
+  if v_now_local::time > v_policy.checkin_cutoff then
+    return public.attendance_result('AFTER_CUTOFF');
+  end if;
+
+  if exists (
+    select 1 from public.attendance
+    where emp_user_id = p_emp_user_id and day = v_day
+  ) then
+    return public.attendance_result('ALREADY_CHECKED_IN');
+  end if;
+
+  -- Arrivals inside the grace period are not late
+  if v_late <= v_policy.late_grace_minutes then
+    v_late := 0;
+  end if;
+
+  begin
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkin_source,
+      checkin_lat, checkin_lng, checkin_accuracy_m, late_minutes
+    )
+    values (
+      p_emp_user_id, p_site_id, v_day, now(), p_source,
+      p_lat, p_lng, p_accuracy, v_late
+    )
+    returning * into v_row;
+  exception
+    -- Geofence trigger rejections (LOCATION_REQUIRED / OUTSIDE_GEOFENCE)
+    when raise_exception then
+      return public.attendance_result(sqlerrm);
+    when unique_violation then
+      return public.attendance_result('ALREADY_CHECKED_IN');
+  end;
+
+  perform public.apply_late_penalty_debit(v_row.id);
+
+  return public.attendance_result(null, v_row);
+end;
+$$;
+
+/* ===================== CHECK-OUT ===================== */
+
+create or replace function public.checkout_for(
+  p_emp_user_id uuid,
+  p_site_id uuid,
+  p_source text,
+  p_remarks text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_policy public.attendance_policies :=
+    public.effective_attendance_policy(p_emp_user_id, p_site_id);
+  v_day date := (now() at time zone v_policy.timezone)::date;
+  v_row public.attendance;
+begin
+  select * into v_row
+  from public.attendance
+  where emp_user_id = p_emp_user_id and day = v_day
+  for update;
+
+  if not found then
+    return public.attendance_result('NOT_CHECKED_IN');
+  end if;
+
+  if v_row.checkout_at is not null then
+    return public.attendance_result('ALREADY_CHECKED_OUT');
+  end if;
+
+  if p_site_id is not null and v_row.site_id <> p_site_id then
+    return public.attendance_result('SITE_MISMATCH');
+  end if;
+
+  -- Day type follows the policy of the site actually worked at
+  v_policy := public.effective_attendance_policy(p_emp_user_id, v_row.site_id);
+
+  update public.attendance
+  set checkout_at = now(),
+      checkout_source = p_source,
+      remarks = nullif(trim(p_remarks), ''),
+      attendance_type = public.policy_attendance_type(v_policy, v_row.checkin_at, now()),
+      early_leave_minutes = public.policy_early_leave_minutes(v_policy, now()),
+      updated_at = now()
+  where id = v_row.id
+  returning * into v_row;
+
+  return public.attendance_result(null, v_row);
+end;
+$$;
@@ -0,0 +1,199 @@
+-- Overtime.
+--
+-- Check-out records the minutes worked beyond the policy's standard shift
+-- length as `overtime_minutes` and marks them pending. An admin approves or
+-- rejects them per day; approval credits
+--
+--   overtime hours / standard shift hours * daily_wage * overtime_multiplier
+--
+-- to `money_ledger`, referenced to the attendance row.
+
+alter table public.attendance_policies
+  add column if not exists standard_shift_hours numeric(4, 2) not null default 8
+    check (standard_shift_hours > 0 and standard_shift_hours <= 24),
+  add column if not exists overtime_multiplier numeric(3, 2) not null default 1.5
+    check (overtime_multiplier > 0);
+
+alter table public.attendance
+  add column if not exists overtime_minutes integer not null default 0,
+  add column if not exists overtime_status text
+    check (overtime_status in ('pending', 'approved', 'rejected')),
+  add column if not exists overtime_reviewed_by uuid references auth.users(id),
+  add column if not exists overtime_reviewed_at timestamptz;
+
+create or replace function public.policy_overtime_minutes(
+  p_policy public.attendance_policies,
+  p_checkin timestamptz,
+  p_checkout timestamptz
+)
+returns integer
+language sql
+immutable
+as $$
+  select case
+    when p_checkin is null or p_checkout is null then 0
+    else greatest(0, floor(
+      extract(epoch from p_checkout - p_checkin) / 60
+        - p_policy.standard_shift_hours * 60
+    ))::integer
+  end;
+$$;
+
+/* ===================== CHECK-OUT ===================== */
+
+create or replace function public.checkout_for(
+  p_emp_user_id uuid,
+  p_site_id uuid,
+  p_source text,
+  p_remarks text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_policy public.attendance_policies :=
+    public.effective_attendance_policy(p_emp_user_id, p_site_id);
+  v_day date := (now() at time zone v_policy.timezone)::date;
+  v_row public.attendance;
+  v_overtime integer;
+begin
+  select * into v_row
+  from public.attendance
+  where emp_user_id = p_emp_user_id and day = v_day
+  for update;
+
+  if not found then
+    return public.attendance_result('NOT_CHECKED_IN');
+  end if;
+
+  if v_row.checkout_at is not null then
+    return public.attendance_result('ALREADY_CHECKED_OUT');
+  end if;
+
+  if p_site_id is not null and v_row.site_id <> p_site_id then
+    return public.attendance_result('SITE_MISMATCH');
+  end if;
+
+  -- Day type follows the policy of the site actually worked at
+  v_policy := public.effective_attendance_policy(p_emp_user_id, v_row.site_id);
+  v_overtime := public.policy_overtime_minutes(v_policy, v_row.checkin_at, now());
+
+  update public.attendance
+  set checkout_at = now(),
+      checkout_source = p_source,
+      remarks = nullif(trim(p_remarks), ''),
+      attendance_type = public.policy_attendance_type(v_policy, v_row.checkin_at, now()),
+      early_leave_minutes = public.policy_early_leave_minutes(v_policy, now()),
+      overtime_minutes = v_overtime,
+      overtime_status = case when v_overtime > 0 then 'pending' end,
+      updated_at = now()
+  where id = v_row.id
+  returning * into v_row;
+
+  return public.attendance_result(null, v_row);
+end;
+$$;
+
+/* ===================== REVIEW ===================== */
+
+create or replace function public.approve_overtime(p_attendance_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.attendance;
+  v_policy public.attendance_policies;
+  v_wage numeric;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can approve overtime';
+  end if;
+
+  select * into v_row
+  from public.attendance
+  where id = p_attendance_id
+  for update;
+
+  if not found then
+    raise exception 'Attendance record not found';
+  end if;
+
+  if v_row.overtime_minutes <= 0 then
+    raise exception 'No overtime recorded for this day';
+  end if;
+
+  if v_row.overtime_status = 'approved' then
+    return;
+  end if;
+
+  v_policy := public.effective_attendance_policy(v_row.emp_user_id, v_row.site_id);
+
+  select coalesce(daily_wage, 0) into v_wage
+  from public.employees
+  where user_id = v_row.emp_user_id;
+
+  update public.attendance
+  set overtime_status = 'approved',
+      overtime_reviewed_by = auth.uid(),
+      overtime_reviewed_at = now()
+  where id = v_row.id;
+
+  insert into public.money_ledger (
+    emp_user_id, amount, type, reason, month_year, entry_date,
+    reference_id, created_by
+  )
+  values (
+    v_row.emp_user_id,
+    round(
+      v_row.overtime_minutes / 60.0 / v_policy.standard_shift_hours
+        * coalesce(v_wage, 0) * v_policy.overtime_multiplier,
+      2
+    ),
+    'credit',
+    format('Overtime %sh %sm (x%s)',
+      v_row.overtime_minutes / 60, v_row.overtime_minutes % 60,
+      v_policy.overtime_multiplier),
+    date_trunc('month', v_row.day)::date,
+    v_row.day,
+    v_row.id,
+    auth.uid()
+  );
+end;
+$$;
+
+-- Rejecting an approved day takes its overtime credit back out.
+create or replace function public.reject_overtime(p_attendance_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can reject overtime';
+  end if;
+
+  update public.attendance
+  set overtime_status = 'rejected',
+      overtime_reviewed_by = auth.uid(),
+      overtime_reviewed_at = now()
+  where id = p_attendance_id
+    and overtime_minutes > 0;
+
+  if not found then
+    raise exception 'No overtime recorded for this day';
+  end if;
+
+  delete from public.money_ledger
+  where reference_id = p_attendance_id
+    and type = 'credit'
+    and reason like 'Overtime %';
+end;
+$$;
+
+grant execute on function public.approve_overtime(uuid) to authenticated;
+grant execute on function public.reject_overtime(uuid) to authenticated;
@@ -0,0 +1,337 @@
+-- Attendance regularization.
+--
+-- Employees who missed a scan (or scanned at the wrong time) ask for a past
+-- day to be corrected, with a reason and the times they actually worked.
+-- Admins approve or reject from a queue. Approval creates or patches the
+-- attendance row, recomputes everything derived from the times, and credits
+-- back any absence debit already posted for that day.
+
+create table if not exists public.attendance_regularizations (
+  id uuid primary key default gen_random_uuid(),
+  emp_user_id uuid not null references public.employees(user_id) on delete cascade,
+  day date not null,
+  proposed_checkin timestamptz not null,
+  proposed_checkout timestamptz,
+  reason text not null check (length(trim(reason)) > 0),
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected')),
+  admin_note text,
+  attendance_id uuid references public.attendance(id) on delete set null,
+  reviewed_by uuid references auth.users(id),
+  reviewed_at timestamptz,
+  created_at timestamptz default now(),
+  check (proposed_checkout is null or proposed_checkout > proposed_checkin)
+);
+
+-- One open request per day
+create unique index if not exists attendance_regularizations_pending_idx
+  on public.attendance_regularizations (emp_user_id, day)
+  where status = 'pending';
+
+alter table public.attendance_regularizations enable row level security;
+
+create policy "Employees read own regularizations"
+  on public.attendance_regularizations for select
+  to authenticated
+  using (emp_user_id = auth.uid() or public.is_admin());
+
+create policy "Employees request regularization for past days"
+  on public.attendance_regularizations for insert
+  to authenticated
+  with check (
+    emp_user_id = auth.uid()
+    and status = 'pending'
+    and day < (now() at time zone
+      (public.effective_attendance_policy(auth.uid())).timezone)::date
+  );
+
+-- Admin-created rows are not self check-ins, so the site geofence does not
+-- apply to them.
+alter table public.attendance
+  drop constraint if exists attendance_checkin_source_check;
+alter table public.attendance
+  add constraint attendance_checkin_source_check
+    check (checkin_source in ('qr', 'manual', 'regularized'));
+
+alter table public.attendance
+  drop constraint if exists attendance_checkout_source_check;
+alter table public.attendance
+  add constraint attendance_checkout_source_check
+    check (checkout_source in ('qr', 'manual', 'regularized'));
+
+create or replace function public.enforce_attendance_geofence()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_site record;
+  v_distance double precision;
+  -- GPS accuracy is trusted up to this many metres of extra slack.
+  v_slack double precision := least(coalesce(new.checkin_accuracy_m, 0), 100);
+begin
+  if new.checkin_source is distinct from 'qr'
+     and new.checkin_source is distinct from 'manual' then
+    return new;
+  end if;
+
+  select latitude, longitude, geofence_radius_m, geofence_mode
+  into v_site
+  from public.sites
+  where id = new.site_id;
+
+  if v_site.latitude is null
+     or v_site.longitude is null
+     or v_site.geofence_mode = 'off' then
+    return new;
+  end if;
+
+  if new.checkin_lat is null or new.checkin_lng is null then
+    if v_site.geofence_mode = 'reject' then
+      raise exception 'LOCATION_REQUIRED';
+    end if;
+    new.geofence_flagged := true;
+    return new;
+  end if;
+
+  v_distance := public.distance_m(
+    v_site.latitude, v_site.longitude,
+    new.checkin_lat, new.checkin_lng
+  );
+  new.checkin_distance_m := round(v_distance);
+
+  if v_distance > v_site.geofence_radius_m + v_slack then
+    if v_site.geofence_mode = 'reject' then
+      raise exception 'OUTSIDE_GEOFENCE';
+    end if;
+    new.geofence_flagged := true;
+  end if;
+
+  return new;
+end;
+$$;
+
+/* ===================== HELPERS ===================== */
+
+-- Recomputes everything derived from check-in/check-out times under the
+-- policy for the row's site. Used whenever times are changed after the fact.
+create or replace function public.refresh_attendance_derived(p_attendance_id uuid)
+returns public.attendance
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.attendance;
+  v_policy public.attendance_policies;
+  v_late integer;
+  v_overtime integer;
+  v_old_status text;
+begin
+  select * into v_row from public.attendance where id = p_attendance_id;
+  if not found then
+    return null;
+  end if;
+
+  v_policy := public.effective_attendance_policy(v_row.emp_user_id, v_row.site_id);
+
+  v_late := public.policy_late_minutes(v_policy, v_row.checkin_at);
+  if v_late <= v_policy.late_grace_minutes then
+    v_late := 0;
+  end if;
+
+  v_overtime := public.policy_overtime_minutes(
+    v_policy, v_row.checkin_at, v_row.checkout_at
+  );
+  v_old_status := v_row.overtime_status;
+
+  update public.attendance
+  set attendance_type = public.policy_attendance_type(
+        v_policy, v_row.checkin_at, v_row.checkout_at
+      ),
+      late_minutes = v_late,
+      early_leave_minutes = public.policy_early_leave_minutes(v_policy, v_row.checkout_at),
+      overtime_minutes = v_overtime,
+      -- Keep an earlier review only if the minutes did not change
+      overtime_status = case
+        when v_overtime = 0 then null
+        when v_overtime = v_row.overtime_minutes then coalesce(v_row.overtime_status, 'pending')
+        else 'pending'
+      end,
+      updated_at = now()
+  where id = v_row.id
+  returning * into v_row;
+
+  -- An approved overtime credit no longer matches the new times
+  if v_old_status = 'approved' and v_row.overtime_status <> 'approved' then
+    delete from public.money_ledger
+    where reference_id = v_row.id
+      and type = 'credit'
+      and reason like 'Overtime %';
+  end if;
+
+  return v_row;
+end;
+$$;
+
+revoke all on function public.refresh_attendance_derived(uuid)
+  from public, anon, authenticated;
+
+-- Absence debits are posted dated to the missed day. Credits back whatever
+-- has not already been reversed, so calling it twice is harmless.
+create or replace function public.reverse_absence_debit(
+  p_emp_user_id uuid,
+  p_day date,
+  p_reference_id uuid
+)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_debited numeric;
+  v_reversed numeric;
+begin
+  select coalesce(sum(amount), 0) into v_debited
+  from public.money_ledger
+  where emp_user_id = p_emp_user_id
+    and type = 'debit'
+    and entry_date = p_day
+    and reason ilike '%absen%';
+
+  select coalesce(sum(amount), 0) into v_reversed
+  from public.money_ledger
+  where emp_user_id = p_emp_user_id
+    and type = 'credit'
+    and entry_date = p_day
+    and reason like 'Absence reversed%';
+
+  if v_debited - v_reversed <= 0 then
+    return 0;
+  end if;
+
+  insert into public.money_ledger (
+    emp_user_id, amount, type, reason, month_year, entry_date,
+    reference_id, created_by
+  )
+  values (
+    p_emp_user_id,
+    v_debited - v_reversed,
+    'credit',
+    'Absence reversed (attendance corrected)',
+    date_trunc('month', p_day)::date,
+    p_day,
+    p_reference_id,
+    auth.uid()
+  );
+
+  return v_debited - v_reversed;
+end;
+$$;
+
+revoke all on function public.reverse_absence_debit(uuid, date, uuid)
+  from public, anon, authenticated;
+
+/* ===================== REVIEW ===================== */
+
+create or replace function public.approve_regularization(p_request_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_req public.attendance_regularizations;
+  v_row public.attendance;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can approve regularizations';
+  end if;
+
+  select * into v_req
+  from public.attendance_regularizations
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'Request not found';
+  end if;
+
+  if v_req.status <> 'pending' then
+    raise exception 'Request has already been %', v_req.status;
+  end if;
+
+  select * into v_row
+  from public.attendance
+  where emp_user_id = v_req.emp_user_id and day = v_req.day
+  for update;
+
+  if found then
+    update public.attendance
+    set checkin_at = v_req.proposed_checkin,
+        checkout_at = coalesce(v_req.proposed_checkout, checkout_at),
+        checkout_source = case
+          when v_req.proposed_checkout is not null then 'regularized'
+          else checkout_source
+        end
+    where id = v_row.id;
+  else
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkout_at,
+      checkin_source, checkout_source
+    )
+    select
+      v_req.emp_user_id, e.site_id, v_req.day,
+      v_req.proposed_checkin, v_req.proposed_checkout,
+      'regularized',
+      case when v_req.proposed_checkout is not null then 'regularized' end
+    from public.employees e
+    where e.user_id = v_req.emp_user_id
+    returning * into v_row;
+  end if;
+
+  v_row := public.refresh_attendance_derived(v_row.id);
+
+  perform public.reverse_absence_debit(v_req.emp_user_id, v_req.day, v_req.id);
+
+  update public.attendance_regularizations
+  set status = 'approved',
+      attendance_id = v_row.id,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = v_req.id;
+end;
+$$;
+
+create or replace function public.reject_regularization(
+  p_request_id uuid,
+  p_note text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can reject regularizations';
+  end if;
+
+  update public.attendance_regularizations
+  set status = 'rejected',
+      admin_note = nullif(trim(p_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = p_request_id
+    and status = 'pending';
+
+  if not found then
+    raise exception 'Request is not pending';
+  end if;
+end;
+$$;
+
+grant execute on function public.approve_regularization(uuid) to authenticated;
+grant execute on function public.reject_regularization(uuid, text) to authenticated;
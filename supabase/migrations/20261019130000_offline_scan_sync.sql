@@ -0,0 +1,322 @@
+-- Offline scans.
+--
+-- When a site has no signal the app stores the scanned site code in
+-- IndexedDB with the device time and replays it here once it is back online.
+--
+-- The scanned code is already signed for its time window, so the server does
+-- not have to trust the device clock: the recorded time is the device time
+-- clamped into the signed window, and codes older than the replay limit are
+-- refused. Rotating a site's secret invalidates anything still queued for it.
+--
+-- New code: OFFLINE_EXPIRED.
+
+alter table public.attendance
+  add column if not exists checkin_synced_at timestamptz,
+  add column if not exists checkout_synced_at timestamptz;
+
+/* ===================== QR VERIFICATION ===================== */
+
+-- Same rules as verify_site_qr, but judged at a given moment instead of now.
+create or replace function public.verify_site_qr_at(
+  p_site_id uuid,
+  p_window bigint,
+  p_signature text,
+  p_at timestamptz
+)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_rotation integer;
+  v_current bigint;
+begin
+  select rotation_seconds into v_rotation
+  from public.site_qr_keys
+  where site_id = p_site_id;
+
+  if v_rotation is null then
+    return 'QR_INVALID';
+  end if;
+
+  if p_signature is null
+     or p_signature <> public.sign_site_qr(p_site_id, p_window) then
+    return 'QR_INVALID';
+  end if;
+
+  v_current := floor(extract(epoch from p_at) / v_rotation)::bigint;
+
+  if p_window > v_current or p_window < v_current - 1 then
+    return 'QR_EXPIRED';
+  end if;
+
+  return null;
+end;
+$$;
+
+revoke all on function public.verify_site_qr_at(uuid, bigint, text, timestamptz)
+  from public, anon, authenticated;
+
+create or replace function public.verify_site_qr(
+  p_site_id uuid,
+  p_window bigint,
+  p_signature text
+)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.verify_site_qr_at(p_site_id, p_window, p_signature, now());
+$$;
+
+/* ===================== CHECK-IN ===================== */
+
+-- Both workers now take the moment being recorded, which is now() for live
+-- scans and the reconstructed scan time for offline ones.
+drop function if exists public.checkin_for(
+  uuid, uuid, text, double precision, double precision, double precision
+);
+
+create function public.checkin_for(
+  p_emp_user_id uuid,
+  p_site_id uuid,
+  p_source text,
+  p_lat double precision,
+  p_lng double precision,
+  p_accuracy double precision,
+  p_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_policy public.attendance_policies :=
+    public.effective_attendance_policy(p_emp_user_id, p_site_id);
+  v_local timestamp := p_at at time zone v_policy.timezone;
+  v_day date := v_local::date;
+  v_late integer := public.policy_late_minutes(v_policy, p_at);
+  v_employee record;
+  v_row public.attendance;
+begin
+  select active, force_manual into v_employee
+  from public.employees
+  where user_id = p_emp_user_id;
+
+  if not found or v_employee.active is false then
+    return public.attendance_result('NOT_EMPLOYEE');
+  end if;
+
+  -- Self-service manual check-in (picking a site from a list) is only for
+  -- employees the admin has switched to manual mode; everyone else must
+  -- prove they are at the site by scanning its QR.
+  if p_source = 'manual' and coalesce(v_employee.force_manual, false) is false then
+    return public.attendance_result('QR_REQUIRED');
+  end if;
+
+  if not exists (
+    select 1 from public.sites
+    where id = p_site_id and coalesce(is_active, true)
+  ) then
+    return public.attendance_result('SITE_INACTIVE');
+  end if;
+
+  if v_local::time > v_policy.checkin_cutoff then
+    return public.attendance_result('AFTER_CUTOFF');
+  end if;
+
+  if exists (
+    select 1 from public.attendance
+    where emp_user_id = p_emp_user_id and day = v_day
+  ) then
+    return public.attendance_result('ALREADY_CHECKED_IN');
+  end if;
+
+  -- Arrivals inside the grace period are not late
+  if v_late <= v_policy.late_grace_minutes then
+    v_late := 0;
+  end if;
+
+  begin
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkin_source,
+      checkin_lat, checkin_lng, checkin_accuracy_m, late_minutes
+    )
+    values (
+      p_emp_user_id, p_site_id, v_day, p_at, p_source,
+      p_lat, p_lng, p_accuracy, v_late
+    )
+    returning * into v_row;
+  exception
+    -- Geofence trigger rejections (LOCATION_REQUIRED / OUTSIDE_GEOFENCE)
+    when raise_exception then
+      return public.attendance_result(sqlerrm);
+    when unique_violation then
+      return public.attendance_result('ALREADY_CHECKED_IN');
+  end;
+
+  perform public.apply_late_penalty_debit(v_row.id);
+
+  return public.attendance_result(null, v_row);
+end;
+$$;
+
+revoke all on function public.checkin_for(
+  uuid, uuid, text, double precision, double precision, double precision, timestamptz
+) from public, anon, authenticated;
+
+/* ===================== CHECK-OUT ===================== */
+
+drop function if exists public.checkout_for(uuid, uuid, text, text);
+
+create function public.checkout_for(
+  p_emp_user_id uuid,
+  p_site_id uuid,
+  p_source text,
+  p_remarks text,
+  p_at timestamptz default now()
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_policy public.attendance_policies :=
+    public.effective_attendance_policy(p_emp_user_id, p_site_id);
+  v_day date := (p_at at time zone v_policy.timezone)::date;
+  v_row public.attendance;
+  v_overtime integer;
+begin
+  select * into v_row
+  from public.attendance
+  where emp_user_id = p_emp_user_id and day = v_day
+  for update;
+
+  if not found then
+    return public.attendance_result('NOT_CHECKED_IN');
+  end if;
+
+  if v_row.checkout_at is not null then
+    return public.attendance_result('ALREADY_CHECKED_OUT');
+  end if;
+
+  if p_site_id is not null and v_row.site_id <> p_site_id then
+    return public.attendance_result('SITE_MISMATCH');
+  end if;
+
+  -- Day type follows the policy of the site actually worked at
+  v_policy := public.effective_attendance_policy(p_emp_user_id, v_row.site_id);
+  v_overtime := public.policy_overtime_minutes(v_policy, v_row.checkin_at, p_at);
+
+  update public.attendance
+  set checkout_at = p_at,
+      checkout_source = p_source,
+      remarks = nullif(trim(p_remarks), ''),
+      attendance_type = public.policy_attendance_type(v_policy, v_row.checkin_at, p_at),
+      early_leave_minutes = public.policy_early_leave_minutes(v_policy, p_at),
+      overtime_minutes = v_overtime,
+      overtime_status = case when v_overtime > 0 then 'pending' end,
+      updated_at = now()
+  where id = v_row.id
+  returning * into v_row;
+
+  return public.attendance_result(null, v_row);
+end;
+$$;
+
+revoke all on function public.checkout_for(uuid, uuid, text, text, timestamptz)
+  from public, anon, authenticated;
+
+/* ===================== SYNC ===================== */
+
+create or replace function public.sync_offline_scan(
+  p_kind text,
+  p_site_id uuid,
+  p_window bigint,
+  p_signature text,
+  p_scanned_at timestamptz,
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_accuracy double precision default null,
+  p_remarks text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- Queued scans older than this are refused
+  c_max_age constant interval := interval '12 hours';
+  v_rotation integer;
+  v_window_start timestamptz;
+  v_at timestamptz;
+  v_error text;
+  v_result jsonb;
+begin
+  if auth.uid() is null then
+    return public.attendance_result('NOT_AUTHENTICATED');
+  end if;
+
+  if p_kind not in ('checkin', 'checkout') then
+    raise exception 'Unknown scan kind %', p_kind;
+  end if;
+
+  select rotation_seconds into v_rotation
+  from public.site_qr_keys
+  where site_id = p_site_id;
+
+  if v_rotation is null then
+    return public.attendance_result('QR_INVALID');
+  end if;
+
+  -- The signed window is the trusted clock; the device time only picks a
+  -- moment inside it.
+  v_window_start := to_timestamp(p_window * v_rotation);
+  v_at := least(
+    greatest(coalesce(p_scanned_at, v_window_start), v_window_start),
+    v_window_start + make_interval(secs => 2 * v_rotation - 1),
+    now()
+  );
+
+  if v_at < now() - c_max_age then
+    return public.attendance_result('OFFLINE_EXPIRED');
+  end if;
+
+  v_error := public.verify_site_qr_at(p_site_id, p_window, p_signature, v_at);
+  if v_error is not null then
+    return public.attendance_result(v_error);
+  end if;
+
+  if p_kind = 'checkin' then
+    v_result := public.checkin_for(
+      auth.uid(), p_site_id, 'qr', p_lat, p_lng, p_accuracy, v_at
+    );
+    if (v_result ->> 'ok')::boolean then
+      update public.attendance
+      set checkin_synced_at = now()
+      where id = (v_result -> 'attendance' ->> 'id')::uuid;
+    end if;
+  else
+    v_result := public.checkout_for(auth.uid(), p_site_id, 'qr', p_remarks, v_at);
+    if (v_result ->> 'ok')::boolean then
+      update public.attendance
+      set checkout_synced_at = now()
+      where id = (v_result -> 'attendance' ->> 'id')::uuid;
+    end if;
+  end if;
+
+  return v_result;
+end;
+$$;
+
+grant execute on function public.sync_offline_scan(
+  text, uuid, bigint, text, timestamptz,
+  double precision, double precision, double precision, text
+) to authenticated;
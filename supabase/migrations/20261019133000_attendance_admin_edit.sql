@@ -0,0 +1,281 @@
+-- Admin attendance editing.
+--
+-- Admins create, edit and delete attendance days from the employee calendar
+-- instead of patching rows by hand. Every change needs a reason and is
+-- written to `attendance_audit` with the row before and after, the actor and
+-- the time.
+--
+-- Pay for the day is settled by difference: a full day is worth the daily
+-- wage, a half day half of it, anything else nothing. When an edit changes
+-- that value the gap is posted to `money_ledger` as one credit or debit,
+-- referenced to the audit entry, so whatever was credited before stays as it
+-- was and the adjustment is easy to trace. Creating a day that had no row
+-- also reverses its absence debit.
+
+alter table public.attendance
+  drop constraint if exists attendance_checkin_source_check;
+alter table public.attendance
+  add constraint attendance_checkin_source_check
+    check (checkin_source in ('qr', 'manual', 'regularized', 'admin'));
+
+alter table public.attendance
+  drop constraint if exists attendance_checkout_source_check;
+alter table public.attendance
+  add constraint attendance_checkout_source_check
+    check (checkout_source in ('qr', 'manual', 'regularized', 'admin'));
+
+create table if not exists public.attendance_audit (
+  id uuid primary key default gen_random_uuid(),
+  -- Kept after the row itself is deleted
+  attendance_id uuid,
+  emp_user_id uuid not null references public.employees(user_id) on delete cascade,
+  day date not null,
+  action text not null check (action in ('create', 'update', 'delete')),
+  old_values jsonb,
+  new_values jsonb,
+  reason text not null check (length(trim(reason)) > 0),
+  ledger_adjustment numeric(12, 2) not null default 0,
+  actor uuid references auth.users(id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists attendance_audit_emp_day_idx
+  on public.attendance_audit (emp_user_id, day);
+
+alter table public.attendance_audit enable row level security;
+
+-- Written only by the functions below
+create policy "Admins read attendance audit"
+  on public.attendance_audit for select
+  to authenticated
+  using (public.is_admin());
+
+/* ===================== HELPERS ===================== */
+
+create or replace function public.attendance_day_value(
+  p_attendance_type text,
+  p_daily_wage numeric
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case p_attendance_type
+    when 'full' then coalesce(p_daily_wage, 0)
+    when 'half' then round(coalesce(p_daily_wage, 0) / 2, 2)
+    else 0
+  end;
+$$;
+
+-- Posts the difference in pay between two versions of a day. Returns the
+-- signed amount posted (0 when nothing changed).
+create or replace function public.post_attendance_adjustment(
+  p_emp_user_id uuid,
+  p_day date,
+  p_old_type text,
+  p_new_type text,
+  p_audit_id uuid
+)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_wage numeric;
+  v_delta numeric;
+begin
+  select coalesce(daily_wage, 0) into v_wage
+  from public.employees
+  where user_id = p_emp_user_id;
+
+  v_delta := public.attendance_day_value(p_new_type, v_wage)
+    - public.attendance_day_value(p_old_type, v_wage);
+
+  if v_delta = 0 then
+    return 0;
+  end if;
+
+  insert into public.money_ledger (
+    emp_user_id, amount, type, reason, month_year, entry_date,
+    reference_id, created_by
+  )
+  values (
+    p_emp_user_id,
+    abs(v_delta),
+    case when v_delta > 0 then 'credit' else 'debit' end::public.ledger_type,
+    format('Attendance corrected (%s → %s)',
+      coalesce(p_old_type, 'no record'), coalesce(p_new_type, 'no record')),
+    date_trunc('month', p_day)::date,
+    p_day,
+    p_audit_id,
+    auth.uid()
+  );
+
+  return v_delta;
+end;
+$$;
+
+revoke all on function public.post_attendance_adjustment(uuid, date, text, text, uuid)
+  from public, anon, authenticated;
+
+/* ===================== SAVE ===================== */
+
+-- Creates the day if it has no row, otherwise replaces its times.
+create or replace function public.admin_save_attendance(
+  p_emp_user_id uuid,
+  p_day date,
+  p_checkin timestamptz,
+  p_reason text,
+  p_checkout timestamptz default null,
+  p_site_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old public.attendance;
+  v_row public.attendance;
+  v_audit_id uuid := gen_random_uuid();
+  v_adjustment numeric;
+  v_site uuid;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can edit attendance';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'A reason is required';
+  end if;
+
+  if p_checkin is null then
+    raise exception 'Check-in time is required';
+  end if;
+
+  if p_checkout is not null and p_checkout <= p_checkin then
+    raise exception 'Check-out must be after check-in';
+  end if;
+
+  select * into v_old
+  from public.attendance
+  where emp_user_id = p_emp_user_id and day = p_day
+  for update;
+
+  if found then
+    update public.attendance
+    set checkin_at = p_checkin,
+        checkout_at = p_checkout,
+        site_id = coalesce(p_site_id, site_id),
+        checkin_source = 'admin',
+        checkout_source = case when p_checkout is not null then 'admin' end
+    where id = v_old.id;
+
+    v_row := public.refresh_attendance_derived(v_old.id);
+  else
+    select coalesce(p_site_id, site_id) into v_site
+    from public.employees
+    where user_id = p_emp_user_id;
+
+    if v_site is null then
+      raise exception 'Pick a site for this employee';
+    end if;
+
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkout_at,
+      checkin_source, checkout_source
+    )
+    values (
+      p_emp_user_id, v_site, p_day, p_checkin, p_checkout,
+      'admin', case when p_checkout is not null then 'admin' end
+    )
+    returning * into v_row;
+
+    v_row := public.refresh_attendance_derived(v_row.id);
+    perform public.reverse_absence_debit(p_emp_user_id, p_day, v_audit_id);
+  end if;
+
+  v_adjustment := public.post_attendance_adjustment(
+    p_emp_user_id, p_day, v_old.attendance_type, v_row.attendance_type, v_audit_id
+  );
+
+  insert into public.attendance_audit (
+    id, attendance_id, emp_user_id, day, action,
+    old_values, new_values, reason, ledger_adjustment, actor
+  )
+  values (
+    v_audit_id, v_row.id, p_emp_user_id, p_day,
+    case when v_old.id is null then 'create' else 'update' end,
+    case when v_old.id is not null then to_jsonb(v_old) end,
+    to_jsonb(v_row),
+    trim(p_reason),
+    v_adjustment,
+    auth.uid()
+  );
+
+  return v_row.id;
+end;
+$$;
+
+/* ===================== DELETE ===================== */
+
+create or replace function public.admin_delete_attendance(
+  p_attendance_id uuid,
+  p_reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old public.attendance;
+  v_audit_id uuid := gen_random_uuid();
+  v_adjustment numeric;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can edit attendance';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'A reason is required';
+  end if;
+
+  select * into v_old
+  from public.attendance
+  where id = p_attendance_id
+  for update;
+
+  if not found then
+    raise exception 'Attendance record not found';
+  end if;
+
+  delete from public.attendance where id = v_old.id;
+
+  -- Overtime for a day that no longer exists is not owed
+  delete from public.money_ledger
+  where reference_id = v_old.id
+    and type = 'credit'
+    and reason like 'Overtime %';
+
+  v_adjustment := public.post_attendance_adjustment(
+    v_old.emp_user_id, v_old.day, v_old.attendance_type, null, v_audit_id
+  );
+
+  insert into public.attendance_audit (
+    id, attendance_id, emp_user_id, day, action,
+    old_values, new_values, reason, ledger_adjustment, actor
+  )
+  values (
+    v_audit_id, v_old.id, v_old.emp_user_id, v_old.day, 'delete',
+    to_jsonb(v_old), null, trim(p_reason), v_adjustment, auth.uid()
+  );
+end;
+$$;
+
+grant execute on function public.admin_save_attendance(
+  uuid, date, timestamptz, text, timestamptz, uuid
+) to authenticated;
+grant execute on function public.admin_delete_attendance(uuid, text)
+  to authenticated;
@@ -0,0 +1,281 @@
+-- Bulk attendance for site crews.
+--
+-- Workers without smartphones cannot scan the site QR, so a site supervisor
+-- marks the whole crew at once: present, half day or absent, with times, for
+-- a chosen day. A supervisor is a user whose profile role is 'supervisor' and
+-- who is assigned to one or more sites in `site_supervisors`; admins assign
+-- them from the employee screen.
+--
+-- The batch goes through `bulk_mark_attendance`, which checks each entry on
+-- its own and reports a code per employee instead of failing the batch.
+-- Rows it writes have source 'bulk' and record who marked them. Days an
+-- employee scanned in themselves are never overwritten.
+--
+-- Entry codes: NOT_IN_CREW, ALREADY_CHECKED_IN, CHECKIN_REQUIRED,
+-- AFTER_CUTOFF, IN_FUTURE, INVALID_TIMES.
+
+create table if not exists public.site_supervisors (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  site_id uuid not null references public.sites(id) on delete cascade,
+  created_at timestamptz default now(),
+  unique (user_id, site_id)
+);
+
+alter table public.site_supervisors enable row level security;
+
+create policy "Supervisors read own sites"
+  on public.site_supervisors for select
+  to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+
+create policy "Admins manage site supervisors"
+  on public.site_supervisors for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+alter table public.attendance
+  add column if not exists marked_by uuid references auth.users(id),
+  add column if not exists marked_at timestamptz;
+
+alter table public.attendance
+  drop constraint if exists attendance_checkin_source_check;
+alter table public.attendance
+  add constraint attendance_checkin_source_check
+    check (checkin_source in ('qr', 'manual', 'regularized', 'admin', 'bulk'));
+
+alter table public.attendance
+  drop constraint if exists attendance_checkout_source_check;
+alter table public.attendance
+  add constraint attendance_checkout_source_check
+    check (checkout_source in ('qr', 'manual', 'regularized', 'admin', 'bulk'));
+
+/* ===================== ACCESS ===================== */
+
+create or replace function public.is_site_supervisor(p_site_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.site_supervisors s
+    join public.profiles p on p.auth_uid = s.user_id
+    where s.user_id = auth.uid()
+      and s.site_id = p_site_id
+      and p.role = 'supervisor'
+  );
+$$;
+
+grant execute on function public.is_site_supervisor(uuid) to authenticated;
+
+-- Replaces a user's site assignments. An empty list turns a supervisor back
+-- into a plain employee.
+create or replace function public.set_site_supervisor(
+  p_user_id uuid,
+  p_site_ids uuid[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can assign supervisors';
+  end if;
+
+  if exists (
+    select 1 from public.profiles
+    where auth_uid = p_user_id and role = 'admin'
+  ) then
+    raise exception 'Admins cannot be made supervisors';
+  end if;
+
+  delete from public.site_supervisors where user_id = p_user_id;
+
+  insert into public.site_supervisors (user_id, site_id)
+  select p_user_id, unnest(coalesce(p_site_ids, '{}'));
+
+  update public.profiles
+  set role = case
+        when cardinality(coalesce(p_site_ids, '{}')) > 0 then 'supervisor'
+        else 'employee'
+      end
+  where auth_uid = p_user_id;
+end;
+$$;
+
+grant execute on function public.set_site_supervisor(uuid, uuid[]) to authenticated;
+
+/* ===================== CREW ===================== */
+
+-- Active employees of a site with whatever is already recorded for the day.
+create or replace function public.get_site_crew(p_site_id uuid, p_day date)
+returns table (
+  emp_user_id uuid,
+  full_name text,
+  designation text,
+  attendance_id uuid,
+  attendance_type text,
+  checkin_at timestamptz,
+  checkout_at timestamptz,
+  checkin_source text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not (public.is_admin() or public.is_site_supervisor(p_site_id)) then
+    raise exception 'You cannot view this site';
+  end if;
+
+  return query
+  select
+    e.user_id,
+    coalesce(p.full_name, p.email),
+    e.designation,
+    a.id,
+    a.attendance_type,
+    a.checkin_at,
+    a.checkout_at,
+    a.checkin_source
+  from public.employees e
+  left join public.profiles p on p.auth_uid = e.user_id
+  left join public.attendance a on a.emp_user_id = e.user_id and a.day = p_day
+  where e.site_id = p_site_id
+    and coalesce(e.active, true)
+  order by 2;
+end;
+$$;
+
+grant execute on function public.get_site_crew(uuid, date) to authenticated;
+
+/* ===================== BULK MARK ===================== */
+
+-- p_entries: [{ emp_user_id, status: present|half|absent, checkin: "HH:MM",
+-- checkout: "HH:MM" | null }], times as wall clock in the employee's policy
+-- timezone. Returns { ok, results: [{ emp_user_id, ok, code }] }.
+create or replace function public.bulk_mark_attendance(
+  p_site_id uuid,
+  p_day date,
+  p_entries jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry jsonb;
+  v_emp uuid;
+  v_status text;
+  v_policy public.attendance_policies;
+  v_checkin timestamptz;
+  v_checkout timestamptz;
+  v_late integer;
+  v_row public.attendance;
+  v_code text;
+  v_results jsonb := '[]'::jsonb;
+begin
+  if not (public.is_admin() or public.is_site_supervisor(p_site_id)) then
+    raise exception 'You cannot mark attendance for this site';
+  end if;
+
+  v_policy := public.effective_attendance_policy(null, p_site_id);
+  if p_day > (now() at time zone v_policy.timezone)::date then
+    raise exception 'Attendance cannot be marked for a future day';
+  end if;
+
+  for v_entry in select * from jsonb_array_elements(coalesce(p_entries, '[]')) loop
+    v_emp := (v_entry ->> 'emp_user_id')::uuid;
+    v_status := v_entry ->> 'status';
+    v_code := null;
+
+    if v_status not in ('present', 'half', 'absent') then
+      raise exception 'Unknown status %', v_status;
+    end if;
+
+    v_policy := public.effective_attendance_policy(v_emp, p_site_id);
+    v_checkin := (p_day + (v_entry ->> 'checkin')::time) at time zone v_policy.timezone;
+    v_checkout := (p_day + (v_entry ->> 'checkout')::time) at time zone v_policy.timezone;
+
+    select * into v_row
+    from public.attendance
+    where emp_user_id = v_emp and day = p_day
+    for update;
+
+    if not exists (
+      select 1 from public.employees
+      where user_id = v_emp and site_id = p_site_id and coalesce(active, true)
+    ) then
+      v_code := 'NOT_IN_CREW';
+    elsif v_row.id is not null and v_row.checkin_source is distinct from 'bulk' then
+      -- The employee's own scan (or an admin correction) wins
+      v_code := 'ALREADY_CHECKED_IN';
+    elsif v_status = 'absent' then
+      if v_row.id is not null then
+        delete from public.attendance where id = v_row.id;
+      end if;
+    elsif v_checkin is null then
+      v_code := 'CHECKIN_REQUIRED';
+    elsif (v_entry ->> 'checkin')::time > v_policy.checkin_cutoff then
+      v_code := 'AFTER_CUTOFF';
+    elsif v_checkin > now() or v_checkout > now() then
+      v_code := 'IN_FUTURE';
+    elsif v_checkout is not null and v_checkout <= v_checkin then
+      v_code := 'INVALID_TIMES';
+    else
+      v_late := public.policy_late_minutes(v_policy, v_checkin);
+      if v_late <= v_policy.late_grace_minutes then
+        v_late := 0;
+      end if;
+
+      -- The supervisor's present/half call stands; times only feed the
+      -- late and early markers.
+      if v_row.id is null then
+        insert into public.attendance (
+          emp_user_id, site_id, day, checkin_at, checkout_at,
+          checkin_source, checkout_source, attendance_type,
+          late_minutes, early_leave_minutes, marked_by, marked_at
+        )
+        values (
+          v_emp, p_site_id, p_day, v_checkin, v_checkout,
+          'bulk', case when v_checkout is not null then 'bulk' end,
+          case when v_status = 'present' then 'full' else 'half' end,
+          v_late, public.policy_early_leave_minutes(v_policy, v_checkout),
+          auth.uid(), now()
+        );
+      else
+        update public.attendance
+        set checkin_at = v_checkin,
+            checkout_at = v_checkout,
+            checkout_source = case when v_checkout is not null then 'bulk' end,
+            attendance_type = case when v_status = 'present' then 'full' else 'half' end,
+            late_minutes = v_late,
+            early_leave_minutes = public.policy_early_leave_minutes(v_policy, v_checkout),
+            marked_by = auth.uid(),
+            marked_at = now(),
+            updated_at = now()
+        where id = v_row.id;
+      end if;
+    end if;
+
+    v_results := v_results || jsonb_build_object(
+      'emp_user_id', v_emp,
+      'ok', v_code is null,
+      'code', v_code
+    );
+  end loop;
+
+  return jsonb_build_object('ok', true, 'results', v_results);
+end;
+$$;
+
+grant execute on function public.bulk_mark_attendance(uuid, date, jsonb)
+  to authenticated;
@@ -0,0 +1,230 @@
+-- Supervisor access.
+--
+-- A supervisor sits between admin and employee. For the crew of the sites
+-- they are assigned to (employees whose site_id is one of them) they can
+-- see attendance, leaves and correction requests, and approve or reject
+-- leaves and corrections. They get no access to wages, the ledger or any
+-- other site, and never act on their own requests.
+--
+-- Read access is granted by extra select policies keyed on the assignment;
+-- decisions go through functions that check the same scope.
+
+/* ===================== SCOPE ===================== */
+
+create or replace function public.supervises_employee(p_emp_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_emp_user_id <> auth.uid()
+    and exists (
+      select 1
+      from public.employees e
+      where e.user_id = p_emp_user_id
+        and e.site_id is not null
+        and public.is_site_supervisor(e.site_id)
+    );
+$$;
+
+grant execute on function public.supervises_employee(uuid) to authenticated;
+
+/* ===================== READ POLICIES ===================== */
+
+create policy "Supervisors read crew attendance"
+  on public.attendance for select
+  to authenticated
+  using (public.supervises_employee(emp_user_id));
+
+create policy "Supervisors read crew leaves"
+  on public.leaves for select
+  to authenticated
+  using (public.supervises_employee(emp_user_id));
+
+create policy "Supervisors read crew regularizations"
+  on public.attendance_regularizations for select
+  to authenticated
+  using (public.supervises_employee(emp_user_id));
+
+create policy "Supervisors read crew profiles"
+  on public.profiles for select
+  to authenticated
+  using (public.supervises_employee(auth_uid));
+
+-- Decisions are followed by a notification to the employee
+create policy "Supervisors notify crew"
+  on public.notifications for insert
+  to authenticated
+  with check (public.supervises_employee(user_id));
+
+/* ===================== LEAVES ===================== */
+
+-- Same approval path as the admin screen, including any unpaid-leave
+-- deduction, once the leave is confirmed to belong to the caller's crew.
+create or replace function public.approve_crew_leave(p_leave_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+begin
+  select * into v_leave from public.leaves where id = p_leave_id;
+
+  if not found then
+    raise exception 'Leave not found';
+  end if;
+
+  if not public.supervises_employee(v_leave.emp_user_id) then
+    raise exception 'This leave is not from your crew';
+  end if;
+
+  if v_leave.status <> 'pending' then
+    raise exception 'Leave has already been %', v_leave.status;
+  end if;
+
+  perform public.approve_leave_with_deduction(p_leave_id);
+end;
+$$;
+
+create or replace function public.reject_crew_leave(p_leave_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+begin
+  select * into v_leave from public.leaves where id = p_leave_id;
+
+  if not found then
+    raise exception 'Leave not found';
+  end if;
+
+  if not public.supervises_employee(v_leave.emp_user_id) then
+    raise exception 'This leave is not from your crew';
+  end if;
+
+  update public.leaves
+  set status = 'rejected',
+      decided_at = now(),
+      decided_by = auth.uid()
+  where id = p_leave_id
+    and status = 'pending';
+
+  if not found then
+    raise exception 'Leave is not pending';
+  end if;
+end;
+$$;
+
+grant execute on function public.approve_crew_leave(uuid) to authenticated;
+grant execute on function public.reject_crew_leave(uuid) to authenticated;
+
+/* ===================== REGULARIZATIONS ===================== */
+
+create or replace function public.approve_regularization(p_request_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_req public.attendance_regularizations;
+  v_row public.attendance;
+begin
+  select * into v_req
+  from public.attendance_regularizations
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'Request not found';
+  end if;
+
+  if not (public.is_admin() or public.supervises_employee(v_req.emp_user_id)) then
+    raise exception 'Only admins or the crew supervisor can approve regularizations';
+  end if;
+
+  if v_req.status <> 'pending' then
+    raise exception 'Request has already been %', v_req.status;
+  end if;
+
+  select * into v_row
+  from public.attendance
+  where emp_user_id = v_req.emp_user_id and day = v_req.day
+  for update;
+
+  if found then
+    update public.attendance
+    set checkin_at = v_req.proposed_checkin,
+        checkout_at = coalesce(v_req.proposed_checkout, checkout_at),
+        checkout_source = case
+          when v_req.proposed_checkout is not null then 'regularized'
+          else checkout_source
+        end
+    where id = v_row.id;
+  else
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkout_at,
+      checkin_source, checkout_source
+    )
+    select
+      v_req.emp_user_id, e.site_id, v_req.day,
+      v_req.proposed_checkin, v_req.proposed_checkout,
+      'regularized',
+      case when v_req.proposed_checkout is not null then 'regularized' end
+    from public.employees e
+    where e.user_id = v_req.emp_user_id
+    returning * into v_row;
+  end if;
+
+  v_row := public.refresh_attendance_derived(v_row.id);
+
+  perform public.reverse_absence_debit(v_req.emp_user_id, v_req.day, v_req.id);
+
+  update public.attendance_regularizations
+  set status = 'approved',
+      attendance_id = v_row.id,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = v_req.id;
+end;
+$$;
+
+create or replace function public.reject_regularization(
+  p_request_id uuid,
+  p_note text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_emp uuid;
+begin
+  select emp_user_id into v_emp
+  from public.attendance_regularizations
+  where id = p_request_id;
+
+  if not (public.is_admin() or public.supervises_employee(v_emp)) then
+    raise exception 'Only admins or the crew supervisor can reject regularizations';
+  end if;
+
+  update public.attendance_regularizations
+  set status = 'rejected',
+      admin_note = nullif(trim(p_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = p_request_id
+    and status = 'pending';
+
+  if not found then
+    raise exception 'Request is not pending';
+  end if;
+end;
+$$;
@@ -0,0 +1,824 @@
+-- Admin permissions.
+--
+-- Admin screens used to be all-or-nothing behind is_admin(). Each admin
+-- action is now covered by a permission key, and an admin account can be
+-- limited to a role template (a named set of keys), e.g. an accountant who
+-- runs the ledger and advances, or HR who handles leaves and holidays.
+-- Admins without a template keep full access, so existing accounts are
+-- unaffected until one is assigned.
+--
+-- Direct table writes are limited by restrictive policies that apply on top
+-- of the existing admin policies; admin functions check the same keys.
+
+/* ===================== CATALOGUE ===================== */
+
+create table if not exists public.permissions (
+  key text primary key,
+  label text not null,
+  description text
+);
+
+insert into public.permissions (key, label, description) values
+  ('employees.manage', 'Manage employees', 'Add and edit employees, wages and supervisor assignments'),
+  ('employees.delete', 'Delete employees', 'Remove employee accounts'),
+  ('sites.manage', 'Manage sites', 'Create, edit and deactivate sites and rotate their QR codes'),
+  ('attendance.manage', 'Manage attendance', 'Edit attendance, policies, overtime, corrections and bulk marking'),
+  ('leaves.manage', 'Manage leaves', 'Approve and reject leave requests'),
+  ('holidays.manage', 'Manage holidays', 'Company holidays and weekly offs'),
+  ('advances.manage', 'Manage advances', 'Approve and reject salary advances'),
+  ('ledger.manage', 'Manage ledger', 'Manual ledger entries and salary settlement'),
+  ('complaints.manage', 'Manage complaints', 'Update complaint status'),
+  ('announcements.manage', 'Send announcements', 'Send and delete announcements'),
+  ('permissions.manage', 'Manage permissions', 'Edit role templates and admin access')
+on conflict (key) do nothing;
+
+create table if not exists public.role_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  description text,
+  created_at timestamptz default now()
+);
+
+create table if not exists public.role_template_permissions (
+  template_id uuid not null references public.role_templates(id) on delete cascade,
+  permission_key text not null references public.permissions(key) on delete cascade,
+  primary key (template_id, permission_key)
+);
+
+-- Null means full access. A template in use cannot be deleted, so removing
+-- one never silently widens an admin's access.
+alter table public.profiles
+  add column if not exists role_template_id uuid
+    references public.role_templates(id) on delete restrict;
+
+insert into public.role_templates (name, description) values
+  ('Accountant', 'Ledger, salary settlement and advances'),
+  ('HR', 'Employees, attendance, leaves, holidays and complaints')
+on conflict (name) do nothing;
+
+insert into public.role_template_permissions (template_id, permission_key)
+select t.id, p.key
+from public.role_templates t
+join (values
+  ('Accountant', 'ledger.manage'),
+  ('Accountant', 'advances.manage'),
+  ('HR', 'employees.manage'),
+  ('HR', 'attendance.manage'),
+  ('HR', 'leaves.manage'),
+  ('HR', 'holidays.manage'),
+  ('HR', 'complaints.manage'),
+  ('HR', 'announcements.manage')
+) as p(template, key) on p.template = t.name
+on conflict do nothing;
+
+/* ===================== CHECKS ===================== */
+
+create or replace function public.has_permission(p_key text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin()
+    and exists (
+      select 1
+      from public.profiles p
+      where p.auth_uid = auth.uid()
+        and (
+          p.role_template_id is null
+          or exists (
+            select 1
+            from public.role_template_permissions rtp
+            where rtp.template_id = p.role_template_id
+              and rtp.permission_key = p_key
+          )
+        )
+    );
+$$;
+
+-- Keys the signed-in user holds, for hiding screens and actions
+create or replace function public.my_permissions()
+returns setof text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select key from public.permissions where public.has_permission(key);
+$$;
+
+grant execute on function public.has_permission(text) to authenticated;
+grant execute on function public.my_permissions() to authenticated;
+
+/* ===================== TEMPLATES ===================== */
+
+alter table public.permissions enable row level security;
+alter table public.role_templates enable row level security;
+alter table public.role_template_permissions enable row level security;
+
+create policy "Admins read permissions"
+  on public.permissions for select
+  to authenticated
+  using (public.is_admin());
+
+create policy "Admins read role templates"
+  on public.role_templates for select
+  to authenticated
+  using (public.is_admin());
+
+create policy "Permission managers manage role templates"
+  on public.role_templates for all
+  to authenticated
+  using (public.has_permission('permissions.manage'))
+  with check (public.has_permission('permissions.manage'));
+
+create policy "Admins read role template permissions"
+  on public.role_template_permissions for select
+  to authenticated
+  using (public.is_admin());
+
+create policy "Permission managers manage role template permissions"
+  on public.role_template_permissions for all
+  to authenticated
+  using (public.has_permission('permissions.manage'))
+  with check (public.has_permission('permissions.manage'));
+
+-- Assign a template to an admin account, or null for full access. Admins
+-- cannot change their own access.
+create or replace function public.set_admin_role_template(
+  p_user_id uuid,
+  p_template_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('permissions.manage') then
+    raise exception 'You do not have permission to change admin access';
+  end if;
+
+  if p_user_id = auth.uid() then
+    raise exception 'You cannot change your own access';
+  end if;
+
+  update public.profiles
+  set role_template_id = p_template_id
+  where auth_uid = p_user_id
+    and role = 'admin';
+
+  if not found then
+    raise exception 'Admin not found';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_admin_role_template(uuid, uuid) to authenticated;
+
+/* ===================== TABLE WRITES ===================== */
+
+-- Restrictive policies narrow what the existing admin policies allow; they
+-- leave employees and supervisors untouched.
+do $$
+declare
+  r record;
+begin
+  for r in
+    select * from (values
+      ('employees', 'insert', 'employees.manage'),
+      ('employees', 'update', 'employees.manage'),
+      ('employees', 'delete', 'employees.delete'),
+      ('site_supervisors', 'insert', 'employees.manage'),
+      ('site_supervisors', 'update', 'employees.manage'),
+      ('site_supervisors', 'delete', 'employees.manage'),
+      ('sites', 'insert', 'sites.manage'),
+      ('sites', 'update', 'sites.manage'),
+      ('sites', 'delete', 'sites.manage'),
+      ('attendance', 'insert', 'attendance.manage'),
+      ('attendance', 'update', 'attendance.manage'),
+      ('attendance', 'delete', 'attendance.manage'),
+      ('attendance_policies', 'insert', 'attendance.manage'),
+      ('attendance_policies', 'update', 'attendance.manage'),
+      ('attendance_policies', 'delete', 'attendance.manage'),
+      ('attendance_regularizations', 'update', 'attendance.manage'),
+      ('attendance_regularizations', 'delete', 'attendance.manage'),
+      ('leaves', 'update', 'leaves.manage'),
+      ('leaves', 'delete', 'leaves.manage'),
+      ('holidays', 'insert', 'holidays.manage'),
+      ('holidays', 'update', 'holidays.manage'),
+      ('holidays', 'delete', 'holidays.manage'),
+      ('weekly_holidays', 'insert', 'holidays.manage'),
+      ('weekly_holidays', 'update', 'holidays.manage'),
+      ('weekly_holidays', 'delete', 'holidays.manage'),
+      ('company_leaves', 'insert', 'holidays.manage'),
+      ('company_leaves', 'update', 'holidays.manage'),
+      ('company_leaves', 'delete', 'holidays.manage'),
+      ('advance_requests', 'update', 'advances.manage'),
+      ('advance_requests', 'delete', 'advances.manage'),
+      ('complaints', 'update', 'complaints.manage'),
+      ('complaints', 'delete', 'complaints.manage'),
+      ('notifications', 'delete', 'announcements.manage')
+    ) as t(tbl, cmd, perm)
+  loop
+    execute format(
+      'create policy %I on public.%I as restrictive for %s to authenticated %s',
+      'Admin permission ' || r.cmd,
+      r.tbl,
+      r.cmd,
+      case r.cmd
+        when 'insert' then format('with check (not public.is_admin() or public.has_permission(%L))', r.perm)
+        when 'update' then format('using (not public.is_admin() or public.has_permission(%1$L)) with check (not public.is_admin() or public.has_permission(%1$L))', r.perm)
+        else format('using (not public.is_admin() or public.has_permission(%L))', r.perm)
+      end
+    );
+  end loop;
+end;
+$$;
+
+-- The ledger carries advance payouts as well as manual entries and salary
+-- settlement, so either key opens it. Without one an admin cannot read it.
+create policy "Admin permission select"
+  on public.money_ledger as restrictive for select
+  to authenticated
+  using (
+    not public.is_admin()
+    or public.has_permission('ledger.manage')
+    or public.has_permission('advances.manage')
+  );
+
+create policy "Admin permission insert"
+  on public.money_ledger as restrictive for insert
+  to authenticated
+  with check (
+    not public.is_admin()
+    or public.has_permission('ledger.manage')
+    or public.has_permission('advances.manage')
+  );
+
+create policy "Admin permission update"
+  on public.money_ledger as restrictive for update
+  to authenticated
+  using (not public.is_admin() or public.has_permission('ledger.manage'))
+  with check (not public.is_admin() or public.has_permission('ledger.manage'));
+
+create policy "Admin permission delete"
+  on public.money_ledger as restrictive for delete
+  to authenticated
+  using (not public.is_admin() or public.has_permission('ledger.manage'));
+
+-- Other admin notifications (decisions on requests) stay open to every
+-- admin; only announcements need the key.
+create policy "Admin permission insert"
+  on public.notifications as restrictive for insert
+  to authenticated
+  with check (
+    not public.is_admin()
+    or title is distinct from 'Announcement'
+    or public.has_permission('announcements.manage')
+  );
+
+/* ===================== LEAVES ===================== */
+
+-- The admin screen approves through here so the key is checked; the
+-- underlying function is no longer callable directly.
+create or replace function public.approve_leave(p_leave_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('leaves.manage') then
+    raise exception 'You do not have permission to approve leaves';
+  end if;
+
+  perform public.approve_leave_with_deduction(p_leave_id);
+end;
+$$;
+
+grant execute on function public.approve_leave(uuid) to authenticated;
+revoke execute on function public.approve_leave_with_deduction(uuid) from public, anon, authenticated;
+
+/* ===================== ADMIN FUNCTIONS ===================== */
+
+-- Same bodies as before; the is_admin() check becomes the matching key.
+
+create or replace function public.rotate_site_qr_secret(p_site_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if not public.has_permission('sites.manage') then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  update public.site_qr_keys
+  set secret = encode(extensions.gen_random_bytes(32), 'hex'),
+      rotated_at = now()
+  where site_id = p_site_id;
+end;
+$$;
+
+create or replace function public.approve_overtime(p_attendance_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.attendance;
+  v_policy public.attendance_policies;
+  v_wage numeric;
+begin
+  if not public.has_permission('attendance.manage') then
+    raise exception 'You do not have permission to approve overtime';
+  end if;
+
+  select * into v_row
+  from public.attendance
+  where id = p_attendance_id
+  for update;
+
+  if not found then
+    raise exception 'Attendance record not found';
+  end if;
+
+  if v_row.overtime_minutes <= 0 then
+    raise exception 'No overtime recorded for this day';
+  end if;
+
+  if v_row.overtime_status = 'approved' then
+    return;
+  end if;
+
+  v_policy := public.effective_attendance_policy(v_row.emp_user_id, v_row.site_id);
+
+  select coalesce(daily_wage, 0) into v_wage
+  from public.employees
+  where user_id = v_row.emp_user_id;
+
+  update public.attendance
+  set overtime_status = 'approved',
+      overtime_reviewed_by = auth.uid(),
+      overtime_reviewed_at = now()
+  where id = v_row.id;
+
+  insert into public.money_ledger (
+    emp_user_id, amount, type, reason, month_year, entry_date,
+    reference_id, created_by
+  )
+  values (
+    v_row.emp_user_id,
+    round(
+      v_row.overtime_minutes / 60.0 / v_policy.standard_shift_hours
+        * coalesce(v_wage, 0) * v_policy.overtime_multiplier,
+      2
+    ),
+    'credit',
+    format('Overtime %sh %sm (x%s)',
+      v_row.overtime_minutes / 60, v_row.overtime_minutes % 60,
+      v_policy.overtime_multiplier),
+    date_trunc('month', v_row.day)::date,
+    v_row.day,
+    v_row.id,
+    auth.uid()
+  );
+end;
+$$;
+
+create or replace function public.reject_overtime(p_attendance_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('attendance.manage') then
+    raise exception 'You do not have permission to reject overtime';
+  end if;
+
+  update public.attendance
+  set overtime_status = 'rejected',
+      overtime_reviewed_by = auth.uid(),
+      overtime_reviewed_at = now()
+  where id = p_attendance_id
+    and overtime_minutes > 0;
+
+  if not found then
+    raise exception 'No overtime recorded for this day';
+  end if;
+
+  delete from public.money_ledger
+  where reference_id = p_attendance_id
+    and type = 'credit'
+    and reason like 'Overtime %';
+end;
+$$;
+
+create or replace function public.admin_save_attendance(
+  p_emp_user_id uuid,
+  p_day date,
+  p_checkin timestamptz,
+  p_reason text,
+  p_checkout timestamptz default null,
+  p_site_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old public.attendance;
+  v_row public.attendance;
+  v_audit_id uuid := gen_random_uuid();
+  v_adjustment numeric;
+  v_site uuid;
+begin
+  if not public.has_permission('attendance.manage') then
+    raise exception 'You do not have permission to edit attendance';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'A reason is required';
+  end if;
+
+  if p_checkin is null then
+    raise exception 'Check-in time is required';
+  end if;
+
+  if p_checkout is not null and p_checkout <= p_checkin then
+    raise exception 'Check-out must be after check-in';
+  end if;
+
+  select * into v_old
+  from public.attendance
+  where emp_user_id = p_emp_user_id and day = p_day
+  for update;
+
+  if found then
+    update public.attendance
+    set checkin_at = p_checkin,
+        checkout_at = p_checkout,
+        site_id = coalesce(p_site_id, site_id),
+        checkin_source = 'admin',
+        checkout_source = case when p_checkout is not null then 'admin' end
+    where id = v_old.id;
+
+    v_row := public.refresh_attendance_derived(v_old.id);
+  else
+    select coalesce(p_site_id, site_id) into v_site
+    from public.employees
+    where user_id = p_emp_user_id;
+
+    if v_site is null then
+      raise exception 'Pick a site for this employee';
+    end if;
+
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkout_at,
+      checkin_source, checkout_source
+    )
+    values (
+      p_emp_user_id, v_site, p_day, p_checkin, p_checkout,
+      'admin', case when p_checkout is not null then 'admin' end
+    )
+    returning * into v_row;
+
+    v_row := public.refresh_attendance_derived(v_row.id);
+    perform public.reverse_absence_debit(p_emp_user_id, p_day, v_audit_id);
+  end if;
+
+  v_adjustment := public.post_attendance_adjustment(
+    p_emp_user_id, p_day, v_old.attendance_type, v_row.attendance_type, v_audit_id
+  );
+
+  insert into public.attendance_audit (
+    id, attendance_id, emp_user_id, day, action,
+    old_values, new_values, reason, ledger_adjustment, actor
+  )
+  values (
+    v_audit_id, v_row.id, p_emp_user_id, p_day,
+    case when v_old.id is null then 'create' else 'update' end,
+    case when v_old.id is not null then to_jsonb(v_old) end,
+    to_jsonb(v_row),
+    trim(p_reason),
+    v_adjustment,
+    auth.uid()
+  );
+
+  return v_row.id;
+end;
+$$;
+
+create or replace function public.admin_delete_attendance(
+  p_attendance_id uuid,
+  p_reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old public.attendance;
+  v_audit_id uuid := gen_random_uuid();
+  v_adjustment numeric;
+begin
+  if not public.has_permission('attendance.manage') then
+    raise exception 'You do not have permission to edit attendance';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'A reason is required';
+  end if;
+
+  select * into v_old
+  from public.attendance
+  where id = p_attendance_id
+  for update;
+
+  if not found then
+    raise exception 'Attendance record not found';
+  end if;
+
+  delete from public.attendance where id = v_old.id;
+
+  -- Overtime for a day that no longer exists is not owed
+  delete from public.money_ledger
+  where reference_id = v_old.id
+    and type = 'credit'
+    and reason like 'Overtime %';
+
+  v_adjustment := public.post_attendance_adjustment(
+    v_old.emp_user_id, v_old.day, v_old.attendance_type, null, v_audit_id
+  );
+
+  insert into public.attendance_audit (
+    id, attendance_id, emp_user_id, day, action,
+    old_values, new_values, reason, ledger_adjustment, actor
+  )
+  values (
+    v_audit_id, v_old.id, v_old.emp_user_id, v_old.day, 'delete',
+    to_jsonb(v_old), null, trim(p_reason), v_adjustment, auth.uid()
+  );
+end;
+$$;
+
+create or replace function public.set_site_supervisor(
+  p_user_id uuid,
+  p_site_ids uuid[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('employees.manage') then
+    raise exception 'You do not have permission to assign supervisors';
+  end if;
+
+  if exists (
+    select 1 from public.profiles
+    where auth_uid = p_user_id and role = 'admin'
+  ) then
+    raise exception 'Admins cannot be made supervisors';
+  end if;
+
+  delete from public.site_supervisors where user_id = p_user_id;
+
+  insert into public.site_supervisors (user_id, site_id)
+  select p_user_id, unnest(coalesce(p_site_ids, '{}'));
+
+  update public.profiles
+  set role = case
+        when cardinality(coalesce(p_site_ids, '{}')) > 0 then 'supervisor'
+        else 'employee'
+      end
+  where auth_uid = p_user_id;
+end;
+$$;
+
+create or replace function public.bulk_mark_attendance(
+  p_site_id uuid,
+  p_day date,
+  p_entries jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry jsonb;
+  v_emp uuid;
+  v_status text;
+  v_policy public.attendance_policies;
+  v_checkin timestamptz;
+  v_checkout timestamptz;
+  v_late integer;
+  v_row public.attendance;
+  v_code text;
+  v_results jsonb := '[]'::jsonb;
+begin
+  if not (public.has_permission('attendance.manage') or public.is_site_supervisor(p_site_id)) then
+    raise exception 'You cannot mark attendance for this site';
+  end if;
+
+  v_policy := public.effective_attendance_policy(null, p_site_id);
+  if p_day > (now() at time zone v_policy.timezone)::date then
+    raise exception 'Attendance cannot be marked for a future day';
+  end if;
+
+  for v_entry in select * from jsonb_array_elements(coalesce(p_entries, '[]')) loop
+    v_emp := (v_entry ->> 'emp_user_id')::uuid;
+    v_status := v_entry ->> 'status';
+    v_code := null;
+
+    if v_status not in ('present', 'half', 'absent') then
+      raise exception 'Unknown status %', v_status;
+    end if;
+
+    v_policy := public.effective_attendance_policy(v_emp, p_site_id);
+    v_checkin := (p_day + (v_entry ->> 'checkin')::time) at time zone v_policy.timezone;
+    v_checkout := (p_day + (v_entry ->> 'checkout')::time) at time zone v_policy.timezone;
+
+    select * into v_row
+    from public.attendance
+    where emp_user_id = v_emp and day = p_day
+    for update;
+
+    if not exists (
+      select 1 from public.employees
+      where user_id = v_emp and site_id = p_site_id and coalesce(active, true)
+    ) then
+      v_code := 'NOT_IN_CREW';
+    elsif v_row.id is not null and v_row.checkin_source is distinct from 'bulk' then
+      -- The employee's own scan (or an admin correction) wins
+      v_code := 'ALREADY_CHECKED_IN';
+    elsif v_status = 'absent' then
+      if v_row.id is not null then
+        delete from public.attendance where id = v_row.id;
+      end if;
+    elsif v_checkin is null then
+      v_code := 'CHECKIN_REQUIRED';
+    elsif (v_entry ->> 'checkin')::time > v_policy.checkin_cutoff then
+      v_code := 'AFTER_CUTOFF';
+    elsif v_checkin > now() or v_checkout > now() then
+      v_code := 'IN_FUTURE';
+    elsif v_checkout is not null and v_checkout <= v_checkin then
+      v_code := 'INVALID_TIMES';
+    else
+      v_late := public.policy_late_minutes(v_policy, v_checkin);
+      if v_late <= v_policy.late_grace_minutes then
+        v_late := 0;
+      end if;
+
+      -- The supervisor's present/half call stands; times only feed the
+      -- late and early markers.
+      if v_row.id is null then
+        insert into public.attendance (
+          emp_user_id, site_id, day, checkin_at, checkout_at,
+          checkin_source, checkout_source, attendance_type,
+          late_minutes, early_leave_minutes, marked_by, marked_at
+        )
+        values (
+          v_emp, p_site_id, p_day, v_checkin, v_checkout,
+          'bulk', case when v_checkout is not null then 'bulk' end,
+          case when v_status = 'present' then 'full' else 'half' end,
+          v_late, public.policy_early_leave_minutes(v_policy, v_checkout),
+          auth.uid(), now()
+        );
+      else
+        update public.attendance
+        set checkin_at = v_checkin,
+            checkout_at = v_checkout,
+            checkout_source = case when v_checkout is not null then 'bulk' end,
+            attendance_type = case when v_status = 'present' then 'full' else 'half' end,
+            late_minutes = v_late,
+            early_leave_minutes = public.policy_early_leave_minutes(v_policy, v_checkout),
+            marked_by = auth.uid(),
+            marked_at = now(),
+            updated_at = now()
+        where id = v_row.id;
+      end if;
+    end if;
+
+    v_results := v_results || jsonb_build_object(
+      'emp_user_id', v_emp,
+      'ok', v_code is null,
+      'code', v_code
+    );
+  end loop;
+
+  return jsonb_build_object('ok', true, 'results', v_results);
+end;
+$$;
+
+create or replace function public.approve_regularization(p_request_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_req public.attendance_regularizations;
+  v_row public.attendance;
+begin
+  select * into v_req
+  from public.attendance_regularizations
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'Request not found';
+  end if;
+
+  if not (public.has_permission('attendance.manage') or public.supervises_employee(v_req.emp_user_id)) then
+    raise exception 'You do not have permission to approve this request';
+  end if;
+
+  if v_req.status <> 'pending' then
+    raise exception 'Request has already been %', v_req.status;
+  end if;
+
+  select * into v_row
+  from public.attendance
+  where emp_user_id = v_req.emp_user_id and day = v_req.day
+  for update;
+
+  if found then
+    update public.attendance
+    set checkin_at = v_req.proposed_checkin,
+        checkout_at = coalesce(v_req.proposed_checkout, checkout_at),
+        checkout_source = case
+          when v_req.proposed_checkout is not null then 'regularized'
+          else checkout_source
+        end
+    where id = v_row.id;
+  else
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkout_at,
+      checkin_source, checkout_source
+    )
+    select
+      v_req.emp_user_id, e.site_id, v_req.day,
+      v_req.proposed_checkin, v_req.proposed_checkout,
+      'regularized',
+      case when v_req.proposed_checkout is not null then 'regularized' end
+    from public.employees e
+    where e.user_id = v_req.emp_user_id
+    returning * into v_row;
+  end if;
+
+  v_row := public.refresh_attendance_derived(v_row.id);
+
+  perform public.reverse_absence_debit(v_req.emp_user_id, v_req.day, v_req.id);
+
+  update public.attendance_regularizations
+  set status = 'approved',
+      attendance_id = v_row.id,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = v_req.id;
+end;
+$$;
+
+create or replace function public.reject_regularization(
+  p_request_id uuid,
+  p_note text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_emp uuid;
+begin
+  select emp_user_id into v_emp
+  from public.attendance_regularizations
+  where id = p_request_id;
+
+  if not (public.has_permission('attendance.manage') or public.supervises_employee(v_emp)) then
+    raise exception 'You do not have permission to reject this request';
+  end if;
+
+  update public.attendance_regularizations
+  set status = 'rejected',
+      admin_note = nullif(trim(p_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = p_request_id
+    and status = 'pending';
+
+  if not found then
+    raise exception 'Request is not pending';
+  end if;
+end;
+$$;
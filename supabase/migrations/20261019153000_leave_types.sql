@@ -0,0 +1,416 @@
+-- Leave types with separate balances.
+--
+-- Every leave used to be priced against one monthly paid quota. Leaves now
+-- carry a type (casual, sick, earned, unpaid, or any an admin adds), and each
+-- type has its own balance:
+--
+--   * accrual: 'monthly' credits accrual_days each month, 'yearly' credits
+--     accrual_days on 1 January, 'none' never accrues (unpaid types);
+--   * carry_forward_cap: how much of a year's unused balance moves into the
+--     next year;
+--   * is_paid: days of an unpaid type always cost a day's wage;
+--   * requires_document: the request must attach a supporting document.
+--
+-- Accrual starts from the month the employee was added. Approval walks the
+-- leave day by day: a day is paid while the type's balance lasts, otherwise
+-- it is debited from the ledger with the leave as reference.
+--
+-- attendance_policies.paid_leaves_per_month no longer prices leave.
+
+/* ===================== TYPES ===================== */
+
+create table if not exists public.leave_types (
+  code text primary key,
+  name text not null,
+  is_paid boolean not null default true,
+  accrual text not null default 'monthly'
+    check (accrual in ('monthly', 'yearly', 'none')),
+  accrual_days numeric(5, 2) not null default 0
+    check (accrual_days >= 0),
+  carry_forward_cap numeric(5, 2) not null default 0
+    check (carry_forward_cap >= 0),
+  requires_document boolean not null default false,
+  is_active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz default now()
+);
+
+insert into public.leave_types
+  (code, name, is_paid, accrual, accrual_days, carry_forward_cap, requires_document, sort_order)
+values
+  ('casual', 'Casual Leave', true, 'monthly', 1, 0, false, 1),
+  ('sick', 'Sick Leave', true, 'yearly', 6, 0, true, 2),
+  ('earned', 'Earned Leave', true, 'monthly', 1, 15, false, 3),
+  ('unpaid', 'Unpaid Leave', false, 'none', 0, 0, false, 4)
+on conflict (code) do nothing;
+
+alter table public.leave_types enable row level security;
+
+create policy "Everyone reads leave types"
+  on public.leave_types for select
+  to authenticated
+  using (true);
+
+create policy "Leave managers manage leave types"
+  on public.leave_types for all
+  to authenticated
+  using (public.has_permission('leaves.manage'))
+  with check (public.has_permission('leaves.manage'));
+
+/* ===================== LEAVES ===================== */
+
+-- Requests made before types existed count as casual leave
+update public.leaves set leave_type = 'casual' where leave_type is null;
+
+alter table public.leaves
+  alter column leave_type set default 'casual',
+  add column if not exists document_path text;
+
+alter table public.leaves
+  add constraint leaves_leave_type_fkey
+    foreign key (leave_type) references public.leave_types(code) not valid;
+
+create or replace function public.check_leave_request()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_type public.leave_types;
+begin
+  select * into v_type from public.leave_types where code = new.leave_type;
+
+  if not found or not v_type.is_active then
+    raise exception 'This leave type is not available';
+  end if;
+
+  if v_type.requires_document and new.document_path is null then
+    raise exception '% needs a supporting document', v_type.name;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists leaves_check_request on public.leaves;
+create trigger leaves_check_request
+  before insert on public.leaves
+  for each row execute function public.check_leave_request();
+
+/* ===================== DOCUMENTS ===================== */
+
+-- Files live under <employee user id>/...
+insert into storage.buckets (id, name, public)
+values ('leave-documents', 'leave-documents', false)
+on conflict (id) do nothing;
+
+create policy "Employees upload own leave documents"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'leave-documents'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Leave documents visible to owner and approvers"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'leave-documents'
+    and (
+      (storage.foldername(name))[1] = auth.uid()::text
+      or public.has_permission('leaves.manage')
+      or public.supervises_employee(((storage.foldername(name))[1])::uuid)
+    )
+  );
+
+/* ===================== BALANCES ===================== */
+
+-- Approved days of a type within a calendar year
+create or replace function public.leave_days_used(
+  p_emp_user_id uuid,
+  p_leave_type text,
+  p_year integer,
+  p_exclude_leave_id uuid default null
+)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::numeric
+  from public.leaves l
+  cross join lateral generate_series(l.start_date, l.end_date, interval '1 day') as d(day)
+  where l.emp_user_id = p_emp_user_id
+    and l.leave_type = p_leave_type
+    and l.status = 'approved'
+    and l.id is distinct from p_exclude_leave_id
+    and extract(year from d.day) = p_year;
+$$;
+
+-- Credited within p_as_of's year, up to and including p_as_of's month
+create or replace function public.leave_accrued(
+  p_type public.leave_types,
+  p_joined date,
+  p_as_of date
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_as_of < date_trunc('month', p_joined) then 0
+    when p_type.accrual = 'monthly' then
+      p_type.accrual_days * (
+        extract(month from p_as_of)
+        - case
+            when extract(year from p_joined) = extract(year from p_as_of)
+              then extract(month from p_joined)
+            else 1
+          end
+        + 1
+      )
+    when p_type.accrual = 'yearly' then p_type.accrual_days
+    else 0
+  end;
+$$;
+
+-- What is left of a type as of a day: this year's accrual plus what was
+-- carried in, less every approved day of the type this year.
+create or replace function public.leave_balance(
+  p_emp_user_id uuid,
+  p_leave_type text,
+  p_as_of date default current_date,
+  p_exclude_leave_id uuid default null
+)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_type public.leave_types;
+  v_joined date;
+  v_year integer;
+  v_carry numeric := 0;
+begin
+  select * into v_type from public.leave_types where code = p_leave_type;
+  if not found then
+    return 0;
+  end if;
+
+  select coalesce(created_at, now())::date into v_joined
+  from public.employees
+  where user_id = p_emp_user_id;
+
+  v_joined := coalesce(v_joined, p_as_of);
+
+  for v_year in extract(year from v_joined)::integer .. extract(year from p_as_of)::integer - 1
+  loop
+    v_carry := least(
+      v_type.carry_forward_cap,
+      greatest(
+        0,
+        v_carry
+          + public.leave_accrued(v_type, v_joined, make_date(v_year, 12, 31))
+          - public.leave_days_used(p_emp_user_id, p_leave_type, v_year, p_exclude_leave_id)
+      )
+    );
+  end loop;
+
+  return v_carry
+    + public.leave_accrued(v_type, v_joined, p_as_of)
+    - public.leave_days_used(
+        p_emp_user_id, p_leave_type,
+        extract(year from p_as_of)::integer, p_exclude_leave_id
+      );
+end;
+$$;
+
+-- Balance per active type for the current year, for the employee, their
+-- supervisor or an admin.
+create or replace function public.get_leave_balances(p_emp_user_id uuid)
+returns table (
+  leave_type text,
+  name text,
+  is_paid boolean,
+  requires_document boolean,
+  available numeric,
+  used numeric,
+  pending numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not (
+    p_emp_user_id = auth.uid()
+    or public.is_admin()
+    or public.supervises_employee(p_emp_user_id)
+  ) then
+    raise exception 'Not allowed';
+  end if;
+
+  return query
+  select
+    t.code,
+    t.name,
+    t.is_paid,
+    t.requires_document,
+    case
+      when t.is_paid then greatest(0, public.leave_balance(p_emp_user_id, t.code))
+      else 0
+    end,
+    public.leave_days_used(
+      p_emp_user_id, t.code, extract(year from current_date)::integer
+    ),
+    (
+      select count(*)::numeric
+      from public.leaves l
+      cross join lateral generate_series(l.start_date, l.end_date, interval '1 day') as d(day)
+      where l.emp_user_id = p_emp_user_id
+        and l.leave_type = t.code
+        and l.status = 'pending'
+        and extract(year from d.day) = extract(year from current_date)
+    )
+  from public.leave_types t
+  where t.is_active
+  order by t.sort_order, t.name;
+end;
+$$;
+
+grant execute on function public.get_leave_balances(uuid) to authenticated;
+
+/* ===================== PRICING ===================== */
+
+-- One row per day of the leave. Days already taken earlier in the same
+-- leave come off the balance before the next day is priced.
+create or replace function public.leave_payment_days(p_leave_id uuid)
+returns table (day date, is_paid boolean, amount numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+  v_type public.leave_types;
+  v_wage numeric;
+  v_day date;
+  v_taken numeric := 0;
+  v_year integer;
+begin
+  select * into v_leave from public.leaves where id = p_leave_id;
+  if not found then
+    return;
+  end if;
+
+  select * into v_type from public.leave_types where code = v_leave.leave_type;
+
+  select coalesce(daily_wage, 0) into v_wage
+  from public.employees
+  where user_id = v_leave.emp_user_id;
+
+  v_wage := coalesce(v_wage, 0);
+
+  for v_day in
+    select generate_series(v_leave.start_date, v_leave.end_date, interval '1 day')::date
+  loop
+    if v_year is distinct from extract(year from v_day)::integer then
+      v_year := extract(year from v_day)::integer;
+      v_taken := 0;
+    end if;
+
+    day := v_day;
+    is_paid := coalesce(v_type.is_paid, false)
+      and public.leave_balance(v_leave.emp_user_id, v_leave.leave_type, v_day, v_leave.id)
+        - v_taken >= 1;
+    amount := case when is_paid then 0 else v_wage end;
+
+    if is_paid then
+      v_taken := v_taken + 1;
+    end if;
+
+    return next;
+  end loop;
+end;
+$$;
+
+drop function if exists public.evaluate_leave_payment(uuid);
+
+create function public.evaluate_leave_payment(p_leave_id uuid)
+returns table (is_paid boolean, deduction_amount numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select bool_and(d.is_paid), coalesce(sum(d.amount), 0)
+  from public.leave_payment_days(p_leave_id) d;
+$$;
+
+grant execute on function public.evaluate_leave_payment(uuid) to authenticated;
+
+-- Unpaid days are debited one ledger row per day, referencing the leave
+create or replace function public.approve_leave_with_deduction(p_leave_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+  v_type_name text;
+  v_paid boolean;
+  v_deduction numeric;
+begin
+  select * into v_leave
+  from public.leaves
+  where id = p_leave_id
+  for update;
+
+  if not found then
+    raise exception 'Leave not found';
+  end if;
+
+  if v_leave.status <> 'pending' then
+    raise exception 'Leave has already been %', v_leave.status;
+  end if;
+
+  select name into v_type_name from public.leave_types where code = v_leave.leave_type;
+
+  insert into public.money_ledger (
+    emp_user_id, amount, type, reason, month_year, entry_date,
+    reference_id, created_by
+  )
+  select
+    v_leave.emp_user_id,
+    d.amount,
+    'debit'::public.ledger_type,
+    format('Unpaid leave (%s)', coalesce(v_type_name, v_leave.leave_type)),
+    date_trunc('month', d.day)::date,
+    d.day,
+    v_leave.id,
+    auth.uid()
+  from public.leave_payment_days(v_leave.id) d
+  where not d.is_paid
+    and d.amount > 0;
+
+  select is_paid, deduction_amount into v_paid, v_deduction
+  from public.evaluate_leave_payment(v_leave.id);
+
+  update public.leaves
+  set status = 'approved',
+      is_paid = v_paid,
+      deduction_amount = v_deduction,
+      decided_at = now(),
+      decided_by = auth.uid()
+  where id = v_leave.id;
+end;
+$$;
+
+revoke all on function public.leave_payment_days(uuid) from public, anon, authenticated;
@@ -0,0 +1,190 @@
+-- Half-day leave requests.
+--
+-- A leave can now cover the first or second half of a single day.
+-- leaves.days becomes fractional (0.5 for a half day), and balances, pricing
+-- and ledger debits count a half-day leave as half a day.
+
+/* ===================== LEAVES ===================== */
+
+alter table public.leaves
+  alter column days type numeric(5, 1),
+  add column if not exists half_day text
+    check (half_day in ('first', 'second'));
+
+alter table public.leaves
+  add constraint leaves_half_day_single_day
+    check (half_day is null or start_date = end_date);
+
+-- Days a leave takes off each date it covers
+create or replace function public.leave_day_fraction(p_half_day text)
+returns numeric
+language sql
+immutable
+as $$
+  select case when p_half_day is null then 1 else 0.5 end::numeric;
+$$;
+
+-- days is derived from the dates so a client cannot under-report it
+create or replace function public.check_leave_request()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_type public.leave_types;
+begin
+  select * into v_type from public.leave_types where code = new.leave_type;
+
+  if not found or not v_type.is_active then
+    raise exception 'This leave type is not available';
+  end if;
+
+  if v_type.requires_document and new.document_path is null then
+    raise exception '% needs a supporting document', v_type.name;
+  end if;
+
+  if new.half_day is not null and new.start_date <> new.end_date then
+    raise exception 'A half-day leave must start and end on the same day';
+  end if;
+
+  new.days := (new.end_date - new.start_date + 1)
+    * public.leave_day_fraction(new.half_day);
+
+  return new;
+end;
+$$;
+
+/* ===================== BALANCES ===================== */
+
+create or replace function public.leave_days_used(
+  p_emp_user_id uuid,
+  p_leave_type text,
+  p_year integer,
+  p_exclude_leave_id uuid default null
+)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(public.leave_day_fraction(l.half_day)), 0)
+  from public.leaves l
+  cross join lateral generate_series(l.start_date, l.end_date, interval '1 day') as d(day)
+  where l.emp_user_id = p_emp_user_id
+    and l.leave_type = p_leave_type
+    and l.status = 'approved'
+    and l.id is distinct from p_exclude_leave_id
+    and extract(year from d.day) = p_year;
+$$;
+
+create or replace function public.get_leave_balances(p_emp_user_id uuid)
+returns table (
+  leave_type text,
+  name text,
+  is_paid boolean,
+  requires_document boolean,
+  available numeric,
+  used numeric,
+  pending numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not (
+    p_emp_user_id = auth.uid()
+    or public.is_admin()
+    or public.supervises_employee(p_emp_user_id)
+  ) then
+    raise exception 'Not allowed';
+  end if;
+
+  return query
+  select
+    t.code,
+    t.name,
+    t.is_paid,
+    t.requires_document,
+    case
+      when t.is_paid then greatest(0, public.leave_balance(p_emp_user_id, t.code))
+      else 0
+    end,
+    public.leave_days_used(
+      p_emp_user_id, t.code, extract(year from current_date)::integer
+    ),
+    (
+      select coalesce(sum(public.leave_day_fraction(l.half_day)), 0)
+      from public.leaves l
+      cross join lateral generate_series(l.start_date, l.end_date, interval '1 day') as d(day)
+      where l.emp_user_id = p_emp_user_id
+        and l.leave_type = t.code
+        and l.status = 'pending'
+        and extract(year from d.day) = extract(year from current_date)
+    )
+  from public.leave_types t
+  where t.is_active
+  order by t.sort_order, t.name;
+end;
+$$;
+
+/* ===================== PRICING ===================== */
+
+-- A day is paid only when the balance covers the whole of it; a half day
+-- costs half a day's wage.
+create or replace function public.leave_payment_days(p_leave_id uuid)
+returns table (day date, is_paid boolean, amount numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+  v_type public.leave_types;
+  v_wage numeric;
+  v_unit numeric;
+  v_day date;
+  v_taken numeric := 0;
+  v_year integer;
+begin
+  select * into v_leave from public.leaves where id = p_leave_id;
+  if not found then
+    return;
+  end if;
+
+  select * into v_type from public.leave_types where code = v_leave.leave_type;
+
+  select coalesce(daily_wage, 0) into v_wage
+  from public.employees
+  where user_id = v_leave.emp_user_id;
+
+  v_wage := coalesce(v_wage, 0);
+  v_unit := public.leave_day_fraction(v_leave.half_day);
+
+  for v_day in
+    select generate_series(v_leave.start_date, v_leave.end_date, interval '1 day')::date
+  loop
+    if v_year is distinct from extract(year from v_day)::integer then
+      v_year := extract(year from v_day)::integer;
+      v_taken := 0;
+    end if;
+
+    day := v_day;
+    is_paid := coalesce(v_type.is_paid, false)
+      and public.leave_balance(v_leave.emp_user_id, v_leave.leave_type, v_day, v_leave.id)
+        - v_taken >= v_unit;
+    amount := case when is_paid then 0 else round(v_wage * v_unit, 2) end;
+
+    if is_paid then
+      v_taken := v_taken + v_unit;
+    end if;
+
+    return next;
+  end loop;
+end;
+$$;
+
+revoke all on function public.leave_payment_days(uuid) from public, anon, authenticated;
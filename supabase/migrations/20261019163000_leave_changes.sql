@@ -0,0 +1,359 @@
+-- Leave cancellation and modification by employees.
+--
+-- A pending leave is the employee's to cancel or re-date. An approved leave
+-- that has not started yet can only be changed through a request an admin
+-- with leaves.manage approves:
+--
+--   * change_type = 'cancel': the leave becomes 'cancelled';
+--   * change_type = 'modify': the leave moves to requested_start_date ..
+--     requested_end_date and is priced again.
+--
+-- Either way the unpaid-leave debits approve_leave_with_deduction posted
+-- against the leave are reversed with matching credits, and leave managers
+-- are told about the reversal.
+
+/* ===================== LEAVES ===================== */
+
+alter table public.leaves
+  add column if not exists change_type text
+    check (change_type in ('cancel', 'modify')),
+  add column if not exists requested_start_date date,
+  add column if not exists requested_end_date date,
+  add column if not exists change_requested_at timestamptz;
+
+alter table public.leaves
+  add constraint leaves_requested_dates_check
+    check (
+      (change_type is not distinct from 'modify') = (requested_start_date is not null)
+      and (requested_start_date is null) = (requested_end_date is null)
+      and (requested_end_date is null or requested_end_date >= requested_start_date)
+    );
+
+-- The type check stays on new requests only; re-dating a leave keeps days
+-- in step with the dates.
+create or replace function public.check_leave_request()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_type public.leave_types;
+begin
+  if tg_op = 'INSERT' then
+    select * into v_type from public.leave_types where code = new.leave_type;
+
+    if not found or not v_type.is_active then
+      raise exception 'This leave type is not available';
+    end if;
+
+    if v_type.requires_document and new.document_path is null then
+      raise exception '% needs a supporting document', v_type.name;
+    end if;
+  end if;
+
+  if new.half_day is not null and new.start_date <> new.end_date then
+    raise exception 'A half-day leave must start and end on the same day';
+  end if;
+
+  new.days := (new.end_date - new.start_date + 1)
+    * public.leave_day_fraction(new.half_day);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists leaves_check_request on public.leaves;
+create trigger leaves_check_request
+  before insert or update of start_date, end_date, half_day on public.leaves
+  for each row execute function public.check_leave_request();
+
+/* ===================== HELPERS ===================== */
+
+-- Every admin who can act on leaves
+create or replace function public.notify_leave_managers(
+  p_leave_id uuid,
+  p_title text,
+  p_body text
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.notifications (user_id, title, body, meta)
+  select
+    p.auth_uid,
+    p_title,
+    p_body,
+    jsonb_build_object('type', 'leave', 'source_id', p_leave_id, 'label', p_title)
+  from public.profiles p
+  where p.role = 'admin'
+    and (
+      p.role_template_id is null
+      or exists (
+        select 1
+        from public.role_template_permissions rtp
+        where rtp.template_id = p.role_template_id
+          and rtp.permission_key = 'leaves.manage'
+      )
+    );
+$$;
+
+-- Credits back whatever is still debited against the leave, month by
+-- month, and returns the total. Safe to call twice.
+create or replace function public.reverse_leave_deductions(p_leave_id uuid)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_total numeric;
+begin
+  with open_months as (
+    select
+      emp_user_id,
+      month_year,
+      sum(case when type = 'debit' then amount else -amount end) as net
+    from public.money_ledger
+    where reference_id = p_leave_id
+    group by emp_user_id, month_year
+  ),
+  credits as (
+    insert into public.money_ledger (
+      emp_user_id, amount, type, reason, month_year, entry_date,
+      reference_id, created_by
+    )
+    select
+      emp_user_id,
+      net,
+      'credit'::public.ledger_type,
+      'Unpaid leave reversed',
+      month_year,
+      current_date,
+      p_leave_id,
+      auth.uid()
+    from open_months
+    where net > 0
+    returning amount
+  )
+  select coalesce(sum(amount), 0) into v_total from credits;
+
+  return v_total;
+end;
+$$;
+
+revoke all on function public.notify_leave_managers(uuid, text, text) from public, anon, authenticated;
+revoke all on function public.reverse_leave_deductions(uuid) from public, anon, authenticated;
+
+/* ===================== EMPLOYEE ===================== */
+
+-- Pending: cancelled straight away. Approved and not started: a
+-- cancellation request for an admin.
+create or replace function public.cancel_leave(p_leave_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+begin
+  select * into v_leave
+  from public.leaves
+  where id = p_leave_id
+  for update;
+
+  if not found or v_leave.emp_user_id <> auth.uid() then
+    raise exception 'Leave not found';
+  end if;
+
+  if v_leave.status = 'pending' then
+    update public.leaves
+    set status = 'cancelled',
+        decided_at = now(),
+        decided_by = auth.uid()
+    where id = p_leave_id;
+    return;
+  end if;
+
+  if v_leave.status <> 'approved' or v_leave.start_date <= current_date then
+    raise exception 'Only pending or upcoming approved leaves can be cancelled';
+  end if;
+
+  if v_leave.change_type is not null then
+    raise exception 'A change to this leave is already awaiting approval';
+  end if;
+
+  update public.leaves
+  set change_type = 'cancel',
+      change_requested_at = now()
+  where id = p_leave_id;
+
+  perform public.notify_leave_managers(
+    p_leave_id,
+    'Leave Cancellation Requested',
+    format('An employee asked to cancel their approved leave from %s to %s.',
+      to_char(v_leave.start_date, 'DD Mon YYYY'),
+      to_char(v_leave.end_date, 'DD Mon YYYY'))
+  );
+end;
+$$;
+
+-- Pending: re-dated straight away. Approved and not started: a change
+-- request for an admin.
+create or replace function public.modify_leave(
+  p_leave_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+begin
+  select * into v_leave
+  from public.leaves
+  where id = p_leave_id
+  for update;
+
+  if not found or v_leave.emp_user_id <> auth.uid() then
+    raise exception 'Leave not found';
+  end if;
+
+  if p_end_date < p_start_date then
+    raise exception 'The leave must end on or after its start';
+  end if;
+
+  if p_start_date <= current_date then
+    raise exception 'A leave can only be moved to future dates';
+  end if;
+
+  if v_leave.half_day is not null and p_start_date <> p_end_date then
+    raise exception 'A half-day leave must start and end on the same day';
+  end if;
+
+  if p_start_date = v_leave.start_date and p_end_date = v_leave.end_date then
+    raise exception 'These are already the leave dates';
+  end if;
+
+  if v_leave.status = 'pending' then
+    update public.leaves
+    set start_date = p_start_date,
+        end_date = p_end_date
+    where id = p_leave_id;
+    return;
+  end if;
+
+  if v_leave.status <> 'approved' or v_leave.start_date <= current_date then
+    raise exception 'Only pending or upcoming approved leaves can be changed';
+  end if;
+
+  if v_leave.change_type is not null then
+    raise exception 'A change to this leave is already awaiting approval';
+  end if;
+
+  update public.leaves
+  set change_type = 'modify',
+      requested_start_date = p_start_date,
+      requested_end_date = p_end_date,
+      change_requested_at = now()
+  where id = p_leave_id;
+
+  perform public.notify_leave_managers(
+    p_leave_id,
+    'Leave Change Requested',
+    format('An employee asked to move their approved leave to %s – %s.',
+      to_char(p_start_date, 'DD Mon YYYY'),
+      to_char(p_end_date, 'DD Mon YYYY'))
+  );
+end;
+$$;
+
+grant execute on function public.cancel_leave(uuid) to authenticated;
+grant execute on function public.modify_leave(uuid, date, date) to authenticated;
+
+/* ===================== ADMIN ===================== */
+
+-- Approving reverses the leave's deductions; a modified leave is then
+-- priced again for its new dates.
+create or replace function public.decide_leave_change(
+  p_leave_id uuid,
+  p_approve boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+  v_reversed numeric;
+begin
+  if not public.has_permission('leaves.manage') then
+    raise exception 'You do not have permission to manage leaves';
+  end if;
+
+  select * into v_leave
+  from public.leaves
+  where id = p_leave_id
+  for update;
+
+  if not found then
+    raise exception 'Leave not found';
+  end if;
+
+  if v_leave.change_type is null then
+    raise exception 'This leave has no pending change';
+  end if;
+
+  if not p_approve then
+    update public.leaves
+    set change_type = null,
+        requested_start_date = null,
+        requested_end_date = null,
+        change_requested_at = null
+    where id = p_leave_id;
+    return;
+  end if;
+
+  v_reversed := public.reverse_leave_deductions(p_leave_id);
+
+  if v_leave.change_type = 'cancel' then
+    update public.leaves
+    set status = 'cancelled',
+        change_type = null,
+        change_requested_at = null,
+        decided_at = now(),
+        decided_by = auth.uid()
+    where id = p_leave_id;
+  else
+    update public.leaves
+    set start_date = v_leave.requested_start_date,
+        end_date = v_leave.requested_end_date,
+        status = 'pending',
+        change_type = null,
+        requested_start_date = null,
+        requested_end_date = null,
+        change_requested_at = null
+    where id = p_leave_id;
+
+    perform public.approve_leave_with_deduction(p_leave_id);
+  end if;
+
+  if v_reversed > 0 then
+    perform public.notify_leave_managers(
+      p_leave_id,
+      'Leave Deduction Reversed',
+      format('₹%s of unpaid-leave deductions was credited back after a %s.',
+        v_reversed,
+        case when v_leave.change_type = 'cancel' then 'cancellation' else 'change' end)
+    );
+  end if;
+end;
+$$;
+
+grant execute on function public.decide_leave_change(uuid, boolean) to authenticated;
@@ -0,0 +1,47 @@
+-- Minimum site headcount for leave approvals.
+--
+-- sites.min_headcount is the fewest workers a site should have on any
+-- working day. The admin leave screens warn before approving a leave that
+-- would leave the employee's site below it; null means no minimum.
+
+/* ===================== SITES ===================== */
+
+alter table public.sites
+  add column if not exists min_headcount integer
+    check (min_headcount >= 0);
+
+-- Set from the team leave calendar, so leave managers may change it
+-- as well as site managers.
+create or replace function public.set_site_min_headcount(
+  p_site_id uuid,
+  p_min_headcount integer default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not (
+    public.has_permission('leaves.manage')
+    or public.has_permission('sites.manage')
+  ) then
+    raise exception 'You do not have permission to change site staffing';
+  end if;
+
+  if p_min_headcount < 0 then
+    raise exception 'Minimum headcount cannot be negative';
+  end if;
+
+  update public.sites
+  set min_headcount = p_min_headcount,
+      updated_at = now()
+  where id = p_site_id;
+
+  if not found then
+    raise exception 'Site not found';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_site_min_headcount(uuid, integer) to authenticated;
@@ -0,0 +1,187 @@
+-- Server-side leave cost preview.
+--
+-- The employee and admin leave screens each estimated unpaid days on their
+-- own. preview_leave_cost prices a prospective leave with the same function
+-- approval uses, so what is shown is what will be debited:
+--
+--   * company holidays (holidays, company_leaves) and weekly offs
+--     (weekly_holidays, 0 = Sunday) cost nothing and use no balance;
+--   * any other day is paid while the type's balance covers it, otherwise
+--     it costs the day's share of daily_wage.
+
+/* ===================== CALENDAR ===================== */
+
+-- Why a day is not worked, or null for a working day
+create or replace function public.non_working_reason(p_day date)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select coalesce(nullif(h.description, ''), 'Holiday')
+       from public.holidays h
+       where h.holiday_date = p_day
+       limit 1),
+    (select coalesce(nullif(c.title, ''), 'Company leave')
+       from public.company_leaves c
+       where c.leave_date = p_day
+       limit 1),
+    (select 'Weekly off'
+       from public.weekly_holidays w
+       where w.weekday = extract(dow from p_day)::integer
+       limit 1)
+  );
+$$;
+
+grant execute on function public.non_working_reason(date) to authenticated;
+
+/* ===================== PRICING ===================== */
+
+-- One row per calendar day of a leave. Days already taken earlier in the
+-- same leave come off the balance before the next day is priced.
+create or replace function public.price_leave_days(
+  p_emp_user_id uuid,
+  p_leave_type text,
+  p_start_date date,
+  p_end_date date,
+  p_half_day text default null,
+  p_exclude_leave_id uuid default null
+)
+returns table (
+  day date,
+  non_working_reason text,
+  is_paid boolean,
+  units numeric,
+  amount numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_type public.leave_types;
+  v_wage numeric;
+  v_unit numeric;
+  v_day date;
+  v_taken numeric := 0;
+  v_year integer;
+begin
+  select * into v_type from public.leave_types where code = p_leave_type;
+
+  select coalesce(daily_wage, 0) into v_wage
+  from public.employees
+  where user_id = p_emp_user_id;
+
+  v_wage := coalesce(v_wage, 0);
+  v_unit := public.leave_day_fraction(p_half_day);
+
+  for v_day in
+    select generate_series(p_start_date, p_end_date, interval '1 day')::date
+  loop
+    if v_year is distinct from extract(year from v_day)::integer then
+      v_year := extract(year from v_day)::integer;
+      v_taken := 0;
+    end if;
+
+    day := v_day;
+    non_working_reason := public.non_working_reason(v_day);
+
+    if non_working_reason is not null then
+      is_paid := true;
+      units := 0;
+      amount := 0;
+      return next;
+      continue;
+    end if;
+
+    units := v_unit;
+    is_paid := coalesce(v_type.is_paid, false)
+      and public.leave_balance(p_emp_user_id, p_leave_type, v_day, p_exclude_leave_id)
+        - v_taken >= v_unit;
+    amount := case when is_paid then 0 else round(v_wage * v_unit, 2) end;
+
+    if is_paid then
+      v_taken := v_taken + v_unit;
+    end if;
+
+    return next;
+  end loop;
+end;
+$$;
+
+revoke all on function public.price_leave_days(uuid, text, date, date, text, uuid) from public, anon, authenticated;
+
+-- Approval prices an existing leave the same way
+create or replace function public.leave_payment_days(p_leave_id uuid)
+returns table (day date, is_paid boolean, amount numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select d.day, d.is_paid, d.amount
+  from public.leaves l
+  cross join lateral public.price_leave_days(
+    l.emp_user_id, l.leave_type, l.start_date, l.end_date, l.half_day, l.id
+  ) d
+  where l.id = p_leave_id;
+$$;
+
+revoke all on function public.leave_payment_days(uuid) from public, anon, authenticated;
+
+/* ===================== PREVIEW ===================== */
+
+-- For the employee, their supervisor or an admin, before a leave is
+-- requested or approved.
+create or replace function public.preview_leave_cost(
+  p_emp_user_id uuid,
+  p_start_date date,
+  p_end_date date,
+  p_leave_type text,
+  p_half_day text default null
+)
+returns table (
+  day date,
+  non_working_reason text,
+  is_paid boolean,
+  units numeric,
+  amount numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not (
+    p_emp_user_id = auth.uid()
+    or public.is_admin()
+    or public.supervises_employee(p_emp_user_id)
+  ) then
+    raise exception 'Not allowed';
+  end if;
+
+  if p_end_date < p_start_date then
+    raise exception 'The leave must end on or after its start';
+  end if;
+
+  if p_end_date - p_start_date > 366 then
+    raise exception 'A leave cannot be longer than a year';
+  end if;
+
+  if p_half_day is not null and p_start_date <> p_end_date then
+    raise exception 'A half-day leave must start and end on the same day';
+  end if;
+
+  return query
+  select *
+  from public.price_leave_days(
+    p_emp_user_id, p_leave_type, p_start_date, p_end_date, p_half_day
+  );
+end;
+$$;
+
+grant execute on function public.preview_leave_cost(uuid, date, date, text, text) to authenticated;
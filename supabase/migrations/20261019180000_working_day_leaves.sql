@@ -0,0 +1,147 @@
+-- Leaves count working days only.
+--
+-- leaves.days and the balance a leave uses now skip company holidays and
+-- weekly offs (see non_working_reason), matching how leaves are priced. A
+-- Friday-to-Monday leave with Sunday off is three days.
+
+/* ===================== CALENDAR ===================== */
+
+create or replace function public.get_working_days(
+  p_start_date date,
+  p_end_date date
+)
+returns setof date
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select d::date
+  from generate_series(p_start_date, p_end_date, interval '1 day') as d
+  where public.non_working_reason(d::date) is null
+  order by 1;
+$$;
+
+grant execute on function public.get_working_days(date, date) to authenticated;
+
+/* ===================== LEAVES ===================== */
+
+create or replace function public.check_leave_request()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_type public.leave_types;
+  v_working integer;
+begin
+  if tg_op = 'INSERT' then
+    select * into v_type from public.leave_types where code = new.leave_type;
+
+    if not found or not v_type.is_active then
+      raise exception 'This leave type is not available';
+    end if;
+
+    if v_type.requires_document and new.document_path is null then
+      raise exception '% needs a supporting document', v_type.name;
+    end if;
+  end if;
+
+  if new.half_day is not null and new.start_date <> new.end_date then
+    raise exception 'A half-day leave must start and end on the same day';
+  end if;
+
+  select count(*) into v_working
+  from public.get_working_days(new.start_date, new.end_date);
+
+  if v_working = 0 then
+    raise exception 'The selected dates have no working days';
+  end if;
+
+  new.days := v_working * public.leave_day_fraction(new.half_day);
+
+  return new;
+end;
+$$;
+
+-- Recount requests made before this change
+update public.leaves l
+set days = (
+  select count(*) from public.get_working_days(l.start_date, l.end_date)
+) * public.leave_day_fraction(l.half_day);
+
+/* ===================== BALANCES ===================== */
+
+create or replace function public.leave_days_used(
+  p_emp_user_id uuid,
+  p_leave_type text,
+  p_year integer,
+  p_exclude_leave_id uuid default null
+)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(public.leave_day_fraction(l.half_day)), 0)
+  from public.leaves l
+  cross join lateral public.get_working_days(l.start_date, l.end_date) as d(day)
+  where l.emp_user_id = p_emp_user_id
+    and l.leave_type = p_leave_type
+    and l.status = 'approved'
+    and l.id is distinct from p_exclude_leave_id
+    and extract(year from d.day) = p_year;
+$$;
+
+create or replace function public.get_leave_balances(p_emp_user_id uuid)
+returns table (
+  leave_type text,
+  name text,
+  is_paid boolean,
+  requires_document boolean,
+  available numeric,
+  used numeric,
+  pending numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not (
+    p_emp_user_id = auth.uid()
+    or public.is_admin()
+    or public.supervises_employee(p_emp_user_id)
+  ) then
+    raise exception 'Not allowed';
+  end if;
+
+  return query
+  select
+    t.code,
+    t.name,
+    t.is_paid,
+    t.requires_document,
+    case
+      when t.is_paid then greatest(0, public.leave_balance(p_emp_user_id, t.code))
+      else 0
+    end,
+    public.leave_days_used(
+      p_emp_user_id, t.code, extract(year from current_date)::integer
+    ),
+    (
+      select coalesce(sum(public.leave_day_fraction(l.half_day)), 0)
+      from public.leaves l
+      cross join lateral public.get_working_days(l.start_date, l.end_date) as d(day)
+      where l.emp_user_id = p_emp_user_id
+        and l.leave_type = t.code
+        and l.status = 'pending'
+        and extract(year from d.day) = extract(year from current_date)
+    )
+  from public.leave_types t
+  where t.is_active
+  order by t.sort_order, t.name;
+end;
+$$;
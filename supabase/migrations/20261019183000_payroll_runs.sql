@@ -0,0 +1,251 @@
+-- Monthly payroll runs and payslips.
+--
+-- Salary, bonuses, penalties, unpaid leave and advances all land in
+-- money_ledger as separate rows. A payroll run gathers one month of them
+-- into a payslip per employee:
+--
+--   gross              every credit of the month
+--   deductions         debits other than advances and salary payments
+--   advances_recovered debits whose reason starts with 'Advance'
+--   net                gross - deductions - advances_recovered
+--
+-- A run starts as a 'draft' that can be recomputed while it is reviewed.
+-- Locking it freezes the payslips and makes the month's ledger rows
+-- immutable; payslips can still be marked paid afterwards.
+
+/* ===================== TABLES ===================== */
+
+create table if not exists public.payroll_runs (
+  id uuid primary key default gen_random_uuid(),
+  month_year date not null unique
+    check (month_year = date_trunc('month', month_year)::date),
+  status text not null default 'draft'
+    check (status in ('draft', 'locked')),
+  created_by uuid references auth.users(id),
+  created_at timestamptz default now(),
+  computed_at timestamptz default now(),
+  locked_by uuid references auth.users(id),
+  locked_at timestamptz
+);
+
+create table if not exists public.payslips (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references public.payroll_runs(id) on delete cascade,
+  emp_user_id uuid not null,
+  month_year date not null,
+  daily_wage numeric(10, 2) not null default 0,
+  gross numeric(12, 2) not null default 0,
+  deductions numeric(12, 2) not null default 0,
+  advances_recovered numeric(12, 2) not null default 0,
+  net numeric(12, 2) not null default 0,
+  paid_at timestamptz,
+  paid_by uuid references auth.users(id),
+  created_at timestamptz default now(),
+  unique (run_id, emp_user_id)
+);
+
+create index if not exists payslips_emp_idx
+  on public.payslips (emp_user_id, month_year);
+
+alter table public.payroll_runs enable row level security;
+alter table public.payslips enable row level security;
+
+-- Writes go through the functions below
+create policy "Ledger managers read payroll runs"
+  on public.payroll_runs for select
+  to authenticated
+  using (public.has_permission('ledger.manage'));
+
+create policy "Ledger managers read payslips"
+  on public.payslips for select
+  to authenticated
+  using (public.has_permission('ledger.manage'));
+
+create policy "Employees read own locked payslips"
+  on public.payslips for select
+  to authenticated
+  using (
+    emp_user_id = auth.uid()
+    and exists (
+      select 1 from public.payroll_runs r
+      where r.id = run_id and r.status = 'locked'
+    )
+  );
+
+/* ===================== LEDGER LOCK ===================== */
+
+create or replace function public.is_payroll_locked(p_month_year date)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.payroll_runs
+    where month_year = date_trunc('month', p_month_year)::date
+      and status = 'locked'
+  );
+$$;
+
+grant execute on function public.is_payroll_locked(date) to authenticated;
+
+create or replace function public.prevent_locked_ledger_change()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op <> 'INSERT' and public.is_payroll_locked(old.month_year) then
+    raise exception 'Payroll for % is locked', to_char(old.month_year, 'Mon YYYY');
+  end if;
+
+  if tg_op <> 'DELETE' and public.is_payroll_locked(new.month_year) then
+    raise exception 'Payroll for % is locked', to_char(new.month_year, 'Mon YYYY');
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists money_ledger_payroll_lock on public.money_ledger;
+create trigger money_ledger_payroll_lock
+  before insert or update or delete on public.money_ledger
+  for each row execute function public.prevent_locked_ledger_change();
+
+/* ===================== RUNS ===================== */
+
+-- Creates the month's draft run, or recomputes it, from the ledger. Every
+-- active employee gets a payslip, even with no entries.
+create or replace function public.compute_payroll_run(p_month_year date)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_month date := date_trunc('month', p_month_year)::date;
+  v_run public.payroll_runs;
+begin
+  if not public.has_permission('ledger.manage') then
+    raise exception 'You do not have permission to run payroll';
+  end if;
+
+  if v_month > date_trunc('month', current_date)::date then
+    raise exception 'Payroll cannot be run for a future month';
+  end if;
+
+  select * into v_run
+  from public.payroll_runs
+  where month_year = v_month
+  for update;
+
+  if found and v_run.status = 'locked' then
+    raise exception 'Payroll for % is already locked', to_char(v_month, 'Mon YYYY');
+  end if;
+
+  if not found then
+    insert into public.payroll_runs (month_year, created_by)
+    values (v_month, auth.uid())
+    returning * into v_run;
+  else
+    update public.payroll_runs
+    set computed_at = now()
+    where id = v_run.id;
+
+    delete from public.payslips where run_id = v_run.id;
+  end if;
+
+  insert into public.payslips (
+    run_id, emp_user_id, month_year, daily_wage,
+    gross, deductions, advances_recovered, net
+  )
+  select
+    v_run.id,
+    e.user_id,
+    v_month,
+    coalesce(e.daily_wage, 0),
+    t.gross,
+    t.deductions,
+    t.advances,
+    t.gross - t.deductions - t.advances
+  from public.employees e
+  cross join lateral (
+    select
+      coalesce(sum(l.amount) filter (where l.type = 'credit'), 0) as gross,
+      coalesce(sum(l.amount) filter (
+        where l.type = 'debit'
+          and coalesce(l.reason, '') not ilike 'advance%'
+          and coalesce(l.reason, '') not ilike 'salary paid%'
+      ), 0) as deductions,
+      coalesce(sum(l.amount) filter (
+        where l.type = 'debit' and l.reason ilike 'advance%'
+      ), 0) as advances
+    from public.money_ledger l
+    where l.emp_user_id = e.user_id
+      and l.month_year = v_month
+  ) t
+  where coalesce(e.active, true)
+     or exists (
+       select 1 from public.money_ledger l
+       where l.emp_user_id = e.user_id and l.month_year = v_month
+     );
+
+  return v_run.id;
+end;
+$$;
+
+create or replace function public.lock_payroll_run(p_run_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('ledger.manage') then
+    raise exception 'You do not have permission to run payroll';
+  end if;
+
+  update public.payroll_runs
+  set status = 'locked',
+      locked_by = auth.uid(),
+      locked_at = now()
+  where id = p_run_id
+    and status = 'draft';
+
+  if not found then
+    raise exception 'Only a draft payroll run can be locked';
+  end if;
+end;
+$$;
+
+-- Payment is recorded on the payslip so the locked ledger stays as it was
+create or replace function public.mark_payslip_paid(p_payslip_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('ledger.manage') then
+    raise exception 'You do not have permission to run payroll';
+  end if;
+
+  update public.payslips s
+  set paid_at = now(),
+      paid_by = auth.uid()
+  from public.payroll_runs r
+  where s.id = p_payslip_id
+    and r.id = s.run_id
+    and r.status = 'locked'
+    and s.paid_at is null;
+
+  if not found then
+    raise exception 'Only unpaid payslips of a locked run can be marked paid';
+  end if;
+end;
+$$;
+
+grant execute on function public.compute_payroll_run(date) to authenticated;
+grant execute on function public.lock_payroll_run(uuid) to authenticated;
+grant execute on function public.mark_payslip_paid(uuid) to authenticated;
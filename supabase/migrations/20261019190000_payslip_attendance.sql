@@ -0,0 +1,99 @@
+-- Day counts behind a payslip.
+--
+-- The payslip PDF shows what the month's pay was earned and lost on, next
+-- to the ledger amounts:
+--
+--   present_days       full days attended
+--   half_days          half days attended
+--   paid_leave_days    approved leave covered by a balance
+--   holidays           company holidays, company leaves and weekly offs
+--   unpaid_leave_days  approved leave beyond the balance
+--   absent_days        working days with no attendance and no leave
+--
+-- Leave days are working days only, priced like approval prices them.
+
+/* ===================== PAYSLIP ATTENDANCE ===================== */
+
+create or replace function public.get_payslip_attendance(p_payslip_id uuid)
+returns table (
+  present_days integer,
+  half_days integer,
+  paid_leave_days numeric,
+  holidays integer,
+  unpaid_leave_days numeric,
+  absent_days integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_slip public.payslips;
+  v_status text;
+  v_start date;
+  v_end date;
+begin
+  select * into v_slip from public.payslips where id = p_payslip_id;
+
+  if not found then
+    raise exception 'Payslip not found';
+  end if;
+
+  select status into v_status from public.payroll_runs where id = v_slip.run_id;
+
+  if not (
+    public.has_permission('ledger.manage')
+    or (v_slip.emp_user_id = auth.uid() and v_status = 'locked')
+  ) then
+    raise exception 'Not allowed';
+  end if;
+
+  v_start := v_slip.month_year;
+  v_end := least(
+    (v_slip.month_year + interval '1 month - 1 day')::date,
+    current_date
+  );
+
+  return query
+  with days as (
+    select
+      d::date as day,
+      public.non_working_reason(d::date) is not null as is_off
+    from generate_series(v_start, v_end, interval '1 day') as d
+  ),
+  worked as (
+    select a.day, a.attendance_type
+    from public.attendance a
+    where a.emp_user_id = v_slip.emp_user_id
+      and a.day between v_start and v_end
+      and a.attendance_type in ('full', 'half')
+  ),
+  leave_days as (
+    select p.day, p.is_paid, public.leave_day_fraction(l.half_day) as units
+    from public.leaves l
+    cross join lateral public.leave_payment_days(l.id) p
+    where l.emp_user_id = v_slip.emp_user_id
+      and l.status = 'approved'
+      and l.start_date <= v_end
+      and l.end_date >= v_start
+      and p.day between v_start and v_end
+      and public.non_working_reason(p.day) is null
+  )
+  select
+    (select count(*)::integer from worked where attendance_type = 'full'),
+    (select count(*)::integer from worked where attendance_type = 'half'),
+    (select coalesce(sum(units), 0) from leave_days where is_paid),
+    (select count(*)::integer from days where is_off),
+    (select coalesce(sum(units), 0) from leave_days where not is_paid),
+    (
+      select count(*)::integer
+      from days
+      where not is_off
+        and not exists (select 1 from worked w where w.day = days.day)
+        and not exists (select 1 from leave_days ld where ld.day = days.day)
+    );
+end;
+$$;
+
+grant execute on function public.get_payslip_attendance(uuid) to authenticated;
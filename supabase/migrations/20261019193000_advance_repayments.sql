@@ -0,0 +1,382 @@
+-- Advance repayment schedules.
+--
+-- Approving an advance used to debit the whole amount in the month it was
+-- approved, which could take a worker's entire pay. An advance is now
+-- approved with a plan, either a number of monthly instalments or a fixed
+-- amount per month, and is recovered a month at a time:
+--
+--   * each payroll run posts one 'Advance recovery' debit per open advance,
+--     referenced to the request, never more than what is still owed;
+--   * what is owed is the amount less the recoveries posted so far;
+--   * an advance can be closed early, which recovers the rest in the
+--     current month.
+--
+-- Recovery debits start with 'Advance' so payslips count them under
+-- advances_recovered.
+
+/* ===================== PLAN ===================== */
+
+alter table public.advance_requests
+  add column if not exists monthly_amount numeric(12, 2)
+    check (monthly_amount is null or monthly_amount > 0),
+  add column if not exists instalments integer
+    check (instalments is null or instalments > 0),
+  add column if not exists recovery_start date
+    check (recovery_start is null or recovery_start = date_trunc('month', recovery_start)::date),
+  add column if not exists approved_by uuid references auth.users(id),
+  add column if not exists approved_at timestamptz,
+  add column if not exists closed_at timestamptz;
+
+-- Advances approved before plans existed were debited in full
+update public.advance_requests
+set monthly_amount = amount,
+    instalments = 1,
+    recovery_start = date_trunc('month', coalesce(created_at, now()))::date,
+    closed_at = coalesce(created_at, now())
+where status = 'approved'
+  and monthly_amount is null;
+
+/* ===================== BALANCES ===================== */
+
+create or replace function public.advance_recovered(p_advance_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(amount), 0)
+  from public.money_ledger
+  where reference_id = p_advance_id
+    and type = 'debit'
+    and reason like 'Advance recovery%';
+$$;
+
+revoke all on function public.advance_recovered(uuid) from public, anon, authenticated;
+
+-- One row per approved advance, for the employee or an admin
+create or replace function public.get_advance_balances(p_emp_user_id uuid)
+returns table (
+  advance_id uuid,
+  amount numeric,
+  monthly_amount numeric,
+  instalments integer,
+  recovery_start date,
+  recovered numeric,
+  outstanding numeric,
+  closed_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not (p_emp_user_id = auth.uid() or public.is_admin()) then
+    raise exception 'Not allowed';
+  end if;
+
+  return query
+  select
+    a.id,
+    a.amount::numeric,
+    a.monthly_amount,
+    a.instalments,
+    a.recovery_start,
+    r.recovered,
+    case
+      when a.closed_at is not null then 0
+      else greatest(a.amount - r.recovered, 0)
+    end,
+    a.closed_at
+  from public.advance_requests a
+  cross join lateral (
+    select public.advance_recovered(a.id) as recovered
+  ) r
+  where a.user_id = p_emp_user_id
+    and a.status = 'approved'
+  order by a.created_at desc;
+end;
+$$;
+
+grant execute on function public.get_advance_balances(uuid) to authenticated;
+
+/* ===================== APPROVAL ===================== */
+
+-- Pass either p_instalments or p_monthly_amount. Recovery starts with the
+-- current month's payroll unless p_recovery_start says otherwise.
+create or replace function public.approve_advance(
+  p_advance_id uuid,
+  p_instalments integer default null,
+  p_monthly_amount numeric default null,
+  p_recovery_start date default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_advance public.advance_requests;
+  v_monthly numeric;
+  v_start date := date_trunc('month', coalesce(p_recovery_start, current_date))::date;
+begin
+  if not public.has_permission('advances.manage') then
+    raise exception 'You do not have permission to approve advances';
+  end if;
+
+  if (p_instalments is null) = (p_monthly_amount is null) then
+    raise exception 'Choose either a number of instalments or a monthly amount';
+  end if;
+
+  select * into v_advance
+  from public.advance_requests
+  where id = p_advance_id
+  for update;
+
+  if not found then
+    raise exception 'Advance request not found';
+  end if;
+
+  if v_advance.status is distinct from 'pending' then
+    raise exception 'This advance request has already been decided';
+  end if;
+
+  if p_instalments is not null then
+    if p_instalments < 1 or p_instalments > 24 then
+      raise exception 'Instalments must be between 1 and 24';
+    end if;
+
+    -- Rounded up to the paisa so the last instalment is the smaller one
+    v_monthly := ceil(v_advance.amount * 100 / p_instalments) / 100;
+  else
+    if p_monthly_amount <= 0 then
+      raise exception 'The monthly amount must be more than zero';
+    end if;
+
+    v_monthly := least(p_monthly_amount, v_advance.amount);
+  end if;
+
+  if public.is_payroll_locked(v_start) then
+    raise exception 'Payroll for % is locked; start recovery in a later month',
+      to_char(v_start, 'Mon YYYY');
+  end if;
+
+  update public.advance_requests
+  set status = 'approved',
+      monthly_amount = v_monthly,
+      instalments = ceil(v_advance.amount / v_monthly)::integer,
+      recovery_start = v_start,
+      approved_by = auth.uid(),
+      approved_at = now()
+  where id = p_advance_id;
+
+  insert into public.notifications (user_id, title, body, meta)
+  values (
+    v_advance.user_id,
+    'Advance Approved',
+    format('Your ₹%s advance has been approved. ₹%s will be recovered each month from %s.',
+      v_advance.amount, v_monthly, to_char(v_start, 'Mon YYYY')),
+    jsonb_build_object('type', 'advance', 'source_id', p_advance_id, 'label', 'Advance Approved')
+  );
+end;
+$$;
+
+grant execute on function public.approve_advance(uuid, integer, numeric, date) to authenticated;
+
+/* ===================== RECOVERY ===================== */
+
+-- Posts the month's instalment of every open advance that has not had one
+-- yet. Safe to call on every payroll recompute.
+create or replace function public.post_advance_recoveries(p_month_year date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_month date := date_trunc('month', p_month_year)::date;
+  v_advance record;
+  v_due numeric;
+begin
+  for v_advance in
+    select a.id, a.user_id, a.amount, a.monthly_amount
+    from public.advance_requests a
+    where a.status = 'approved'
+      and a.closed_at is null
+      and a.recovery_start <= v_month
+      and not exists (
+        select 1 from public.money_ledger l
+        where l.reference_id = a.id
+          and l.month_year = v_month
+          and l.reason like 'Advance recovery%'
+      )
+    for update of a
+  loop
+    v_due := least(
+      v_advance.monthly_amount,
+      v_advance.amount - public.advance_recovered(v_advance.id)
+    );
+
+    if v_due > 0 then
+      insert into public.money_ledger (
+        emp_user_id, amount, type, reason, month_year, reference_id, created_by
+      )
+      values (
+        v_advance.user_id,
+        v_due,
+        'debit',
+        'Advance recovery',
+        v_month,
+        v_advance.id,
+        auth.uid()
+      );
+    end if;
+
+    if v_advance.amount - public.advance_recovered(v_advance.id) <= 0 then
+      update public.advance_requests
+      set closed_at = now()
+      where id = v_advance.id;
+    end if;
+  end loop;
+end;
+$$;
+
+revoke all on function public.post_advance_recoveries(date) from public, anon, authenticated;
+
+-- Recovers whatever is still owed in the current month and closes the plan
+create or replace function public.close_advance_early(p_advance_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_advance public.advance_requests;
+  v_month date := date_trunc('month', current_date)::date;
+  v_due numeric;
+begin
+  if not public.has_permission('advances.manage') then
+    raise exception 'You do not have permission to manage advances';
+  end if;
+
+  select * into v_advance
+  from public.advance_requests
+  where id = p_advance_id
+  for update;
+
+  if not found or v_advance.status is distinct from 'approved' then
+    raise exception 'Only an approved advance can be closed';
+  end if;
+
+  if v_advance.closed_at is not null then
+    raise exception 'This advance is already closed';
+  end if;
+
+  v_due := v_advance.amount - public.advance_recovered(p_advance_id);
+
+  if v_due > 0 then
+    insert into public.money_ledger (
+      emp_user_id, amount, type, reason, month_year, reference_id, created_by
+    )
+    values (
+      v_advance.user_id,
+      v_due,
+      'debit',
+      'Advance recovery (early closure)',
+      v_month,
+      p_advance_id,
+      auth.uid()
+    );
+  end if;
+
+  update public.advance_requests
+  set closed_at = now()
+  where id = p_advance_id;
+end;
+$$;
+
+grant execute on function public.close_advance_early(uuid) to authenticated;
+
+/* ===================== PAYROLL ===================== */
+
+-- Same as before, with the month's advance instalments posted first
+create or replace function public.compute_payroll_run(p_month_year date)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_month date := date_trunc('month', p_month_year)::date;
+  v_run public.payroll_runs;
+begin
+  if not public.has_permission('ledger.manage') then
+    raise exception 'You do not have permission to run payroll';
+  end if;
+
+  if v_month > date_trunc('month', current_date)::date then
+    raise exception 'Payroll cannot be run for a future month';
+  end if;
+
+  select * into v_run
+  from public.payroll_runs
+  where month_year = v_month
+  for update;
+
+  if found and v_run.status = 'locked' then
+    raise exception 'Payroll for % is already locked', to_char(v_month, 'Mon YYYY');
+  end if;
+
+  if not found then
+    insert into public.payroll_runs (month_year, created_by)
+    values (v_month, auth.uid())
+    returning * into v_run;
+  else
+    update public.payroll_runs
+    set computed_at = now()
+    where id = v_run.id;
+
+    delete from public.payslips where run_id = v_run.id;
+  end if;
+
+  perform public.post_advance_recoveries(v_month);
+
+  insert into public.payslips (
+    run_id, emp_user_id, month_year, daily_wage,
+    gross, deductions, advances_recovered, net
+  )
+  select
+    v_run.id,
+    e.user_id,
+    v_month,
+    coalesce(e.daily_wage, 0),
+    t.gross,
+    t.deductions,
+    t.advances,
+    t.gross - t.deductions - t.advances
+  from public.employees e
+  cross join lateral (
+    select
+      coalesce(sum(l.amount) filter (where l.type = 'credit'), 0) as gross,
+      coalesce(sum(l.amount) filter (
+        where l.type = 'debit'
+          and coalesce(l.reason, '') not ilike 'advance%'
+          and coalesce(l.reason, '') not ilike 'salary paid%'
+      ), 0) as deductions,
+      coalesce(sum(l.amount) filter (
+        where l.type = 'debit' and l.reason ilike 'advance%'
+      ), 0) as advances
+    from public.money_ledger l
+    where l.emp_user_id = e.user_id
+      and l.month_year = v_month
+  ) t
+  where coalesce(e.active, true)
+     or exists (
+       select 1 from public.money_ledger l
+       where l.emp_user_id = e.user_id and l.month_year = v_month
+     );
+
+  return v_run.id;
+end;
+$$;
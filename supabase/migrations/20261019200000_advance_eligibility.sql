@@ -0,0 +1,198 @@
+-- Advance eligibility rules.
+--
+-- Any amount could be requested at any time. `advance_policy` holds one set
+-- of rules, checked when a request is inserted; a blocked request fails
+-- with the rule it broke:
+--
+--   * max_balance_percent   at most this share of the month's earned
+--                           balance (get_employee_ledger_balance);
+--   * single_open_advance   no new request while one is pending or still
+--                           being recovered;
+--   * min_tenure_days       days since the employee was added;
+--   * max_requests_per_month requests made in the calendar month.
+--
+-- A null limit switches that rule off.
+
+/* ===================== POLICY ===================== */
+
+create table if not exists public.advance_policy (
+  id uuid primary key default gen_random_uuid(),
+  max_balance_percent numeric(5, 2) default 50
+    check (max_balance_percent is null or (max_balance_percent > 0 and max_balance_percent <= 100)),
+  single_open_advance boolean not null default true,
+  min_tenure_days integer default 90
+    check (min_tenure_days is null or min_tenure_days >= 0),
+  max_requests_per_month integer default 1
+    check (max_requests_per_month is null or max_requests_per_month > 0),
+  updated_by uuid references auth.users(id),
+  updated_at timestamptz default now()
+);
+
+-- Exactly one row
+create unique index if not exists advance_policy_single_idx
+  on public.advance_policy ((true));
+
+insert into public.advance_policy default values
+on conflict do nothing;
+
+alter table public.advance_policy enable row level security;
+
+create policy "Authenticated can read advance policy"
+  on public.advance_policy for select
+  to authenticated
+  using (true);
+
+create policy "Advance managers update advance policy"
+  on public.advance_policy for update
+  to authenticated
+  using (public.has_permission('advances.manage'))
+  with check (public.has_permission('advances.manage'));
+
+/* ===================== ELIGIBILITY ===================== */
+
+-- Where an employee stands against the rules. blocked_reason is the first
+-- rule that stops a new request regardless of amount; max_amount caps the
+-- amount when the balance rule is on.
+create or replace function public.advance_eligibility(p_emp_user_id uuid)
+returns table (
+  balance numeric,
+  outstanding numeric,
+  max_amount numeric,
+  blocked_reason text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_policy public.advance_policy;
+  v_joined date;
+  v_month date := date_trunc('month', current_date)::date;
+  v_count integer;
+begin
+  select * into v_policy from public.advance_policy limit 1;
+
+  select coalesce(b.balance, 0) into balance
+  from public.get_employee_ledger_balance(p_emp_user_id, v_month) b;
+
+  balance := coalesce(balance, 0);
+
+  select coalesce(sum(
+    greatest(a.amount - public.advance_recovered(a.id), 0)
+  ), 0) into outstanding
+  from public.advance_requests a
+  where a.user_id = p_emp_user_id
+    and a.status = 'approved'
+    and a.closed_at is null;
+
+  max_amount := case
+    when v_policy.max_balance_percent is null then null
+    else greatest(floor(balance * v_policy.max_balance_percent / 100), 0)
+  end;
+
+  select e.created_at::date into v_joined
+  from public.employees e
+  where e.user_id = p_emp_user_id;
+
+  select count(*) into v_count
+  from public.advance_requests a
+  where a.user_id = p_emp_user_id
+    and a.created_at >= v_month;
+
+  blocked_reason := case
+    when v_policy.min_tenure_days is not null
+      and v_joined + v_policy.min_tenure_days > current_date
+      then format('Advances are available after %s days of service, from %s',
+        v_policy.min_tenure_days,
+        to_char(v_joined + v_policy.min_tenure_days, 'DD Mon YYYY'))
+    when v_policy.single_open_advance and exists (
+        select 1 from public.advance_requests a
+        where a.user_id = p_emp_user_id
+          and (
+            a.status = 'pending'
+            or (a.status = 'approved' and a.closed_at is null)
+          )
+      )
+      then 'You already have an advance that is pending or still being recovered'
+    when v_policy.max_requests_per_month is not null
+      and v_count >= v_policy.max_requests_per_month
+      then format('Only %s advance request(s) can be made in a month',
+        v_policy.max_requests_per_month)
+    when max_amount is not null and max_amount <= 0
+      then 'You have no earned balance to take an advance against this month'
+  end;
+
+  return next;
+end;
+$$;
+
+revoke all on function public.advance_eligibility(uuid) from public, anon, authenticated;
+
+-- For the employee's form and the approval screen
+create or replace function public.get_advance_eligibility(p_emp_user_id uuid)
+returns table (
+  balance numeric,
+  outstanding numeric,
+  max_amount numeric,
+  blocked_reason text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not (
+    p_emp_user_id = auth.uid()
+    or public.has_permission('advances.manage')
+  ) then
+    raise exception 'Not allowed';
+  end if;
+
+  return query select * from public.advance_eligibility(p_emp_user_id);
+end;
+$$;
+
+grant execute on function public.get_advance_eligibility(uuid) to authenticated;
+
+/* ===================== REQUEST CHECK ===================== */
+
+create or replace function public.check_advance_request()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_check record;
+begin
+  if new.amount is null or new.amount <= 0 then
+    raise exception 'Enter an amount more than zero';
+  end if;
+
+  select * into v_check from public.advance_eligibility(new.user_id);
+
+  if v_check.blocked_reason is not null then
+    raise exception '%', v_check.blocked_reason;
+  end if;
+
+  if v_check.max_amount is not null and new.amount > v_check.max_amount then
+    raise exception '%', format(
+      'The most you can request now is ₹%s (%s%% of your ₹%s balance)',
+      v_check.max_amount,
+      (select max_balance_percent from public.advance_policy limit 1),
+      v_check.balance
+    );
+  end if;
+
+  new.status := 'pending';
+
+  return new;
+end;
+$$;
+
+drop trigger if exists advance_requests_check on public.advance_requests;
+create trigger advance_requests_check
+  before insert on public.advance_requests
+  for each row execute function public.check_advance_request();
@@ -0,0 +1,395 @@
+-- Atomic, repeatable approvals.
+--
+-- Approving or rejecting an advance or a leave took several client calls
+-- (status, ledger, notification) whose errors were partly ignored, so a
+-- failure could approve without debiting, and a retry could debit twice.
+-- Holidays were added one day per request. Each workflow is now a single
+-- server function keyed on the request id:
+--
+--   * the status change, ledger rows and employee notification commit
+--     together or not at all;
+--   * calling it again for a request already in that state does nothing;
+--   * deciding the other way once decided fails with a clear message.
+
+/* ===================== ADVANCES ===================== */
+
+create or replace function public.approve_advance(
+  p_advance_id uuid,
+  p_instalments integer default null,
+  p_monthly_amount numeric default null,
+  p_recovery_start date default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_advance public.advance_requests;
+  v_monthly numeric;
+  v_start date := date_trunc('month', coalesce(p_recovery_start, current_date))::date;
+begin
+  if not public.has_permission('advances.manage') then
+    raise exception 'You do not have permission to approve advances';
+  end if;
+
+  select * into v_advance
+  from public.advance_requests
+  where id = p_advance_id
+  for update;
+
+  if not found then
+    raise exception 'Advance request not found';
+  end if;
+
+  if v_advance.status = 'approved' then
+    return;
+  end if;
+
+  if v_advance.status is distinct from 'pending' then
+    raise exception 'This advance request has already been %', v_advance.status;
+  end if;
+
+  if (p_instalments is null) = (p_monthly_amount is null) then
+    raise exception 'Choose either a number of instalments or a monthly amount';
+  end if;
+
+  if p_instalments is not null then
+    if p_instalments < 1 or p_instalments > 24 then
+      raise exception 'Instalments must be between 1 and 24';
+    end if;
+
+    -- Rounded up to the paisa so the last instalment is the smaller one
+    v_monthly := ceil(v_advance.amount * 100 / p_instalments) / 100;
+  else
+    if p_monthly_amount <= 0 then
+      raise exception 'The monthly amount must be more than zero';
+    end if;
+
+    v_monthly := least(p_monthly_amount, v_advance.amount);
+  end if;
+
+  if public.is_payroll_locked(v_start) then
+    raise exception 'Payroll for % is locked; start recovery in a later month',
+      to_char(v_start, 'Mon YYYY');
+  end if;
+
+  update public.advance_requests
+  set status = 'approved',
+      monthly_amount = v_monthly,
+      instalments = ceil(v_advance.amount / v_monthly)::integer,
+      recovery_start = v_start,
+      approved_by = auth.uid(),
+      approved_at = now()
+  where id = p_advance_id;
+
+  insert into public.notifications (user_id, title, body, meta)
+  values (
+    v_advance.user_id,
+    'Advance Approved',
+    format('Your ₹%s advance has been approved. ₹%s will be recovered each month from %s.',
+      v_advance.amount, v_monthly, to_char(v_start, 'Mon YYYY')),
+    jsonb_build_object('type', 'advance', 'source_id', p_advance_id, 'label', 'Advance Approved')
+  );
+end;
+$$;
+
+create or replace function public.reject_advance(p_advance_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_advance public.advance_requests;
+begin
+  if not public.has_permission('advances.manage') then
+    raise exception 'You do not have permission to reject advances';
+  end if;
+
+  select * into v_advance
+  from public.advance_requests
+  where id = p_advance_id
+  for update;
+
+  if not found then
+    raise exception 'Advance request not found';
+  end if;
+
+  if v_advance.status = 'rejected' then
+    return;
+  end if;
+
+  if v_advance.status is distinct from 'pending' then
+    raise exception 'This advance request has already been %', v_advance.status;
+  end if;
+
+  update public.advance_requests
+  set status = 'rejected'
+  where id = p_advance_id;
+
+  insert into public.notifications (user_id, title, body, meta)
+  values (
+    v_advance.user_id,
+    'Advance Rejected',
+    format('Your ₹%s advance request has been rejected.', v_advance.amount),
+    jsonb_build_object('type', 'advance', 'source_id', p_advance_id, 'label', 'Advance Rejected')
+  );
+end;
+$$;
+
+grant execute on function public.reject_advance(uuid) to authenticated;
+
+/* ===================== LEAVES ===================== */
+
+create or replace function public.notify_leave_employee(
+  p_leave_id uuid,
+  p_title text,
+  p_body text
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.notifications (user_id, title, body, meta)
+  select
+    l.emp_user_id,
+    p_title,
+    p_body,
+    jsonb_build_object('type', 'leave', 'source_id', p_leave_id, 'label', p_title)
+  from public.leaves l
+  where l.id = p_leave_id;
+$$;
+
+revoke all on function public.notify_leave_employee(uuid, text, text) from public, anon, authenticated;
+
+create or replace function public.approve_leave(p_leave_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+begin
+  if not public.has_permission('leaves.manage') then
+    raise exception 'You do not have permission to approve leaves';
+  end if;
+
+  select * into v_leave
+  from public.leaves
+  where id = p_leave_id
+  for update;
+
+  if not found then
+    raise exception 'Leave not found';
+  end if;
+
+  if v_leave.status = 'approved' then
+    return;
+  end if;
+
+  perform public.approve_leave_with_deduction(p_leave_id);
+
+  perform public.notify_leave_employee(
+    p_leave_id,
+    'Leave Approved',
+    format('Your leave from %s to %s has been approved.',
+      to_char(v_leave.start_date, 'DD Mon YYYY'),
+      to_char(v_leave.end_date, 'DD Mon YYYY'))
+  );
+end;
+$$;
+
+create or replace function public.reject_leave(p_leave_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+begin
+  if not public.has_permission('leaves.manage') then
+    raise exception 'You do not have permission to reject leaves';
+  end if;
+
+  select * into v_leave
+  from public.leaves
+  where id = p_leave_id
+  for update;
+
+  if not found then
+    raise exception 'Leave not found';
+  end if;
+
+  if v_leave.status = 'rejected' then
+    return;
+  end if;
+
+  if v_leave.status <> 'pending' then
+    raise exception 'Leave has already been %', v_leave.status;
+  end if;
+
+  update public.leaves
+  set status = 'rejected',
+      decided_at = now(),
+      decided_by = auth.uid()
+  where id = p_leave_id;
+
+  perform public.notify_leave_employee(
+    p_leave_id,
+    'Leave Rejected',
+    format('Your leave from %s to %s has been rejected.',
+      to_char(v_leave.start_date, 'DD Mon YYYY'),
+      to_char(v_leave.end_date, 'DD Mon YYYY'))
+  );
+end;
+$$;
+
+grant execute on function public.reject_leave(uuid) to authenticated;
+
+-- As before, now telling the employee in the same transaction. Once the
+-- change is decided there is nothing pending, so a retry fails harmlessly.
+create or replace function public.decide_leave_change(
+  p_leave_id uuid,
+  p_approve boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+  v_reversed numeric;
+  v_what text;
+begin
+  if not public.has_permission('leaves.manage') then
+    raise exception 'You do not have permission to manage leaves';
+  end if;
+
+  select * into v_leave
+  from public.leaves
+  where id = p_leave_id
+  for update;
+
+  if not found then
+    raise exception 'Leave not found';
+  end if;
+
+  if v_leave.change_type is null then
+    raise exception 'This leave has no pending change';
+  end if;
+
+  v_what := case when v_leave.change_type = 'cancel' then 'cancellation' else 'date change' end;
+
+  if not p_approve then
+    update public.leaves
+    set change_type = null,
+        requested_start_date = null,
+        requested_end_date = null,
+        change_requested_at = null
+    where id = p_leave_id;
+
+    perform public.notify_leave_employee(
+      p_leave_id,
+      'Leave Change Rejected',
+      format('Your %s request for the leave from %s has been rejected.',
+        v_what, to_char(v_leave.start_date, 'DD Mon YYYY'))
+    );
+    return;
+  end if;
+
+  v_reversed := public.reverse_leave_deductions(p_leave_id);
+
+  if v_leave.change_type = 'cancel' then
+    update public.leaves
+    set status = 'cancelled',
+        change_type = null,
+        change_requested_at = null,
+        decided_at = now(),
+        decided_by = auth.uid()
+    where id = p_leave_id;
+  else
+    update public.leaves
+    set start_date = v_leave.requested_start_date,
+        end_date = v_leave.requested_end_date,
+        status = 'pending',
+        change_type = null,
+        requested_start_date = null,
+        requested_end_date = null,
+        change_requested_at = null
+    where id = p_leave_id;
+
+    perform public.approve_leave_with_deduction(p_leave_id);
+  end if;
+
+  if v_reversed > 0 then
+    perform public.notify_leave_managers(
+      p_leave_id,
+      'Leave Deduction Reversed',
+      format('₹%s of unpaid-leave deductions was credited back after a %s.',
+        v_reversed,
+        case when v_leave.change_type = 'cancel' then 'cancellation' else 'change' end)
+    );
+  end if;
+
+  perform public.notify_leave_employee(
+    p_leave_id,
+    'Leave Change Approved',
+    format('Your %s request for the leave from %s has been approved.',
+      v_what, to_char(v_leave.start_date, 'DD Mon YYYY'))
+  );
+end;
+$$;
+
+
+/* ===================== HOLIDAYS ===================== */
+
+-- Adds every day of the range in one statement. Days that are already
+-- holidays are left as they are, so repeating a range adds nothing.
+-- Returns the number of days added.
+create or replace function public.add_holidays(
+  p_start_date date,
+  p_end_date date,
+  p_description text default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_added integer;
+begin
+  if not public.has_permission('holidays.manage') then
+    raise exception 'You do not have permission to manage holidays';
+  end if;
+
+  if p_end_date < p_start_date then
+    raise exception 'The range must end on or after its start';
+  end if;
+
+  if p_end_date - p_start_date > 366 then
+    raise exception 'Holidays can be added a year at a time at most';
+  end if;
+
+  -- Two admins adding overlapping ranges must not both insert a day
+  lock table public.holidays in share row exclusive mode;
+
+  insert into public.holidays (holiday_date, description)
+  select d::date, nullif(trim(p_description), '')
+  from generate_series(p_start_date, p_end_date, interval '1 day') as d
+  where not exists (
+    select 1 from public.holidays h where h.holiday_date = d::date
+  );
+
+  get diagnostics v_added = row_count;
+
+  return v_added;
+end;
+$$;
+
+grant execute on function public.add_holidays(date, date, text) to authenticated;
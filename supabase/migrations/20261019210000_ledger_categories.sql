@@ -0,0 +1,312 @@
+-- Ledger categories and corrections after a payroll lock.
+--
+-- Payslips sorted ledger rows by matching words in the free-text reason, so
+-- a manual entry worded "Advance ..." or "Salary paid ..." moved between
+-- payslip columns. Every row now carries a `category`:
+--
+--   salary          wages and bonuses
+--   attendance      pay corrections after an attendance change
+--   absence         absence debits and their reversals
+--   late_penalty    late-mark penalties
+--   overtime        approved overtime
+--   leave           unpaid-leave deductions and their reversals
+--   advance         advance recoveries
+--   salary_payment  salary paid out
+--   manual          entries added by hand on the ledger screen
+--   other           anything else
+--
+-- Functions in this repo set it explicitly; rows from older jobs that do not
+-- are classified once, on insert, from their reason.
+--
+-- Locking a month used to make every later correction for it fail (leave
+-- reversals, overtime rejections, attendance edits). The lock now sends
+-- them to the first open month instead:
+--
+--   * an insert dated to a locked month is posted to the open month, with
+--     its entry_date kept;
+--   * a delete of a locked row posts a reversing row in the open month,
+--     linked through `reverses_id`, and leaves the original as it was;
+--   * updates of locked rows still fail.
+
+/* ===================== CATEGORY ===================== */
+
+alter table public.money_ledger
+  add column if not exists category text
+    check (category in (
+      'salary', 'attendance', 'absence', 'late_penalty', 'overtime',
+      'leave', 'advance', 'salary_payment', 'manual', 'other'
+    )),
+  add column if not exists reverses_id uuid references public.money_ledger(id);
+
+-- A locked row is reversed at most once
+create unique index if not exists money_ledger_reverses_idx
+  on public.money_ledger (reverses_id)
+  where reverses_id is not null;
+
+create index if not exists money_ledger_emp_category_idx
+  on public.money_ledger (emp_user_id, category, entry_date);
+
+create or replace function public.ledger_category_for(
+  p_type public.ledger_type,
+  p_reason text
+)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when p_reason ilike 'advance%' then 'advance'
+    when p_reason ilike 'salary paid%' then 'salary_payment'
+    when p_reason ilike 'late penalty%' then 'late_penalty'
+    when p_reason ilike 'overtime%' then 'overtime'
+    when p_reason ilike 'unpaid leave%' then 'leave'
+    when p_reason ilike 'attendance corrected%' then 'attendance'
+    when p_reason ilike '%absen%' then 'absence'
+    when p_type = 'credit' then 'salary'
+    else 'other'
+  end;
+$$;
+
+create or replace function public.set_ledger_category()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.category is null then
+    new.category := public.ledger_category_for(new.type, new.reason);
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Fires before money_ledger_payroll_lock (triggers run in name order)
+drop trigger if exists money_ledger_category on public.money_ledger;
+create trigger money_ledger_category
+  before insert on public.money_ledger
+  for each row execute function public.set_ledger_category();
+
+alter table public.money_ledger disable trigger money_ledger_payroll_lock;
+
+update public.money_ledger
+set category = public.ledger_category_for(type, reason)
+where category is null;
+
+alter table public.money_ledger enable trigger money_ledger_payroll_lock;
+
+alter table public.money_ledger
+  alter column category set not null;
+
+/* ===================== LEDGER LOCK ===================== */
+
+-- The month a row dated to p_month_year is posted to: that month, or the
+-- first one after it that is not locked.
+create or replace function public.open_payroll_month(p_month_year date)
+returns date
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_month date := date_trunc('month', p_month_year)::date;
+begin
+  while public.is_payroll_locked(v_month) loop
+    v_month := (v_month + interval '1 month')::date;
+  end loop;
+
+  return v_month;
+end;
+$$;
+
+grant execute on function public.open_payroll_month(date) to authenticated;
+
+create or replace function public.prevent_locked_ledger_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    if public.is_payroll_locked(old.month_year) then
+      raise exception 'Payroll for % is locked', to_char(old.month_year, 'Mon YYYY');
+    end if;
+
+    if public.is_payroll_locked(new.month_year) then
+      raise exception 'Payroll for % is locked', to_char(new.month_year, 'Mon YYYY');
+    end if;
+
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.month_year := public.open_payroll_month(new.month_year);
+    return new;
+  end if;
+
+  if not public.is_payroll_locked(old.month_year) then
+    return old;
+  end if;
+
+  if not exists (
+    select 1 from public.money_ledger where reverses_id = old.id
+  ) then
+    insert into public.money_ledger (
+      emp_user_id, amount, type, reason, category, month_year, entry_date,
+      reference_id, reverses_id, created_by
+    )
+    values (
+      old.emp_user_id,
+      old.amount,
+      case when old.type = 'credit' then 'debit' else 'credit' end::public.ledger_type,
+      format('Reversed: %s', old.reason),
+      old.category,
+      old.month_year,
+      old.entry_date,
+      old.reference_id,
+      old.id,
+      auth.uid()
+    );
+  end if;
+
+  -- The locked row stays; the reversal above stands in for the delete
+  return null;
+end;
+$$;
+
+/* ===================== LEAVE REVERSALS ===================== */
+
+-- Same as before, netted over the whole leave rather than month by month:
+-- a reversal for a locked month lands in the open one, so a per-month net
+-- would never reach zero and a second call would credit again.
+create or replace function public.reverse_leave_deductions(p_leave_id uuid)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_total numeric;
+begin
+  with open_leave as (
+    select
+      emp_user_id,
+      max(month_year) as month_year,
+      sum(case when type = 'debit' then amount else -amount end) as net
+    from public.money_ledger
+    where reference_id = p_leave_id
+      and category = 'leave'
+    group by emp_user_id
+  ),
+  credits as (
+    insert into public.money_ledger (
+      emp_user_id, amount, type, reason, category, month_year, entry_date,
+      reference_id, created_by
+    )
+    select
+      emp_user_id,
+      net,
+      'credit'::public.ledger_type,
+      'Unpaid leave reversed',
+      'leave',
+      month_year,
+      current_date,
+      p_leave_id,
+      auth.uid()
+    from open_leave
+    where net > 0
+    returning amount
+  )
+  select coalesce(sum(amount), 0) into v_total from credits;
+
+  return v_total;
+end;
+$$;
+
+/* ===================== PAYROLL ===================== */
+
+-- Same as before, with payslip columns taken from the category
+create or replace function public.compute_payroll_run(p_month_year date)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_month date := date_trunc('month', p_month_year)::date;
+  v_run public.payroll_runs;
+begin
+  if not public.has_permission('ledger.manage') then
+    raise exception 'You do not have permission to run payroll';
+  end if;
+
+  if v_month > date_trunc('month', current_date)::date then
+    raise exception 'Payroll cannot be run for a future month';
+  end if;
+
+  select * into v_run
+  from public.payroll_runs
+  where month_year = v_month
+  for update;
+
+  if found and v_run.status = 'locked' then
+    raise exception 'Payroll for % is already locked', to_char(v_month, 'Mon YYYY');
+  end if;
+
+  if not found then
+    insert into public.payroll_runs (month_year, created_by)
+    values (v_month, auth.uid())
+    returning * into v_run;
+  else
+    update public.payroll_runs
+    set computed_at = now()
+    where id = v_run.id;
+
+    delete from public.payslips where run_id = v_run.id;
+  end if;
+
+  perform public.post_advance_recoveries(v_month);
+
+  insert into public.payslips (
+    run_id, emp_user_id, month_year, daily_wage,
+    gross, deductions, advances_recovered, net
+  )
+  select
+    v_run.id,
+    e.user_id,
+    v_month,
+    coalesce(e.daily_wage, 0),
+    t.gross,
+    t.deductions,
+    t.advances,
+    t.gross - t.deductions - t.advances
+  from public.employees e
+  cross join lateral (
+    select
+      coalesce(sum(l.amount) filter (
+        where l.type = 'credit'
+          and l.category not in ('advance', 'salary_payment')
+      ), 0) as gross,
+      coalesce(sum(l.amount) filter (
+        where l.type = 'debit'
+          and l.category not in ('advance', 'salary_payment')
+      ), 0) as deductions,
+      -- A reversed recovery nets off here rather than adding to gross
+      coalesce(sum(
+        case when l.type = 'debit' then l.amount else -l.amount end
+      ) filter (where l.category = 'advance'), 0) as advances
+    from public.money_ledger l
+    where l.emp_user_id = e.user_id
+      and l.month_year = v_month
+  ) t
+  where coalesce(e.active, true)
+     or exists (
+       select 1 from public.money_ledger l
+       where l.emp_user_id = e.user_id and l.month_year = v_month
+     );
+
+  return v_run.id;
+end;
+$$;
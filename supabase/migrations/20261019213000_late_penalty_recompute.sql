@@ -0,0 +1,268 @@
+-- Late penalties recomputed from the month's late marks.
+--
+-- apply_late_penalty_debit ran once, at check-in, and recognised its debit
+-- by "any debit referenced to the row". Times changed later (an approved
+-- correction, an admin edit, a bulk mark, an offline scan replayed late)
+-- never moved the count, so a penalty could stand on late marks that were
+-- gone, or be missed for marks that appeared.
+--
+-- recompute_late_penalties now settles a month: the penalties owed are
+-- floor(late marks / late_marks_per_penalty), the penalties held are the
+-- month's 'late_penalty' debits less its 'late_penalty' credits, and the
+-- difference is posted one block at a time. New debits reference the row
+-- that completed the block; reversals point at the debit they undo through
+-- `reverses_id`. Every path that changes check-in times ends in it.
+--
+-- policy_late_minutes applies the grace period itself, so callers no longer
+-- repeat it.
+
+/* ===================== LATE MINUTES ===================== */
+
+create or replace function public.policy_late_minutes(
+  p_policy public.attendance_policies,
+  p_checkin timestamptz
+)
+returns integer
+language sql
+stable
+as $$
+  select case
+    when late.minutes <= p_policy.late_grace_minutes then 0
+    else late.minutes
+  end
+  from (
+    select case
+      when p_policy.shift_start is null or p_checkin is null then 0
+      else greatest(0, floor(extract(epoch from
+        (p_checkin at time zone p_policy.timezone)::time - p_policy.shift_start
+      ) / 60))::integer
+    end as minutes
+  ) late;
+$$;
+
+/* ===================== PENALTY ===================== */
+
+-- Brings one employee's penalties for a month in line with their late marks.
+-- Returns the signed amount posted (positive when more was debited).
+create or replace function public.recompute_late_penalties(
+  p_emp_user_id uuid,
+  p_month_year date
+)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_start date := date_trunc('month', p_month_year)::date;
+  v_end date := (date_trunc('month', p_month_year) + interval '1 month - 1 day')::date;
+  v_policy public.attendance_policies;
+  v_site uuid;
+  v_marks integer;
+  v_owed integer;
+  v_held integer;
+  v_wage numeric;
+  v_block record;
+  v_debit public.money_ledger;
+  v_posted numeric := 0;
+begin
+  -- Advisory lock so two check-ins in the same month cannot both post a block
+  perform pg_advisory_xact_lock(hashtext(format('late:%s:%s', p_emp_user_id, v_start)));
+
+  select site_id into v_site
+  from public.attendance
+  where emp_user_id = p_emp_user_id
+    and day between v_start and v_end
+  order by day desc
+  limit 1;
+
+  v_policy := public.effective_attendance_policy(p_emp_user_id, v_site);
+  if v_policy.late_marks_per_penalty is null then
+    return 0;
+  end if;
+
+  select count(*) into v_marks
+  from public.attendance
+  where emp_user_id = p_emp_user_id
+    and late_minutes > 0
+    and day between v_start and v_end;
+
+  v_owed := v_marks / v_policy.late_marks_per_penalty;
+
+  select
+    count(*) filter (where type = 'debit') - count(*) filter (where type = 'credit')
+  into v_held
+  from public.money_ledger
+  where emp_user_id = p_emp_user_id
+    and category = 'late_penalty'
+    and entry_date between v_start and v_end;
+
+  if v_owed > v_held then
+    select coalesce(daily_wage, 0) into v_wage
+    from public.employees
+    where user_id = p_emp_user_id;
+
+    if coalesce(v_wage, 0) = 0 then
+      return 0;
+    end if;
+
+    -- The rows that complete each block still to be debited
+    for v_block in
+      select id, day, n
+      from (
+        select a.id, a.day, row_number() over (order by a.day) as n
+        from public.attendance a
+        where a.emp_user_id = p_emp_user_id
+          and a.late_minutes > 0
+          and a.day between v_start and v_end
+      ) marks
+      where n % v_policy.late_marks_per_penalty = 0
+      order by n
+      offset v_held
+      limit v_owed - v_held
+    loop
+      insert into public.money_ledger (
+        emp_user_id, amount, type, reason, category, month_year, entry_date,
+        reference_id, created_by
+      )
+      values (
+        p_emp_user_id,
+        round(v_wage * v_policy.late_penalty_days, 2),
+        'debit',
+        format('Late penalty (%s late marks)', v_block.n),
+        'late_penalty',
+        v_start,
+        v_block.day,
+        v_block.id,
+        auth.uid()
+      )
+      returning * into v_debit;
+
+      v_posted := v_posted + v_debit.amount;
+    end loop;
+  end if;
+
+  -- Latest penalties are the ones given back, at what they cost
+  for v_debit in
+    select l.*
+    from public.money_ledger l
+    where l.emp_user_id = p_emp_user_id
+      and l.category = 'late_penalty'
+      and l.type = 'debit'
+      and l.entry_date between v_start and v_end
+      and not exists (
+        select 1 from public.money_ledger r where r.reverses_id = l.id
+      )
+    order by l.entry_date desc, l.created_at desc
+    limit greatest(v_held - v_owed, 0)
+  loop
+    insert into public.money_ledger (
+      emp_user_id, amount, type, reason, category, month_year, entry_date,
+      reference_id, reverses_id, created_by
+    )
+    values (
+      p_emp_user_id,
+      v_debit.amount,
+      'credit',
+      'Late penalty reversed (late marks corrected)',
+      'late_penalty',
+      v_start,
+      v_debit.entry_date,
+      v_debit.reference_id,
+      v_debit.id,
+      auth.uid()
+    );
+
+    v_posted := v_posted - v_debit.amount;
+  end loop;
+
+  return v_posted;
+end;
+$$;
+
+revoke all on function public.recompute_late_penalties(uuid, date)
+  from public, anon, authenticated;
+
+-- Kept for checkin_for; now settles the row's whole month
+create or replace function public.apply_late_penalty_debit(
+  p_attendance_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.attendance;
+begin
+  select * into v_row from public.attendance where id = p_attendance_id;
+  if not found then
+    return;
+  end if;
+
+  perform public.recompute_late_penalties(v_row.emp_user_id, v_row.day);
+end;
+$$;
+
+/* ===================== DERIVED FIELDS ===================== */
+
+-- Same as before, with the month's penalties settled when the late marker
+-- moves.
+create or replace function public.refresh_attendance_derived(p_attendance_id uuid)
+returns public.attendance
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.attendance;
+  v_policy public.attendance_policies;
+  v_overtime integer;
+  v_old_status text;
+  v_old_late integer;
+begin
+  select * into v_row from public.attendance where id = p_attendance_id;
+  if not found then
+    return null;
+  end if;
+
+  v_policy := public.effective_attendance_policy(v_row.emp_user_id, v_row.site_id);
+
+  v_overtime := public.policy_overtime_minutes(
+    v_policy, v_row.checkin_at, v_row.checkout_at
+  );
+  v_old_status := v_row.overtime_status;
+  v_old_late := v_row.late_minutes;
+
+  update public.attendance
+  set attendance_type = public.policy_attendance_type(
+        v_policy, v_row.checkin_at, v_row.checkout_at
+      ),
+      late_minutes = public.policy_late_minutes(v_policy, v_row.checkin_at),
+      early_leave_minutes = public.policy_early_leave_minutes(v_policy, v_row.checkout_at),
+      overtime_minutes = v_overtime,
+      -- Keep an earlier review only if the minutes did not change
+      overtime_status = case
+        when v_overtime = 0 then null
+        when v_overtime = v_row.overtime_minutes then coalesce(v_row.overtime_status, 'pending')
+        else 'pending'
+      end,
+      updated_at = now()
+  where id = v_row.id
+  returning * into v_row;
+
+  -- An approved overtime credit no longer matches the new times
+  if v_old_status = 'approved' and v_row.overtime_status <> 'approved' then
+    delete from public.money_ledger
+    where reference_id = v_row.id
+      and type = 'credit'
+      and category = 'overtime';
+  end if;
+
+  if (v_old_late > 0) <> (v_row.late_minutes > 0) then
+    perform public.recompute_late_penalties(v_row.emp_user_id, v_row.day);
+  end if;
+
+  return v_row;
+end;
+$$;
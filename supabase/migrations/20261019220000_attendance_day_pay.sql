@@ -0,0 +1,307 @@
+-- One settlement path for changed attendance days.
+--
+-- Admin edits, approved corrections and bulk marks each carried their own
+-- copy of the ledger steps, and the copies had drifted: only some reversed
+-- the absence debit, none put it back when a day was removed, and none
+-- touched the late penalty. Those steps now live in two helpers:
+--
+--   * recompute_day_pay settles a day after it changed from one version to
+--     another: the difference in wage and the absence debit (reversed while
+--     the day has a row, restored when it loses it), returning the signed
+--     total posted. Late penalties follow refresh_attendance_derived, or
+--     the removal of a late day.
+--   * write_attendance_audit records the change with that total.
+--
+-- Absence rows are found by their 'absence' category and the day, not by
+-- the wording of their reason.
+--
+-- Admin edits are limited to past days in the policy timezone, with times
+-- on that day: today's wage is credited by apply_attendance_salary after
+-- the day ends, and settling it earlier paid it twice.
+
+/* ===================== HELPERS ===================== */
+
+-- Absence for one day: reversed while the day has attendance, restored to
+-- what was originally debited once it has none. Returns the signed amount
+-- posted (positive for a debit).
+create or replace function public.settle_absence_debit(
+  p_emp_user_id uuid,
+  p_day date,
+  p_present boolean,
+  p_reference_id uuid
+)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_debited numeric;
+  v_net numeric;
+  v_delta numeric;
+begin
+  select
+    coalesce(sum(amount) filter (
+      where type = 'debit'
+        and reverses_id is null
+        and reason is distinct from 'Absence restored (attendance removed)'
+    ), 0),
+    coalesce(sum(case when type = 'debit' then amount else -amount end), 0)
+  into v_debited, v_net
+  from public.money_ledger
+  where emp_user_id = p_emp_user_id
+    and category = 'absence'
+    and entry_date = p_day;
+
+  v_delta := case when p_present then 0 else v_debited end - v_net;
+
+  if v_delta = 0 then
+    return 0;
+  end if;
+
+  insert into public.money_ledger (
+    emp_user_id, amount, type, reason, category, month_year, entry_date,
+    reference_id, created_by
+  )
+  values (
+    p_emp_user_id,
+    abs(v_delta),
+    case when v_delta > 0 then 'debit' else 'credit' end::public.ledger_type,
+    case
+      when v_delta > 0 then 'Absence restored (attendance removed)'
+      else 'Absence reversed (attendance corrected)'
+    end,
+    'absence',
+    date_trunc('month', p_day)::date,
+    p_day,
+    p_reference_id,
+    auth.uid()
+  );
+
+  return v_delta;
+end;
+$$;
+
+-- Settles a day that went from p_old to p_new (either may be null for "no
+-- row"). Returns the signed total posted, credits positive.
+create or replace function public.recompute_day_pay(
+  p_old public.attendance,
+  p_new public.attendance,
+  p_reference_id uuid
+)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_emp uuid := coalesce(p_new.emp_user_id, p_old.emp_user_id);
+  v_day date := coalesce(p_new.day, p_old.day);
+  v_total numeric;
+begin
+  v_total := public.post_attendance_adjustment(
+    v_emp, v_day, p_old.attendance_type, p_new.attendance_type, p_reference_id
+  );
+
+  if (p_old.id is null) <> (p_new.id is null) then
+    v_total := v_total - public.settle_absence_debit(
+      v_emp, v_day, p_new.id is not null, p_reference_id
+    );
+  end if;
+
+  -- Changed times reach the penalties through refresh_attendance_derived; a
+  -- removed day has no row left to refresh.
+  if p_new.id is null and p_old.late_minutes > 0 then
+    perform public.recompute_late_penalties(v_emp, v_day);
+  end if;
+
+  return v_total;
+end;
+$$;
+
+create or replace function public.write_attendance_audit(
+  p_audit_id uuid,
+  p_old public.attendance,
+  p_new public.attendance,
+  p_reason text,
+  p_ledger_adjustment numeric
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.attendance_audit (
+    id, attendance_id, emp_user_id, day, action,
+    old_values, new_values, reason, ledger_adjustment, actor
+  )
+  values (
+    p_audit_id,
+    coalesce(p_new.id, p_old.id),
+    coalesce(p_new.emp_user_id, p_old.emp_user_id),
+    coalesce(p_new.day, p_old.day),
+    case
+      when p_old.id is null then 'create'
+      when p_new.id is null then 'delete'
+      else 'update'
+    end,
+    case when p_old.id is not null then to_jsonb(p_old) end,
+    case when p_new.id is not null then to_jsonb(p_new) end,
+    trim(p_reason),
+    p_ledger_adjustment,
+    auth.uid()
+  );
+$$;
+
+revoke all on function public.settle_absence_debit(uuid, date, boolean, uuid)
+  from public, anon, authenticated;
+revoke all on function public.recompute_day_pay(public.attendance, public.attendance, uuid)
+  from public, anon, authenticated;
+revoke all on function public.write_attendance_audit(uuid, public.attendance, public.attendance, text, numeric)
+  from public, anon, authenticated;
+
+/* ===================== SAVE ===================== */
+
+create or replace function public.admin_save_attendance(
+  p_emp_user_id uuid,
+  p_day date,
+  p_checkin timestamptz,
+  p_reason text,
+  p_checkout timestamptz default null,
+  p_site_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old public.attendance;
+  v_row public.attendance;
+  v_audit_id uuid := gen_random_uuid();
+  v_policy public.attendance_policies;
+  v_site uuid;
+begin
+  if not public.has_permission('attendance.manage') then
+    raise exception 'You do not have permission to edit attendance';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'A reason is required';
+  end if;
+
+  if p_checkin is null then
+    raise exception 'Check-in time is required';
+  end if;
+
+  if p_checkout is not null and p_checkout <= p_checkin then
+    raise exception 'Check-out must be after check-in';
+  end if;
+
+  select * into v_old
+  from public.attendance
+  where emp_user_id = p_emp_user_id and day = p_day
+  for update;
+
+  select coalesce(p_site_id, v_old.site_id, site_id) into v_site
+  from public.employees
+  where user_id = p_emp_user_id;
+
+  if v_site is null then
+    raise exception 'Pick a site for this employee';
+  end if;
+
+  v_policy := public.effective_attendance_policy(p_emp_user_id, v_site);
+
+  if p_day >= (now() at time zone v_policy.timezone)::date then
+    raise exception 'Only past days can be edited; today is settled when it ends';
+  end if;
+
+  if (p_checkin at time zone v_policy.timezone)::date <> p_day
+    or (p_checkout at time zone v_policy.timezone)::date <> p_day then
+    raise exception 'Check-in and check-out must fall on %', to_char(p_day, 'DD Mon YYYY');
+  end if;
+
+  if v_old.id is not null then
+    update public.attendance
+    set checkin_at = p_checkin,
+        checkout_at = p_checkout,
+        site_id = v_site,
+        checkin_source = 'admin',
+        checkout_source = case when p_checkout is not null then 'admin' end
+    where id = v_old.id
+    returning * into v_row;
+  else
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkout_at,
+      checkin_source, checkout_source
+    )
+    values (
+      p_emp_user_id, v_site, p_day, p_checkin, p_checkout,
+      'admin', case when p_checkout is not null then 'admin' end
+    )
+    returning * into v_row;
+  end if;
+
+  v_row := public.refresh_attendance_derived(v_row.id);
+
+  perform public.write_attendance_audit(
+    v_audit_id, v_old, v_row, p_reason,
+    public.recompute_day_pay(v_old, v_row, v_audit_id)
+  );
+
+  return v_row.id;
+end;
+$$;
+
+/* ===================== DELETE ===================== */
+
+create or replace function public.admin_delete_attendance(
+  p_attendance_id uuid,
+  p_reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old public.attendance;
+  v_audit_id uuid := gen_random_uuid();
+begin
+  if not public.has_permission('attendance.manage') then
+    raise exception 'You do not have permission to edit attendance';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'A reason is required';
+  end if;
+
+  select * into v_old
+  from public.attendance
+  where id = p_attendance_id
+  for update;
+
+  if not found then
+    raise exception 'Attendance record not found';
+  end if;
+
+  if v_old.day >= (now() at time zone
+    (public.effective_attendance_policy(v_old.emp_user_id, v_old.site_id)).timezone)::date then
+    raise exception 'Only past days can be edited; today is settled when it ends';
+  end if;
+
+  delete from public.attendance where id = v_old.id;
+
+  -- Overtime for a day that no longer exists is not owed
+  delete from public.money_ledger
+  where reference_id = v_old.id
+    and type = 'credit'
+    and category = 'overtime';
+
+  perform public.write_attendance_audit(
+    v_audit_id, v_old, null, p_reason,
+    public.recompute_day_pay(v_old, null, v_audit_id)
+  );
+end;
+$$;
@@ -0,0 +1,87 @@
+-- Approved corrections settle pay like admin edits.
+--
+-- Approving a correction only credited back an absence debit found by the
+-- word "absen" in its reason. A day created this way was never paid its
+-- wage, a half day turned full kept the half, and the late penalty stayed
+-- on the old check-in. Approval now settles the day through
+-- recompute_day_pay and records the change in attendance_audit, with the
+-- employee's reason, like an admin edit does.
+
+create or replace function public.approve_regularization(p_request_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_req public.attendance_regularizations;
+  v_old public.attendance;
+  v_row public.attendance;
+  v_audit_id uuid := gen_random_uuid();
+begin
+  select * into v_req
+  from public.attendance_regularizations
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'Request not found';
+  end if;
+
+  if not (public.has_permission('attendance.manage') or public.supervises_employee(v_req.emp_user_id)) then
+    raise exception 'You do not have permission to approve this request';
+  end if;
+
+  if v_req.status <> 'pending' then
+    raise exception 'Request has already been %', v_req.status;
+  end if;
+
+  select * into v_old
+  from public.attendance
+  where emp_user_id = v_req.emp_user_id and day = v_req.day
+  for update;
+
+  if v_old.id is not null then
+    update public.attendance
+    set checkin_at = v_req.proposed_checkin,
+        checkout_at = coalesce(v_req.proposed_checkout, checkout_at),
+        checkout_source = case
+          when v_req.proposed_checkout is not null then 'regularized'
+          else checkout_source
+        end
+    where id = v_old.id
+    returning * into v_row;
+  else
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkout_at,
+      checkin_source, checkout_source
+    )
+    select
+      v_req.emp_user_id, e.site_id, v_req.day,
+      v_req.proposed_checkin, v_req.proposed_checkout,
+      'regularized',
+      case when v_req.proposed_checkout is not null then 'regularized' end
+    from public.employees e
+    where e.user_id = v_req.emp_user_id
+    returning * into v_row;
+  end if;
+
+  v_row := public.refresh_attendance_derived(v_row.id);
+
+  perform public.write_attendance_audit(
+    v_audit_id, v_old, v_row,
+    format('Correction approved: %s', v_req.reason),
+    public.recompute_day_pay(v_old, v_row, v_audit_id)
+  );
+
+  update public.attendance_regularizations
+  set status = 'approved',
+      attendance_id = v_row.id,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = v_req.id;
+end;
+$$;
+
+-- Replaced by settle_absence_debit
+drop function if exists public.reverse_absence_debit(uuid, date, uuid);
@@ -0,0 +1,163 @@
+-- Bulk marks settle and audit like admin edits.
+--
+-- bulk_mark_attendance accepted any past day, locked months included,
+-- changed days with no audit row and no ledger adjustment, and deleted an
+-- earlier bulk row outright when the same employee was then marked absent.
+-- Now:
+--
+--   * only today and yesterday can be marked (a supervisor marks the crew
+--     on the day; anything older is an admin correction);
+--   * a day in a locked payroll month is refused;
+--   * every created, changed or removed row is written to attendance_audit;
+--   * a past day is settled through recompute_day_pay, and late penalties
+--     follow the late marker. Today's wage is left to
+--     apply_attendance_salary, which credits the day when it ends.
+--
+-- Removing a bulk row by marking the employee absent stays allowed, since
+-- it is how a wrong mark is undone, but it is now audited and settled.
+
+create or replace function public.bulk_mark_attendance(
+  p_site_id uuid,
+  p_day date,
+  p_entries jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- Days before today that can still be marked
+  c_days_back constant integer := 1;
+  v_entry jsonb;
+  v_emp uuid;
+  v_status text;
+  v_policy public.attendance_policies;
+  v_today date;
+  v_checkin timestamptz;
+  v_checkout timestamptz;
+  v_old public.attendance;
+  v_row public.attendance;
+  v_audit_id uuid;
+  v_code text;
+  v_results jsonb := '[]'::jsonb;
+begin
+  if not (public.has_permission('attendance.manage') or public.is_site_supervisor(p_site_id)) then
+    raise exception 'You cannot mark attendance for this site';
+  end if;
+
+  v_policy := public.effective_attendance_policy(null, p_site_id);
+  v_today := (now() at time zone v_policy.timezone)::date;
+
+  if p_day > v_today then
+    raise exception 'Attendance cannot be marked for a future day';
+  end if;
+
+  if p_day < v_today - c_days_back then
+    raise exception 'Only today and yesterday can be marked in bulk; ask an admin to correct older days';
+  end if;
+
+  if public.is_payroll_locked(p_day) then
+    raise exception 'Payroll for % is locked', to_char(p_day, 'Mon YYYY');
+  end if;
+
+  for v_entry in select * from jsonb_array_elements(coalesce(p_entries, '[]')) loop
+    v_emp := (v_entry ->> 'emp_user_id')::uuid;
+    v_status := v_entry ->> 'status';
+    v_code := null;
+    v_row := null;
+
+    if v_status not in ('present', 'half', 'absent') then
+      raise exception 'Unknown status %', v_status;
+    end if;
+
+    v_policy := public.effective_attendance_policy(v_emp, p_site_id);
+    v_checkin := (p_day + (v_entry ->> 'checkin')::time) at time zone v_policy.timezone;
+    v_checkout := (p_day + (v_entry ->> 'checkout')::time) at time zone v_policy.timezone;
+
+    select * into v_old
+    from public.attendance
+    where emp_user_id = v_emp and day = p_day
+    for update;
+
+    if not exists (
+      select 1 from public.employees
+      where user_id = v_emp and site_id = p_site_id and coalesce(active, true)
+    ) then
+      v_code := 'NOT_IN_CREW';
+    elsif v_old.id is not null and v_old.checkin_source is distinct from 'bulk' then
+      -- The employee's own scan (or an admin correction) wins
+      v_code := 'ALREADY_CHECKED_IN';
+    elsif v_status = 'absent' then
+      if v_old.id is not null then
+        delete from public.attendance where id = v_old.id;
+      end if;
+    elsif v_checkin is null then
+      v_code := 'CHECKIN_REQUIRED';
+    elsif (v_entry ->> 'checkin')::time > v_policy.checkin_cutoff then
+      v_code := 'AFTER_CUTOFF';
+    elsif v_checkin > now() or v_checkout > now() then
+      v_code := 'IN_FUTURE';
+    elsif v_checkout is not null and v_checkout <= v_checkin then
+      v_code := 'INVALID_TIMES';
+    else
+      -- The supervisor's present/half call stands; times only feed the
+      -- late and early markers.
+      if v_old.id is null then
+        insert into public.attendance (
+          emp_user_id, site_id, day, checkin_at, checkout_at,
+          checkin_source, checkout_source, attendance_type,
+          late_minutes, early_leave_minutes, marked_by, marked_at
+        )
+        values (
+          v_emp, p_site_id, p_day, v_checkin, v_checkout,
+          'bulk', case when v_checkout is not null then 'bulk' end,
+          case when v_status = 'present' then 'full' else 'half' end,
+          public.policy_late_minutes(v_policy, v_checkin),
+          public.policy_early_leave_minutes(v_policy, v_checkout),
+          auth.uid(), now()
+        )
+        returning * into v_row;
+      else
+        update public.attendance
+        set checkin_at = v_checkin,
+            checkout_at = v_checkout,
+            checkout_source = case when v_checkout is not null then 'bulk' end,
+            attendance_type = case when v_status = 'present' then 'full' else 'half' end,
+            late_minutes = public.policy_late_minutes(v_policy, v_checkin),
+            early_leave_minutes = public.policy_early_leave_minutes(v_policy, v_checkout),
+            marked_by = auth.uid(),
+            marked_at = now(),
+            updated_at = now()
+        where id = v_old.id
+        returning * into v_row;
+      end if;
+    end if;
+
+    if v_code is null and (v_old.id is not null or v_row.id is not null) then
+      v_audit_id := gen_random_uuid();
+
+      perform public.write_attendance_audit(
+        v_audit_id, v_old, v_row,
+        format('Marked %s in bulk', v_status),
+        case
+          when p_day < v_today then public.recompute_day_pay(v_old, v_row, v_audit_id)
+          else 0
+        end
+      );
+
+      if coalesce(v_old.late_minutes, 0) > 0 or coalesce(v_row.late_minutes, 0) > 0 then
+        perform public.recompute_late_penalties(v_emp, p_day);
+      end if;
+    end if;
+
+    v_results := v_results || jsonb_build_object(
+      'emp_user_id', v_emp,
+      'ok', v_code is null,
+      'code', v_code
+    );
+  end loop;
+
+  return jsonb_build_object('ok', true, 'results', v_results);
+end;
+$$;
@@ -0,0 +1,313 @@
+-- Offline scans bound to a device, replayed within minutes.
+--
+-- A queued scan was just a signed site code and a device time, so anyone who
+-- photographed the kiosk could replay it for any account for twelve hours.
+-- Now:
+--
+--   * while online the app asks `issue_offline_scan_nonces` for a few
+--     single-use nonces tied to the user and a device id, and attaches one to
+--     each scan it queues. `sync_offline_scan` accepts a scan only with an
+--     unused nonce issued to that user and device before the scan, and
+--     spends it;
+--   * a scan must be synced within 30 minutes of its signed window;
+--   * a device time before the signed window is refused rather than moved
+--     into it;
+--   * synced rows get source 'offline', so supervisors can tell them apart
+--     from live scans. The geofence applies to them as to live scans.
+--
+-- New codes: OFFLINE_UNVERIFIED, OFFLINE_CLOCK.
+
+alter table public.attendance
+  drop constraint if exists attendance_checkin_source_check;
+alter table public.attendance
+  add constraint attendance_checkin_source_check
+    check (checkin_source in ('qr', 'manual', 'regularized', 'admin', 'bulk', 'offline'));
+
+alter table public.attendance
+  drop constraint if exists attendance_checkout_source_check;
+alter table public.attendance
+  add constraint attendance_checkout_source_check
+    check (checkout_source in ('qr', 'manual', 'regularized', 'admin', 'bulk', 'offline'));
+
+/* ===================== NONCES ===================== */
+
+create table if not exists public.offline_scan_nonces (
+  nonce text primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  device_id text not null check (length(device_id) between 8 and 64),
+  issued_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  used_at timestamptz
+);
+
+create index if not exists offline_scan_nonces_user_device_idx
+  on public.offline_scan_nonces (user_id, device_id);
+
+-- Read and written only by the functions below
+alter table public.offline_scan_nonces enable row level security;
+
+-- Tops the device up to p_count unused nonces and returns all of them.
+create or replace function public.issue_offline_scan_nonces(
+  p_device_id text,
+  p_count integer default 5
+)
+returns table (nonce text, expires_at timestamptz)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  -- How long a device may stay offline after last being online
+  c_lifetime constant interval := interval '24 hours';
+  v_have integer;
+begin
+  if auth.uid() is null then
+    raise exception 'NOT_AUTHENTICATED';
+  end if;
+
+  delete from public.offline_scan_nonces n
+  where n.user_id = auth.uid()
+    and (n.used_at is not null or n.expires_at <= now());
+
+  select count(*) into v_have
+  from public.offline_scan_nonces n
+  where n.user_id = auth.uid()
+    and n.device_id = p_device_id;
+
+  insert into public.offline_scan_nonces (nonce, user_id, device_id, expires_at)
+  select
+    encode(extensions.gen_random_bytes(16), 'hex'),
+    auth.uid(),
+    p_device_id,
+    now() + c_lifetime
+  from generate_series(1, greatest(least(p_count, 10) - v_have, 0));
+
+  return query
+  select n.nonce, n.expires_at
+  from public.offline_scan_nonces n
+  where n.user_id = auth.uid()
+    and n.device_id = p_device_id
+  order by n.issued_at;
+end;
+$$;
+
+grant execute on function public.issue_offline_scan_nonces(text, integer) to authenticated;
+
+/* ===================== GEOFENCE ===================== */
+
+-- Same as before, with offline scans checked like live ones
+create or replace function public.enforce_attendance_geofence()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_site record;
+  v_distance double precision;
+  -- GPS accuracy is trusted up to this many metres of extra slack.
+  v_slack double precision := least(coalesce(new.checkin_accuracy_m, 0), 100);
+begin
+  if new.checkin_source is null
+     or new.checkin_source not in ('qr', 'manual', 'offline') then
+    return new;
+  end if;
+
+  select latitude, longitude, geofence_radius_m, geofence_mode
+  into v_site
+  from public.sites
+  where id = new.site_id;
+
+  if v_site.latitude is null
+     or v_site.longitude is null
+     or v_site.geofence_mode = 'off' then
+    return new;
+  end if;
+
+  if new.checkin_lat is null or new.checkin_lng is null then
+    if v_site.geofence_mode = 'reject' then
+      raise exception 'LOCATION_REQUIRED';
+    end if;
+    new.geofence_flagged := true;
+    return new;
+  end if;
+
+  v_distance := public.distance_m(
+    v_site.latitude, v_site.longitude,
+    new.checkin_lat, new.checkin_lng
+  );
+  new.checkin_distance_m := round(v_distance);
+
+  if v_distance > v_site.geofence_radius_m + v_slack then
+    if v_site.geofence_mode = 'reject' then
+      raise exception 'OUTSIDE_GEOFENCE';
+    end if;
+    new.geofence_flagged := true;
+  end if;
+
+  return new;
+end;
+$$;
+
+/* ===================== SYNC ===================== */
+
+drop function if exists public.sync_offline_scan(
+  text, uuid, bigint, text, timestamptz,
+  double precision, double precision, double precision, text
+);
+
+create function public.sync_offline_scan(
+  p_kind text,
+  p_site_id uuid,
+  p_window bigint,
+  p_signature text,
+  p_scanned_at timestamptz,
+  p_device_id text,
+  p_nonce text,
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_accuracy double precision default null,
+  p_remarks text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- Queued scans older than this are refused
+  c_max_age constant interval := interval '30 minutes';
+  v_rotation integer;
+  v_window_start timestamptz;
+  v_at timestamptz;
+  v_error text;
+  v_result jsonb;
+begin
+  if auth.uid() is null then
+    return public.attendance_result('NOT_AUTHENTICATED');
+  end if;
+
+  if p_kind not in ('checkin', 'checkout') then
+    raise exception 'Unknown scan kind %', p_kind;
+  end if;
+
+  select rotation_seconds into v_rotation
+  from public.site_qr_keys
+  where site_id = p_site_id;
+
+  if v_rotation is null then
+    return public.attendance_result('QR_INVALID');
+  end if;
+
+  -- The signed window is the trusted clock. The device time may only pick a
+  -- moment inside it; one before it is a wrong clock or a made-up scan.
+  v_window_start := to_timestamp(p_window * v_rotation);
+
+  if p_scanned_at is null or p_scanned_at < v_window_start then
+    return public.attendance_result('OFFLINE_CLOCK');
+  end if;
+
+  v_at := least(
+    p_scanned_at,
+    v_window_start + make_interval(secs => 2 * v_rotation - 1),
+    now()
+  );
+
+  if v_at < now() - c_max_age then
+    return public.attendance_result('OFFLINE_EXPIRED');
+  end if;
+
+  v_error := public.verify_site_qr_at(p_site_id, p_window, p_signature, v_at);
+  if v_error is not null then
+    return public.attendance_result(v_error);
+  end if;
+
+  -- Spent here even if the scan is then refused, so it cannot be retried
+  update public.offline_scan_nonces
+  set used_at = now()
+  where nonce = p_nonce
+    and user_id = auth.uid()
+    and device_id = p_device_id
+    and used_at is null
+    and issued_at <= v_at
+    and expires_at > v_at;
+
+  if not found then
+    return public.attendance_result('OFFLINE_UNVERIFIED');
+  end if;
+
+  if p_kind = 'checkin' then
+    v_result := public.checkin_for(
+      auth.uid(), p_site_id, 'offline', p_lat, p_lng, p_accuracy, v_at
+    );
+    if (v_result ->> 'ok')::boolean then
+      update public.attendance
+      set checkin_synced_at = now()
+      where id = (v_result -> 'attendance' ->> 'id')::uuid;
+    end if;
+  else
+    v_result := public.checkout_for(auth.uid(), p_site_id, 'offline', p_remarks, v_at);
+    if (v_result ->> 'ok')::boolean then
+      update public.attendance
+      set checkout_synced_at = now()
+      where id = (v_result -> 'attendance' ->> 'id')::uuid;
+    end if;
+  end if;
+
+  return v_result;
+end;
+$$;
+
+grant execute on function public.sync_offline_scan(
+  text, uuid, bigint, text, timestamptz, text, text,
+  double precision, double precision, double precision, text
+) to authenticated;
+
+/* ===================== CREW ===================== */
+
+drop function if exists public.get_site_crew(uuid, date);
+
+-- Same as before, with the check-out source so offline rows can be flagged
+create function public.get_site_crew(p_site_id uuid, p_day date)
+returns table (
+  emp_user_id uuid,
+  full_name text,
+  designation text,
+  attendance_id uuid,
+  attendance_type text,
+  checkin_at timestamptz,
+  checkout_at timestamptz,
+  checkin_source text,
+  checkout_source text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not (public.is_admin() or public.is_site_supervisor(p_site_id)) then
+    raise exception 'You cannot view this site';
+  end if;
+
+  return query
+  select
+    e.user_id,
+    coalesce(p.full_name, p.email),
+    e.designation,
+    a.id,
+    a.attendance_type,
+    a.checkin_at,
+    a.checkout_at,
+    a.checkin_source,
+    a.checkout_source
+  from public.employees e
+  left join public.profiles p on p.auth_uid = e.user_id
+  left join public.attendance a on a.emp_user_id = e.user_id and a.day = p_day
+  where e.site_id = p_site_id
+    and coalesce(e.active, true)
+  order by 2;
+end;
+$$;
+
+grant execute on function public.get_site_crew(uuid, date) to authenticated;
@@ -0,0 +1,28 @@
+-- Manual check-out only in manual mode.
+--
+-- perform_checkout ended the shift without a scan for everyone, so the QR
+-- check-out proved nothing: an employee could leave and tap the button.
+-- Like manual check-in, it is now only for employees the admin has switched
+-- to manual mode; everyone else gets QR_REQUIRED and scans the site code.
+
+create or replace function public.perform_checkout(p_remarks text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return public.attendance_result('NOT_AUTHENTICATED');
+  end if;
+
+  if not exists (
+    select 1 from public.employees
+    where user_id = auth.uid() and coalesce(force_manual, false)
+  ) then
+    return public.attendance_result('QR_REQUIRED');
+  end if;
+
+  return public.checkout_for(auth.uid(), null, 'manual', p_remarks);
+end;
+$$;
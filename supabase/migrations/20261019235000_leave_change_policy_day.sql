@@ -0,0 +1,136 @@
+-- Leave changes judged on the employee's local day.
+--
+-- cancel_leave and modify_leave compared leave dates to current_date, the
+-- database's UTC day, so for several hours around midnight a leave starting
+-- "tomorrow" locally could no longer be changed, or one starting today
+-- still could. Both now use the day in the employee's attendance policy
+-- timezone, as check-in does.
+--
+-- Withdrawing a pending leave also stops recording the employee as the
+-- one who decided it: decided_by is for the approver, and stays empty.
+
+create or replace function public.cancel_leave(p_leave_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+  v_today date;
+begin
+  select * into v_leave
+  from public.leaves
+  where id = p_leave_id
+  for update;
+
+  if not found or v_leave.emp_user_id <> auth.uid() then
+    raise exception 'Leave not found';
+  end if;
+
+  if v_leave.status = 'pending' then
+    update public.leaves
+    set status = 'cancelled',
+        decided_at = now()
+    where id = p_leave_id;
+    return;
+  end if;
+
+  v_today := (now() at time zone
+    (public.effective_attendance_policy(auth.uid())).timezone)::date;
+
+  if v_leave.status <> 'approved' or v_leave.start_date <= v_today then
+    raise exception 'Only pending or upcoming approved leaves can be cancelled';
+  end if;
+
+  if v_leave.change_type is not null then
+    raise exception 'A change to this leave is already awaiting approval';
+  end if;
+
+  update public.leaves
+  set change_type = 'cancel',
+      change_requested_at = now()
+  where id = p_leave_id;
+
+  perform public.notify_leave_managers(
+    p_leave_id,
+    'Leave Cancellation Requested',
+    format('An employee asked to cancel their approved leave from %s to %s.',
+      to_char(v_leave.start_date, 'DD Mon YYYY'),
+      to_char(v_leave.end_date, 'DD Mon YYYY'))
+  );
+end;
+$$;
+
+create or replace function public.modify_leave(
+  p_leave_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+  v_today date := (now() at time zone
+    (public.effective_attendance_policy(auth.uid())).timezone)::date;
+begin
+  select * into v_leave
+  from public.leaves
+  where id = p_leave_id
+  for update;
+
+  if not found or v_leave.emp_user_id <> auth.uid() then
+    raise exception 'Leave not found';
+  end if;
+
+  if p_end_date < p_start_date then
+    raise exception 'The leave must end on or after its start';
+  end if;
+
+  if p_start_date <= v_today then
+    raise exception 'A leave can only be moved to future dates';
+  end if;
+
+  if v_leave.half_day is not null and p_start_date <> p_end_date then
+    raise exception 'A half-day leave must start and end on the same day';
+  end if;
+
+  if p_start_date = v_leave.start_date and p_end_date = v_leave.end_date then
+    raise exception 'These are already the leave dates';
+  end if;
+
+  if v_leave.status = 'pending' then
+    update public.leaves
+    set start_date = p_start_date,
+        end_date = p_end_date
+    where id = p_leave_id;
+    return;
+  end if;
+
+  if v_leave.status <> 'approved' or v_leave.start_date <= v_today then
+    raise exception 'Only pending or upcoming approved leaves can be changed';
+  end if;
+
+  if v_leave.change_type is not null then
+    raise exception 'A change to this leave is already awaiting approval';
+  end if;
+
+  update public.leaves
+  set change_type = 'modify',
+      requested_start_date = p_start_date,
+      requested_end_date = p_end_date,
+      change_requested_at = now()
+  where id = p_leave_id;
+
+  perform public.notify_leave_managers(
+    p_leave_id,
+    'Leave Change Requested',
+    format('An employee asked to move their approved leave to %s – %s.',
+      to_char(p_start_date, 'DD Mon YYYY'),
+      to_char(p_end_date, 'DD Mon YYYY'))
+  );
+end;
+$$;
@@ -0,0 +1,268 @@
+-- Advance recoveries catch up and settle on exit.
+--
+-- post_advance_recoveries posted one instalment for the month it ran for,
+-- so a month with no payroll run was simply skipped and the plan ran a month
+-- longer for each one missed. A worker who left kept owing the rest, with no
+-- payroll run left to recover it. Now:
+--
+--   * what is due by a month is the monthly amount times the months since
+--     recovery started, up to the amount; each run posts that less what has
+--     been recovered, so a missed month is caught up in the next;
+--   * for an inactive employee everything still owed is due, as the final
+--     settlement;
+--   * recovery rows carry an entry_date and the 'advance' category, as the
+--     early closure does.
+--
+-- advance_eligibility caps a new request at the share of the balance left
+-- once open advances are recovered, not of the whole balance.
+
+/* ===================== RECOVERY ===================== */
+
+create or replace function public.post_advance_recoveries(p_month_year date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_month date := date_trunc('month', p_month_year)::date;
+  v_entry_date date := least(
+    (v_month + interval '1 month - 1 day')::date,
+    current_date
+  );
+  v_advance record;
+  v_recovered numeric;
+  v_due numeric;
+begin
+  for v_advance in
+    select
+      a.id, a.user_id, a.amount, a.monthly_amount, a.recovery_start,
+      coalesce(e.active, true) as active
+    from public.advance_requests a
+    left join public.employees e on e.user_id = a.user_id
+    where a.status = 'approved'
+      and a.closed_at is null
+      and a.recovery_start <= v_month
+      and not exists (
+        select 1 from public.money_ledger l
+        where l.reference_id = a.id
+          and l.month_year = v_month
+          and l.reason like 'Advance recovery%'
+      )
+    for update of a
+  loop
+    v_recovered := public.advance_recovered(v_advance.id);
+
+    v_due := case
+      when not v_advance.active then v_advance.amount
+      else least(
+        v_advance.amount,
+        v_advance.monthly_amount * (
+          (extract(year from age(v_month, v_advance.recovery_start)) * 12
+            + extract(month from age(v_month, v_advance.recovery_start)))::integer + 1
+        )
+      )
+    end - v_recovered;
+
+    if v_due > 0 then
+      insert into public.money_ledger (
+        emp_user_id, amount, type, reason, category, month_year, entry_date,
+        reference_id, created_by
+      )
+      values (
+        v_advance.user_id,
+        v_due,
+        'debit',
+        case
+          when v_advance.active then 'Advance recovery'
+          else 'Advance recovery (final settlement)'
+        end,
+        'advance',
+        v_month,
+        v_entry_date,
+        v_advance.id,
+        auth.uid()
+      );
+
+      v_recovered := v_recovered + v_due;
+    end if;
+
+    if v_advance.amount - v_recovered <= 0 then
+      update public.advance_requests
+      set closed_at = now()
+      where id = v_advance.id;
+    end if;
+  end loop;
+end;
+$$;
+
+-- Same as before, with the entry date and category set
+create or replace function public.close_advance_early(p_advance_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_advance public.advance_requests;
+  v_month date := date_trunc('month', current_date)::date;
+  v_due numeric;
+begin
+  if not public.has_permission('advances.manage') then
+    raise exception 'You do not have permission to manage advances';
+  end if;
+
+  select * into v_advance
+  from public.advance_requests
+  where id = p_advance_id
+  for update;
+
+  if not found or v_advance.status is distinct from 'approved' then
+    raise exception 'Only an approved advance can be closed';
+  end if;
+
+  if v_advance.closed_at is not null then
+    raise exception 'This advance is already closed';
+  end if;
+
+  v_due := v_advance.amount - public.advance_recovered(p_advance_id);
+
+  if v_due > 0 then
+    insert into public.money_ledger (
+      emp_user_id, amount, type, reason, category, month_year, entry_date,
+      reference_id, created_by
+    )
+    values (
+      v_advance.user_id,
+      v_due,
+      'debit',
+      'Advance recovery (early closure)',
+      'advance',
+      v_month,
+      current_date,
+      p_advance_id,
+      auth.uid()
+    );
+  end if;
+
+  update public.advance_requests
+  set closed_at = now()
+  where id = p_advance_id;
+end;
+$$;
+
+/* ===================== ELIGIBILITY ===================== */
+
+-- Same as before, with max_amount taken from the balance left after what is
+-- still owed on open advances
+create or replace function public.advance_eligibility(p_emp_user_id uuid)
+returns table (
+  balance numeric,
+  outstanding numeric,
+  max_amount numeric,
+  blocked_reason text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_policy public.advance_policy;
+  v_joined date;
+  v_month date := date_trunc('month', current_date)::date;
+  v_count integer;
+begin
+  select * into v_policy from public.advance_policy limit 1;
+
+  select coalesce(b.balance, 0) into balance
+  from public.get_employee_ledger_balance(p_emp_user_id, v_month) b;
+
+  balance := coalesce(balance, 0);
+
+  select coalesce(sum(
+    greatest(a.amount - public.advance_recovered(a.id), 0)
+  ), 0) into outstanding
+  from public.advance_requests a
+  where a.user_id = p_emp_user_id
+    and a.status = 'approved'
+    and a.closed_at is null;
+
+  max_amount := case
+    when v_policy.max_balance_percent is null then null
+    else greatest(floor((balance - outstanding) * v_policy.max_balance_percent / 100), 0)
+  end;
+
+  select e.created_at::date into v_joined
+  from public.employees e
+  where e.user_id = p_emp_user_id;
+
+  select count(*) into v_count
+  from public.advance_requests a
+  where a.user_id = p_emp_user_id
+    and a.created_at >= v_month;
+
+  blocked_reason := case
+    when v_policy.min_tenure_days is not null
+      and v_joined + v_policy.min_tenure_days > current_date
+      then format('Advances are available after %s days of service, from %s',
+        v_policy.min_tenure_days,
+        to_char(v_joined + v_policy.min_tenure_days, 'DD Mon YYYY'))
+    when v_policy.single_open_advance and exists (
+        select 1 from public.advance_requests a
+        where a.user_id = p_emp_user_id
+          and (
+            a.status = 'pending'
+            or (a.status = 'approved' and a.closed_at is null)
+          )
+      )
+      then 'You already have an advance that is pending or still being recovered'
+    when v_policy.max_requests_per_month is not null
+      and v_count >= v_policy.max_requests_per_month
+      then format('Only %s advance request(s) can be made in a month',
+        v_policy.max_requests_per_month)
+    when max_amount is not null and max_amount <= 0
+      then 'You have no earned balance to take an advance against this month'
+  end;
+
+  return next;
+end;
+$$;
+
+/* ===================== REQUEST CHECK ===================== */
+
+-- Same as before, with the refusal naming what is still owed
+create or replace function public.check_advance_request()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_check record;
+begin
+  if new.amount is null or new.amount <= 0 then
+    raise exception 'Enter an amount more than zero';
+  end if;
+
+  select * into v_check from public.advance_eligibility(new.user_id);
+
+  if v_check.blocked_reason is not null then
+    raise exception '%', v_check.blocked_reason;
+  end if;
+
+  if v_check.max_amount is not null and new.amount > v_check.max_amount then
+    raise exception '%', format(
+      'The most you can request now is ₹%s (%s%% of your ₹%s balance less ₹%s still owed)',
+      v_check.max_amount,
+      (select max_balance_percent from public.advance_policy limit 1),
+      v_check.balance,
+      v_check.outstanding
+    );
+  end if;
+
+  new.status := 'pending';
+
+  return new;
+end;
+$$;
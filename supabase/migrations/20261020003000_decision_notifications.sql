@@ -0,0 +1,352 @@
+-- Employees told of every decision by the server.
+--
+-- Admin leave and advance decisions already notify the employee in the same
+-- transaction. Supervisor leave decisions and correction decisions still
+-- relied on the screen inserting the notification afterwards, so a closed
+-- tab or a failed insert left the employee uninformed, and supervisors
+-- needed an insert policy on notifications for it. These functions now
+-- notify too, the policy is dropped, and the screens no longer insert.
+--
+-- Also:
+--
+--   * approve_leave refuses a leave that is neither pending nor approved,
+--     as reject_leave does, instead of leaving it to the deduction;
+--   * approve_advance keeps its original checks, order and message, with
+--     only the early return for an advance that is already approved.
+
+drop policy if exists "Supervisors notify crew" on public.notifications;
+
+/* ===================== CREW LEAVES ===================== */
+
+create or replace function public.approve_crew_leave(p_leave_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+begin
+  select * into v_leave from public.leaves where id = p_leave_id;
+
+  if not found then
+    raise exception 'Leave not found';
+  end if;
+
+  if not public.supervises_employee(v_leave.emp_user_id) then
+    raise exception 'This leave is not from your crew';
+  end if;
+
+  if v_leave.status <> 'pending' then
+    raise exception 'Leave has already been %', v_leave.status;
+  end if;
+
+  perform public.approve_leave_with_deduction(p_leave_id);
+
+  perform public.notify_leave_employee(
+    p_leave_id,
+    'Leave Approved',
+    format('Your leave from %s to %s has been approved by your supervisor.',
+      to_char(v_leave.start_date, 'DD Mon YYYY'),
+      to_char(v_leave.end_date, 'DD Mon YYYY'))
+  );
+end;
+$$;
+
+create or replace function public.reject_crew_leave(p_leave_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+begin
+  select * into v_leave from public.leaves where id = p_leave_id;
+
+  if not found then
+    raise exception 'Leave not found';
+  end if;
+
+  if not public.supervises_employee(v_leave.emp_user_id) then
+    raise exception 'This leave is not from your crew';
+  end if;
+
+  update public.leaves
+  set status = 'rejected',
+      decided_at = now(),
+      decided_by = auth.uid()
+  where id = p_leave_id
+    and status = 'pending';
+
+  if not found then
+    raise exception 'Leave is not pending';
+  end if;
+
+  perform public.notify_leave_employee(
+    p_leave_id,
+    'Leave Rejected',
+    format('Your leave from %s to %s has been rejected by your supervisor.',
+      to_char(v_leave.start_date, 'DD Mon YYYY'),
+      to_char(v_leave.end_date, 'DD Mon YYYY'))
+  );
+end;
+$$;
+
+/* ===================== ADMIN LEAVES ===================== */
+
+create or replace function public.approve_leave(p_leave_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+begin
+  if not public.has_permission('leaves.manage') then
+    raise exception 'You do not have permission to approve leaves';
+  end if;
+
+  select * into v_leave
+  from public.leaves
+  where id = p_leave_id
+  for update;
+
+  if not found then
+    raise exception 'Leave not found';
+  end if;
+
+  if v_leave.status = 'approved' then
+    return;
+  end if;
+
+  if v_leave.status <> 'pending' then
+    raise exception 'Leave has already been %', v_leave.status;
+  end if;
+
+  perform public.approve_leave_with_deduction(p_leave_id);
+
+  perform public.notify_leave_employee(
+    p_leave_id,
+    'Leave Approved',
+    format('Your leave from %s to %s has been approved.',
+      to_char(v_leave.start_date, 'DD Mon YYYY'),
+      to_char(v_leave.end_date, 'DD Mon YYYY'))
+  );
+end;
+$$;
+
+/* ===================== CORRECTIONS ===================== */
+
+-- Same as before, with the employee told in the same transaction
+create or replace function public.approve_regularization(p_request_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_req public.attendance_regularizations;
+  v_old public.attendance;
+  v_row public.attendance;
+  v_audit_id uuid := gen_random_uuid();
+begin
+  select * into v_req
+  from public.attendance_regularizations
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'Request not found';
+  end if;
+
+  if not (public.has_permission('attendance.manage') or public.supervises_employee(v_req.emp_user_id)) then
+    raise exception 'You do not have permission to approve this request';
+  end if;
+
+  if v_req.status <> 'pending' then
+    raise exception 'Request has already been %', v_req.status;
+  end if;
+
+  select * into v_old
+  from public.attendance
+  where emp_user_id = v_req.emp_user_id and day = v_req.day
+  for update;
+
+  if v_old.id is not null then
+    update public.attendance
+    set checkin_at = v_req.proposed_checkin,
+        checkout_at = coalesce(v_req.proposed_checkout, checkout_at),
+        checkout_source = case
+          when v_req.proposed_checkout is not null then 'regularized'
+          else checkout_source
+        end
+    where id = v_old.id
+    returning * into v_row;
+  else
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkout_at,
+      checkin_source, checkout_source
+    )
+    select
+      v_req.emp_user_id, e.site_id, v_req.day,
+      v_req.proposed_checkin, v_req.proposed_checkout,
+      'regularized',
+      case when v_req.proposed_checkout is not null then 'regularized' end
+    from public.employees e
+    where e.user_id = v_req.emp_user_id
+    returning * into v_row;
+  end if;
+
+  v_row := public.refresh_attendance_derived(v_row.id);
+
+  perform public.write_attendance_audit(
+    v_audit_id, v_old, v_row,
+    format('Correction approved: %s', v_req.reason),
+    public.recompute_day_pay(v_old, v_row, v_audit_id)
+  );
+
+  update public.attendance_regularizations
+  set status = 'approved',
+      attendance_id = v_row.id,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = v_req.id;
+
+  insert into public.notifications (user_id, title, body)
+  values (
+    v_req.emp_user_id,
+    'Attendance Corrected',
+    format('Your attendance for %s has been corrected.',
+      to_char(v_req.day, 'DD Mon YYYY'))
+  );
+end;
+$$;
+
+create or replace function public.reject_regularization(
+  p_request_id uuid,
+  p_note text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_req public.attendance_regularizations;
+begin
+  select * into v_req
+  from public.attendance_regularizations
+  where id = p_request_id;
+
+  if not (public.has_permission('attendance.manage') or public.supervises_employee(v_req.emp_user_id)) then
+    raise exception 'You do not have permission to reject this request';
+  end if;
+
+  update public.attendance_regularizations
+  set status = 'rejected',
+      admin_note = nullif(trim(p_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = p_request_id
+    and status = 'pending';
+
+  if not found then
+    raise exception 'Request is not pending';
+  end if;
+
+  insert into public.notifications (user_id, title, body)
+  values (
+    v_req.emp_user_id,
+    'Regularization Rejected',
+    concat_ws(' ',
+      format('Your correction request for %s was rejected.',
+        to_char(v_req.day, 'DD Mon YYYY')),
+      nullif(trim(p_note), ''))
+  );
+end;
+$$;
+
+/* ===================== ADVANCES ===================== */
+
+create or replace function public.approve_advance(
+  p_advance_id uuid,
+  p_instalments integer default null,
+  p_monthly_amount numeric default null,
+  p_recovery_start date default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_advance public.advance_requests;
+  v_monthly numeric;
+  v_start date := date_trunc('month', coalesce(p_recovery_start, current_date))::date;
+begin
+  if not public.has_permission('advances.manage') then
+    raise exception 'You do not have permission to approve advances';
+  end if;
+
+  if (p_instalments is null) = (p_monthly_amount is null) then
+    raise exception 'Choose either a number of instalments or a monthly amount';
+  end if;
+
+  select * into v_advance
+  from public.advance_requests
+  where id = p_advance_id
+  for update;
+
+  if not found then
+    raise exception 'Advance request not found';
+  end if;
+
+  if v_advance.status = 'approved' then
+    return;
+  end if;
+
+  if v_advance.status is distinct from 'pending' then
+    raise exception 'This advance request has already been decided';
+  end if;
+
+  if p_instalments is not null then
+    if p_instalments < 1 or p_instalments > 24 then
+      raise exception 'Instalments must be between 1 and 24';
+    end if;
+
+    -- Rounded up to the paisa so the last instalment is the smaller one
+    v_monthly := ceil(v_advance.amount * 100 / p_instalments) / 100;
+  else
+    if p_monthly_amount <= 0 then
+      raise exception 'The monthly amount must be more than zero';
+    end if;
+
+    v_monthly := least(p_monthly_amount, v_advance.amount);
+  end if;
+
+  if public.is_payroll_locked(v_start) then
+    raise exception 'Payroll for % is locked; start recovery in a later month',
+      to_char(v_start, 'Mon YYYY');
+  end if;
+
+  update public.advance_requests
+  set status = 'approved',
+      monthly_amount = v_monthly,
+      instalments = ceil(v_advance.amount / v_monthly)::integer,
+      recovery_start = v_start,
+      approved_by = auth.uid(),
+      approved_at = now()
+  where id = p_advance_id;
+
+  insert into public.notifications (user_id, title, body, meta)
+  values (
+    v_advance.user_id,
+    'Advance Approved',
+    format('Your ₹%s advance has been approved. ₹%s will be recovered each month from %s.',
+      v_advance.amount, v_monthly, to_char(v_start, 'Mon YYYY')),
+    jsonb_build_object('type', 'advance', 'source_id', p_advance_id, 'label', 'Advance Approved')
+  );
+end;
+$$;
@@ -0,0 +1,33 @@
+-- Access columns on profiles only change through the access functions.
+--
+-- An owner may update their own profile row (name, avatar), and RLS cannot
+-- tell which columns an update touches. A template-limited admin could
+-- therefore clear their own role_template_id and get full access, or any
+-- user could raise their own role. A trigger now refuses changes to `role`
+-- and `role_template_id` made directly by a signed-in user; the security
+-- definer functions that own those changes (set_admin_role_template,
+-- set_site_supervisor) run as the table owner and keep their own checks,
+-- including "You cannot change your own access".
+
+create or replace function public.guard_profile_access()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user in ('anon', 'authenticated')
+    and (
+      new.role is distinct from old.role
+      or new.role_template_id is distinct from old.role_template_id
+    ) then
+    raise exception 'Roles and admin access can only be changed by a permission manager';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_access on public.profiles;
+create trigger profiles_guard_access
+  before update on public.profiles
+  for each row execute function public.guard_profile_access();
@@ -0,0 +1,37 @@
+-- Pay is its own permission.
+--
+-- employees.manage covered editing an employee's daily wage along with
+-- their site and designation, so the seeded HR template could change pay.
+-- Wages now need `employees.pay` as well. Admins without a template keep
+-- full access; the HR template does not get the new key.
+
+insert into public.permissions (key, label, description) values
+  ('employees.pay', 'Manage pay', 'Set and change employee wages')
+on conflict (key) do nothing;
+
+update public.permissions
+set description = 'Add and edit employees and supervisor assignments'
+where key = 'employees.manage';
+
+-- RLS cannot compare old and new values, so the wage is checked here
+create or replace function public.guard_employee_pay()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user in ('anon', 'authenticated')
+    and (tg_op = 'INSERT' or new.daily_wage is distinct from old.daily_wage)
+    and new.daily_wage is not null
+    and not public.has_permission('employees.pay') then
+    raise exception 'You do not have permission to change pay';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists employees_guard_pay on public.employees;
+create trigger employees_guard_pay
+  before insert or update of daily_wage on public.employees
+  for each row execute function public.guard_employee_pay();
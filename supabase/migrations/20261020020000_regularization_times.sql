@@ -0,0 +1,131 @@
+-- Correction times must fall on the corrected day.
+--
+-- Nothing tied proposed_checkin and proposed_checkout to the request's day,
+-- so a request could span several days, and approving it paid a full day
+-- plus a very large overtime credit. Like admin_save_attendance, both times
+-- must now fall on `day` in the employee's policy timezone (which also keeps
+-- them under a day apart). A trigger checks new and edited requests;
+-- approve_regularization checks again for requests made before it.
+--
+-- Approving onto an existing row now also marks its check-in
+-- 'regularized', as creating a row already did.
+
+create or replace function public.check_regularization_times()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_timezone text :=
+    (public.effective_attendance_policy(new.emp_user_id)).timezone;
+begin
+  if (new.proposed_checkin at time zone v_timezone)::date <> new.day
+    or (new.proposed_checkout at time zone v_timezone)::date <> new.day then
+    raise exception 'Check-in and check-out must fall on %', to_char(new.day, 'DD Mon YYYY');
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists attendance_regularizations_check_times
+  on public.attendance_regularizations;
+create trigger attendance_regularizations_check_times
+  before insert or update of day, proposed_checkin, proposed_checkout
+  on public.attendance_regularizations
+  for each row execute function public.check_regularization_times();
+
+create or replace function public.approve_regularization(p_request_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_req public.attendance_regularizations;
+  v_old public.attendance;
+  v_row public.attendance;
+  v_audit_id uuid := gen_random_uuid();
+  v_timezone text;
+begin
+  select * into v_req
+  from public.attendance_regularizations
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'Request not found';
+  end if;
+
+  if not (public.has_permission('attendance.manage') or public.supervises_employee(v_req.emp_user_id)) then
+    raise exception 'You do not have permission to approve this request';
+  end if;
+
+  if v_req.status <> 'pending' then
+    raise exception 'Request has already been %', v_req.status;
+  end if;
+
+  v_timezone := (public.effective_attendance_policy(v_req.emp_user_id)).timezone;
+
+  if (v_req.proposed_checkin at time zone v_timezone)::date <> v_req.day
+    or (v_req.proposed_checkout at time zone v_timezone)::date <> v_req.day then
+    raise exception 'Check-in and check-out must fall on %; reject this request',
+      to_char(v_req.day, 'DD Mon YYYY');
+  end if;
+
+  select * into v_old
+  from public.attendance
+  where emp_user_id = v_req.emp_user_id and day = v_req.day
+  for update;
+
+  if v_old.id is not null then
+    update public.attendance
+    set checkin_at = v_req.proposed_checkin,
+        checkin_source = 'regularized',
+        checkout_at = coalesce(v_req.proposed_checkout, checkout_at),
+        checkout_source = case
+          when v_req.proposed_checkout is not null then 'regularized'
+          else checkout_source
+        end
+    where id = v_old.id
+    returning * into v_row;
+  else
+    insert into public.attendance (
+      emp_user_id, site_id, day, checkin_at, checkout_at,
+      checkin_source, checkout_source
+    )
+    select
+      v_req.emp_user_id, e.site_id, v_req.day,
+      v_req.proposed_checkin, v_req.proposed_checkout,
+      'regularized',
+      case when v_req.proposed_checkout is not null then 'regularized' end
+    from public.employees e
+    where e.user_id = v_req.emp_user_id
+    returning * into v_row;
+  end if;
+
+  v_row := public.refresh_attendance_derived(v_row.id);
+
+  perform public.write_attendance_audit(
+    v_audit_id, v_old, v_row,
+    format('Correction approved: %s', v_req.reason),
+    public.recompute_day_pay(v_old, v_row, v_audit_id)
+  );
+
+  update public.attendance_regularizations
+  set status = 'approved',
+      attendance_id = v_row.id,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = v_req.id;
+
+  insert into public.notifications (user_id, title, body)
+  values (
+    v_req.emp_user_id,
+    'Attendance Corrected',
+    format('Your attendance for %s has been corrected.',
+      to_char(v_req.day, 'DD Mon YYYY'))
+  );
+end;
+$$;
@@ -0,0 +1,263 @@
+-- Overtime credits are reversed, not deleted.
+--
+-- Rejecting overtime, changing a day's times and removing a day deleted the
+-- day's overtime credit, found by a reason starting 'Overtime '. That hung
+-- on free text, erased the entry from the ledger's history, and in a locked
+-- month the lock trigger turned the delete into a reversal row nothing
+-- pointed back to. reverse_overtime_credits now posts one debit per
+-- unreversed 'overtime' credit of the day, linked through `reverses_id`,
+-- and every path uses it. approve_overtime sets the category itself.
+
+/* ===================== HELPER ===================== */
+
+-- Reverses whatever overtime is still credited for the row. Returns the
+-- amount taken back.
+create or replace function public.reverse_overtime_credits(
+  p_attendance_id uuid,
+  p_why text
+)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_total numeric;
+begin
+  with reversed as (
+    insert into public.money_ledger (
+      emp_user_id, amount, type, reason, category, month_year, entry_date,
+      reference_id, reverses_id, created_by
+    )
+    select
+      l.emp_user_id,
+      l.amount,
+      'debit'::public.ledger_type,
+      format('Overtime reversed (%s)', p_why),
+      'overtime',
+      l.month_year,
+      l.entry_date,
+      l.reference_id,
+      l.id,
+      auth.uid()
+    from public.money_ledger l
+    where l.reference_id = p_attendance_id
+      and l.category = 'overtime'
+      and l.type = 'credit'
+      and l.reverses_id is null
+      and not exists (
+        select 1 from public.money_ledger r where r.reverses_id = l.id
+      )
+    returning amount
+  )
+  select coalesce(sum(amount), 0) into v_total from reversed;
+
+  return v_total;
+end;
+$$;
+
+revoke all on function public.reverse_overtime_credits(uuid, text)
+  from public, anon, authenticated;
+
+/* ===================== REVIEW ===================== */
+
+create or replace function public.approve_overtime(p_attendance_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.attendance;
+  v_policy public.attendance_policies;
+  v_wage numeric;
+begin
+  if not public.has_permission('attendance.manage') then
+    raise exception 'You do not have permission to approve overtime';
+  end if;
+
+  select * into v_row
+  from public.attendance
+  where id = p_attendance_id
+  for update;
+
+  if not found then
+    raise exception 'Attendance record not found';
+  end if;
+
+  if v_row.overtime_minutes <= 0 then
+    raise exception 'No overtime recorded for this day';
+  end if;
+
+  if v_row.overtime_status = 'approved' then
+    return;
+  end if;
+
+  v_policy := public.effective_attendance_policy(v_row.emp_user_id, v_row.site_id);
+
+  select coalesce(daily_wage, 0) into v_wage
+  from public.employees
+  where user_id = v_row.emp_user_id;
+
+  update public.attendance
+  set overtime_status = 'approved',
+      overtime_reviewed_by = auth.uid(),
+      overtime_reviewed_at = now()
+  where id = v_row.id;
+
+  insert into public.money_ledger (
+    emp_user_id, amount, type, reason, category, month_year, entry_date,
+    reference_id, created_by
+  )
+  values (
+    v_row.emp_user_id,
+    round(
+      v_row.overtime_minutes / 60.0 / v_policy.standard_shift_hours
+        * coalesce(v_wage, 0) * v_policy.overtime_multiplier,
+      2
+    ),
+    'credit',
+    format('Overtime %sh %sm (x%s)',
+      v_row.overtime_minutes / 60, v_row.overtime_minutes % 60,
+      v_policy.overtime_multiplier),
+    'overtime',
+    date_trunc('month', v_row.day)::date,
+    v_row.day,
+    v_row.id,
+    auth.uid()
+  );
+end;
+$$;
+
+create or replace function public.reject_overtime(p_attendance_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('attendance.manage') then
+    raise exception 'You do not have permission to reject overtime';
+  end if;
+
+  update public.attendance
+  set overtime_status = 'rejected',
+      overtime_reviewed_by = auth.uid(),
+      overtime_reviewed_at = now()
+  where id = p_attendance_id
+    and overtime_minutes > 0;
+
+  if not found then
+    raise exception 'No overtime recorded for this day';
+  end if;
+
+  perform public.reverse_overtime_credits(p_attendance_id, 'rejected');
+end;
+$$;
+
+/* ===================== EDITS ===================== */
+
+-- Same as before, reversing rather than deleting the overtime credit
+create or replace function public.refresh_attendance_derived(p_attendance_id uuid)
+returns public.attendance
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.attendance;
+  v_policy public.attendance_policies;
+  v_overtime integer;
+  v_old_status text;
+  v_old_late integer;
+begin
+  select * into v_row from public.attendance where id = p_attendance_id;
+  if not found then
+    return null;
+  end if;
+
+  v_policy := public.effective_attendance_policy(v_row.emp_user_id, v_row.site_id);
+
+  v_overtime := public.policy_overtime_minutes(
+    v_policy, v_row.checkin_at, v_row.checkout_at
+  );
+  v_old_status := v_row.overtime_status;
+  v_old_late := v_row.late_minutes;
+
+  update public.attendance
+  set attendance_type = public.policy_attendance_type(
+        v_policy, v_row.checkin_at, v_row.checkout_at
+      ),
+      late_minutes = public.policy_late_minutes(v_policy, v_row.checkin_at),
+      early_leave_minutes = public.policy_early_leave_minutes(v_policy, v_row.checkout_at),
+      overtime_minutes = v_overtime,
+      -- Keep an earlier review only if the minutes did not change
+      overtime_status = case
+        when v_overtime = 0 then null
+        when v_overtime = v_row.overtime_minutes then coalesce(v_row.overtime_status, 'pending')
+        else 'pending'
+      end,
+      updated_at = now()
+  where id = v_row.id
+  returning * into v_row;
+
+  -- An approved overtime credit no longer matches the new times
+  if v_old_status = 'approved' and v_row.overtime_status is distinct from 'approved' then
+    perform public.reverse_overtime_credits(v_row.id, 'times changed');
+  end if;
+
+  if (v_old_late > 0) <> (v_row.late_minutes > 0) then
+    perform public.recompute_late_penalties(v_row.emp_user_id, v_row.day);
+  end if;
+
+  return v_row;
+end;
+$$;
+
+-- Same as before, reversing rather than deleting the overtime credit
+create or replace function public.admin_delete_attendance(
+  p_attendance_id uuid,
+  p_reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old public.attendance;
+  v_audit_id uuid := gen_random_uuid();
+begin
+  if not public.has_permission('attendance.manage') then
+    raise exception 'You do not have permission to edit attendance';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'A reason is required';
+  end if;
+
+  select * into v_old
+  from public.attendance
+  where id = p_attendance_id
+  for update;
+
+  if not found then
+    raise exception 'Attendance record not found';
+  end if;
+
+  if v_old.day >= (now() at time zone
+    (public.effective_attendance_policy(v_old.emp_user_id, v_old.site_id)).timezone)::date then
+    raise exception 'Only past days can be edited; today is settled when it ends';
+  end if;
+
+  delete from public.attendance where id = v_old.id;
+
+  -- Overtime for a day that no longer exists is not owed
+  perform public.reverse_overtime_credits(v_old.id, 'attendance removed');
+
+  perform public.write_attendance_audit(
+    v_audit_id, v_old, null, p_reason,
+    public.recompute_day_pay(v_old, null, v_audit_id)
+  );
+end;
+$$;
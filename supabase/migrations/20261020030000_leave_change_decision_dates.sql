@@ -0,0 +1,114 @@
+-- Leave changes re-checked when they are decided.
+--
+-- cancel_leave and modify_leave only allow a change to a leave that has not
+-- started, but checked it when the request was made. Approved later, a
+-- cancellation could credit back the unpaid-leave deductions for days the
+-- employee actually took off, and a date change could move the leave into
+-- the past. decide_leave_change now refuses to approve once the leave has
+-- started, or when the requested start is no longer after today, on the
+-- employee's policy day. Rejecting stays possible at any time.
+
+create or replace function public.decide_leave_change(
+  p_leave_id uuid,
+  p_approve boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave public.leaves;
+  v_reversed numeric;
+  v_what text;
+  v_today date;
+begin
+  if not public.has_permission('leaves.manage') then
+    raise exception 'You do not have permission to manage leaves';
+  end if;
+
+  select * into v_leave
+  from public.leaves
+  where id = p_leave_id
+  for update;
+
+  if not found then
+    raise exception 'Leave not found';
+  end if;
+
+  if v_leave.change_type is null then
+    raise exception 'This leave has no pending change';
+  end if;
+
+  v_what := case when v_leave.change_type = 'cancel' then 'cancellation' else 'date change' end;
+
+  if not p_approve then
+    update public.leaves
+    set change_type = null,
+        requested_start_date = null,
+        requested_end_date = null,
+        change_requested_at = null
+    where id = p_leave_id;
+
+    perform public.notify_leave_employee(
+      p_leave_id,
+      'Leave Change Rejected',
+      format('Your %s request for the leave from %s has been rejected.',
+        v_what, to_char(v_leave.start_date, 'DD Mon YYYY'))
+    );
+    return;
+  end if;
+
+  v_today := (now() at time zone
+    (public.effective_attendance_policy(v_leave.emp_user_id)).timezone)::date;
+
+  if v_leave.start_date <= v_today then
+    raise exception 'This leave has already started; reject the % instead', v_what;
+  end if;
+
+  if v_leave.change_type = 'modify' and v_leave.requested_start_date <= v_today then
+    raise exception 'The requested dates are no longer in the future; reject the change instead';
+  end if;
+
+  v_reversed := public.reverse_leave_deductions(p_leave_id);
+
+  if v_leave.change_type = 'cancel' then
+    update public.leaves
+    set status = 'cancelled',
+        change_type = null,
+        change_requested_at = null,
+        decided_at = now(),
+        decided_by = auth.uid()
+    where id = p_leave_id;
+  else
+    update public.leaves
+    set start_date = v_leave.requested_start_date,
+        end_date = v_leave.requested_end_date,
+        status = 'pending',
+        change_type = null,
+        requested_start_date = null,
+        requested_end_date = null,
+        change_requested_at = null
+    where id = p_leave_id;
+
+    perform public.approve_leave_with_deduction(p_leave_id);
+  end if;
+
+  if v_reversed > 0 then
+    perform public.notify_leave_managers(
+      p_leave_id,
+      'Leave Deduction Reversed',
+      format('₹%s of unpaid-leave deductions was credited back after a %s.',
+        v_reversed,
+        case when v_leave.change_type = 'cancel' then 'cancellation' else 'change' end)
+    );
+  end if;
+
+  perform public.notify_leave_employee(
+    p_leave_id,
+    'Leave Change Approved',
+    format('Your %s request for the leave from %s has been approved.',
+      v_what, to_char(v_leave.start_date, 'DD Mon YYYY'))
+  );
+end;
+$$;
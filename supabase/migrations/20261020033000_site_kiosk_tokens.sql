@@ -0,0 +1,136 @@
+-- Kiosk links that can only show their own site's QR.
+--
+-- `get_site_qr_token` needs an admin session, so a kiosk tablet left at a
+-- site was logged in as an admin. A site manager now issues a kiosk link
+-- instead: `issue_site_kiosk_token` returns a random token once (only its
+-- hash is stored) and `get_kiosk_qr_token` trades it, without any session,
+-- for the live code of that one site. Regenerating the site's QR secret
+-- also revokes its kiosk links, so a lost tablet stops working.
+
+create table if not exists public.site_kiosk_tokens (
+  id uuid primary key default gen_random_uuid(),
+  site_id uuid not null references public.sites (id) on delete cascade,
+  token_hash text not null unique,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists site_kiosk_tokens_site_idx
+  on public.site_kiosk_tokens (site_id);
+
+-- Read and written only by the functions below
+alter table public.site_kiosk_tokens enable row level security;
+
+/* ===================== ISSUE ===================== */
+
+create or replace function public.issue_site_kiosk_token(p_site_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_token text := encode(extensions.gen_random_bytes(32), 'hex');
+begin
+  if not public.has_permission('sites.manage') then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  if not exists (
+    select 1 from public.sites
+    where id = p_site_id and coalesce(is_active, true)
+  ) then
+    raise exception 'SITE_NOT_FOUND';
+  end if;
+
+  insert into public.site_kiosk_tokens (site_id, token_hash, created_by)
+  values (p_site_id, encode(extensions.digest(v_token, 'sha256'), 'hex'), auth.uid());
+
+  return v_token;
+end;
+$$;
+
+grant execute on function public.issue_site_kiosk_token(uuid) to authenticated;
+
+/* ===================== KIOSK TOKEN ===================== */
+
+-- Same code as get_site_qr_token, plus what the display needs to draw it
+create or replace function public.get_kiosk_qr_token(p_token text)
+returns table (
+  site_id uuid,
+  site_name text,
+  rotation_seconds integer,
+  window_index bigint,
+  signature text,
+  expires_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_site_id uuid;
+  v_site_name text;
+  v_rotation integer;
+  v_window bigint;
+begin
+  update public.site_kiosk_tokens t
+  set last_used_at = now()
+  where t.token_hash = encode(extensions.digest(coalesce(p_token, ''), 'sha256'), 'hex')
+    and t.revoked_at is null
+  returning t.site_id into v_site_id;
+
+  if v_site_id is null then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  select s.name, k.rotation_seconds into v_site_name, v_rotation
+  from public.site_qr_keys k
+  join public.sites s on s.id = k.site_id
+  where k.site_id = v_site_id and coalesce(s.is_active, true);
+
+  if v_rotation is null then
+    raise exception 'SITE_NOT_FOUND';
+  end if;
+
+  v_window := floor(extract(epoch from now()) / v_rotation)::bigint;
+
+  return query
+  select
+    v_site_id,
+    v_site_name,
+    v_rotation,
+    v_window,
+    public.sign_site_qr(v_site_id, v_window),
+    to_timestamp((v_window + 1) * v_rotation);
+end;
+$$;
+
+grant execute on function public.get_kiosk_qr_token(text) to anon, authenticated;
+
+/* ===================== ROTATE ===================== */
+
+-- Same as before, and the site's kiosk links stop working too
+create or replace function public.rotate_site_qr_secret(p_site_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if not public.has_permission('sites.manage') then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  update public.site_qr_keys
+  set secret = encode(extensions.gen_random_bytes(32), 'hex'),
+      rotated_at = now()
+  where site_id = p_site_id;
+
+  update public.site_kiosk_tokens
+  set revoked_at = now()
+  where site_id = p_site_id and revoked_at is null;
+end;
+$$;
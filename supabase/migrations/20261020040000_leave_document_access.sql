@@ -0,0 +1,25 @@
+-- Leave documents: don't cast arbitrary folder names to uuid.
+--
+-- The select policy cast the top folder to uuid for the supervisor check,
+-- and `or` does not guarantee the owner check runs first, so listing any
+-- file outside a user-id folder raised an invalid uuid error. The folder is
+-- now only cast when it looks like a uuid.
+
+drop policy if exists "Leave documents visible to owner and approvers" on storage.objects;
+
+create policy "Leave documents visible to owner and approvers"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'leave-documents'
+    and (
+      (storage.foldername(name))[1] = auth.uid()::text
+      or public.has_permission('leaves.manage')
+      or case
+        when (storage.foldername(name))[1]
+          ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        then public.supervises_employee(((storage.foldername(name))[1])::uuid)
+        else false
+      end
+    )
+  );
@@ -0,0 +1,45 @@
+-- Payroll runs can only be locked once their month is over.
+--
+-- Locking the current month moved every later entry for it (today's pay,
+-- late penalties, approvals) into the next month. A run is now refused
+-- while any attendance policy's local date is still inside its month.
+
+create or replace function public.lock_payroll_run(p_run_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_run public.payroll_runs;
+  v_earliest_today date;
+begin
+  if not public.has_permission('ledger.manage') then
+    raise exception 'You do not have permission to run payroll';
+  end if;
+
+  select * into v_run
+  from public.payroll_runs
+  where id = p_run_id
+  for update;
+
+  if not found or v_run.status <> 'draft' then
+    raise exception 'Only a draft payroll run can be locked';
+  end if;
+
+  select min((now() at time zone p.timezone)::date) into v_earliest_today
+  from public.attendance_policies p;
+
+  if coalesce(v_earliest_today, (now() at time zone 'Asia/Kolkata')::date)
+     < (v_run.month_year + interval '1 month')::date then
+    raise exception 'Payroll for % cannot be locked before the month ends',
+      to_char(v_run.month_year, 'Mon YYYY');
+  end if;
+
+  update public.payroll_runs
+  set status = 'locked',
+      locked_by = auth.uid(),
+      locked_at = now()
+  where id = p_run_id;
+end;
+$$;
@@ -0,0 +1,54 @@
+-- reject_regularization checks the request like approve_regularization does.
+--
+-- It read the request without checking it existed, so a missing id fell
+-- through to the permission check with a null employee, and two reviewers
+-- could race on the same request. It now locks the row and raises
+-- 'Request not found' / 'Request has already been ...' before changing it.
+
+create or replace function public.reject_regularization(
+  p_request_id uuid,
+  p_note text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_req public.attendance_regularizations;
+begin
+  select * into v_req
+  from public.attendance_regularizations
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'Request not found';
+  end if;
+
+  if not (public.has_permission('attendance.manage') or public.supervises_employee(v_req.emp_user_id)) then
+    raise exception 'You do not have permission to reject this request';
+  end if;
+
+  if v_req.status <> 'pending' then
+    raise exception 'Request has already been %', v_req.status;
+  end if;
+
+  update public.attendance_regularizations
+  set status = 'rejected',
+      admin_note = nullif(trim(p_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = p_request_id;
+
+  insert into public.notifications (user_id, title, body)
+  values (
+    v_req.emp_user_id,
+    'Regularization Rejected',
+    concat_ws(' ',
+      format('Your correction request for %s was rejected.',
+        to_char(v_req.day, 'DD Mon YYYY')),
+      nullif(trim(p_note), ''))
+  );
+end;
+$$;